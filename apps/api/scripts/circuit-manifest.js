@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+/**
+ * Check or update the artifact hashes in proofs/manifest.json
+ *
+ * Run:
+ *   yarn circuits:check     - report artifacts whose hash differs
+ *   yarn circuits:update    - write the current hashes into the manifest
+ *
+ * The API refuses to start when a hash differs, so update the manifest in
+ * the same commit as the artifacts. A new circuit version is added to the
+ * manifest by hand (artifact paths, publicSignals, input, and a sampleInput
+ * for the startup warm-up proof when it has a zkey); update then fills in its
+ * hashes.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const root = path.resolve(process.env.CIRCUIT_ARTIFACTS_DIR || path.join(__dirname, '../proofs'));
+const manifestPath = path.join(root, 'manifest.json');
+
+const command = process.argv[2];
+if (!['check', 'update'].includes(command)) {
+  console.log('Usage: node scripts/circuit-manifest.js check|update');
+  process.exit(1);
+}
+
+const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+let changed = 0;
+
+for (const [circuit, entry] of Object.entries(manifest.circuits)) {
+  for (const [version, definition] of Object.entries(entry.versions)) {
+    for (const [kind, artifact] of Object.entries(definition.artifacts)) {
+      const file = path.resolve(root, artifact.path);
+      const sha256 = crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+      if (sha256 === artifact.sha256) continue;
+
+      changed++;
+      console.log(`${circuit}@${version} ${kind}: ${artifact.sha256 || '(none)'} -> ${sha256}`);
+      artifact.sha256 = sha256;
+    }
+  }
+}
+
+if (command === 'update' && changed > 0) {
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`Updated ${changed} hash(es) in ${manifestPath}`);
+} else if (changed > 0) {
+  process.exit(1);
+} else {
+  console.log('All artifact hashes match the manifest');
+}
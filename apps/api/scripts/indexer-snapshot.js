@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+
+/**
+ * Export or import an indexer snapshot through the admin API
+ *
+ * Run:
+ *   yarn snapshot:export <file> [--pool <key>]
+ *   yarn snapshot:import <file> [--pool <key>] [--dry-run]
+ *
+ * Env:
+ *   API_URL        - API base URL (default http://localhost:3000)
+ *   ADMIN_API_KEY  - admin key with the indexer:snapshot scope
+ *
+ * Without --pool the default pool (/indexer) is used. An import is checked
+ * by the API (checksum, program, tree parameters, rebuilt roots) before
+ * anything is replaced; --dry-run stops after the checks.
+ */
+
+const fs = require('fs');
+
+const apiUrl = (process.env.API_URL || 'http://localhost:3000').replace(/\/$/, '');
+const apiKey = process.env.ADMIN_API_KEY;
+
+function usage() {
+  console.log('Usage:');
+  console.log('  node scripts/indexer-snapshot.js export <file> [--pool <key>]');
+  console.log('  node scripts/indexer-snapshot.js import <file> [--pool <key>] [--dry-run]');
+  process.exit(1);
+}
+
+function parseArgs(argv) {
+  const [command, file, ...rest] = argv;
+  if (!['export', 'import'].includes(command) || !file) usage();
+
+  const options = { command, file, pool: null, dryRun: false };
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--pool' && rest[i + 1]) {
+      options.pool = rest[++i];
+    } else if (rest[i] === '--dry-run' && command === 'import') {
+      options.dryRun = true;
+    } else {
+      usage();
+    }
+  }
+  return options;
+}
+
+async function request(path, init = {}) {
+  const response = await fetch(`${apiUrl}${path}`, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${apiKey}` },
+  });
+  const text = await response.text();
+  const body = text ? JSON.parse(text) : null;
+  if (!response.ok) {
+    throw new Error(
+      body?.errorCode
+        ? `${response.status} ${body.errorCode}: ${body.message}${body.details ? ` ${JSON.stringify(body.details)}` : ''}`
+        : `${response.status} ${response.statusText}`,
+    );
+  }
+  return body;
+}
+
+async function main() {
+  const { command, file, pool, dryRun } = parseArgs(process.argv.slice(2));
+  if (!apiKey) {
+    console.error('❌ ADMIN_API_KEY is not set (needs the indexer:snapshot scope)');
+    process.exit(1);
+  }
+
+  const path = `${pool ? `/pools/${encodeURIComponent(pool)}` : ''}/indexer/snapshot`;
+
+  if (command === 'export') {
+    console.log(`📦 Exporting ${apiUrl}${path} ...`);
+    const snapshot = await request(path);
+    fs.writeFileSync(file, JSON.stringify(snapshot));
+    console.log(`✅ Wrote ${file}`);
+    console.log(`   Pool: ${snapshot.pool} (${snapshot.programId} on ${snapshot.network})`);
+    for (const tree of ['shield', 'unshield']) {
+      const state = snapshot.trees[tree];
+      console.log(`   ${tree}: epoch ${state.epoch}, ${state.leafCount} leaves, root ${state.root ?? 'none'}`);
+    }
+    console.log(`   Nullifiers: ${snapshot.nullifiers.length}, pending publications: ${snapshot.publications.length}`);
+    console.log(`   Checksum: ${snapshot.checksum}`);
+    return;
+  }
+
+  const body = fs.readFileSync(file, 'utf8');
+  console.log(`📥 ${dryRun ? 'Checking' : 'Importing'} ${file} into ${apiUrl}${path} ...`);
+  const result = await request(`${path}${dryRun ? '?dryRun=true' : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  });
+  console.log(dryRun ? '✅ Snapshot checks out (nothing was changed)' : '✅ Snapshot imported');
+  console.log(`   Pool: ${result.pool}`);
+  for (const tree of ['shield', 'unshield']) {
+    const state = result.trees[tree];
+    console.log(`   ${tree}: epoch ${state.epoch}, ${state.leafCount} leaves, root ${state.root ?? 'none'}`);
+  }
+  console.log(`   Nullifiers: ${result.nullifiers}, pending publications: ${result.publications}`);
+  console.log(`   Checkpoint: ${result.checkpoint ? `slot ${result.checkpoint.lastSlot}` : 'none (next backfill scans full history)'}`);
+}
+
+main().catch((error) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
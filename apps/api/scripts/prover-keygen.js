@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+
+/**
+ * Generate an Ed25519 key pair for a remote prover node
+ *
+ * Run:
+ *   yarn prover:keygen <nodeId>
+ *
+ * Prints the PROVER_NODES entry for the API and the env for the node.
+ */
+
+const { generateKeyPairSync } = require('crypto');
+
+const nodeId = process.argv[2];
+if (!nodeId || nodeId.includes(':') || nodeId.includes(',')) {
+  console.log('Usage: node scripts/prover-keygen.js <nodeId>');
+  console.log('  nodeId must not contain ":" or ","');
+  process.exit(1);
+}
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const publicDer = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+const privateDer = privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64');
+
+console.log('# API: add to PROVER_NODES (comma-separated)');
+console.log(`${nodeId}:${publicDer}`);
+console.log('');
+console.log('# Prover node env');
+console.log(`PROVER_NODE_ID=${nodeId}`);
+console.log(`PROVER_NODE_PRIVATE_KEY=${privateDer}`);
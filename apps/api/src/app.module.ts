@@ -7,11 +7,19 @@ import { VerifierModule } from './verifier/verifier.module';
 import { WalletModule } from './wallet/wallet.module';
 import { IndexerModule } from './indexer/indexer.module';
 import { NewsletterModule } from './newsletter/newsletter.module';
+import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { CircuitsModule } from './circuits/circuits.module';
 
 import { AppService } from './app.service';
 import { AppController } from './app.controller';
 import { ProofController } from './proof/proof.controller';
 import { ProofService } from './proof/proof.service';
+import { ProofJobsService } from './proof/proof-jobs.service';
+import { ProofWarmupService } from './proof/proof-warmup.service';
+import { ProverPoolService } from './proof/prover-pool.service';
+import { ProverNodesController } from './proof/prover-nodes.controller';
+import { ProverNodesService } from './proof/prover-nodes.service';
 import { VerifierService } from './verifier/verifier.service';
 
 @Module({
@@ -26,8 +34,19 @@ import { VerifierService } from './verifier/verifier.service';
     WalletModule,
     IndexerModule,
     NewsletterModule,
+    HealthModule,
+    MetricsModule,
+    CircuitsModule,
+  ],
+  controllers: [AppController, ProofController, ProverNodesController],
+  providers: [
+    AppService,
+    ProofService,
+    ProofJobsService,
+    ProofWarmupService,
+    ProverPoolService,
+    ProverNodesService,
+    VerifierService,
   ],
-  controllers: [AppController, ProofController],
-  providers: [AppService, ProofService, VerifierService],
 })
 export class AppModule {}
@@ -0,0 +1,133 @@
+/**
+ * proofs/manifest.json - every circuit version the API can load
+ *
+ * Artifact paths are relative to the manifest. `zkey` may be left out for a
+ * version that is only verified, never proved here; a version with a zkey
+ * carries a sampleInput that is proved at startup to warm the provers up.
+ */
+export interface CircuitManifest {
+  manifestVersion: 1;
+  circuits: Partial<Record<ManifestCircuit, ManifestCircuitEntry>>;
+}
+
+export type ManifestCircuit = 'shield' | 'transfer' | 'unshield';
+
+export const MANIFEST_CIRCUITS: ManifestCircuit[] = [
+  'shield',
+  'transfer',
+  'unshield',
+];
+
+export interface ManifestCircuitEntry {
+  default: string; // version used when a request names none
+  versions: Record<string, ManifestCircuitVersion>;
+}
+
+export interface ManifestCircuitVersion {
+  artifacts: {
+    wasm: ManifestArtifact;
+    zkey?: ManifestArtifact;
+    vk: ManifestArtifact;
+  };
+  publicSignals: string[]; // names, in the order the circuit outputs them
+  input: Record<string, CircuitInputField>; // what clients send
+  sampleInput?: Record<string, unknown>; // valid input, required with a zkey
+}
+
+export type ArtifactKind = keyof ManifestCircuitVersion['artifacts'];
+
+export interface ManifestArtifact {
+  path: string;
+  sha256: string; // hex
+}
+
+export interface CircuitInputField {
+  type: 'field' | 'field[]'; // field: decimal or 0x-hex string, or number
+  optional?: boolean;
+}
+
+const VERSION_PATTERN = /^[A-Za-z0-9._-]+$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Check the shape of a parsed manifest; throws on the first problem
+ */
+export function parseCircuitManifest(value: unknown): CircuitManifest {
+  const manifest = value as CircuitManifest;
+  if (!isObject(manifest) || manifest.manifestVersion !== 1) {
+    throw new Error('manifestVersion must be 1');
+  }
+  if (!isObject(manifest.circuits)) {
+    throw new Error('circuits must be an object');
+  }
+
+  for (const [circuit, entry] of Object.entries(manifest.circuits)) {
+    if (!MANIFEST_CIRCUITS.includes(circuit as ManifestCircuit)) {
+      throw new Error(`unknown circuit "${circuit}"`);
+    }
+    if (!isObject(entry) || !isObject(entry.versions)) {
+      throw new Error(`${circuit}: versions must be an object`);
+    }
+    if (!(entry.default in entry.versions)) {
+      throw new Error(
+        `${circuit}: default version "${entry.default}" is not listed`,
+      );
+    }
+    for (const [version, definition] of Object.entries(entry.versions)) {
+      checkVersion(`${circuit}@${version}`, version, definition);
+    }
+  }
+
+  return manifest;
+}
+
+function checkVersion(
+  label: string,
+  version: string,
+  definition: ManifestCircuitVersion,
+): void {
+  if (!VERSION_PATTERN.test(version)) {
+    throw new Error(`${label}: version names may use letters, digits, . _ -`);
+  }
+  if (!isObject(definition) || !isObject(definition.artifacts)) {
+    throw new Error(`${label}: artifacts must be an object`);
+  }
+
+  const { wasm, zkey, vk } = definition.artifacts;
+  for (const [kind, artifact] of Object.entries({ wasm, vk, zkey })) {
+    if (artifact === undefined && kind === 'zkey') continue;
+    if (
+      !isObject(artifact) ||
+      typeof artifact.path !== 'string' ||
+      !artifact.path ||
+      typeof artifact.sha256 !== 'string' ||
+      !SHA256_PATTERN.test(artifact.sha256)
+    ) {
+      throw new Error(
+        `${label}: ${kind} needs a path and a lowercase hex sha256`,
+      );
+    }
+  }
+
+  if (
+    !Array.isArray(definition.publicSignals) ||
+    !definition.publicSignals.every((name) => typeof name === 'string')
+  ) {
+    throw new Error(`${label}: publicSignals must be a list of names`);
+  }
+  if (!isObject(definition.input)) {
+    throw new Error(`${label}: input must be an object`);
+  }
+  for (const [name, field] of Object.entries(definition.input)) {
+    if (!isObject(field) || !['field', 'field[]'].includes(field.type)) {
+      throw new Error(`${label}: input ${name} must be field or field[]`);
+    }
+  }
+  if (zkey && !isObject(definition.sampleInput)) {
+    throw new Error(`${label}: sampleInput is required when a zkey is listed`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
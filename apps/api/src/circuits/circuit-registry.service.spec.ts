@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { CircuitRegistryService } from './circuit-registry.service';
+import { AppException } from '../common/exceptions';
+
+const sha256 = (content: string) =>
+  createHash('sha256').update(content).digest('hex');
+
+describe('CircuitRegistryService', () => {
+  let dir: string;
+
+  // Writes the files and returns a manifest entry for them
+  const artifact = (file: string, content: string) => {
+    mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    writeFileSync(path.join(dir, file), content);
+    return { path: file, sha256: sha256(content) };
+  };
+
+  const version = (name: string, nPublic = 1) => ({
+    artifacts: {
+      wasm: artifact(`shield/${name}/shield.wasm`, `wasm ${name}`),
+      zkey: artifact(`shield/${name}/shield_final.zkey`, `zkey ${name}`),
+      vk: artifact(
+        `shield/${name}/vk.json`,
+        JSON.stringify({ protocol: 'groth16', nPublic, name }),
+      ),
+    },
+    publicSignals: ['commitment'],
+    input: { amount: { type: 'field' } },
+    sampleInput: { amount: '1' },
+  });
+
+  const writeManifest = (circuits: Record<string, unknown>) =>
+    writeFileSync(
+      path.join(dir, 'manifest.json'),
+      JSON.stringify({ manifestVersion: 1, circuits }),
+    );
+
+  const createRegistry = async () => {
+    const registry = new CircuitRegistryService({
+      get: (name: string) =>
+        name === 'CIRCUIT_ARTIFACTS_DIR' ? dir : undefined,
+    } as unknown as ConfigService);
+    await registry.load();
+    return registry;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'circuits-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads several versions side by side and resolves the default', async () => {
+    writeManifest({
+      shield: {
+        default: 'v2',
+        versions: { v1: version('v1'), v2: version('v2') },
+      },
+    });
+
+    const registry = await createRegistry();
+
+    expect(registry.resolve('shield')).toMatchObject({
+      version: 'v2',
+      isDefault: true,
+      vk: { name: 'v2' },
+    });
+    expect(registry.resolve('shield', 'v1')).toMatchObject({
+      version: 'v1',
+      wasmPath: path.join(dir, 'shield/v1/shield.wasm'),
+      sampleInput: { amount: '1' },
+    });
+    expect(registry.resolve('shield', 'v1').zkey!.toString()).toBe('zkey v1');
+    expect(registry.list().circuits).toEqual([
+      expect.objectContaining({
+        circuit: 'shield',
+        default: 'v2',
+        versions: [
+          expect.objectContaining({
+            version: 'v1',
+            default: false,
+            prove: true,
+          }),
+          expect.objectContaining({
+            version: 'v2',
+            default: true,
+            prove: true,
+          }),
+        ],
+      }),
+    ]);
+  });
+
+  it('is not warmed up until every provable version passed', async () => {
+    const v2 = version('v2');
+    writeManifest({
+      shield: {
+        default: 'v1',
+        versions: {
+          v1: version('v1'),
+          v2: {
+            ...v2,
+            artifacts: { wasm: v2.artifacts.wasm, vk: v2.artifacts.vk },
+          },
+        },
+      },
+    });
+    const registry = await createRegistry();
+
+    expect(registry.getWarmup()).toEqual({
+      ready: false,
+      circuits: {
+        'shield@v1': { status: 'pending' },
+        'shield@v2': { status: 'verify-only' },
+      },
+    });
+
+    registry.recordWarmup('shield', 'v1', { status: 'passed', durationMs: 5 });
+    expect(registry.getWarmup().ready).toBe(true);
+  });
+
+  it('requires a sample input for versions with a proving key', async () => {
+    // JSON.stringify leaves it out
+    const v1 = { ...version('v1'), sampleInput: undefined };
+    writeManifest({ shield: { default: 'v1', versions: { v1 } } });
+
+    await expect(createRegistry()).rejects.toThrow(
+      /shield@v1: sampleInput is required/,
+    );
+  });
+
+  it('throws PROOF_CIRCUIT_VERSION_NOT_FOUND for versions not loaded', async () => {
+    writeManifest({
+      shield: { default: 'v1', versions: { v1: version('v1') } },
+    });
+    const registry = await createRegistry();
+
+    for (const [circuit, name] of [
+      ['shield', 'v9'],
+      ['transfer', undefined],
+    ]) {
+      try {
+        registry.resolve(circuit!, name);
+        throw new Error('expected PROOF_CIRCUIT_VERSION_NOT_FOUND');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppException);
+        expect((error as AppException).getErrorCode()).toBe(
+          'PROOF_CIRCUIT_VERSION_NOT_FOUND',
+        );
+      }
+    }
+  });
+
+  it('refuses to load an artifact whose hash differs from the manifest', async () => {
+    const v1 = version('v1');
+    writeManifest({ shield: { default: 'v1', versions: { v1 } } });
+    writeFileSync(path.join(dir, v1.artifacts.zkey.path), 'tampered');
+
+    await expect(createRegistry()).rejects.toThrow(
+      /shield@v1 zkey hash mismatch/,
+    );
+  });
+
+  it('refuses a verification key that disagrees with the signal layout', async () => {
+    writeManifest({
+      shield: { default: 'v1', versions: { v1: version('v1', 2) } },
+    });
+
+    await expect(createRegistry()).rejects.toThrow(
+      /has 2 public signals, manifest lists 1/,
+    );
+  });
+
+  it('checks the artifacts shipped in proofs/', async () => {
+    const registry = new CircuitRegistryService({
+      get: () => undefined,
+    } as unknown as ConfigService);
+
+    await registry.load();
+
+    expect(registry.resolve('shield').zkeyPath).not.toBeNull();
+    expect(registry.resolve('transfer').publicSignals).toHaveLength(4);
+  });
+});
@@ -0,0 +1,280 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  ArtifactKind,
+  CircuitInputField,
+  CircuitManifest,
+  MANIFEST_CIRCUITS,
+  ManifestCircuit,
+  ManifestCircuitVersion,
+  parseCircuitManifest,
+} from './circuit-manifest';
+import { CircuitVersionNotFoundException } from '../common/exceptions';
+
+export const MANIFEST_FILE = 'manifest.json';
+
+const ARTIFACT_KINDS: ArtifactKind[] = ['wasm', 'zkey', 'vk'];
+
+export interface CircuitArtifactInfo {
+  sha256: string;
+  bytes: number;
+}
+
+/**
+ * A circuit version whose artifacts matched the manifest at boot
+ */
+export interface LoadedCircuit {
+  circuit: ManifestCircuit;
+  version: string;
+  isDefault: boolean;
+  wasmPath: string;
+  zkeyPath: string | null; // null: verify only
+  wasm: Buffer; // file contents, read once at boot
+  zkey: Buffer | null;
+  vk: Record<string, any>;
+  publicSignals: string[];
+  input: Record<string, CircuitInputField>;
+  sampleInput: Record<string, unknown> | null;
+  artifacts: Partial<Record<ArtifactKind, CircuitArtifactInfo>>;
+}
+
+/**
+ * Startup warm-up of a circuit version: `pending` until its sample input has
+ * been proved and verified; versions without a zkey are never warmed up
+ */
+export type CircuitWarmupStatus =
+  | 'pending'
+  | 'passed'
+  | 'failed'
+  | 'verify-only';
+
+export interface CircuitWarmup {
+  status: CircuitWarmupStatus;
+  durationMs?: number;
+  error?: string;
+}
+
+interface LoadedCircuitEntry {
+  default: string;
+  versions: Map<string, LoadedCircuit>;
+}
+
+/**
+ * CircuitRegistryService - the circuit artifacts ProofService and
+ * VerifierService work from
+ *
+ * Reads proofs/manifest.json (or the one in CIRCUIT_ARTIFACTS_DIR) at boot and
+ * hashes every artifact it lists; a missing file, a hash that differs from the
+ * manifest or a verification key with the wrong number of public signals
+ * stops the API from starting. The artifacts stay in memory, so proofs don't
+ * go back to disk. Requests pick a version per circuit, falling back to the
+ * manifest's default.
+ *
+ * Also keeps the outcome of each version's startup warm-up, which
+ * ProofWarmupService records and /health/ready reports.
+ */
+@Injectable()
+export class CircuitRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(CircuitRegistryService.name);
+  private readonly root: string;
+  private circuits = new Map<ManifestCircuit, LoadedCircuitEntry>();
+  private warmups = new Map<string, CircuitWarmup>();
+
+  constructor(configService: ConfigService) {
+    // Compiled: dist/apps/api/src/circuits -> dist/apps/api/proofs, where the
+    // build copies the artifacts; under jest: src/circuits -> apps/api/proofs
+    this.root = path.resolve(
+      configService.get<string>('CIRCUIT_ARTIFACTS_DIR') ||
+        path.join(__dirname, '../../proofs'),
+    );
+  }
+
+  async onModuleInit() {
+    await this.load();
+  }
+
+  /**
+   * Read the manifest and check every artifact against it
+   */
+  async load(): Promise<void> {
+    const manifestPath = path.join(this.root, MANIFEST_FILE);
+    let manifest: CircuitManifest;
+    try {
+      manifest = parseCircuitManifest(
+        JSON.parse(await fs.readFile(manifestPath, 'utf-8')),
+      );
+    } catch (error) {
+      throw new Error(
+        `[CircuitRegistry] Invalid ${manifestPath}: ${describe(error)}`,
+      );
+    }
+
+    const circuits = new Map<ManifestCircuit, LoadedCircuitEntry>();
+    for (const circuit of MANIFEST_CIRCUITS) {
+      const entry = manifest.circuits[circuit];
+      if (!entry) continue;
+
+      const versions = new Map<string, LoadedCircuit>();
+      for (const [version, definition] of Object.entries(entry.versions)) {
+        versions.set(
+          version,
+          await this.loadVersion(
+            circuit,
+            version,
+            definition,
+            version === entry.default,
+          ),
+        );
+      }
+      circuits.set(circuit, { default: entry.default, versions });
+    }
+
+    this.circuits = circuits;
+    this.warmups = new Map(
+      this.loaded().map(({ circuit, version, zkey }) => [
+        `${circuit}@${version}`,
+        { status: zkey ? 'pending' : 'verify-only' },
+      ]),
+    );
+    const loaded = this.loaded().map(
+      ({ circuit, version, zkey }) =>
+        `${circuit}@${version}${zkey ? '' : ' (verify only)'}`,
+    );
+    this.logger.log(
+      `[CircuitRegistry] Verified ${loaded.join(', ')} from ${this.root}`,
+    );
+  }
+
+  private async loadVersion(
+    circuit: ManifestCircuit,
+    version: string,
+    definition: ManifestCircuitVersion,
+    isDefault: boolean,
+  ): Promise<LoadedCircuit> {
+    const label = `${circuit}@${version}`;
+    const artifacts: LoadedCircuit['artifacts'] = {};
+    const paths: Partial<Record<ArtifactKind, string>> = {};
+    const contents: Partial<Record<ArtifactKind, Buffer>> = {};
+
+    for (const kind of ARTIFACT_KINDS) {
+      const artifact = definition.artifacts[kind];
+      if (!artifact) continue;
+
+      const artifactPath = path.resolve(this.root, artifact.path);
+      let content: Buffer;
+      try {
+        content = await fs.readFile(artifactPath);
+      } catch (error) {
+        throw new Error(
+          `[CircuitRegistry] ${label} ${kind} unreadable at ${artifactPath}: ${describe(error)}`,
+        );
+      }
+      const sha256 = createHash('sha256').update(content).digest('hex');
+      if (sha256 !== artifact.sha256) {
+        throw new Error(
+          `[CircuitRegistry] ${label} ${kind} hash mismatch at ${artifactPath}: manifest ${artifact.sha256}, file ${sha256}`,
+        );
+      }
+      artifacts[kind] = { sha256, bytes: content.length };
+      paths[kind] = artifactPath;
+      contents[kind] = content;
+    }
+
+    const vk = JSON.parse(contents.vk!.toString('utf-8'));
+    if (vk.nPublic !== definition.publicSignals.length) {
+      throw new Error(
+        `[CircuitRegistry] ${label} verification key has ${vk.nPublic} public signals, manifest lists ${definition.publicSignals.length}`,
+      );
+    }
+
+    return {
+      circuit,
+      version,
+      isDefault,
+      wasmPath: paths.wasm!,
+      zkeyPath: paths.zkey ?? null,
+      wasm: contents.wasm!,
+      zkey: contents.zkey ?? null,
+      vk,
+      publicSignals: definition.publicSignals,
+      input: definition.input,
+      sampleInput: definition.sampleInput ?? null,
+      artifacts,
+    };
+  }
+
+  /**
+   * The requested version of a circuit, or its default; throws
+   * CircuitVersionNotFoundException for anything not loaded
+   */
+  resolve(circuit: string, version?: string): LoadedCircuit {
+    const entry = this.circuits.get(circuit as ManifestCircuit);
+    const loaded = entry?.versions.get(version ?? entry.default);
+    if (!loaded) {
+      throw new CircuitVersionNotFoundException(
+        circuit,
+        version ?? null,
+        entry ? [...entry.versions.keys()] : [],
+      );
+    }
+    return loaded;
+  }
+
+  /**
+   * Every loaded version, in manifest order
+   */
+  loaded(): LoadedCircuit[] {
+    return [...this.circuits.values()].flatMap(({ versions }) => [
+      ...versions.values(),
+    ]);
+  }
+
+  recordWarmup(
+    circuit: ManifestCircuit,
+    version: string,
+    warmup: CircuitWarmup,
+  ): void {
+    this.warmups.set(`${circuit}@${version}`, warmup);
+  }
+
+  /**
+   * Warm-up state by `circuit@version`; ready once none is pending or failed
+   */
+  getWarmup(): { ready: boolean; circuits: Record<string, CircuitWarmup> } {
+    const circuits = Object.fromEntries(this.warmups);
+    return {
+      ready: Object.values(circuits).every(({ status }) =>
+        ['passed', 'verify-only'].includes(status),
+      ),
+      circuits,
+    };
+  }
+
+  /**
+   * What GET /proof/circuits reports: no file paths, only what clients need
+   */
+  list() {
+    return {
+      circuits: [...this.circuits].map(([circuit, entry]) => ({
+        circuit,
+        default: entry.default,
+        versions: [...entry.versions.values()].map((loaded) => ({
+          version: loaded.version,
+          default: loaded.isDefault,
+          prove: loaded.zkeyPath !== null,
+          publicSignals: loaded.publicSignals,
+          input: loaded.input,
+          artifacts: loaded.artifacts,
+          warmup: this.warmups.get(`${circuit}@${loaded.version}`)?.status,
+        })),
+      })),
+    };
+  }
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
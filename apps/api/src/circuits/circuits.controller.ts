@@ -0,0 +1,16 @@
+import { Controller, Get } from '@nestjs/common';
+import { CircuitRegistryService } from './circuit-registry.service';
+
+@Controller('proof/circuits')
+export class CircuitsController {
+  constructor(private readonly circuitRegistry: CircuitRegistryService) {}
+
+  /**
+   * Circuit versions loaded from the manifest, with their artifact hashes,
+   * public signal layout and input schema
+   */
+  @Get()
+  list() {
+    return this.circuitRegistry.list();
+  }
+}
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { CircuitRegistryService } from './circuit-registry.service';
+import { CircuitsController } from './circuits.controller';
+
+// Global so proving and verifying, in whichever module, share one registry
+@Global()
+@Module({
+  controllers: [CircuitsController],
+  providers: [CircuitRegistryService],
+  exports: [CircuitRegistryService],
+})
+export class CircuitsModule {}
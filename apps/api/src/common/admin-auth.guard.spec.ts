@@ -0,0 +1,136 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import {
+  AdminAuthGuard,
+  AdminScope,
+  forAdminScope,
+  parseAdminApiKeys,
+} from './admin-auth.guard';
+import { AppException } from './exceptions';
+
+function createGuard(adminApiKeys?: string) {
+  return new AdminAuthGuard(
+    new Reflector(),
+    new ConfigService({ ADMIN_API_KEYS: adminApiKeys }),
+  );
+}
+
+function contextFor(
+  scope: AdminScope | undefined,
+  headers: Record<string, string> = {},
+): ExecutionContext {
+  const handler = () => undefined;
+  if (scope) Reflect.defineMetadata('adminScope', scope, handler);
+
+  return {
+    getHandler: () => handler,
+    switchToHttp: () => ({
+      getRequest: () => ({
+        method: 'POST',
+        originalUrl: '/indexer/shield/commit',
+        headers,
+      }),
+    }),
+  } as unknown as ExecutionContext;
+}
+
+function errorCodeOf(run: () => unknown): string | null {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    return error instanceof AppException ? error.getErrorCode() : 'OTHER';
+  }
+}
+
+describe('AdminAuthGuard', () => {
+  const keys = 'ops:secret-ops:*,relayer:secret-relayer:indexer:commit';
+
+  it('parses scoped keys and reports malformed entries', () => {
+    const { keys: parsed, errors } = parseAdminApiKeys(
+      `${keys},broken,bad:key:indexer:delete`,
+    );
+
+    expect(parsed.map((key) => [key.name, key.scopes])).toEqual([
+      ['ops', ['*']],
+      ['relayer', ['indexer:commit']],
+    ]);
+    expect(errors).toHaveLength(2);
+  });
+
+  it('allows routes without a required scope', () => {
+    expect(createGuard().canActivate(contextFor(undefined))).toBe(true);
+  });
+
+  it('accepts a key with the scope from either header', () => {
+    const guard = createGuard(keys);
+
+    expect(
+      guard.canActivate(
+        contextFor('indexer:commit', {
+          authorization: 'Bearer secret-relayer',
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      guard.canActivate(
+        contextFor('indexer:backfill', { 'x-api-key': 'secret-ops' }),
+      ),
+    ).toBe(true);
+  });
+
+  it('rejects missing, unknown and under-scoped keys', () => {
+    const guard = createGuard(keys);
+
+    expect(
+      errorCodeOf(() => guard.canActivate(contextFor('indexer:sync'))),
+    ).toBe('AUTH_MISSING_CREDENTIALS');
+    expect(
+      errorCodeOf(() =>
+        guard.canActivate(contextFor('indexer:sync', { 'x-api-key': 'nope' })),
+      ),
+    ).toBe('AUTH_INVALID_CREDENTIALS');
+    expect(
+      errorCodeOf(() =>
+        guard.canActivate(
+          contextFor('indexer:sync', { 'x-api-key': 'secret-relayer' }),
+        ),
+      ),
+    ).toBe('AUTH_INSUFFICIENT_SCOPE');
+  });
+
+  it('refuses every key when none are configured', () => {
+    expect(
+      errorCodeOf(() =>
+        createGuard().canActivate(
+          contextFor('indexer:commit', { 'x-api-key': 'secret-ops' }),
+        ),
+      ),
+    ).toBe('AUTH_INVALID_CREDENTIALS');
+  });
+
+  it('runs scoped middleware only for keys with the scope', () => {
+    const handler = jest.fn();
+    const next = jest.fn();
+    const middleware = forAdminScope(
+      'ops:secret-ops:*,relayer:secret-relayer:indexer:commit',
+      'indexer:snapshot',
+      handler,
+    );
+    const run = (headers: Record<string, string>) =>
+      middleware({ headers } as Request, {} as Response, next);
+
+    run({});
+    run({ 'x-api-key': 'nope' });
+    run({ authorization: 'Bearer secret-relayer' });
+    expect(handler).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledTimes(3);
+
+    run({ authorization: 'Bearer secret-ops' });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledTimes(3);
+  });
+});
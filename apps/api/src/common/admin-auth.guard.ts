@@ -0,0 +1,230 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  SetMetadata,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import {
+  InsufficientScopeException,
+  InvalidCredentialsException,
+  MissingCredentialsException,
+} from './exceptions';
+
+/**
+ * Scopes an admin API key can be granted
+ * - indexer:commit - POST /indexer/:circuit/commit (inserts a leaf, publishes the root)
+ * - indexer:sync - POST /indexer/:circuit/sync (manual chain sync)
+ * - indexer:backfill - POST /indexer/backfill (replay program history)
+ * - indexer:audit - POST /indexer/audit (run a consistency audit now)
+ * - indexer:snapshot - GET/POST /indexer/snapshot (export/import the indexer state)
+ * - * - every scope
+ */
+export type AdminScope =
+  | 'indexer:commit'
+  | 'indexer:sync'
+  | 'indexer:backfill'
+  | 'indexer:audit'
+  | 'indexer:snapshot'
+  | '*';
+
+export interface AdminApiKey {
+  name: string;
+  digest: Buffer; // SHA-256 of the key, so comparisons are fixed-length
+  scopes: AdminScope[];
+}
+
+const ADMIN_SCOPE_KEY = 'adminScope';
+
+const KNOWN_SCOPES: AdminScope[] = [
+  'indexer:commit',
+  'indexer:sync',
+  'indexer:backfill',
+  'indexer:audit',
+  'indexer:snapshot',
+  '*',
+];
+
+/**
+ * Parse ADMIN_API_KEYS: comma-separated `name:key:scope|scope` entries
+ *
+ * Example: `ops:3f9c...:*,relayer:a71b...:indexer:commit`
+ * Malformed entries and unknown scopes are reported in `errors` and skipped.
+ */
+export function parseAdminApiKeys(value: string | undefined): {
+  keys: AdminApiKey[];
+  errors: string[];
+} {
+  const keys: AdminApiKey[] = [];
+  const errors: string[] = [];
+
+  for (const entry of (value || '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const [name, key, ...rest] = trimmed.split(':');
+    const scopes = rest.join(':').split('|').filter(Boolean);
+    if (!name || !key || scopes.length === 0) {
+      errors.push(`Entry "${name || '?'}" is not name:key:scopes`);
+      continue;
+    }
+
+    const unknown = scopes.filter(
+      (scope) => !KNOWN_SCOPES.includes(scope as AdminScope),
+    );
+    if (unknown.length > 0) {
+      errors.push(`Key "${name}" has unknown scopes: ${unknown.join(', ')}`);
+      continue;
+    }
+
+    keys.push({ name, digest: digestOf(key), scopes: scopes as AdminScope[] });
+  }
+
+  return { keys, errors };
+}
+
+function digestOf(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * The key from `Authorization: Bearer <key>` or `x-api-key`
+ */
+function extractKey(request: Request): string | null {
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  const header = request.headers['x-api-key'];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value?.trim() || null;
+}
+
+/**
+ * Compare against every configured key so timing does not reveal which
+ * (or whether any) key matched
+ */
+function findKey(keys: AdminApiKey[], presented: string): AdminApiKey | null {
+  const digest = digestOf(presented);
+  let match: AdminApiKey | null = null;
+  for (const key of keys) {
+    if (timingSafeEqual(key.digest, digest) && !match) {
+      match = key;
+    }
+  }
+  return match;
+}
+
+function hasScope(key: AdminApiKey, scope: AdminScope): boolean {
+  return key.scopes.includes('*') || key.scopes.includes(scope);
+}
+
+/**
+ * Run `handler` only for requests that carry an admin key with `scope`
+ *
+ * For express middleware that must not run for anonymous callers, such as a
+ * body parser with a large limit: it runs before Nest routes the request, so
+ * before AdminAuthGuard. Other requests skip `handler` and are refused by
+ * the guard on the route.
+ */
+export function forAdminScope(
+  adminApiKeys: string | undefined,
+  scope: Exclude<AdminScope, '*'>,
+  handler: RequestHandler,
+): RequestHandler {
+  const { keys } = parseAdminApiKeys(adminApiKeys);
+  return (request: Request, response: Response, next: NextFunction) => {
+    const presented = extractKey(request);
+    const key = presented ? findKey(keys, presented) : null;
+    if (key && hasScope(key, scope)) {
+      return handler(request, response, next);
+    }
+    next();
+  };
+}
+
+/**
+ * Protect a route with an admin API key that has `scope`
+ */
+export function RequireAdminScope(scope: Exclude<AdminScope, '*'>) {
+  return applyDecorators(
+    SetMetadata(ADMIN_SCOPE_KEY, scope),
+    UseGuards(AdminAuthGuard),
+  );
+}
+
+/**
+ * AdminAuthGuard - API key authentication for admin (mutation) routes
+ *
+ * The key is read from `Authorization: Bearer <key>` or `x-api-key`. With no
+ * ADMIN_API_KEYS configured every protected route is refused, so a fresh
+ * deployment never exposes root publishing to anonymous callers.
+ */
+@Injectable()
+export class AdminAuthGuard implements CanActivate {
+  private readonly logger = new Logger(AdminAuthGuard.name);
+  private readonly keys: AdminApiKey[];
+
+  constructor(
+    private readonly reflector: Reflector,
+    configService: ConfigService,
+  ) {
+    const { keys, errors } = parseAdminApiKeys(
+      configService.get<string>('ADMIN_API_KEYS'),
+    );
+    for (const error of errors) {
+      this.logger.error(`[AdminAuth] Ignoring ADMIN_API_KEYS entry: ${error}`);
+    }
+    if (keys.length === 0) {
+      this.logger.warn(
+        '[AdminAuth] ADMIN_API_KEYS not set - admin routes are disabled',
+      );
+    }
+    this.keys = keys;
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const scope = this.reflector.get<AdminScope>(
+      ADMIN_SCOPE_KEY,
+      context.getHandler(),
+    );
+    if (!scope) return true;
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const presented = extractKey(request);
+    if (!presented) {
+      throw new MissingCredentialsException(scope);
+    }
+    if (this.keys.length === 0) {
+      throw new InvalidCredentialsException(
+        'No admin API keys are configured on this server',
+      );
+    }
+
+    const key = findKey(this.keys, presented);
+    if (!key) {
+      this.logger.warn(
+        `[AdminAuth] Rejected unknown API key for ${request.method} ${request.originalUrl}`,
+      );
+      throw new InvalidCredentialsException();
+    }
+    if (!hasScope(key, scope)) {
+      this.logger.warn(
+        `[AdminAuth] Key "${key.name}" lacks ${scope} for ${request.method} ${request.originalUrl}`,
+      );
+      throw new InsufficientScopeException(key.name, scope);
+    }
+
+    this.logger.log(
+      `[AdminAuth] Key "${key.name}" authorized for ${request.method} ${request.originalUrl}`,
+    );
+    return true;
+  }
+}
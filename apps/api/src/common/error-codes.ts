@@ -7,6 +7,7 @@
  * - PROOF: Proof generation errors
  * - VERIFIER: Proof verification errors
  * - VALIDATION: Input validation errors
+ * - AUTH: Admin authentication errors
  */
 
 export const ErrorCodes = {
@@ -48,6 +49,54 @@ export const ErrorCodes = {
     message: 'Poseidon hash computation failed',
     userMessage: 'Hash computation failed. Please try again.',
   },
+  INDEXER_INVALID_NULLIFIER_FORMAT: {
+    code: 'INDEXER_INVALID_NULLIFIER_FORMAT',
+    status: 400,
+    message: 'Invalid nullifier format (not a hex or decimal field element)',
+    userMessage: 'The nullifier format is invalid.',
+  },
+  INDEXER_LEAF_NOT_FOUND: {
+    code: 'INDEXER_LEAF_NOT_FOUND',
+    status: 404,
+    message: 'No leaf at this index in the Merkle tree',
+    userMessage: 'The Merkle tree has no leaf at this position.',
+  },
+  INDEXER_UNKNOWN_ROOT: {
+    code: 'INDEXER_UNKNOWN_ROOT',
+    status: 404,
+    message: 'Root not found in the Merkle tree history',
+    userMessage: 'The requested Merkle root is not known to the indexer.',
+  },
+  INDEXER_DUPLICATE_COMMITMENT: {
+    code: 'INDEXER_DUPLICATE_COMMITMENT',
+    status: 409,
+    message: 'Commitment already indexed from a different transaction',
+    userMessage: 'This commitment is already in the Merkle tree.',
+  },
+  INDEXER_UNKNOWN_POOL: {
+    code: 'INDEXER_UNKNOWN_POOL',
+    status: 404,
+    message: 'Pool not configured on this indexer',
+    userMessage: 'The requested privacy pool is not served by this indexer.',
+  },
+  INDEXER_INVALID_SNAPSHOT: {
+    code: 'INDEXER_INVALID_SNAPSHOT',
+    status: 400,
+    message: 'Snapshot is malformed, of an unsupported version or corrupted',
+    userMessage: 'The snapshot file is invalid.',
+  },
+  INDEXER_SNAPSHOT_MISMATCH: {
+    code: 'INDEXER_SNAPSHOT_MISMATCH',
+    status: 409,
+    message: 'Snapshot does not match this pool or its own roots',
+    userMessage: 'The snapshot cannot be imported into this pool.',
+  },
+  INDEXER_PERSISTENCE_FAILED: {
+    code: 'INDEXER_PERSISTENCE_FAILED',
+    status: 503,
+    message: 'Indexer state could not be persisted',
+    userMessage: 'The indexer could not save the commitment. Please retry.',
+  },
 
   // Proof Errors (2000-2999)
   PROOF_WASM_NOT_FOUND: {
@@ -80,6 +129,49 @@ export const ErrorCodes = {
     message: 'Missing required field in proof input',
     userMessage: 'Missing required field for proof generation.',
   },
+  PROOF_CIRCUIT_VERSION_NOT_FOUND: {
+    code: 'PROOF_CIRCUIT_VERSION_NOT_FOUND',
+    status: 404,
+    message: 'Circuit version not loaded',
+    userMessage: 'That circuit version is not available.',
+  },
+  PROOF_JOB_NOT_FOUND: {
+    code: 'PROOF_JOB_NOT_FOUND',
+    status: 404,
+    message: 'Proof job not found',
+    userMessage: 'The proof job does not exist or has expired.',
+  },
+  PROOF_JOB_QUEUE_FULL: {
+    code: 'PROOF_JOB_QUEUE_FULL',
+    status: 503,
+    message: 'Proof job queue is full',
+    userMessage: 'The prover is busy. Please retry in a moment.',
+  },
+  PROOF_PROVER_BUSY: {
+    code: 'PROOF_PROVER_BUSY',
+    status: 503,
+    message: 'All prover workers are busy and the queue is full',
+    userMessage: 'The prover is busy. Please retry in a few seconds.',
+  },
+  PROOF_NODE_UNAUTHORIZED: {
+    code: 'PROOF_NODE_UNAUTHORIZED',
+    status: 401,
+    message: 'Prover node request could not be authenticated',
+    userMessage:
+      'The prover node is not registered or its signature is invalid.',
+  },
+  PROOF_NODE_TASK_NOT_LEASED: {
+    code: 'PROOF_NODE_TASK_NOT_LEASED',
+    status: 409,
+    message: 'Proof task is not leased to this prover node',
+    userMessage: 'The task was reassigned or has already finished.',
+  },
+  PROOF_NODE_TIMEOUT: {
+    code: 'PROOF_NODE_TIMEOUT',
+    status: 504,
+    message: 'Proof task timed out on every prover node it was given to',
+    userMessage: 'The provers did not respond. Please try again.',
+  },
 
   // Verifier Errors (3000-3999)
   VERIFIER_VK_NOT_FOUND: {
@@ -108,6 +200,32 @@ export const ErrorCodes = {
     message: 'Invalid field type',
     userMessage: 'Invalid field type in request.',
   },
+  VALIDATION_BATCH_TOO_LARGE: {
+    code: 'VALIDATION_BATCH_TOO_LARGE',
+    status: 400,
+    message: 'Too many items in batch request',
+    userMessage: 'Too many items in one request. Please split the batch.',
+  },
+
+  // Auth Errors (6000-6999)
+  AUTH_MISSING_CREDENTIALS: {
+    code: 'AUTH_MISSING_CREDENTIALS',
+    status: 401,
+    message: 'Admin API key required',
+    userMessage: 'This action requires an admin API key.',
+  },
+  AUTH_INVALID_CREDENTIALS: {
+    code: 'AUTH_INVALID_CREDENTIALS',
+    status: 401,
+    message: 'Invalid admin API key',
+    userMessage: 'The admin API key is not valid.',
+  },
+  AUTH_INSUFFICIENT_SCOPE: {
+    code: 'AUTH_INSUFFICIENT_SCOPE',
+    status: 403,
+    message: 'Admin API key lacks the required scope',
+    userMessage: 'This API key is not allowed to perform this action.',
+  },
 
   // Generic Errors (5000+)
   INTERNAL_ERROR: {
@@ -116,6 +234,12 @@ export const ErrorCodes = {
     message: 'Internal server error',
     userMessage: 'An unexpected error occurred. Please try again.',
   },
+  SERVICE_NOT_READY: {
+    code: 'SERVICE_NOT_READY',
+    status: 503,
+    message: 'Service is not ready to serve traffic',
+    userMessage: 'The service is starting up or degraded. Please try again.',
+  },
 } as const;
 
 export type ErrorCode = keyof typeof ErrorCodes;
@@ -117,6 +117,108 @@ export class HashFailedException extends AppException {
   }
 }
 
+/**
+ * Invalid nullifier format (400)
+ */
+export class InvalidNullifierFormatException extends AppException {
+  constructor(nullifier: string, reason?: string) {
+    super('INDEXER_INVALID_NULLIFIER_FORMAT', {
+      nullifier: nullifier.slice(0, 16) + '...',
+      reason: reason || 'Not a valid hex or decimal field element',
+    });
+  }
+}
+
+/**
+ * Leaf index beyond the end of the tree (404)
+ */
+export class LeafNotFoundException extends AppException {
+  constructor(circuit: string, index: number, leafCount: number) {
+    super('INDEXER_LEAF_NOT_FOUND', {
+      circuit,
+      index,
+      leafCount,
+    });
+  }
+}
+
+/**
+ * Requested historical root / tree size is not in the tree history (404)
+ */
+export class UnknownRootException extends AppException {
+  constructor(
+    circuit: string,
+    target: { root?: string; leafCount?: number },
+    reason?: string,
+  ) {
+    super('INDEXER_UNKNOWN_ROOT', {
+      circuit,
+      root: target.root ? target.root.slice(0, 16) + '...' : undefined,
+      leafCount: target.leafCount,
+      reason: reason || 'No root with this value or leaf count was recorded',
+    });
+  }
+}
+
+/**
+ * Commitment is already a leaf, inserted from another transaction (409)
+ */
+export class DuplicateCommitmentException extends AppException {
+  constructor(
+    commitment: string,
+    circuit: string,
+    existing: { epoch: number; index: number; signature: string },
+  ) {
+    super('INDEXER_DUPLICATE_COMMITMENT', {
+      commitment: commitment.slice(0, 16) + '...',
+      circuit,
+      epoch: existing.epoch,
+      leafIndex: existing.index,
+      signature: existing.signature,
+    });
+  }
+}
+
+/**
+ * Requested pool key is not in the pool registry (404)
+ */
+export class UnknownPoolException extends AppException {
+  constructor(pool: string, available: string[]) {
+    super('INDEXER_UNKNOWN_POOL', { pool, availablePools: available });
+  }
+}
+
+/**
+ * Snapshot fails its format, version or checksum checks (400)
+ */
+export class InvalidSnapshotException extends AppException {
+  constructor(reason: string) {
+    super('INDEXER_INVALID_SNAPSHOT', { reason });
+  }
+}
+
+/**
+ * Snapshot belongs to another program or tree configuration, or its leaves
+ * do not produce its roots (409)
+ */
+export class SnapshotMismatchException extends AppException {
+  constructor(reason: string, details?: Record<string, any>) {
+    super('INDEXER_SNAPSHOT_MISMATCH', { reason, ...details });
+  }
+}
+
+/**
+ * Indexer state could not be written to the durable store (503)
+ */
+export class IndexerPersistenceException extends AppException {
+  constructor(operation: string, reason?: string) {
+    super('INDEXER_PERSISTENCE_FAILED', {
+      operation,
+      reason: reason || 'Unknown storage error',
+    });
+  }
+}
+
 // ============================================================================
 // Proof-specific exceptions
 // ============================================================================
@@ -186,6 +288,89 @@ export class MissingProofFieldException extends AppException {
   }
 }
 
+/**
+ * Circuit version not in the artifact manifest (404)
+ */
+export class CircuitVersionNotFoundException extends AppException {
+  constructor(
+    circuit: string,
+    version: string | null,
+    availableVersions: string[],
+  ) {
+    super('PROOF_CIRCUIT_VERSION_NOT_FOUND', {
+      circuit,
+      version,
+      availableVersions,
+    });
+  }
+}
+
+/**
+ * Proof job unknown or expired (404)
+ */
+export class ProofJobNotFoundException extends AppException {
+  constructor(jobId: string) {
+    super('PROOF_JOB_NOT_FOUND', { jobId });
+  }
+}
+
+/**
+ * Too many proof jobs waiting (503)
+ * Sent with a Retry-After header of `retryAfterSeconds`
+ */
+export class ProofJobQueueFullException extends AppException {
+  constructor(
+    limit: number,
+    public readonly retryAfterSeconds: number,
+  ) {
+    super('PROOF_JOB_QUEUE_FULL', {
+      limit,
+      retryAfterSeconds,
+      suggestion: 'Retry once queued jobs have started.',
+    });
+  }
+}
+
+/**
+ * Prover worker queue full (503)
+ * Sent with a Retry-After header of `retryAfterSeconds`
+ */
+export class ProverBusyException extends AppException {
+  constructor(
+    queued: number,
+    public readonly retryAfterSeconds: number,
+  ) {
+    super('PROOF_PROVER_BUSY', { queued, retryAfterSeconds });
+  }
+}
+
+/**
+ * Unknown prover node, bad signature or stale timestamp (401)
+ */
+export class ProverNodeUnauthorizedException extends AppException {
+  constructor(nodeId: string, reason: string) {
+    super('PROOF_NODE_UNAUTHORIZED', { nodeId, reason });
+  }
+}
+
+/**
+ * Result for a task the node no longer holds (409)
+ */
+export class ProverTaskNotLeasedException extends AppException {
+  constructor(nodeId: string, taskId: string) {
+    super('PROOF_NODE_TASK_NOT_LEASED', { nodeId, taskId });
+  }
+}
+
+/**
+ * Every node a task was leased to went silent or lost it (504)
+ */
+export class ProverNodeTimeoutException extends AppException {
+  constructor(taskId: string, nodes: string[]) {
+    super('PROOF_NODE_TIMEOUT', { taskId, nodes });
+  }
+}
+
 // ============================================================================
 // Verifier-specific exceptions
 // ============================================================================
@@ -244,3 +429,69 @@ export class ValidationInvalidTypeException extends AppException {
     });
   }
 }
+
+/**
+ * Batch request exceeds the allowed number of items (400)
+ */
+export class ValidationBatchTooLargeException extends AppException {
+  constructor(field: string, provided: number, max: number) {
+    super('VALIDATION_BATCH_TOO_LARGE', {
+      field,
+      provided,
+      max,
+    });
+  }
+}
+
+// ============================================================================
+// Auth exceptions
+// ============================================================================
+
+/**
+ * No admin API key on a protected route (401)
+ */
+export class MissingCredentialsException extends AppException {
+  constructor(scope: string) {
+    super('AUTH_MISSING_CREDENTIALS', {
+      requiredScope: scope,
+      suggestion:
+        'Send the key as "Authorization: Bearer <key>" or "x-api-key"',
+    });
+  }
+}
+
+/**
+ * Admin API key does not match any configured key (401)
+ */
+export class InvalidCredentialsException extends AppException {
+  constructor(reason?: string) {
+    super('AUTH_INVALID_CREDENTIALS', {
+      reason: reason || 'Unknown API key',
+    });
+  }
+}
+
+/**
+ * Admin API key is valid but not granted the route's scope (403)
+ */
+export class InsufficientScopeException extends AppException {
+  constructor(keyName: string, requiredScope: string) {
+    super('AUTH_INSUFFICIENT_SCOPE', {
+      keyName,
+      requiredScope,
+    });
+  }
+}
+
+// ============================================================================
+// Generic exceptions
+// ============================================================================
+
+/**
+ * A readiness check failed (503)
+ */
+export class ServiceNotReadyException extends AppException {
+  constructor(checks: Record<string, unknown>) {
+    super('SERVICE_NOT_READY', { checks });
+  }
+}
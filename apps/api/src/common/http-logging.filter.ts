@@ -46,6 +46,11 @@ export class HttpLoggingFilter implements ExceptionFilter {
       userMessage = exceptionResponse.userMessage || message;
       details = exceptionResponse.details || null;
 
+      // Back-pressure errors tell the client when to come back
+      if (typeof details?.retryAfterSeconds === 'number') {
+        response.setHeader('Retry-After', String(details.retryAfterSeconds));
+      }
+
       // Log with context
       this._logError(
         requestId,
@@ -68,6 +73,13 @@ export class HttpLoggingFilter implements ExceptionFilter {
       }
       userMessage = message;
 
+      this._logError(requestId, method, url, status, errorCode, message);
+    } else if (isClientHttpError(exception)) {
+      // Body parser errors (http-errors): 413 too large, 400 malformed JSON
+      status = exception.status;
+      message = exception.message;
+      userMessage = message;
+
       this._logError(requestId, method, url, status, errorCode, message);
     } else if (exception instanceof Error) {
       // Handle generic JavaScript errors
@@ -145,3 +157,13 @@ export class HttpLoggingFilter implements ExceptionFilter {
     }
   }
 }
+
+function isClientHttpError(
+  exception: unknown,
+): exception is Error & { status: number } {
+  return (
+    exception instanceof Error &&
+    (exception as { expose?: boolean }).expose === true &&
+    typeof (exception as { status?: unknown }).status === 'number'
+  );
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals';
+import { HealthController } from './health.controller';
+import { PoolRegistryService } from '../indexer/pool-registry.service';
+import {
+  CircuitRegistryService,
+  CircuitWarmup,
+} from '../circuits/circuit-registry.service';
+import { AppException } from '../common/exceptions';
+
+type Status = { initialized: boolean; audit: unknown };
+
+const consistent: Status = {
+  initialized: true,
+  audit: { status: 'consistent', checkedAt: 1, issues: [] },
+};
+
+const warm: Record<string, CircuitWarmup> = {
+  'shield@v1': { status: 'passed', durationMs: 1 },
+  'transfer@v1': { status: 'verify-only' },
+};
+
+function controllerFor(
+  status: Status,
+  other: Status = consistent,
+  warmup: Record<string, CircuitWarmup> = warm,
+) {
+  const pools = [
+    { key: 'default', status },
+    { key: 'testnet', status: other },
+  ];
+  return new HealthController(
+    {
+      list: () =>
+        pools.map(({ key, status }) => ({
+          config: { key },
+          indexer: { getStatus: () => status },
+        })),
+      getDefaultKey: () => 'default',
+    } as unknown as PoolRegistryService,
+    {
+      getWarmup: () => ({
+        ready: Object.values(warmup).every(({ status }) =>
+          ['passed', 'verify-only'].includes(status),
+        ),
+        circuits: warmup,
+      }),
+    } as unknown as CircuitRegistryService,
+  );
+}
+
+describe('HealthController', () => {
+  it('is ready once the indexer is initialized and not divergent', () => {
+    const ready = controllerFor({
+      initialized: true,
+      audit: { status: 'unavailable', checkedAt: 1, issues: [] },
+    }).getReadiness();
+
+    expect(ready).toMatchObject({
+      status: 'ready',
+      checks: {
+        indexer: 'ok',
+        audit: 'unavailable',
+        pools: { testnet: { indexer: 'ok', audit: 'consistent' } },
+        circuits: { 'shield@v1': 'passed', 'transfer@v1': 'verify-only' },
+      },
+    });
+  });
+
+  it('fails readiness while a pool initializes or its audit diverges', () => {
+    const divergent = {
+      initialized: true,
+      audit: { status: 'divergent', checkedAt: 1, issues: ['x'] },
+    };
+    for (const [status, other] of [
+      [{ initialized: false, audit: null }, consistent],
+      [divergent, consistent],
+      [consistent, divergent],
+    ]) {
+      try {
+        controllerFor(status, other).getReadiness();
+        throw new Error('expected readiness to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppException);
+        expect((error as AppException).getErrorCode()).toBe(
+          'SERVICE_NOT_READY',
+        );
+        expect((error as AppException).getStatus()).toBe(503);
+      }
+    }
+  });
+
+  it('fails readiness until every circuit warm-up has passed', () => {
+    for (const status of ['pending', 'failed'] as const) {
+      try {
+        controllerFor(consistent, consistent, {
+          ...warm,
+          'shield@v1': {
+            status,
+            ...(status === 'failed' && { error: 'bad zkey' }),
+          },
+        }).getReadiness();
+        throw new Error('expected readiness to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppException);
+        expect((error as AppException).getErrorCode()).toBe(
+          'SERVICE_NOT_READY',
+        );
+        expect((error as AppException).getDetails()).toMatchObject({
+          checks: {
+            circuits: { 'shield@v1': status },
+            issues:
+              status === 'failed'
+                ? ['shield@v1: warm-up failed: bad zkey']
+                : [],
+          },
+        });
+      }
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { Controller, Get, Logger } from '@nestjs/common';
+import { PoolRegistryService } from '../indexer/pool-registry.service';
+import { CircuitRegistryService } from '../circuits/circuit-registry.service';
+import { ServiceNotReadyException } from '../common/exceptions';
+
+/**
+ * Health Controller - liveness and readiness probes
+ *
+ * Provides:
+ * - GET /health - Liveness (the process is serving requests)
+ * - GET /health/ready - Readiness (the indexer of every pool restored and
+ *   consistent with the chain, every provable circuit version warmed up);
+ *   503 SERVICE_NOT_READY otherwise
+ */
+@Controller('health')
+export class HealthController {
+  private readonly logger = new Logger(HealthController.name);
+
+  constructor(
+    private poolRegistry: PoolRegistryService,
+    private circuitRegistry: CircuitRegistryService,
+  ) {}
+
+  @Get()
+  getHealth() {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }
+
+  /**
+   * Not ready while a pool's trees are being restored, when the latest
+   * consistency audit of a pool found its indexer diverging from the chain,
+   * or until the startup warm-up proof of every circuit version has passed
+   */
+  @Get('ready')
+  getReadiness() {
+    const pools: Record<string, { indexer: string; audit: string }> = {};
+    const issues: string[] = [];
+    let ready = true;
+
+    for (const { config, indexer } of this.poolRegistry.list()) {
+      const { initialized, audit } = indexer.getStatus();
+      pools[config.key] = {
+        indexer: initialized ? 'ok' : 'initializing',
+        audit: audit?.status ?? 'pending',
+      };
+      if (!initialized || audit?.status === 'divergent') {
+        ready = false;
+        issues.push(
+          ...(audit?.issues ?? []).map((issue) => `${config.key}: ${issue}`),
+        );
+      }
+    }
+
+    const warmup = this.circuitRegistry.getWarmup();
+    const circuits: Record<string, string> = {};
+    for (const [label, { status, error }] of Object.entries(warmup.circuits)) {
+      circuits[label] = status;
+      if (error) issues.push(`${label}: warm-up failed: ${error}`);
+    }
+    ready &&= warmup.ready;
+
+    const checks = {
+      ...pools[this.poolRegistry.getDefaultKey()],
+      pools,
+      circuits,
+    };
+    if (!ready) {
+      this.logger.warn(
+        `[Health] Not ready: ${[
+          ...Object.entries(pools).map(
+            ([key, check]) =>
+              `${key} indexer=${check.indexer}, audit=${check.audit}`,
+          ),
+          ...Object.entries(circuits)
+            .filter(([, status]) => status === 'pending' || status === 'failed')
+            .map(([label, status]) => `${label} warm-up=${status}`),
+        ].join('; ')}`,
+      );
+      throw new ServiceNotReadyException({ ...checks, issues });
+    }
+
+    return {
+      status: 'ready',
+      timestamp: new Date().toISOString(),
+      checks,
+    };
+  }
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PublicKey, SignaturesForAddressOptions } from '@solana/web3.js';
+import { BlockchainSyncService } from './blockchain-sync.service';
+import { IndexerService } from './indexer.service';
+import { IndexerStoreService, SyncCheckpoint } from './indexer-store.service';
+import { NullifierService } from './nullifier.service';
+import { RootPublisherService } from './root-publisher.service';
+import { SolanaService } from '../solana/solana.service';
+import { programLogs } from '../../test/helpers';
+
+const PROGRAM_ID = new PublicKey(
+  'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz',
+);
+
+interface FakeTransaction {
+  signature: string;
+  slot: number;
+  commitments: string[];
+}
+
+/**
+ * Minimal RPC: program history kept oldest first, served newest first
+ */
+class FakeConnection {
+  history: FakeTransaction[] = [];
+  pageRequests = 0;
+
+  async getSignaturesForAddress(
+    _address: PublicKey,
+    options: SignaturesForAddressOptions,
+  ) {
+    this.pageRequests++;
+    const newestFirst = [...this.history].reverse();
+    let start = 0;
+    if (options.before) {
+      start =
+        newestFirst.findIndex((tx) => tx.signature === options.before) + 1;
+    }
+    const page = [];
+    for (const tx of newestFirst.slice(start)) {
+      if (tx.signature === options.until || page.length === options.limit) {
+        break;
+      }
+      page.push({ signature: tx.signature, slot: tx.slot, err: null });
+    }
+    return page;
+  }
+
+  async getTransaction(signature: string) {
+    const tx = this.history.find((entry) => entry.signature === signature);
+    return {
+      slot: tx.slot,
+      meta: { err: null, logMessages: programLogs(PROGRAM_ID, tx.commitments) },
+    };
+  }
+}
+
+describe('BlockchainSyncService backfill', () => {
+  let connection: FakeConnection;
+  let leaves: string[];
+  let saved: SyncCheckpoint | null;
+  let sync: BlockchainSyncService;
+
+  const commitment = (n: number) => n.toString(16).padStart(64, '0');
+
+  function createService(): BlockchainSyncService {
+    const indexer = {
+      addCommitment: async (_circuit: string, value: string) => {
+        const existing = leaves.indexOf(value);
+        if (existing >= 0) {
+          return {
+            index: existing,
+            epoch: 0,
+            root: commitment(leaves.length),
+            duplicate: true,
+          };
+        }
+        leaves.push(value);
+        return {
+          index: leaves.length - 1,
+          epoch: 0,
+          root: commitment(leaves.length),
+          duplicate: false,
+        };
+      },
+    };
+    const solana = {
+      getConnection: () => connection,
+      getProgramId: () => PROGRAM_ID,
+      getAdminKeypair: () => undefined,
+    };
+    const store = {
+      loadCheckpoint: async () => saved,
+      saveCheckpoint: async (
+        _programId: string,
+        checkpoint: SyncCheckpoint,
+      ) => {
+        saved = checkpoint;
+      },
+    };
+
+    return new BlockchainSyncService(
+      indexer as unknown as IndexerService,
+      solana as unknown as SolanaService,
+      store as unknown as IndexerStoreService,
+      {} as NullifierService,
+      { enqueue: () => undefined } as unknown as RootPublisherService,
+    );
+  }
+
+  beforeEach(() => {
+    connection = new FakeConnection();
+    leaves = [];
+    saved = null;
+    // Two transactions share slot 10; the second one emits two commitments
+    connection.history = [
+      { signature: 'sig-1', slot: 5, commitments: [commitment(1)] },
+      { signature: 'sig-2', slot: 10, commitments: [commitment(2)] },
+      {
+        signature: 'sig-3',
+        slot: 10,
+        commitments: [commitment(3), commitment(4)],
+      },
+      { signature: 'sig-4', slot: 12, commitments: [commitment(5)] },
+    ];
+    sync = createService();
+  });
+
+  it('applies history in slot and emission order and saves the checkpoint', async () => {
+    const result = await sync.backfill();
+
+    expect(leaves).toEqual([1, 2, 3, 4, 5].map(commitment));
+    expect(result.commitmentsAdded).toBe(5);
+    expect(saved).toMatchObject({ lastSlot: 12, lastSignature: 'sig-4' });
+  });
+
+  it('resumes from the persisted checkpoint after a restart', async () => {
+    await sync.backfill();
+    connection.history.push({
+      signature: 'sig-5',
+      slot: 20,
+      commitments: [commitment(6)],
+    });
+
+    const restarted = createService();
+    const result = await restarted.backfill();
+
+    expect(result.fromSlot).toBe(12);
+    expect(result.signaturesScanned).toBe(1);
+    expect(leaves).toEqual([1, 2, 3, 4, 5, 6].map(commitment));
+    expect(saved).toMatchObject({ lastSlot: 20, lastSignature: 'sig-5' });
+  });
+});
+
+describe('BlockchainSyncService root history', () => {
+  const root = (n: number) => n.toString(16).padStart(64, '0');
+
+  /**
+   * Encode a roots account: discriminator | vec<[u8; 32]> | cursor | size | capacity
+   */
+  function rootsAccount(slots: number[], cursor: number, size: number) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(slots.length);
+    const tail = Buffer.alloc(7);
+    tail.writeUInt16LE(cursor, 0);
+    tail.writeUInt16LE(size, 2);
+    tail.writeUInt16LE(slots.length, 4);
+
+    return Buffer.concat([
+      Buffer.alloc(8),
+      length,
+      ...slots.map((n) => Buffer.from(root(n), 'hex').reverse()),
+      tail,
+    ]);
+  }
+
+  it('matches roots against the wrapped on-chain ring buffer', async () => {
+    const connection = {
+      // Capacity 3, roots 1..5 written in order: [4, 5, 3], next write at 2
+      getAccountInfo: async () => ({ data: rootsAccount([4, 5, 3], 2, 3) }),
+    };
+    const indexer = {
+      getRootHistory: () =>
+        [1, 2, 3, 4, 5, 6].map((n) => ({
+          root: root(n),
+          leafCount: n,
+          createdAt: n,
+        })),
+    };
+    const solana = {
+      getConnection: () => connection,
+      getProgramId: () => PROGRAM_ID,
+    };
+    const sync = new BlockchainSyncService(
+      indexer as unknown as IndexerService,
+      solana as unknown as SolanaService,
+      {} as IndexerStoreService,
+      {} as NullifierService,
+      { getPublication: () => undefined } as unknown as RootPublisherService,
+    );
+
+    const history = await sync.getRootHistory('shield', 10);
+
+    expect(history.onChain).toMatchObject({ available: true, capacity: 3 });
+    expect(
+      history.roots.map(({ leafCount, status, onChainAge }) => [
+        leafCount,
+        status,
+        onChainAge,
+      ]),
+    ).toEqual([
+      [6, 'pending', null],
+      [5, 'published', 0],
+      [4, 'published', 1],
+      [3, 'published', 2],
+      [2, 'evicted', null],
+      [1, 'evicted', null],
+    ]);
+  });
+});
@@ -1,19 +1,110 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import {
+  ConfirmedSignatureInfo,
   Connection,
+  Logs,
   PublicKey,
-  SystemProgram,
-  Transaction,
-  TransactionInstruction,
+  VersionedTransactionResponse,
 } from '@solana/web3.js';
-import { IndexerService } from './indexer.service';
+import {
+  CommitmentInsert,
+  IndexerService,
+  RollbackResult,
+} from './indexer.service';
+import { DuplicateCommitmentException } from '../common/exceptions';
 import { SolanaService } from '../solana/solana.service';
+import { NullifierService } from './nullifier.service';
+import { RootPublisherService } from './root-publisher.service';
+import {
+  SpentNullifier,
+  decodeNewCommitmentEvents,
+  decodeRootsAccount,
+  decodeSpendInstruction,
+  hasSpendInstructionLog,
+  leBytesToHex,
+} from './program-events';
+import {
+  IndexerStoreService,
+  LeafFinality,
+  SyncCheckpoint,
+} from './indexer-store.service';
+
+// A healthy websocket delivers a slot notification every ~400ms, so a
+// subscription that has been silent this long is considered dropped
+const LISTENER_STALE_AFTER_MS = 30_000;
+const LISTENER_WATCHDOG_INTERVAL_MS = 10_000;
+const LISTENER_RECONNECT_BASE_DELAY_MS = 1_000;
+const LISTENER_RECONNECT_MAX_DELAY_MS = 30_000;
+
+// How often non-finalized leaves are checked against the cluster
+const FINALITY_CHECK_INTERVAL_MS = 5_000;
+// getSignatureStatuses accepts at most 256 signatures per call
+const SIGNATURE_STATUS_BATCH_SIZE = 256;
 
-// Correct discriminator for add_root instruction from IDL
-// Calculated as: sha256("global:add_root").slice(0, 8)
-const ADD_ROOT_DISCRIMINATOR = Buffer.from([
-  88, 51, 115, 122, 205, 57, 113, 207,
-]);
+// getSignaturesForAddress returns at most 1000 signatures per call
+const BACKFILL_PAGE_SIZE = 1000;
+// Save the checkpoint every N transactions during a long backfill
+const BACKFILL_CHECKPOINT_INTERVAL = 50;
+
+/**
+ * Outcome of one backfill run
+ */
+export interface BackfillResult {
+  fromSlot: number | null;
+  toSlot: number | null;
+  lastSignature: string | null;
+  signaturesScanned: number;
+  transactionsApplied: number;
+  commitmentsAdded: number;
+  durationMs: number;
+}
+
+/**
+ * Publication state of an indexer root against the on-chain roots buffer
+ * - pending: not (yet) accepted on-chain
+ * - published: currently in the on-chain ring buffer (accepted by proofs)
+ * - failed: the add_root transaction failed
+ * - superseded: never sent because a newer root was published instead
+ * - evicted: was published but has been overwritten by newer roots
+ * - orphaned: built on leaves that were rolled back
+ */
+export type RootPublicationStatus =
+  | 'pending'
+  | 'published'
+  | 'failed'
+  | 'superseded'
+  | 'evicted'
+  | 'orphaned';
+
+export interface RootHistoryEntry {
+  root: string; // 64-char hex
+  leafCount: number;
+  createdAt: number;
+  status: RootPublicationStatus;
+  onChain: boolean;
+  // 0 for the newest on-chain root; roots with the highest age are evicted first
+  onChainAge: number | null;
+  signature?: string;
+  error?: string;
+}
+
+export interface RootHistory {
+  circuit: 'shield' | 'transfer' | 'unshield';
+  onChain: {
+    available: boolean;
+    size: number;
+    capacity: number;
+    cursor: number;
+    error?: string;
+  };
+  total: number;
+  roots: RootHistoryEntry[]; // newest first
+}
 
 /**
  * BlockchainSyncService - Syncs commitments from Solana blockchain
@@ -22,46 +113,77 @@ const ADD_ROOT_DISCRIMINATOR = Buffer.from([
  * 1. Listen to Shield events from deployed Solana programs
  * 2. Extract commitments from events
  * 3. Add commitments to indexer trees
- * 4. Handle blockchain reorgs and missed blocks
+ * 4. Handle blockchain reorgs and missed blocks: leaves keep the slot and
+ *    confirmation level of their transaction, and leaves whose slot was
+ *    skipped are rolled back to the last finalized frontier
  *
  * Production Integration:
  * - Connects to Solana RPC endpoint (mainnet/devnet/localnet)
- * - Uses @solana/web3.js to listen for program events
+ * - Subscribes to program logs (connection.onLogs) and decodes NewCommitment
+ *   events, reconnecting when the websocket goes silent
  * - Stores last synced slot to resume from interruptions
  * - Maintains commitment ledger for verification
  */
 @Injectable()
-export class BlockchainSyncService implements OnModuleInit {
+export class BlockchainSyncService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
   private readonly logger = new Logger(BlockchainSyncService.name);
   private isListening = false;
-  private rootStatus = new Map<
-    string,
-    {
-      status: 'pending' | 'published' | 'failed';
-      signature?: string;
-      error?: string;
-      updatedAt: number;
-    }
-  >();
+
+  // Websocket subscription state of the program log listener
+  private listenerConnection: Connection | null = null;
+  private logsSubscriptionId: number | null = null;
+  private slotSubscriptionId: number | null = null;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private lastSocketActivityAt = 0;
+  // Newest slot announced by the slot subscription (the chain tip)
+  private chainSlot: number | null = null;
+  private finalityTimer: NodeJS.Timeout | null = null;
+  private finalityCheck: Promise<void> | null = null;
+  private lastRollback: (RollbackResult & { at: number }) | null = null;
+
+  // Live spend transactions not yet fetchable at 'confirmed' (signature -> slot)
+  private pendingSpendTransactions = new Map<string, number>();
+
+  // Backfill runs and program log notifications are applied one at a time,
+  // in the order they were queued
+  private eventQueue: Promise<unknown> = Promise.resolve();
+  private queuedTasks = 0;
+  private checkpoint: SyncCheckpoint | null = null;
+  private checkpointLoaded = false;
+  private backfillRun: Promise<BackfillResult> | null = null;
+  private lastBackfill: BackfillResult | null = null;
+  private listenerStats = {
+    eventsProcessed: 0,
+    lastEventAt: null as number | null,
+    lastEventSlot: null as number | null,
+    reconnects: 0,
+  };
 
   constructor(
     private indexerService: IndexerService,
     private readonly solanaService: SolanaService,
+    private readonly store: IndexerStoreService,
+    private readonly nullifierService: NullifierService,
+    private readonly rootPublisher: RootPublisherService,
   ) {}
 
   /**
-   * Initialize blockchain sync on module startup
-   * In production, this connects to Solana and starts listening
+   * Initialize blockchain sync once every module is initialized
+   * (the indexer trees and nullifier set must be restored before events
+   * are applied)
    */
-  async onModuleInit() {
+  async onApplicationBootstrap() {
     try {
       this.logger.log('[BlockchainSync] Initializing blockchain sync...');
 
       // Check if Solana RPC is configured
-      const rpcUrl = process.env.SOLANA_RPC_URL;
-      if (!rpcUrl) {
+      if (!this.solanaService.isRpcConfigured()) {
         this.logger.warn(
-          '[BlockchainSync] SOLANA_RPC_URL not configured - blockchain sync disabled',
+          `[BlockchainSync] No RPC configured for pool ${this.solanaService.getPoolKey()} - blockchain sync disabled`,
         );
         this.logger.warn(
           '[BlockchainSync] To enable: set SOLANA_RPC_URL environment variable',
@@ -73,11 +195,9 @@ export class BlockchainSyncService implements OnModuleInit {
       }
 
       this.logger.log(
-        `[BlockchainSync] Solana RPC configured: ${rpcUrl.split('/').slice(0, 3).join('/')}...`,
+        `[BlockchainSync] Solana RPC configured for pool ${this.solanaService.getPoolKey()}: ${this.solanaService.getRpcUrl().split('/').slice(0, 3).join('/')}...`,
       );
 
-      // In production, start listening to blockchain
-      // For now, this is a placeholder for the actual sync logic
       await this.startBlockchainListener();
     } catch (error) {
       this.logger.error(
@@ -87,48 +207,45 @@ export class BlockchainSyncService implements OnModuleInit {
     }
   }
 
+  async onModuleDestroy() {
+    await this.stopBlockchainListener();
+  }
+
   /**
-   * Start listening to Solana blockchain for Shield events
-   * In production, this would use web3.js connection to listen for logs
+   * Start listening to the zk_pool program for NewCommitment events
    *
-   * @param rpcUrl - Solana RPC endpoint
+   * Subscribes to the program logs over a dedicated websocket connection and
+   * keeps a watchdog on it: when no notification (including the slot
+   * heartbeat) arrives for LISTENER_STALE_AFTER_MS the subscription is torn
+   * down and recreated with exponential backoff.
+   *
+   * A backfill from the last checkpoint is queued before subscribing, so
+   * history is applied first and live events follow without a gap.
    */
   private async startBlockchainListener(): Promise<void> {
     try {
-      this.logger.log(
-        '[BlockchainSync] Starting blockchain listener (production implementation required)',
-      );
-
-      // Production implementation would:
-      // 1. Create Connection to Solana cluster
-      // 2. Subscribe to program account changes
-      // 3. Listen for Shield event emissions
-      // 4. Parse commitment from event data
-      // 5. Call indexerService.addCommitment()
-
-      // Configuration needed in production:
-      const programId = process.env.NOIRWIRE_PROGRAM_ID;
-      const commitment = process.env.SOLANA_COMMITMENT || 'processed';
+      const programId = this.solanaService.getProgramId().toBase58();
+      const commitment = this.solanaService.getCommitment();
 
       this.logger.log(
-        `[BlockchainSync] Configuration: program=${programId}, commitment=${commitment}`,
+        `[BlockchainSync] Configuration: pool=${this.solanaService.getPoolKey()}, program=${programId}, commitment=${commitment}`,
       );
 
-      if (!programId) {
-        this.logger.warn(
-          '[BlockchainSync] NOIRWIRE_PROGRAM_ID not configured - cannot sync',
-        );
-        return;
-      }
-
-      // This is where web3.js Connection would be initialized
-      // const connection = new Connection(rpcUrl, commitment);
-      // connection.onLogs(...) - listen for program logs
-      // Extract commitment and add to indexer
+      this.queueBackfill('startup');
+      this.subscribe();
+      this.watchdogTimer = setInterval(
+        () => this.checkListenerHealth(),
+        LISTENER_WATCHDOG_INTERVAL_MS,
+      );
+      this.watchdogTimer.unref();
+      this.finalityTimer = setInterval(
+        () => this.queueFinalityCheck(),
+        FINALITY_CHECK_INTERVAL_MS,
+      );
+      this.finalityTimer.unref();
 
-      this.isListening = true;
       this.logger.log(
-        '[BlockchainSync] Blockchain listener started (monitoring for Shield events)',
+        '[BlockchainSync] Blockchain listener started (monitoring for NewCommitment events)',
       );
     } catch (error) {
       this.logger.error(
@@ -139,306 +256,907 @@ export class BlockchainSyncService implements OnModuleInit {
   }
 
   /**
-   * Manually sync a commitment that occurred on-chain
-   * Useful for:
-   * - Catching up after downtime
-   * - Testing
-   * - Emergency sync
-   *
-   * @param circuit - Circuit type (shield/transfer/unshield)
-   * @param commitment - The commitment from on-chain event
-   * @param blockNumber - Block where commitment was created (for verification)
+   * Stop the listener and release its websocket subscriptions
    */
-  public async manuallyAddCommitment(
-    circuit: 'shield' | 'transfer' | 'unshield',
-    commitment: string,
-    blockNumber?: number,
-  ): Promise<void> {
-    try {
-      this.logger.log(
-        `[BlockchainSync] Manually adding ${circuit} commitment: ${commitment.slice(0, 16)}... (block: ${blockNumber})`,
-      );
+  private async stopBlockchainListener(): Promise<void> {
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+    if (this.finalityTimer) {
+      clearInterval(this.finalityTimer);
+      this.finalityTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    await this.unsubscribe();
+  }
 
-      await this.indexerService.addCommitment(circuit, commitment);
+  /**
+   * Open a fresh connection and subscribe to program logs and slot changes
+   */
+  private subscribe(): void {
+    const connection = this.solanaService.createConnection();
+    const programId = this.solanaService.getProgramId();
 
-      this.logger.log(
-        `[BlockchainSync] Successfully added commitment to indexer`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `[BlockchainSync] Error adding commitment: ${error instanceof Error ? error.message : String(error)}`,
+    this.listenerConnection = connection;
+    this.lastSocketActivityAt = Date.now();
+
+    this.logsSubscriptionId = connection.onLogs(
+      programId,
+      (logs, context) => {
+        this.markSocketActivity();
+        this.enqueueProgramLogs(logs, context.slot);
+      },
+      this.solanaService.getCommitment(),
+    );
+
+    // Slot notifications act as a heartbeat while the program is idle
+    this.slotSubscriptionId = connection.onSlotChange(({ slot }) => {
+      this.markSocketActivity();
+      this.chainSlot = Math.max(this.chainSlot ?? 0, slot);
+    });
+
+    this.isListening = true;
+  }
+
+  /**
+   * Remove the subscriptions of the current connection (best effort)
+   */
+  private async unsubscribe(): Promise<void> {
+    const connection = this.listenerConnection;
+    this.listenerConnection = null;
+    this.isListening = false;
+    if (!connection) return;
+
+    const removals: Promise<void>[] = [];
+    if (this.logsSubscriptionId !== null) {
+      removals.push(connection.removeOnLogsListener(this.logsSubscriptionId));
+    }
+    if (this.slotSubscriptionId !== null) {
+      removals.push(
+        connection.removeSlotChangeListener(this.slotSubscriptionId),
       );
-      throw error;
     }
+    this.logsSubscriptionId = null;
+    this.slotSubscriptionId = null;
+
+    const results = await Promise.allSettled(removals);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        this.logger.debug(
+          `[BlockchainSync] Failed to remove subscription: ${String(result.reason)}`,
+        );
+      }
+    }
+  }
+
+  private markSocketActivity(): void {
+    this.lastSocketActivityAt = Date.now();
+    this.reconnectAttempts = 0;
   }
 
   /**
-   * Get sync status
-   * Returns whether blockchain listener is active
+   * Watchdog tick - reconnect when the websocket has gone silent
    */
-  public getStatus() {
-    return {
-      isListening: this.isListening,
-      rpcConfigured: !!process.env.SOLANA_RPC_URL,
-      programId: process.env.NOIRWIRE_PROGRAM_ID || null,
-      solanaNetwork: this.getSolanaNetwork(),
-      indexerStatus: this.indexerService.getStatus(),
-      rootStatus: this.getRootStatusSnapshot(),
-    };
+  private checkListenerHealth(): void {
+    if (this.reconnectTimer) return;
+
+    const silentFor = Date.now() - this.lastSocketActivityAt;
+    if (silentFor > LISTENER_STALE_AFTER_MS) {
+      void this.reconnect(`no websocket activity for ${silentFor}ms`);
+    }
   }
 
   /**
-   * Determine which Solana network from RPC URL
+   * Tear down the current subscription and resubscribe after a backoff delay
    */
-  private getSolanaNetwork(): string {
-    const rpc = process.env.SOLANA_RPC_URL || '';
+  private async reconnect(reason: string): Promise<void> {
+    if (this.reconnectTimer) return;
+
+    const delay = Math.min(
+      LISTENER_RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+      LISTENER_RECONNECT_MAX_DELAY_MS,
+    );
+    this.reconnectAttempts++;
 
-    if (rpc.includes('mainnet')) return 'mainnet-beta';
-    if (rpc.includes('devnet')) return 'devnet';
-    if (rpc.includes('testnet')) return 'testnet';
-    if (rpc.includes('localhost')) return 'localnet';
+    this.logger.warn(
+      `[BlockchainSync] Listener disconnected (${reason}) - reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`,
+    );
 
-    return 'unknown';
+    await this.unsubscribe();
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      try {
+        this.subscribe();
+        this.listenerStats.reconnects++;
+        this.logger.log('[BlockchainSync] Listener resubscribed');
+        // Catch up on events emitted while the websocket was down
+        this.queueBackfill('reconnect');
+      } catch (error) {
+        void this.reconnect(
+          `resubscribe failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }, delay);
+    this.reconnectTimer.unref();
   }
 
   /**
-   * Publish a Merkle root to the on-chain roots account (admin-only helper).
+   * Run a task after all previously queued backfills and log notifications
    */
-  public async publishRoot(rootHex: string): Promise<void> {
-    const adminKeypair = this.solanaService.getAdminKeypair();
-    if (!adminKeypair) {
-      this.logger.warn(
-        '[BlockchainSync] Skipping root publish - admin keypair not configured',
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    this.queuedTasks++;
+    const next = this.eventQueue
+      .then(task, task)
+      .finally(() => this.queuedTasks--);
+    this.eventQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Slots between the chain tip and the last slot applied from the chain
+   *
+   * 0 while nothing is queued: with no pending backfill or log notification
+   * the indexer is caught up, however long ago the program was last used.
+   * Null when the listener is not running or no slot is known yet.
+   */
+  public getSlotLag(): number | null {
+    if (!this.isListening || this.chainSlot === null) return null;
+    if (this.queuedTasks === 0) return 0;
+
+    const appliedSlot = this.checkpoint?.lastSlot;
+    return appliedSlot === undefined
+      ? null
+      : Math.max(0, this.chainSlot - appliedSlot);
+  }
+
+  /**
+   * Run a task with ingestion paused: it waits for the queued backfills and
+   * log notifications, and later ones wait for it
+   */
+  public runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return this.enqueue(task);
+  }
+
+  /**
+   * Queue a log notification so transactions are indexed strictly in order
+   */
+  private enqueueProgramLogs(logs: Logs, slot: number): void {
+    this.enqueue(() => this.handleProgramLogs(logs, slot)).catch((error) => {
+      this.logger.error(
+        `[BlockchainSync] Failed to index transaction ${logs.signature}: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return;
+    });
+  }
+
+  /**
+   * Index the NewCommitment events and spent nullifiers of a live
+   * transaction and publish the new root
+   *
+   * Log notifications carry no instruction data, so spend transactions are
+   * fetched; if the RPC cannot serve them yet they are retried by the
+   * finality check.
+   */
+  private async handleProgramLogs(logs: Logs, slot: number): Promise<void> {
+    // Failed transactions are rolled back, including their events
+    if (logs.err) return;
+
+    const { latestRoot } = await this.applyTransaction(
+      logs.signature,
+      slot,
+      logs.logs,
+      this.getListenerFinality(),
+    );
+
+    if (hasSpendInstructionLog(logs.logs)) {
+      await this.ingestSpendTransaction(logs.signature, slot);
     }
 
-    if (!rootHex || rootHex.length === 0) {
-      this.logger.warn('[BlockchainSync] Cannot publish empty root');
-      return;
+    await this.saveCheckpoint(slot, logs.signature);
+
+    if (latestRoot) {
+      this.rootPublisher.enqueue(latestRoot);
     }
+  }
 
-    try {
-      const normalizedRoot = this.normalizeRootHex(rootHex);
-      this.rootStatus.set(normalizedRoot, {
-        status: 'pending',
-        updatedAt: Date.now(),
+  /**
+   * Fetch a live spend transaction and record its nullifiers, or keep it
+   * pending when the RPC does not serve it at 'confirmed' yet
+   */
+  private async ingestSpendTransaction(
+    signature: string,
+    slot: number,
+  ): Promise<boolean> {
+    const transaction = await this.solanaService
+      .getConnection()
+      .getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
       });
 
-      const connection = this.solanaService.getConnection();
-      const programId = this.solanaService.getProgramId();
-      const [configPda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('config')],
-        programId,
-      );
-      const [rootsPda] = PublicKey.findProgramAddressSync(
-        [Buffer.from('roots')],
-        programId,
-      );
+    if (!transaction) {
+      this.pendingSpendTransactions.set(signature, slot);
+      return false;
+    }
 
-      const rootBytes = this.toLittleEndianBytes(normalizedRoot);
-      const alreadyExists = await this.rootExistsOnChain(
-        connection,
-        rootsPda,
-        rootBytes,
-      );
+    this.pendingSpendTransactions.delete(signature);
+    if (!transaction.meta?.err) {
+      await this.applySpends(transaction, signature, slot, 'confirmed');
+    }
+    return true;
+  }
 
-      if (alreadyExists) {
-        this.logger.log(
-          `[BlockchainSync] Root already present on-chain: ${normalizedRoot.slice(0, 16)}...`,
-        );
-        this.rootStatus.set(normalizedRoot, {
-          status: 'published',
-          updatedAt: Date.now(),
+  /**
+   * Record the nullifiers revealed by the program's top-level spend
+   * instructions of a transaction
+   */
+  private async applySpends(
+    transaction: VersionedTransactionResponse,
+    signature: string,
+    slot: number,
+    finality: LeafFinality,
+  ): Promise<number> {
+    const message = transaction.transaction.message;
+    const accountKeys = message.getAccountKeys({
+      accountKeysFromLookups: transaction.meta?.loadedAddresses,
+    });
+    const programId = this.solanaService.getProgramId();
+
+    const spends = message.compiledInstructions
+      .filter((instruction) =>
+        accountKeys.get(instruction.programIdIndex)?.equals(programId),
+      )
+      .map((instruction) =>
+        decodeSpendInstruction(Buffer.from(instruction.data)),
+      )
+      .filter((spend): spend is SpentNullifier => spend !== null);
+
+    let recorded = 0;
+    for (const spend of spends) {
+      if (
+        await this.nullifierService.recordSpend(spend, {
+          slot,
+          signature,
+          finality,
+        })
+      ) {
+        recorded++;
+      }
+    }
+    return recorded;
+  }
+
+  /**
+   * Add the commitments emitted by one transaction, in emission order
+   *
+   * Commitments that are already in the tree (e.g. submitted through
+   * POST /indexer/:circuit/commit, or seen by both the listener and a
+   * backfill) are skipped.
+   *
+   * @param blockTime - Block time from the fetched transaction; undefined
+   *   (log notifications) looks it up once the transaction has commitments
+   */
+  private async applyTransaction(
+    signature: string,
+    slot: number,
+    logs: string[],
+    finality: LeafFinality,
+    blockTime?: number | null,
+  ): Promise<{ added: number; latestRoot: string | null }> {
+    const programId = this.solanaService.getProgramId().toBase58();
+    const commitments = decodeNewCommitmentEvents(logs, programId);
+
+    if (commitments.length > 0 && blockTime === undefined) {
+      blockTime = await this.getBlockTime(slot);
+    }
+
+    let added = 0;
+    let latestRoot: string | null = null;
+    for (const commitment of commitments) {
+      // Shield and transfer outputs both live in the shield tree
+      let result: CommitmentInsert;
+      try {
+        result = await this.indexerService.addCommitment('shield', commitment, {
+          slot,
+          signature,
+          finality,
+          blockTime,
         });
-        return;
+      } catch (error) {
+        // The program accepted a commitment that is already a leaf - keep
+        // the first leaf so indices stay stable
+        if (!(error instanceof DuplicateCommitmentException)) throw error;
+        this.logger.warn(
+          `[BlockchainSync] Commitment ${commitment.slice(0, 16)}... re-emitted by tx ${signature.slice(0, 16)}... - keeping the existing leaf`,
+        );
+        continue;
+      }
+
+      const { index, epoch, root, duplicate } = result;
+      if (duplicate) {
+        this.logger.debug(
+          `[BlockchainSync] Commitment ${commitment.slice(0, 16)}... already indexed - skipping`,
+        );
+        continue;
       }
 
+      added++;
+      latestRoot = root;
+      this.listenerStats.eventsProcessed++;
+
       this.logger.log(
-        `[BlockchainSync] Publishing root on-chain: ${normalizedRoot.slice(0, 16)}...`,
+        `[BlockchainSync] Indexed on-chain commitment ${commitment.slice(0, 16)}... at index ${index} of epoch ${epoch} (slot ${slot}, tx ${signature.slice(0, 16)}...)`,
       );
-      this.logger.debug(`[BlockchainSync] Program ID: ${programId.toBase58()}`);
-      this.logger.debug(`[BlockchainSync] Config PDA: ${configPda.toBase58()}`);
-      this.logger.debug(`[BlockchainSync] Roots PDA: ${rootsPda.toBase58()}`);
+    }
+
+    if (commitments.length > 0) {
+      this.listenerStats.lastEventAt = Date.now();
+      this.listenerStats.lastEventSlot = slot;
+    }
+
+    return { added, latestRoot };
+  }
+
+  /**
+   * Block time of a slot, or null when the RPC does not know it (yet)
+   * Provenance only - a missing block time never blocks indexing.
+   */
+  private async getBlockTime(slot: number): Promise<number | null> {
+    try {
+      return await this.solanaService.getConnection().getBlockTime(slot);
+    } catch (error) {
       this.logger.debug(
-        `[BlockchainSync] Admin pubkey: ${adminKeypair.publicKey.toBase58()}`,
+        `[BlockchainSync] No block time for slot ${slot}: ${error instanceof Error ? error.message : String(error)}`,
       );
+      return null;
+    }
+  }
 
-      const instruction = new TransactionInstruction({
-        programId,
-        keys: [
-          { pubkey: configPda, isSigner: false, isWritable: false },
-          { pubkey: rootsPda, isSigner: false, isWritable: true },
-          { pubkey: adminKeypair.publicKey, isSigner: true, isWritable: false }, // authority
-          {
-            pubkey: adminKeypair.publicKey,
-            isSigner: false,
-            isWritable: false,
-          }, // admin
-          {
-            pubkey: SystemProgram.programId,
-            isSigner: false,
-            isWritable: false,
-          },
-        ],
-        data: Buffer.concat([ADD_ROOT_DISCRIMINATOR, rootBytes]),
+  /**
+   * Confirmation level of live notifications (the subscription commitment)
+   */
+  private getListenerFinality(): LeafFinality {
+    const commitment = this.solanaService.getCommitment();
+    if (commitment === 'finalized' || commitment === 'confirmed') {
+      return commitment;
+    }
+    return 'processed';
+  }
+
+  private queueFinalityCheck(): void {
+    // Skip the tick while the previous check is still queued or running
+    if (this.finalityCheck) return;
+
+    this.finalityCheck = this.enqueue(() => this.checkFinality())
+      .catch((error) => {
+        this.logger.error(
+          `[BlockchainSync] Finality check failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      })
+      .finally(() => {
+        this.finalityCheck = null;
       });
+  }
 
-      const { blockhash, lastValidBlockHeight } =
-        await connection.getLatestBlockhash('confirmed');
+  /**
+   * Promote non-finalized leaves and nullifiers as their transactions get
+   * confirmed and finalized, and roll back the ones whose transaction was
+   * dropped
+   *
+   * A transaction is orphaned when the cluster has finalized its slot but
+   * does not know the transaction (the slot was skipped or forked out), or
+   * when it now reports an error for it.
+   */
+  private async checkFinality(): Promise<void> {
+    const slots = new Map<string, number>();
+    for (const leaf of this.indexerService.getUnfinalizedLeaves()) {
+      slots.set(leaf.signature, leaf.slot);
+    }
+    for (const spend of this.nullifierService.getUnfinalizedTransactions()) {
+      slots.set(spend.signature, spend.slot);
+    }
+    if (slots.size === 0 && this.pendingSpendTransactions.size === 0) return;
 
-      const transaction = new Transaction({
-        feePayer: adminKeypair.publicKey,
-        blockhash,
-        lastValidBlockHeight,
-      }).add(instruction);
+    const connection = this.solanaService.getConnection();
+    const finalizedSlot = await connection.getSlot('finalized');
+    const orphaned: string[] = [];
 
-      transaction.sign(adminKeypair);
+    // Retry live spend transactions the RPC could not serve before
+    for (const [signature, slot] of [...this.pendingSpendTransactions]) {
+      const fetched = await this.ingestSpendTransaction(signature, slot);
+      if (!fetched && slot <= finalizedSlot) {
+        this.pendingSpendTransactions.delete(signature);
+        this.logger.warn(
+          `[BlockchainSync] Spend transaction ${signature.slice(0, 16)}... never confirmed - dropping`,
+        );
+      }
+    }
 
-      const signature = await connection.sendRawTransaction(
-        transaction.serialize(),
-        {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
-          maxRetries: 3,
-        },
-      );
+    const signatures = Array.from(slots.keys());
 
-      this.logger.log(
-        `[BlockchainSync] ✅ add_root transaction sent: ${signature}`,
-      );
-      this.logger.log(
-        `[BlockchainSync] 🔗 View on explorer: https://explorer.solana.com/tx/${signature}?cluster=devnet`,
+    for (let i = 0; i < signatures.length; i += SIGNATURE_STATUS_BATCH_SIZE) {
+      const batch = signatures.slice(i, i + SIGNATURE_STATUS_BATCH_SIZE);
+      const { value: statuses } = await connection.getSignatureStatuses(batch, {
+        searchTransactionHistory: true,
+      });
+
+      for (const [position, signature] of batch.entries()) {
+        const status = statuses[position];
+
+        if (status && !status.err) {
+          if (
+            status.confirmationStatus === 'finalized' ||
+            status.confirmationStatus === 'confirmed'
+          ) {
+            await this.indexerService.updateFinality(
+              signature,
+              status.confirmationStatus,
+            );
+            await this.nullifierService.updateFinality(
+              signature,
+              status.confirmationStatus,
+            );
+          }
+        } else if (status?.err || slots.get(signature) <= finalizedSlot) {
+          orphaned.push(signature);
+        }
+      }
+    }
+
+    if (orphaned.length > 0) {
+      await this.rollback(orphaned);
+    }
+  }
+
+  /**
+   * Roll the trees back past orphaned transactions, flag the roots that were
+   * already published from the dropped leaves and publish the new root
+   */
+  private async rollback(signatures: string[]): Promise<void> {
+    this.logger.warn(
+      `[BlockchainSync] ${signatures.length} transaction(s) orphaned (skipped slot or fork): ${signatures.map((sig) => sig.slice(0, 16)).join(', ')}`,
+    );
+
+    await this.nullifierService.removeTransactions(signatures);
+    const results = await this.indexerService.rollbackTransactions(signatures);
+
+    for (const result of results) {
+      this.lastRollback = { ...result, at: Date.now() };
+
+      this.rootPublisher.markOrphaned(result.orphanedRoots);
+
+      if (result.root && result.tree === 'shield') {
+        this.rootPublisher.enqueue(result.root);
+      }
+    }
+  }
+
+  /**
+   * Rebuild the tree from chain history, starting at the saved checkpoint
+   *
+   * Concurrent calls share the same run. The run is queued behind (and
+   * ahead of) live log notifications so commitments are always applied in
+   * slot order.
+   */
+  public backfill(): Promise<BackfillResult> {
+    if (!this.backfillRun) {
+      this.backfillRun = this.enqueue(() => this.runBackfill()).finally(() => {
+        this.backfillRun = null;
+      });
+    }
+    return this.backfillRun;
+  }
+
+  private queueBackfill(trigger: 'startup' | 'reconnect' | 'import'): void {
+    this.backfill().catch((error) => {
+      this.logger.error(
+        `[BlockchainSync] Backfill (${trigger}) failed: ${error instanceof Error ? error.message : String(error)}`,
       );
+    });
+  }
 
-      const confirmation = await connection.confirmTransaction(
-        { signature, blockhash, lastValidBlockHeight },
+  private async runBackfill(): Promise<BackfillResult> {
+    const startedAt = Date.now();
+    const connection = this.solanaService.getConnection();
+    const programId = this.solanaService.getProgramId();
+    const checkpoint = await this.loadCheckpoint();
+
+    this.logger.log(
+      checkpoint
+        ? `[BlockchainSync] Backfill resuming after slot ${checkpoint.lastSlot} (${checkpoint.lastSignature.slice(0, 16)}...)`
+        : '[BlockchainSync] Backfill starting from the beginning of program history',
+    );
+
+    const signatures = await this.collectSignaturesSince(
+      connection,
+      programId,
+      checkpoint,
+    );
+
+    let transactionsApplied = 0;
+    let commitmentsAdded = 0;
+    let latestRoot: string | null = null;
+    let last: ConfirmedSignatureInfo | null = null;
+
+    for (const [position, entry] of signatures.entries()) {
+      if (!entry.err) {
+        const transaction = await connection.getTransaction(entry.signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0,
+        });
+
+        if (!transaction) {
+          this.logger.warn(
+            `[BlockchainSync] Transaction ${entry.signature} not available from RPC - skipping`,
+          );
+        } else if (!transaction.meta?.err) {
+          const result = await this.applyTransaction(
+            entry.signature,
+            entry.slot,
+            transaction.meta?.logMessages ?? [],
+            'confirmed',
+            transaction.blockTime ?? null,
+          );
+          if (hasSpendInstructionLog(transaction.meta?.logMessages ?? [])) {
+            await this.applySpends(
+              transaction,
+              entry.signature,
+              entry.slot,
+              'confirmed',
+            );
+          }
+          transactionsApplied++;
+          commitmentsAdded += result.added;
+          latestRoot = result.latestRoot ?? latestRoot;
+        }
+      }
+
+      last = entry;
+      if ((position + 1) % BACKFILL_CHECKPOINT_INTERVAL === 0) {
+        await this.saveCheckpoint(entry.slot, entry.signature);
+      }
+    }
+
+    if (last) {
+      await this.saveCheckpoint(last.slot, last.signature);
+    }
+
+    if (latestRoot) {
+      this.rootPublisher.enqueue(latestRoot);
+    }
+
+    const result: BackfillResult = {
+      fromSlot: checkpoint?.lastSlot ?? null,
+      toSlot: last?.slot ?? checkpoint?.lastSlot ?? null,
+      lastSignature: last?.signature ?? checkpoint?.lastSignature ?? null,
+      signaturesScanned: signatures.length,
+      transactionsApplied,
+      commitmentsAdded,
+      durationMs: Date.now() - startedAt,
+    };
+    this.lastBackfill = result;
+
+    this.logger.log(
+      `[BlockchainSync] Backfill complete: ${result.signaturesScanned} signatures, ${result.commitmentsAdded} new commitments (${result.durationMs}ms)`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Page backwards through the program's signatures until the checkpoint and
+   * return them in slot order (oldest first, block order within a slot)
+   */
+  private async collectSignaturesSince(
+    connection: Connection,
+    programId: PublicKey,
+    checkpoint: SyncCheckpoint | null,
+  ): Promise<ConfirmedSignatureInfo[]> {
+    const collected: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+
+    for (;;) {
+      const page = await connection.getSignaturesForAddress(
+        programId,
+        {
+          before,
+          until: checkpoint?.lastSignature,
+          limit: BACKFILL_PAGE_SIZE,
+        },
         'confirmed',
       );
 
-      if (confirmation.value.err) {
-        throw new Error(
-          `add_root transaction failed: ${JSON.stringify(confirmation.value.err)}`,
-        );
+      // `until` only stops at the exact signature - the slot bound also ends
+      // the scan if the checkpointed transaction is no longer known to the RPC
+      const fresh = checkpoint
+        ? page.filter(
+            (entry) =>
+              entry.slot >= checkpoint.lastSlot &&
+              entry.signature !== checkpoint.lastSignature,
+          )
+        : page;
+      collected.push(...fresh);
+
+      if (page.length < BACKFILL_PAGE_SIZE || fresh.length < page.length) {
+        break;
       }
+      before = page[page.length - 1].signature;
+    }
 
-      this.rootStatus.set(normalizedRoot, {
-        status: 'published',
-        signature,
-        updatedAt: Date.now(),
-      });
+    // Signatures come newest first; sort is stable so block order is kept
+    return collected.reverse().sort((a, b) => a.slot - b.slot);
+  }
 
-      this.logger.log(
-        `[BlockchainSync] ✅ Root published successfully to blockchain!`,
+  /**
+   * Backfill checkpoint of the pool's program, null before the first sync
+   */
+  public getCheckpoint(): Promise<SyncCheckpoint | null> {
+    return this.loadCheckpoint();
+  }
+
+  /**
+   * Replace the checkpoint in memory (snapshot import, once the store has
+   * been replaced); without one the next backfill scans the full history
+   */
+  public restoreCheckpoint(checkpoint: SyncCheckpoint | null): void {
+    this.checkpoint = checkpoint ? { ...checkpoint } : null;
+    this.checkpointLoaded = true;
+  }
+
+  /**
+   * Catch up with the chain from the current checkpoint, if listening
+   */
+  public resume(): void {
+    if (this.isListening) {
+      this.queueBackfill('import');
+    }
+  }
+
+  private async loadCheckpoint(): Promise<SyncCheckpoint | null> {
+    if (!this.checkpointLoaded) {
+      this.checkpoint = await this.store.loadCheckpoint(
+        this.solanaService.getProgramId().toBase58(),
       );
-      this.logger.log(
-        `[BlockchainSync] Root ${normalizedRoot.slice(0, 16)}... is now available for proofs`,
+      this.checkpointLoaded = true;
+    }
+    return this.checkpoint;
+  }
+
+  /**
+   * Advance the checkpoint. Applied leaves are already durable and replays
+   * are skipped, so a failed write is logged instead of failing the sync.
+   */
+  private async saveCheckpoint(slot: number, signature: string): Promise<void> {
+    if (this.checkpoint && slot < this.checkpoint.lastSlot) return;
+
+    this.checkpoint = {
+      lastSlot: slot,
+      lastSignature: signature,
+      updatedAt: Date.now(),
+    };
+    this.checkpointLoaded = true;
+
+    try {
+      await this.store.saveCheckpoint(
+        this.solanaService.getProgramId().toBase58(),
+        this.checkpoint,
       );
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
       this.logger.error(
-        `[BlockchainSync] ❌ Failed to publish root: ${errorMessage}`,
+        `[BlockchainSync] Checkpoint at slot ${slot} not persisted: ${error instanceof Error ? error.message : String(error)}`,
       );
-
-      // Provide helpful troubleshooting info
-      if (errorMessage.includes('Unauthorized')) {
-        this.logger.error(
-          '[BlockchainSync] 💡 The admin keypair does not match the on-chain admin. Check SOLANA_ADMIN_KEYPAIR in .env',
-        );
-      } else if (errorMessage.includes('AccountNotFound')) {
-        this.logger.error(
-          '[BlockchainSync] 💡 The pool may not be initialized. Run: npm run initialize-pool',
-        );
-      } else if (errorMessage.includes('insufficient funds')) {
-        this.logger.error(
-          `[BlockchainSync] 💡 Admin account needs SOL. Airdrop: solana airdrop 1 ${adminKeypair?.publicKey.toBase58()} --url devnet`,
-        );
-      }
-
-      const normalizedRoot = this.normalizeRootHex(rootHex);
-      this.rootStatus.set(normalizedRoot, {
-        status: 'failed',
-        error: errorMessage,
-        updatedAt: Date.now(),
-      });
     }
   }
 
-  private normalizeRootHex(root: string): string {
-    const sanitized = root.startsWith('0x') ? root.slice(2) : root;
-    return sanitized.toLowerCase();
-  }
+  /**
+   * Manually sync a commitment that occurred on-chain
+   * Useful for:
+   * - Catching up after downtime
+   * - Testing
+   * - Emergency sync
+   *
+   * @param circuit - Circuit type (shield/transfer/unshield)
+   * @param commitment - The commitment from on-chain event
+   * @param blockNumber - Block where commitment was created (for verification)
+   */
+  public async manuallyAddCommitment(
+    circuit: 'shield' | 'transfer' | 'unshield',
+    commitment: string,
+    blockNumber?: number,
+  ): Promise<CommitmentInsert> {
+    try {
+      this.logger.log(
+        `[BlockchainSync] Manually adding ${circuit} commitment: ${commitment.slice(0, 16)}... (block: ${blockNumber})`,
+      );
+
+      const result = await this.indexerService.addCommitment(
+        circuit,
+        commitment,
+        undefined,
+        'sync',
+      );
 
-  private toLittleEndianBytes(rootHex: string): Buffer {
-    const sanitized = rootHex.startsWith('0x') ? rootHex.slice(2) : rootHex;
-    const value = BigInt(`0x${sanitized}`);
-    const buffer = Buffer.alloc(32);
-    let temp = value;
-    for (let i = 0; i < 32; i++) {
-      buffer[i] = Number(temp & 0xffn);
-      temp >>= 8n;
+      this.logger.log(
+        result.duplicate
+          ? `[BlockchainSync] Commitment already indexed at index ${result.index} of epoch ${result.epoch}`
+          : `[BlockchainSync] Successfully added commitment to indexer`,
+      );
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `[BlockchainSync] Error adding commitment: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
     }
-    return buffer;
   }
 
-  private getRootStatusSnapshot() {
-    return Array.from(this.rootStatus.entries()).map(([root, status]) => ({
-      root,
-      ...status,
-    }));
+  /**
+   * Get sync status
+   * Returns whether blockchain listener is active
+   */
+  public getStatus() {
+    return {
+      isListening: this.isListening,
+      listener: {
+        ...this.listenerStats,
+        lastSocketActivityAt: this.lastSocketActivityAt || null,
+        reconnecting: this.reconnectTimer !== null,
+        chainSlot: this.chainSlot,
+        slotLag: this.getSlotLag(),
+      },
+      finality: {
+        unfinalizedLeaves: this.indexerService.getUnfinalizedLeaves().length,
+        pendingSpendTransactions: this.pendingSpendTransactions.size,
+        lastRollback: this.lastRollback,
+      },
+      backfill: {
+        running: this.backfillRun !== null,
+        checkpoint: this.checkpoint,
+        lastRun: this.lastBackfill,
+      },
+      pool: this.solanaService.getPoolKey(),
+      rpcConfigured: this.solanaService.isRpcConfigured(),
+      programId: this.solanaService.getProgramId().toBase58(),
+      solanaNetwork: this.solanaService.getNetwork(),
+      indexerStatus: this.indexerService.getStatus(),
+      nullifiers: this.nullifierService.getStats(),
+      publicationQueue: this.rootPublisher.getQueueStatus(),
+      rootStatus: this.rootPublisher
+        .getPublications()
+        .map(({ root, status, signature, error, updatedAt }) => ({
+          root,
+          status,
+          signature: signature ?? undefined,
+          error: error ?? undefined,
+          updatedAt,
+        })),
+    };
   }
 
-  private async rootExistsOnChain(
-    connection: Connection,
-    rootsPda: PublicKey,
-    rootBytes: Buffer,
-  ): Promise<boolean> {
-    const accountInfo = await connection.getAccountInfo(rootsPda, 'confirmed');
-    if (!accountInfo) {
+  /**
+   * Root history of a circuit's tree, matched against the on-chain roots
+   * ring buffer so clients can pick a root that proofs are still accepted for
+   *
+   * @param limit - Number of most recent roots to return
+   */
+  public async getRootHistory(
+    circuit: 'shield' | 'transfer' | 'unshield',
+    limit: number,
+  ): Promise<RootHistory> {
+    const history = this.indexerService.getRootHistory(circuit);
+    const onChain: RootHistory['onChain'] = {
+      available: false,
+      size: 0,
+      capacity: 0,
+      cursor: 0,
+    };
+
+    // Root hex -> age in the ring buffer (0 = newest)
+    const onChainAges = new Map<string, number>();
+    try {
+      const ring = await this.getOnChainRoots();
+      if (ring) {
+        Object.assign(onChain, {
+          available: true,
+          size: ring.size,
+          capacity: ring.capacity,
+          cursor: ring.cursor,
+        });
+        ring.roots.forEach((root, position) =>
+          onChainAges.set(root, ring.roots.length - 1 - position),
+        );
+      } else {
+        onChain.error = 'Roots account not found';
+      }
+    } catch (error) {
+      onChain.error = error instanceof Error ? error.message : String(error);
       this.logger.warn(
-        '[BlockchainSync] Roots account not found on-chain; ensure pool is initialized',
+        `[BlockchainSync] Could not read on-chain roots: ${onChain.error}`,
       );
-      return false;
     }
 
-    const { roots, size } = this.parseRootsAccount(accountInfo.data);
-    if (roots.length === 0 || size === 0) {
-      return false;
-    }
+    // Roots are published in tree order, so anything older than the oldest
+    // root still in the buffer has been overwritten
+    const oldestOnChain = history.find((entry) => onChainAges.has(entry.root));
 
-    return roots.slice(0, size).some((stored) => stored.equals(rootBytes));
+    const roots = history
+      .slice(-limit)
+      .reverse()
+      .map((entry): RootHistoryEntry => {
+        const local = this.rootPublisher.getPublication(entry.root);
+        const age = onChainAges.get(entry.root);
+        let status: RootPublicationStatus;
+
+        if (age !== undefined) {
+          status = 'published';
+        } else if (local?.status === 'orphaned' || local?.status === 'failed') {
+          status = local.status;
+        } else if (
+          onChain.available &&
+          (local?.status === 'published' ||
+            (oldestOnChain && entry.leafCount < oldestOnChain.leafCount))
+        ) {
+          status = 'evicted';
+        } else if (local?.status === 'superseded') {
+          status = 'superseded';
+        } else {
+          status = 'pending';
+        }
+
+        return {
+          root: entry.root,
+          leafCount: entry.leafCount,
+          createdAt: entry.createdAt,
+          status,
+          onChain: age !== undefined,
+          onChainAge: age ?? null,
+          signature: local?.signature ?? undefined,
+          error: local?.error ?? undefined,
+        };
+      });
+
+    return { circuit, onChain, total: history.length, roots };
   }
 
-  private parseRootsAccount(data: Buffer): {
-    roots: Buffer[];
+  /**
+   * Decode the on-chain roots account into hex roots, oldest first
+   * Returns null when the account does not exist (pool not initialized)
+   */
+  public async getOnChainRoots(): Promise<{
+    roots: string[];
     cursor: number;
     size: number;
     capacity: number;
-  } {
-    if (data.length < 8 + 4 + 2 + 2 + 2 + 1) {
-      throw new Error('Roots account data is malformed');
-    }
+  } | null> {
+    const connection = this.solanaService.getConnection();
+    const [rootsPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('roots')],
+      this.solanaService.getProgramId(),
+    );
 
-    let offset = 8; // discriminator
-    const vecLength = data.readUInt32LE(offset);
-    offset += 4;
+    const accountInfo = await connection.getAccountInfo(rootsPda, 'confirmed');
+    if (!accountInfo) return null;
 
-    const roots: Buffer[] = [];
-    for (let i = 0; i < vecLength; i++) {
-      const start = offset + i * 32;
-      const end = start + 32;
-      if (end > data.length) break;
-      roots.push(Buffer.from(data.slice(start, end)));
-    }
-    offset += vecLength * 32;
+    const { roots, cursor, size, capacity } = decodeRootsAccount(
+      accountInfo.data,
+    );
 
-    const cursor = data.readUInt16LE(offset);
-    offset += 2;
-    const size = data.readUInt16LE(offset);
-    offset += 2;
-    const capacity = data.readUInt16LE(offset);
+    // The buffer is filled from index 0; once full, `cursor` points at the
+    // oldest entry (the next one to be overwritten)
+    const ordered =
+      size < capacity
+        ? roots.slice(0, size)
+        : [...roots.slice(cursor), ...roots.slice(0, cursor)];
 
-    return { roots, cursor, size, capacity };
+    return {
+      roots: ordered.map((root) => leBytesToHex(root)),
+      cursor,
+      size,
+      capacity,
+    };
   }
 }
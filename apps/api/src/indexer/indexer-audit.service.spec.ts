@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PublicKey, SignaturesForAddressOptions } from '@solana/web3.js';
+import { IndexerAuditService } from './indexer-audit.service';
+import { IndexerService } from './indexer.service';
+import { IndexerEventsService } from './indexer-events.service';
+import { IndexerStoreService } from './indexer-store.service';
+import { BlockchainSyncService } from './blockchain-sync.service';
+import { SolanaService } from '../solana/solana.service';
+import { programLogs } from '../../test/helpers';
+
+const PROGRAM_ID = new PublicKey(
+  'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz',
+);
+
+const commitment = (n: number) => n.toString(16).padStart(64, '0');
+
+/**
+ * Minimal RPC: finalized program history kept oldest first
+ */
+class FakeConnection {
+  history: { signature: string; slot: number; commitments: string[] }[] = [];
+  transactionsFetched = 0;
+
+  async getSignaturesForAddress(
+    _address: PublicKey,
+    options: SignaturesForAddressOptions,
+  ) {
+    const page = [];
+    for (const tx of [...this.history].reverse()) {
+      if (tx.signature === options.until) break;
+      page.push({ signature: tx.signature, slot: tx.slot, err: null });
+    }
+    return page;
+  }
+
+  async getTransaction(signature: string) {
+    this.transactionsFetched++;
+    const tx = this.history.find((entry) => entry.signature === signature);
+    return {
+      slot: tx.slot,
+      meta: { err: null, logMessages: programLogs(PROGRAM_ID, tx.commitments) },
+    };
+  }
+}
+
+describe('IndexerAuditService', () => {
+  let connection: FakeConnection;
+  let onChainRoots: string[] | Error;
+  let indexer: IndexerService;
+  let auditor: IndexerAuditService;
+
+  // Index a leaf as the chain listener does, with a matching event
+  async function ingest(n: number) {
+    connection.history.push({
+      signature: `sig-${n}`,
+      slot: n,
+      commitments: [commitment(n)],
+    });
+    await indexer.addCommitment('shield', commitment(n), {
+      slot: n,
+      signature: `sig-${n}`,
+      finality: 'finalized',
+    });
+  }
+
+  beforeEach(async () => {
+    connection = new FakeConnection();
+    onChainRoots = [];
+
+    const store = {
+      isEnabled: () => false,
+      appendLeaf: async () => undefined,
+      appendRoot: async () => undefined,
+    };
+    indexer = new IndexerService(
+      store as unknown as IndexerStoreService,
+      new IndexerEventsService(),
+    );
+    await indexer.onModuleInit();
+
+    const blockchainSync = {
+      getOnChainRoots: async () => {
+        if (onChainRoots instanceof Error) throw onChainRoots;
+        return {
+          roots: onChainRoots,
+          cursor: 0,
+          size: onChainRoots.length,
+          capacity: 64,
+        };
+      },
+    };
+    const solana = {
+      getConnection: () => connection,
+      getProgramId: () => PROGRAM_ID,
+    };
+    auditor = new IndexerAuditService(
+      indexer,
+      blockchainSync as unknown as BlockchainSyncService,
+      solana as unknown as SolanaService,
+    );
+  });
+
+  it('reports a tree that matches the chain as consistent', async () => {
+    await ingest(1);
+    await ingest(2);
+    onChainRoots = indexer.getRootHistory('shield').map((entry) => entry.root);
+    await ingest(3);
+
+    const report = await auditor.audit();
+
+    expect(report.status).toBe('consistent');
+    expect(report.issues).toEqual([]);
+    expect(report.leaves).toMatchObject({ indexed: 3, events: 3, missing: 0 });
+    expect(report.roots).toEqual({ recomputed: 3, mismatches: [] });
+    expect(report.onChain).toMatchObject({ available: true, roots: 2 });
+    expect(indexer.getStatus().audit.status).toBe('consistent');
+  });
+
+  it('flags missing events, unexplained leaves and unknown on-chain roots', async () => {
+    await ingest(1);
+    await indexer.addCommitment('shield', commitment(7)); // no event
+    connection.history.push({
+      signature: 'sig-2',
+      slot: 2,
+      commitments: [commitment(2)],
+    }); // never indexed
+    onChainRoots = [commitment(99)];
+
+    const report = await auditor.audit();
+
+    expect(report.status).toBe('divergent');
+    expect(report.leaves).toMatchObject({
+      indexed: 2,
+      events: 2,
+      missing: 1,
+      unexplained: 1,
+      missingCommitments: [commitment(2)],
+      unexplainedCommitments: [commitment(7)],
+    });
+    expect(report.onChain.unexplained).toEqual([commitment(99)]);
+    expect(report.issues).toHaveLength(3);
+    expect(indexer.getStatus().audit).toMatchObject({
+      status: 'divergent',
+      issues: report.issues,
+    });
+  });
+
+  it('scans events incrementally and degrades to unavailable without the chain', async () => {
+    await ingest(1);
+    await ingest(2);
+    await auditor.audit();
+    expect(connection.transactionsFetched).toBe(2);
+
+    await ingest(3);
+    const report = await auditor.audit();
+    expect(connection.transactionsFetched).toBe(3);
+    expect(report.leaves.events).toBe(3);
+
+    onChainRoots = new Error('fetch failed');
+    const offline = await auditor.audit();
+    expect(offline.status).toBe('unavailable');
+    expect(offline.onChain.error).toBe('fetch failed');
+    expect(offline.roots.mismatches).toEqual([]);
+  });
+});
@@ -0,0 +1,355 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfirmedSignatureInfo } from '@solana/web3.js';
+import { AuditSummary, IndexerService, RootMismatch } from './indexer.service';
+import { BlockchainSyncService } from './blockchain-sync.service';
+import { SolanaService } from '../solana/solana.service';
+import { decodeNewCommitmentEvents } from './program-events';
+
+// First audit once startup backfill had time to run, then periodically
+const AUDIT_INITIAL_DELAY_MS = 60_000;
+const AUDIT_INTERVAL_MS = 10 * 60_000;
+
+// getSignaturesForAddress returns at most 1000 signatures per call
+const SIGNATURE_PAGE_SIZE = 1000;
+
+// Commitments / roots listed per finding (counts are always complete)
+const MAX_LISTED = 20;
+
+/**
+ * Result of one consistency audit of the shield tree against the chain
+ *
+ * - leaves: indexed leaves vs NewCommitment events of finalized transactions
+ * - roots: roots recomputed from the stored leaves vs the recorded history
+ * - onChain: roots in the on-chain roots account that no tree state explains
+ */
+export interface AuditReport extends AuditSummary {
+  tree: 'shield';
+  epoch: number; // current epoch - the one whose roots are recomputed
+  durationMs: number;
+  leaves: {
+    indexed: number;
+    pending: number; // not finalized yet and not among the scanned events
+    events: number;
+    missing: number; // event commitments not in the tree
+    unexplained: number; // finalized leaves without an event
+    missingCommitments: string[];
+    unexplainedCommitments: string[];
+  };
+  roots: {
+    recomputed: number;
+    mismatches: RootMismatch[];
+  };
+  onChain: {
+    available: boolean;
+    roots: number;
+    unexplained: string[];
+    error?: string;
+  };
+}
+
+/**
+ * IndexerAuditService - Checks that the off-chain tree matches the chain
+ *
+ * Each audit:
+ * 1. Reads the on-chain roots account (before the tree snapshot, so every
+ *    root it holds was computed from leaves the snapshot already contains)
+ * 2. Recomputes every root from the stored leaves and compares it with the
+ *    root history and the live tree
+ * 3. Compares the leaves with the NewCommitment events of finalized program
+ *    transactions (scanned incrementally from its own cursor)
+ * 4. Flags on-chain roots that are not the root of any prefix of the tree
+ *
+ * The outcome is reported to IndexerService.getStatus and fails readiness
+ * when divergent.
+ */
+@Injectable()
+export class IndexerAuditService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(IndexerAuditService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<AuditReport> | null = null;
+  private lastReport: AuditReport | null = null;
+
+  // Finalized NewCommitment events seen so far, in chain order
+  private eventCommitments: string[] = [];
+  private eventCursor: string | null = null;
+
+  constructor(
+    private readonly indexerService: IndexerService,
+    private readonly blockchainSync: BlockchainSyncService,
+    private readonly solanaService: SolanaService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!this.solanaService.isRpcConfigured()) {
+      this.logger.warn(
+        `[IndexerAudit] No RPC configured for pool ${this.solanaService.getPoolKey()} - periodic audit disabled`,
+      );
+      return;
+    }
+
+    const tick = (delay: number) => {
+      this.timer = setTimeout(() => {
+        this.audit()
+          .catch((error) =>
+            this.logger.error(
+              `[IndexerAudit] Audit failed: ${error instanceof Error ? error.message : String(error)}`,
+            ),
+          )
+          .finally(() => {
+            if (this.timer) tick(AUDIT_INTERVAL_MS);
+          });
+      }, delay);
+    };
+    tick(AUDIT_INITIAL_DELAY_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Latest audit report, or null before the first audit
+   */
+  public getLastReport(): AuditReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Run an audit (joins an audit that is already in progress)
+   */
+  public audit(): Promise<AuditReport> {
+    if (!this.running) {
+      this.running = this.runAudit().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async runAudit(): Promise<AuditReport> {
+    const startedAt = Date.now();
+    const issues: string[] = [];
+    const report: AuditReport = {
+      status: 'consistent',
+      checkedAt: startedAt,
+      issues,
+      tree: 'shield',
+      epoch: 0,
+      durationMs: 0,
+      leaves: {
+        indexed: 0,
+        pending: 0,
+        events: 0,
+        missing: 0,
+        unexplained: 0,
+        missingCommitments: [],
+        unexplainedCommitments: [],
+      },
+      roots: { recomputed: 0, mismatches: [] },
+      onChain: { available: false, roots: 0, unexplained: [] },
+    };
+
+    let onChainRoots: string[] | null = null;
+    let chainError: string | null = null;
+    try {
+      const ring = await this.blockchainSync.getOnChainRoots();
+      if (ring) {
+        onChainRoots = ring.roots;
+      } else {
+        chainError = 'Roots account not found';
+      }
+    } catch (error) {
+      chainError = error instanceof Error ? error.message : String(error);
+    }
+
+    const recomputation = await this.indexerService.recomputeRoots('shield');
+    const { roots, mismatches, sealed } = recomputation;
+    // Events cover every epoch, so leaves of sealed epochs are compared too
+    const leaves = [...sealed.leaves, ...recomputation.leaves];
+    report.epoch = recomputation.epoch;
+    report.roots = { recomputed: roots.length - 1, mismatches };
+    report.leaves.indexed = leaves.length;
+    for (const mismatch of mismatches) {
+      issues.push(
+        `${mismatch.source === 'live' ? 'Live' : 'Recorded'} root for ${mismatch.leafCount} leaves is ${mismatch.recorded.slice(0, 16)}... but the stored leaves give ${mismatch.recomputed ? `${mismatch.recomputed.slice(0, 16)}...` : 'no root'}`,
+      );
+    }
+
+    if (onChainRoots) {
+      const explained = new Set([...sealed.roots, ...roots]);
+      const unexplained = onChainRoots.filter((root) => !explained.has(root));
+      report.onChain = {
+        available: true,
+        roots: onChainRoots.length,
+        unexplained: unexplained.slice(0, MAX_LISTED),
+      };
+      if (unexplained.length > 0) {
+        issues.push(
+          `${unexplained.length} on-chain root(s) match no state of the indexed tree`,
+        );
+      }
+    }
+
+    let events: string[] | null = null;
+    if (!chainError) {
+      try {
+        events = await this.scanEvents();
+      } catch (error) {
+        chainError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    if (events) {
+      const indexed = new Set(
+        leaves.map((leaf) => this.toHex(leaf.commitment)),
+      );
+      const emitted = new Set(events);
+      const missing = [...emitted].filter((hex) => !indexed.has(hex));
+
+      let pending = 0;
+      const unexplained: string[] = [];
+      for (const leaf of leaves) {
+        const hex = this.toHex(leaf.commitment);
+        if (emitted.has(hex)) continue;
+        if (leaf.signature && leaf.finality !== 'finalized') {
+          pending++;
+        } else {
+          unexplained.push(hex);
+        }
+      }
+
+      report.leaves = {
+        indexed: leaves.length,
+        pending,
+        events: events.length,
+        missing: missing.length,
+        unexplained: unexplained.length,
+        missingCommitments: missing.slice(0, MAX_LISTED),
+        unexplainedCommitments: unexplained.slice(0, MAX_LISTED),
+      };
+
+      if (leaves.length - pending !== events.length) {
+        issues.push(
+          `Tree has ${leaves.length - pending} finalized leaves but the chain emitted ${events.length} NewCommitment events`,
+        );
+      }
+      if (missing.length > 0) {
+        issues.push(
+          `${missing.length} NewCommitment event(s) are not in the tree`,
+        );
+      }
+      if (unexplained.length > 0) {
+        issues.push(
+          `${unexplained.length} leaf(s) have no NewCommitment event on-chain`,
+        );
+      }
+    }
+
+    if (chainError) {
+      report.onChain.error = chainError;
+    }
+    report.status =
+      issues.length > 0
+        ? 'divergent'
+        : chainError
+          ? 'unavailable'
+          : 'consistent';
+    report.durationMs = Date.now() - startedAt;
+
+    this.lastReport = report;
+    this.indexerService.setAuditSummary({
+      status: report.status,
+      checkedAt: report.checkedAt,
+      issues,
+    });
+
+    if (report.status === 'divergent') {
+      this.logger.error(
+        `[IndexerAudit] Indexer diverges from chain: ${issues.join('; ')}`,
+      );
+    } else if (report.status === 'unavailable') {
+      this.logger.warn(
+        `[IndexerAudit] Chain state unavailable, only the stored tree was checked: ${chainError}`,
+      );
+    } else {
+      this.logger.log(
+        `[IndexerAudit] Consistent: ${leaves.length} leaves, ${report.onChain.roots} on-chain roots (${report.durationMs}ms)`,
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Collect the NewCommitment events of finalized program transactions
+   * since the last audit and return every event seen so far, in chain order
+   */
+  private async scanEvents(): Promise<string[]> {
+    const connection = this.solanaService.getConnection();
+    const programId = this.solanaService.getProgramId();
+
+    const fresh: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    for (;;) {
+      const page = await connection.getSignaturesForAddress(
+        programId,
+        {
+          before,
+          until: this.eventCursor ?? undefined,
+          limit: SIGNATURE_PAGE_SIZE,
+        },
+        'finalized',
+      );
+      fresh.push(...page);
+      if (page.length < SIGNATURE_PAGE_SIZE) break;
+      before = page[page.length - 1].signature;
+    }
+
+    // Signatures come newest first; sort is stable so block order is kept
+    const ordered = fresh.reverse().sort((a, b) => a.slot - b.slot);
+    const added: string[] = [];
+    for (const entry of ordered) {
+      if (entry.err) continue;
+
+      const transaction = await connection.getTransaction(entry.signature, {
+        commitment: 'finalized',
+        maxSupportedTransactionVersion: 0,
+      });
+      if (!transaction) {
+        throw new Error(
+          `Transaction ${entry.signature} not available from RPC`,
+        );
+      }
+      if (transaction.meta?.err) continue;
+
+      added.push(
+        ...decodeNewCommitmentEvents(
+          transaction.meta?.logMessages ?? [],
+          programId.toBase58(),
+        ),
+      );
+    }
+
+    // Only advance once the whole range is read, so a failed scan is retried
+    this.eventCommitments.push(...added);
+    if (ordered.length > 0) {
+      this.eventCursor = ordered[ordered.length - 1].signature;
+    }
+
+    return this.eventCommitments;
+  }
+
+  private toHex(decimal: string): string {
+    return BigInt(decimal).toString(16).padStart(64, '0');
+  }
+}
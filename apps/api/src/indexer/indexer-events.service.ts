@@ -0,0 +1,132 @@
+import {
+  Injectable,
+  Logger,
+  MessageEvent,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import {
+  Observable,
+  Subject,
+  defer,
+  finalize,
+  interval,
+  map,
+  merge,
+  takeUntil,
+} from 'rxjs';
+import { LeafSource } from './indexer-store.service';
+
+// Heartbeat event sent to idle streams so proxies keep the connection open
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Events pushed to clients over GET /indexer/events
+ */
+export type IndexerEvent =
+  | {
+      type: 'commitment_added';
+      data: {
+        tree: string;
+        epoch: number;
+        index: number; // index within the epoch
+        commitment: string; // 64-char hex
+        root: string; // root after the insert (hex)
+        source: LeafSource;
+        signature: string | null;
+        slot: number | null;
+        blockTime: number | null;
+      };
+    }
+  | {
+      type: 'root_computed';
+      data: { tree: string; epoch: number; root: string; leafCount: number };
+    }
+  | {
+      type: 'epoch_started';
+      data: {
+        tree: string;
+        epoch: number; // the new epoch
+        sealedRoot: string; // final root of the full previous epoch (hex)
+        sealedLeafCount: number;
+      };
+    }
+  | {
+      type: 'root_published';
+      data: { root: string; signature: string | null };
+    }
+  | {
+      type: 'root_failed';
+      data: { root: string; error: string };
+    };
+
+/**
+ * IndexerEventsService - In-process event bus for tree and root changes
+ *
+ * IndexerService and BlockchainSyncService emit, the controller streams the
+ * events to clients as server-sent events. Events are not buffered: a client
+ * that reconnects should re-read the state it cares about once.
+ */
+@Injectable()
+export class IndexerEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(IndexerEventsService.name);
+  private readonly events = new Subject<IndexerEvent & { id: number }>();
+  private readonly closed = new Subject<void>();
+  private nextId = 1;
+  private subscribers = 0;
+
+  /**
+   * Publish an event to every connected client
+   */
+  emit(event: IndexerEvent): void {
+    this.events.next({ ...event, id: this.nextId++ });
+  }
+
+  /**
+   * Event stream for one SSE client, with periodic heartbeats
+   */
+  stream(): Observable<MessageEvent> {
+    const events = this.events.pipe(
+      map(
+        (event): MessageEvent => ({
+          id: String(event.id),
+          type: event.type,
+          data: { ...event.data, at: Date.now() },
+        }),
+      ),
+    );
+    const heartbeats = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      map(
+        (): MessageEvent => ({ type: 'heartbeat', data: { at: Date.now() } }),
+      ),
+    );
+
+    return defer(() => {
+      this.subscribers++;
+      this.logger.log(`[IndexerEvents] Client connected (${this.subscribers})`);
+      return merge(events, heartbeats);
+    }).pipe(
+      takeUntil(this.closed),
+      finalize(() => {
+        this.subscribers--;
+        this.logger.log(
+          `[IndexerEvents] Client disconnected (${this.subscribers})`,
+        );
+      }),
+    );
+  }
+
+  /**
+   * Connected clients and events emitted since startup
+   */
+  getStats() {
+    return { subscribers: this.subscribers, emitted: this.nextId - 1 };
+  }
+
+  /**
+   * End every open stream so shutdown does not wait for clients
+   */
+  onModuleDestroy() {
+    this.closed.next();
+    this.events.complete();
+  }
+}
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ConfigService } from '@nestjs/config';
+import { PoolRegistryService } from './pool-registry.service';
+import { IndexerSnapshot, snapshotChecksum } from './indexer-snapshot';
+import { SupabaseService } from '../supabase/supabase.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { AppException } from '../common/exceptions';
+
+const PROGRAM_ID = 'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz';
+
+const commitment = (n: number) => n.toString(16).padStart(64, '0');
+
+// Supabase client of the pools, null (in memory only) unless a test sets one
+let client: unknown = null;
+
+// Records the store's writes; the insert numbered `failAt` fails
+function createClient(failAt = 0) {
+  const calls: string[] = [];
+  let inserts = 0;
+  const deleted = {
+    eq: () => deleted,
+    then: (resolve: (result: { error: null }) => void) =>
+      resolve({ error: null }),
+  };
+  return {
+    calls,
+    from: (table: string) => ({
+      insert: async (row: { target: string; page: number }) => {
+        calls.push(`insert ${table} ${row.target} ${row.page}`);
+        return ++inserts === failAt
+          ? { error: { code: '08006', message: 'connection lost' } }
+          : { error: null };
+      },
+      delete: () => {
+        calls.push(`delete ${table}`);
+        return deleted;
+      },
+    }),
+    rpc: async (name: string) => {
+      calls.push(`rpc ${name}`);
+      return { error: null };
+    },
+  };
+}
+
+// Two pools of the same program; depth 2 so the shield tree rolls over
+async function createRegistry(): Promise<PoolRegistryService> {
+  const env: Record<string, string> = {
+    MERKLE_TREE_DEPTH: '2',
+    NOIRWIRE_POOLS: JSON.stringify([
+      { key: 'source', programId: PROGRAM_ID, rpcUrl: 'http://localhost:8899' },
+      { key: 'target', programId: PROGRAM_ID, rpcUrl: 'http://localhost:8899' },
+      {
+        key: 'other',
+        programId: '11111111111111111111111111111111',
+        rpcUrl: 'http://localhost:8899',
+      },
+    ]),
+  };
+  const registry = new PoolRegistryService(
+    { get: (name: string) => env[name] } as unknown as ConfigService,
+    { getClient: () => client } as unknown as SupabaseService,
+    new MetricsService(),
+  );
+  await registry.onModuleInit();
+  return registry;
+}
+
+async function expectErrorCode(promise: Promise<unknown>, code: string) {
+  try {
+    await promise;
+    throw new Error(`expected ${code}`);
+  } catch (error) {
+    expect(error).toBeInstanceOf(AppException);
+    expect((error as AppException).getErrorCode()).toBe(code);
+  }
+}
+
+describe('IndexerSnapshotService', () => {
+  let registry: PoolRegistryService;
+  let snapshot: IndexerSnapshot;
+
+  beforeEach(async () => {
+    client = null;
+    registry = await createRegistry();
+    const { indexer, snapshots } = registry.get('source');
+    for (let n = 1; n <= 5; n++) {
+      await indexer.addCommitment('shield', commitment(n));
+    }
+    await indexer.addCommitment('unshield', commitment(9));
+
+    // Through JSON, as the CLI sends it
+    snapshot = JSON.parse(
+      JSON.stringify(await snapshots.exportSnapshot()),
+    ) as IndexerSnapshot;
+  });
+
+  it('imports an exported snapshot into another pool of the same program', async () => {
+    expect(snapshot).toMatchObject({
+      format: 'noirwire-indexer-snapshot',
+      version: 1,
+      pool: 'source',
+      trees: { shield: { epoch: 1, leafCount: 1 } },
+      checksum: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+    });
+
+    const source = registry.get('source').indexer;
+    const target = registry.get('target');
+    const result = await target.snapshots.importSnapshot(snapshot);
+
+    expect(result).toMatchObject({
+      pool: 'target',
+      dryRun: false,
+      checksum: snapshot.checksum,
+    });
+    expect(await target.indexer.getRoot('shield')).toBe(
+      await source.getRoot('shield'),
+    );
+    expect(await target.indexer.getRoot('unshield')).toBe(
+      await source.getRoot('unshield'),
+    );
+    expect(target.indexer.getStatus().trees.shield).toMatchObject({
+      count: 1,
+      epoch: 1,
+      sealedEpochs: 1,
+    });
+    // Leaves of the sealed epoch still prove against its root
+    const proof = await target.indexer.getProof('shield', commitment(2));
+    expect(proof.root).toBe(snapshot.trees.shield.roots[3].root);
+
+    // Re-exporting gives the same content
+    const again = await target.snapshots.exportSnapshot();
+    expect(again.trees).toEqual(snapshot.trees);
+  });
+
+  it('only validates on a dry run', async () => {
+    const target = registry.get('target');
+
+    const result = await target.snapshots.importSnapshot(snapshot, true);
+
+    expect(result).toMatchObject({ dryRun: true });
+    expect(target.indexer.getStatus().trees.shield.count).toBe(0);
+  });
+
+  it('rejects corrupted, tampered and foreign snapshots', async () => {
+    const target = registry.get('target');
+
+    // Content changed without updating the checksum
+    const corrupted = structuredClone(snapshot);
+    corrupted.trees.shield.leaves[0].commitment = '42';
+    await expectErrorCode(
+      target.snapshots.importSnapshot(corrupted),
+      'INDEXER_INVALID_SNAPSHOT',
+    );
+
+    // Checksum recomputed, but the leaves no longer give the roots
+    const tampered = structuredClone(corrupted);
+    tampered.checksum = snapshotChecksum(tampered);
+    await expectErrorCode(
+      target.snapshots.importSnapshot(tampered),
+      'INDEXER_SNAPSHOT_MISMATCH',
+    );
+
+    await expectErrorCode(
+      target.snapshots.importSnapshot({ ...snapshot, version: 2 }),
+      'INDEXER_INVALID_SNAPSHOT',
+    );
+    await expectErrorCode(
+      registry.get('other').snapshots.importSnapshot(snapshot),
+      'INDEXER_SNAPSHOT_MISMATCH',
+    );
+
+    expect(target.indexer.getStatus().trees.shield.count).toBe(0);
+  });
+
+  it('keeps the stored and in-memory state when writing the store fails', async () => {
+    const target = registry.get('target');
+    await target.indexer.addCommitment('shield', commitment(42));
+    const root = await target.indexer.getRoot('shield');
+
+    const failing = createClient(2);
+    client = failing;
+    await expectErrorCode(
+      target.snapshots.importSnapshot(snapshot),
+      'INDEXER_PERSISTENCE_FAILED',
+    );
+
+    // Only staged rows were written, and they were dropped again
+    expect(failing.calls).toEqual([
+      'insert indexer_snapshot_staging indexer_leaves 0',
+      'insert indexer_snapshot_staging indexer_roots 0',
+      'delete indexer_snapshot_staging',
+    ]);
+    expect(await target.indexer.getRoot('shield')).toBe(root);
+    expect(target.indexer.getStatus().trees.shield.count).toBe(1);
+
+    const working = createClient();
+    client = working;
+    await target.snapshots.importSnapshot(snapshot);
+
+    expect(working.calls.at(-1)).toBe('rpc apply_indexer_snapshot');
+    expect(await target.indexer.getRoot('shield')).toBe(
+      snapshot.trees.shield.root,
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IndexerService } from './indexer.service';
+import { NullifierService } from './nullifier.service';
+import { RootPublisherService } from './root-publisher.service';
+import { BlockchainSyncService } from './blockchain-sync.service';
+import { IndexerStoreService, SyncCheckpoint } from './indexer-store.service';
+import { PoolConfig, TreeConfig } from './pool-config';
+import {
+  IndexerSnapshot,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  parseSnapshot,
+  sealSnapshot,
+} from './indexer-snapshot';
+import { SnapshotMismatchException } from '../common/exceptions';
+
+/**
+ * Outcome of POST /indexer/snapshot
+ */
+export interface SnapshotImportResult {
+  pool: string;
+  dryRun: boolean; // true when only the checks ran
+  checksum: string;
+  createdAt: number; // when the snapshot was taken
+  trees: Record<
+    'shield' | 'unshield',
+    { epoch: number; leafCount: number; root: string | null }
+  >;
+  nullifiers: number;
+  publications: number;
+  checkpoint: SyncCheckpoint | null;
+}
+
+/**
+ * IndexerSnapshotService - Exports and imports a pool's indexer state
+ *
+ * A snapshot (see indexer-snapshot.ts) holds every epoch of both trees with
+ * their root history, the spent nullifiers, the backfill checkpoint and the
+ * unfinished root publications. Both directions run with chain ingestion
+ * paused, so the parts are taken from (and applied to) one consistent state.
+ *
+ * An import must come from the same program and tree configuration, and
+ * every tree is rebuilt and checked against the snapshot's roots before
+ * anything is replaced. The store is then replaced in one transaction, and
+ * memory only after that succeeded, so a failed import changes nothing.
+ * Ingestion then resumes with a backfill from the imported checkpoint.
+ */
+@Injectable()
+export class IndexerSnapshotService {
+  private readonly logger = new Logger(IndexerSnapshotService.name);
+
+  constructor(
+    private readonly config: PoolConfig,
+    private readonly store: IndexerStoreService,
+    private readonly indexerService: IndexerService,
+    private readonly nullifierService: NullifierService,
+    private readonly rootPublisher: RootPublisherService,
+    private readonly blockchainSync: BlockchainSyncService,
+  ) {}
+
+  public exportSnapshot(): Promise<IndexerSnapshot> {
+    return this.blockchainSync.runExclusive(async () => {
+      const snapshot = sealSnapshot({
+        format: SNAPSHOT_FORMAT,
+        version: SNAPSHOT_VERSION,
+        createdAt: Date.now(),
+        pool: this.config.key,
+        programId: this.config.programId,
+        network: this.config.network,
+        tree: { ...this.config.tree },
+        trees: await this.indexerService.exportTrees(),
+        nullifiers: this.nullifierService.list(),
+        checkpoint: await this.blockchainSync.getCheckpoint(),
+        publications: this.rootPublisher.getPending(),
+      });
+
+      this.logger.log(
+        `[IndexerSnapshot] Exported pool ${this.config.key}: ${snapshot.trees.shield.leaves.length} shield and ${snapshot.trees.unshield.leaves.length} unshield leaves, ${snapshot.nullifiers.length} nullifiers (${snapshot.checksum})`,
+      );
+      return snapshot;
+    });
+  }
+
+  /**
+   * Validate a snapshot and replace the pool's state with it
+   *
+   * @param dryRun - Only validate (format, checksum, pool match and rebuilt
+   *   roots); nothing is replaced
+   */
+  public async importSnapshot(
+    raw: unknown,
+    dryRun = false,
+  ): Promise<SnapshotImportResult> {
+    const snapshot = parseSnapshot(raw);
+    this.checkPoolMatch(snapshot);
+
+    return this.blockchainSync.runExclusive(async () => {
+      await this.indexerService.restoreTrees(
+        snapshot.trees,
+        dryRun
+          ? null
+          : () =>
+              this.store.replaceState({
+                trees: snapshot.trees,
+                nullifiers: snapshot.nullifiers,
+                publications: snapshot.publications,
+                programId: this.config.programId,
+                checkpoint: snapshot.checkpoint,
+              }),
+      );
+      if (!dryRun) {
+        this.nullifierService.replaceAll(snapshot.nullifiers);
+        this.rootPublisher.replaceQueue(snapshot.publications);
+        this.blockchainSync.restoreCheckpoint(snapshot.checkpoint);
+      }
+
+      const result: SnapshotImportResult = {
+        pool: this.config.key,
+        dryRun,
+        checksum: snapshot.checksum,
+        createdAt: snapshot.createdAt,
+        trees: {
+          shield: this.describeTree(snapshot, 'shield'),
+          unshield: this.describeTree(snapshot, 'unshield'),
+        },
+        nullifiers: snapshot.nullifiers.length,
+        publications: snapshot.publications.length,
+        checkpoint: snapshot.checkpoint,
+      };
+
+      if (dryRun) {
+        this.logger.log(
+          `[IndexerSnapshot] Snapshot ${snapshot.checksum} checks out for pool ${this.config.key} (dry run)`,
+        );
+      } else {
+        this.logger.warn(
+          `[IndexerSnapshot] Imported snapshot ${snapshot.checksum} of ${new Date(snapshot.createdAt).toISOString()} into pool ${this.config.key}`,
+        );
+        this.blockchainSync.resume();
+      }
+      return result;
+    });
+  }
+
+  /**
+   * A snapshot only fits a pool indexing the same program with the same
+   * tree parameters (other parameters give other roots)
+   */
+  private checkPoolMatch(snapshot: IndexerSnapshot): void {
+    if (snapshot.programId !== this.config.programId) {
+      throw new SnapshotMismatchException(
+        `Snapshot is of program ${snapshot.programId}, pool ${this.config.key} indexes ${this.config.programId}`,
+        { pool: this.config.key },
+      );
+    }
+
+    const fields: Array<keyof TreeConfig> = [
+      'depth',
+      'arity',
+      'hash',
+      'zeroLeaf',
+    ];
+    const differing = fields.filter(
+      (field) => snapshot.tree?.[field] !== this.config.tree[field],
+    );
+    if (differing.length > 0) {
+      throw new SnapshotMismatchException(
+        `Snapshot tree ${differing.join(', ')} differ from pool ${this.config.key}`,
+        {
+          pool: this.config.key,
+          expected: this.config.tree,
+          actual: snapshot.tree,
+        },
+      );
+    }
+  }
+
+  private describeTree(
+    snapshot: IndexerSnapshot,
+    treeKey: 'shield' | 'unshield',
+  ) {
+    const { epoch, leafCount, root } = snapshot.trees[treeKey];
+    return { epoch, leafCount, root };
+  }
+}
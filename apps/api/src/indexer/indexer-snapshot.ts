@@ -0,0 +1,250 @@
+import { createHash } from 'crypto';
+import {
+  StoredNullifier,
+  StoredRootPublication,
+  SyncCheckpoint,
+} from './indexer-store.service';
+import { TreeState } from './indexer.service';
+import { TreeConfig } from './pool-config';
+import { InvalidSnapshotException } from '../common/exceptions';
+
+export const SNAPSHOT_FORMAT = 'noirwire-indexer-snapshot';
+
+// Bump on any change to the snapshot layout; older versions are rejected
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Portable copy of a pool's indexer state
+ *
+ * `checksum` is the SHA-256 of the canonical JSON (keys sorted, no
+ * whitespace) of every other field, so a truncated or edited file is
+ * rejected before anything is imported.
+ */
+export interface IndexerSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: number;
+  pool: string;
+  programId: string; // base58
+  network: string;
+  tree: TreeConfig;
+  trees: Record<'shield' | 'unshield', TreeState>;
+  nullifiers: StoredNullifier[];
+  checkpoint: SyncCheckpoint | null;
+  publications: StoredRootPublication[]; // queued or in flight, newest first
+  checksum: string; // sha256:<hex>
+}
+
+export type SnapshotBody = Omit<IndexerSnapshot, 'checksum'>;
+
+type Check = (value: unknown) => boolean;
+
+const HEX_32 = /^[0-9a-f]{64}$/;
+const DECIMAL = /^[0-9]+$/;
+
+const isCount: Check = (value) =>
+  Number.isSafeInteger(value) && (value as number) >= 0;
+const isTime: Check = (value) => typeof value === 'number' && value >= 0;
+const isText: Check = (value) => typeof value === 'string' && value !== '';
+const isHex32: Check = (value) =>
+  typeof value === 'string' && HEX_32.test(value);
+const isOneOf =
+  (...allowed: unknown[]): Check =>
+  (value) =>
+    allowed.includes(value);
+const orNull =
+  (check: Check): Check =>
+  (value) =>
+    value === null || check(value);
+const isFinality = isOneOf('processed', 'confirmed', 'finalized');
+
+const LEAF_FIELDS: Record<string, Check> = {
+  epoch: isCount,
+  index: isCount,
+  commitment: (value) => typeof value === 'string' && DECIMAL.test(value),
+  createdAt: isTime,
+  slot: orNull(isCount),
+  signature: orNull(isText),
+  blockTime: orNull(isTime),
+  source: isOneOf('chain', 'api', 'sync'),
+  finality: isFinality,
+};
+
+const ROOT_FIELDS: Record<string, Check> = {
+  epoch: isCount,
+  root: isHex32,
+  leafCount: isCount,
+  createdAt: isTime,
+};
+
+const NULLIFIER_FIELDS: Record<string, Check> = {
+  nullifier: isHex32,
+  circuit: isOneOf('transfer', 'unshield'),
+  signature: isText,
+  slot: isCount,
+  finality: isFinality,
+  createdAt: isTime,
+};
+
+const CHECKPOINT_FIELDS: Record<string, Check> = {
+  lastSlot: isCount,
+  lastSignature: isText,
+  updatedAt: isTime,
+};
+
+const PUBLICATION_FIELDS: Record<string, Check> = {
+  root: isHex32,
+  status: isOneOf('queued', 'publishing'),
+  attempts: isCount,
+  signature: orNull(isText),
+  error: orNull((value) => typeof value === 'string'),
+  nextAttemptAt: orNull(isTime),
+  createdAt: isTime,
+  updatedAt: isTime,
+};
+
+/**
+ * Add the checksum to a snapshot body
+ */
+export function sealSnapshot(body: SnapshotBody): IndexerSnapshot {
+  return { ...body, checksum: snapshotChecksum(body) };
+}
+
+/**
+ * SHA-256 of the canonical JSON of everything but the checksum
+ */
+export function snapshotChecksum(snapshot: object): string {
+  const body: Record<string, unknown> = { ...snapshot };
+  delete body.checksum;
+  return `sha256:${createHash('sha256').update(canonicalJson(body)).digest('hex')}`;
+}
+
+/**
+ * Validate an uploaded snapshot: format, version, checksum, then the shape
+ * of every record. Whether its leaves reproduce its roots is checked when
+ * the trees are rebuilt.
+ */
+export function parseSnapshot(raw: unknown): IndexerSnapshot {
+  if (!isObject(raw)) {
+    throw new InvalidSnapshotException('Snapshot must be a JSON object');
+  }
+  if (raw.format !== SNAPSHOT_FORMAT) {
+    throw new InvalidSnapshotException(
+      `Not an indexer snapshot (format ${JSON.stringify(raw.format)})`,
+    );
+  }
+  if (raw.version !== SNAPSHOT_VERSION) {
+    throw new InvalidSnapshotException(
+      `Unsupported snapshot version ${JSON.stringify(raw.version)} (supported: ${SNAPSHOT_VERSION})`,
+    );
+  }
+  const checksum = snapshotChecksum(raw);
+  if (raw.checksum !== checksum) {
+    throw new InvalidSnapshotException(
+      `Checksum mismatch: snapshot says ${JSON.stringify(raw.checksum)}, content hashes to ${checksum}`,
+    );
+  }
+
+  expectFields('snapshot', raw, {
+    createdAt: isTime,
+    pool: isText,
+    programId: isText,
+    network: isText,
+    tree: isObject,
+    trees: isObject,
+    nullifiers: Array.isArray,
+    checkpoint: orNull(isObject),
+    publications: Array.isArray,
+  });
+
+  const trees = raw.trees as Record<string, unknown>;
+  for (const key of ['shield', 'unshield']) {
+    const state = trees[key];
+    if (!isObject(state)) {
+      throw new InvalidSnapshotException(`trees.${key} is missing`);
+    }
+    expectFields(`trees.${key}`, state, {
+      epoch: isCount,
+      leafCount: isCount,
+      root: orNull(isHex32),
+      leaves: Array.isArray,
+      roots: Array.isArray,
+    });
+    expectRecords(`trees.${key}.leaves`, state.leaves, LEAF_FIELDS);
+    expectRecords(`trees.${key}.roots`, state.roots, ROOT_FIELDS);
+    expectUnique(`trees.${key}.leaves`, state.leaves, 'commitment');
+  }
+
+  expectRecords('nullifiers', raw.nullifiers, NULLIFIER_FIELDS);
+  expectUnique('nullifiers', raw.nullifiers, 'nullifier');
+  if (raw.checkpoint !== null) {
+    expectFields('checkpoint', raw.checkpoint, CHECKPOINT_FIELDS);
+  }
+  expectRecords('publications', raw.publications, PUBLICATION_FIELDS);
+  expectUnique('publications', raw.publications, 'root');
+
+  return raw as unknown as IndexerSnapshot;
+}
+
+/**
+ * JSON with object keys sorted at every level
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, entry: unknown) =>
+    isObject(entry)
+      ? Object.fromEntries(
+          Object.entries(entry).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0,
+          ),
+        )
+      : entry,
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectFields(
+  path: string,
+  value: unknown,
+  fields: Record<string, Check>,
+): void {
+  if (!isObject(value)) {
+    throw new InvalidSnapshotException(`${path} must be an object`);
+  }
+  for (const [field, check] of Object.entries(fields)) {
+    if (!check(value[field])) {
+      throw new InvalidSnapshotException(
+        `${path}.${field} is missing or invalid`,
+      );
+    }
+  }
+}
+
+/**
+ * The store keys these records by `field`, so a repeat would fail the import
+ * half-way
+ */
+function expectUnique(path: string, records: unknown, field: string): void {
+  const seen = new Set<unknown>();
+  for (const [position, record] of (records as unknown[]).entries()) {
+    const value = (record as Record<string, unknown>)[field];
+    if (seen.has(value)) {
+      throw new InvalidSnapshotException(
+        `${path}[${position}].${field} is a duplicate`,
+      );
+    }
+    seen.add(value);
+  }
+}
+
+function expectRecords(
+  path: string,
+  records: unknown, // checked to be an array
+  fields: Record<string, Check>,
+): void {
+  (records as unknown[]).forEach((record, position) =>
+    expectFields(`${path}[${position}]`, record, fields),
+  );
+}
@@ -0,0 +1,826 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { IndexerPersistenceException } from '../common/exceptions';
+import { DEFAULT_POOL_KEY } from './pool-config';
+
+const LEAVES_TABLE = 'indexer_leaves';
+const ROOTS_TABLE = 'indexer_roots';
+const NULLIFIERS_TABLE = 'indexer_nullifiers';
+const SYNC_STATE_TABLE = 'indexer_sync_state';
+const ROOT_PUBLICATIONS_TABLE = 'indexer_root_publications';
+const SNAPSHOT_STAGING_TABLE = 'indexer_snapshot_staging';
+const APPLY_SNAPSHOT_FUNCTION = 'apply_indexer_snapshot';
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+/**
+ * Confirmation level of the transaction a leaf came from
+ */
+export type LeafFinality = 'processed' | 'confirmed' | 'finalized';
+
+/**
+ * How a leaf was inserted: ingested from program events, submitted through
+ * POST /indexer/:circuit/commit, or added by a manual sync
+ */
+export type LeafSource = 'chain' | 'api' | 'sync';
+
+/**
+ * A leaf as stored in the durable store
+ *
+ * Leaves added through the API have no slot/signature and count as finalized.
+ */
+export interface StoredLeaf {
+  epoch?: number; // tree epoch, 0 when absent
+  index: number; // index within the epoch
+  commitment: string; // decimal string
+  createdAt: number;
+  slot?: number | null;
+  signature?: string | null;
+  blockTime?: number | null; // unix seconds
+  source?: LeafSource;
+  finality?: LeafFinality;
+}
+
+/**
+ * A root entry of the tree's root history
+ */
+export interface StoredRoot {
+  epoch?: number; // tree epoch, 0 when absent
+  root: string; // 64-char hex
+  leafCount: number;
+  createdAt: number;
+}
+
+/**
+ * A nullifier revealed on-chain by a spend instruction
+ */
+export interface StoredNullifier {
+  nullifier: string; // 64-char hex
+  circuit: 'transfer' | 'unshield';
+  signature: string;
+  slot: number;
+  finality: LeafFinality;
+  createdAt: number;
+}
+
+/**
+ * Position of the last program transaction applied from chain history
+ */
+export interface SyncCheckpoint {
+  lastSlot: number;
+  lastSignature: string;
+  updatedAt: number;
+}
+
+/**
+ * State of a root in the on-chain publication queue
+ * - queued: waiting to be sent (first attempt or a retry after backoff)
+ * - publishing: add_root transaction in flight
+ * - published: present in the on-chain roots buffer
+ * - failed: gave up (non-retryable error or out of attempts)
+ * - superseded: a newer root was queued before this one was sent
+ * - orphaned: built on leaves that were rolled back
+ */
+export type RootPublicationState =
+  | 'queued'
+  | 'publishing'
+  | 'published'
+  | 'failed'
+  | 'superseded'
+  | 'orphaned';
+
+/**
+ * A root publication as stored in the durable store
+ */
+export interface StoredRootPublication {
+  root: string; // 64-char hex
+  status: RootPublicationState;
+  attempts: number;
+  signature?: string | null;
+  error?: string | null;
+  nextAttemptAt?: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface LeafRow {
+  epoch: number;
+  leaf_index: number;
+  commitment: string;
+  slot: number | null;
+  signature: string | null;
+  block_time: number | null;
+  source: LeafSource;
+  finality: LeafFinality;
+  created_at: string;
+}
+
+interface RootRow {
+  epoch: number;
+  root: string;
+  leaf_count: number;
+  created_at: string;
+}
+
+interface NullifierRow {
+  nullifier: string;
+  circuit: 'transfer' | 'unshield';
+  signature: string;
+  slot: number;
+  finality: LeafFinality;
+  created_at: string;
+}
+
+interface SyncStateRow {
+  last_slot: number;
+  last_signature: string;
+  updated_at: string;
+}
+
+interface RootPublicationRow {
+  root: string;
+  status: RootPublicationState;
+  attempts: number;
+  signature: string | null;
+  error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PersistedTreeState {
+  leaves: StoredLeaf[];
+  roots: StoredRoot[];
+}
+
+/**
+ * Everything a snapshot import replaces in the store
+ */
+export interface StoredPoolState {
+  trees: Record<'shield' | 'unshield', PersistedTreeState>;
+  nullifiers: StoredNullifier[];
+  publications: StoredRootPublication[];
+  programId: string; // whose checkpoint is replaced
+  checkpoint: SyncCheckpoint | null; // null: removed, full history scan
+}
+
+/**
+ * IndexerStoreService - Durable storage for the indexer Merkle trees
+ *
+ * Backed by the Supabase tables defined in supabase-schema.sql. Every table
+ * is partitioned by pool key; an instance only reads and writes the rows of
+ * its own pool:
+ * - indexer_leaves: append-only leaf log keyed by (tree, epoch, leaf_index),
+ *   with each commitment unique per tree
+ * - indexer_roots: root history keyed by (tree, epoch, leaf_count)
+ * - indexer_nullifiers: spent nullifier set keyed by nullifier
+ * - indexer_sync_state: chain backfill checkpoint keyed by program id
+ * - indexer_root_publications: on-chain root publication queue keyed by root
+ * - indexer_snapshot_staging: rows of a snapshot import until it is applied
+ *
+ * Both keys are unique, so a replayed or concurrent write can never
+ * create a second leaf at the same index. When Supabase is not configured
+ * the store is disabled and the indexer runs purely in memory.
+ */
+@Injectable()
+export class IndexerStoreService {
+  private readonly logger = new Logger(IndexerStoreService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly pool: string = DEFAULT_POOL_KEY,
+  ) {}
+
+  /**
+   * Whether writes are persisted (Supabase configured)
+   */
+  isEnabled(): boolean {
+    return this.supabaseService.getClient() !== null;
+  }
+
+  /**
+   * Load all leaves and the root history of a tree, ordered by epoch and
+   * index/size
+   */
+  async loadTree(tree: string): Promise<PersistedTreeState> {
+    const client = this.supabaseService.getClient();
+    if (!client) {
+      return { leaves: [], roots: [] };
+    }
+
+    const leaves: StoredLeaf[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await client
+        .from(LEAVES_TABLE)
+        .select(
+          'epoch, leaf_index, commitment, slot, signature, block_time, source, finality, created_at',
+        )
+        .eq('pool', this.pool)
+        .eq('tree', tree)
+        .order('epoch', { ascending: true })
+        .order('leaf_index', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        this.logger.error(
+          `[IndexerStore] Failed to load ${tree} leaves [${error.code}]: ${error.message}`,
+        );
+        throw new IndexerPersistenceException('loadLeaves', error.message);
+      }
+
+      const rows = (data ?? []) as LeafRow[];
+      for (const row of rows) {
+        leaves.push({
+          epoch: row.epoch,
+          index: row.leaf_index,
+          commitment: row.commitment,
+          createdAt: new Date(row.created_at).getTime(),
+          slot: row.slot === null ? null : Number(row.slot),
+          signature: row.signature,
+          blockTime: row.block_time === null ? null : Number(row.block_time),
+          source: row.source,
+          finality: row.finality,
+        });
+      }
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    const roots: StoredRoot[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await client
+        .from(ROOTS_TABLE)
+        .select('epoch, root, leaf_count, created_at')
+        .eq('pool', this.pool)
+        .eq('tree', tree)
+        .order('epoch', { ascending: true })
+        .order('leaf_count', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        this.logger.error(
+          `[IndexerStore] Failed to load ${tree} roots [${error.code}]: ${error.message}`,
+        );
+        throw new IndexerPersistenceException('loadRoots', error.message);
+      }
+
+      const rows = (data ?? []) as RootRow[];
+      for (const row of rows) {
+        roots.push({
+          epoch: row.epoch,
+          root: row.root,
+          leafCount: row.leaf_count,
+          createdAt: new Date(row.created_at).getTime(),
+        });
+      }
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    this.logger.log(
+      `[IndexerStore] Loaded ${tree} tree: ${leaves.length} leaves, ${roots.length} roots`,
+    );
+
+    return { leaves, roots };
+  }
+
+  /**
+   * Append a leaf. Must succeed before the leaf is applied in memory.
+   */
+  async appendLeaf(tree: string, leaf: StoredLeaf): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) return;
+
+    const { error } = await client
+      .from(LEAVES_TABLE)
+      .insert(this.toLeafRow(tree, leaf));
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to persist ${tree} leaf ${leaf.index} [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException('appendLeaf', error.message);
+    }
+  }
+
+  /**
+   * Record the confirmation level reached by a transaction's leaves
+   */
+  async updateLeafFinality(
+    tree: string,
+    signature: string,
+    finality: LeafFinality,
+  ): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) return;
+
+    const { error } = await client
+      .from(LEAVES_TABLE)
+      .update({ finality })
+      .eq('pool', this.pool)
+      .eq('tree', tree)
+      .eq('signature', signature);
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to mark ${tree} leaves of ${signature} ${finality} [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException(
+        'updateLeafFinality',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Replace every leaf of an epoch from `fromIndex` on and drop the roots
+   * computed for more than `fromIndex` leaves (rollback of orphaned leaves).
+   *
+   * Steps are ordered so an interrupted replacement still leaves a contiguous
+   * leaf log; missing roots are recomputed on the next startup.
+   */
+  async replaceLeavesFrom(
+    tree: string,
+    fromIndex: number,
+    leaves: StoredLeaf[],
+    epoch = 0,
+  ): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) return;
+
+    const { error: rootsError } = await client
+      .from(ROOTS_TABLE)
+      .delete()
+      .eq('pool', this.pool)
+      .eq('tree', tree)
+      .eq('epoch', epoch)
+      .gt('leaf_count', fromIndex);
+
+    if (rootsError) {
+      this.logger.error(
+        `[IndexerStore] Failed to drop ${tree} roots above ${fromIndex} leaves [${rootsError.code}]: ${rootsError.message}`,
+      );
+      throw new IndexerPersistenceException(
+        'replaceLeaves',
+        rootsError.message,
+      );
+    }
+
+    const { error: leavesError } = await client
+      .from(LEAVES_TABLE)
+      .delete()
+      .eq('pool', this.pool)
+      .eq('tree', tree)
+      .eq('epoch', epoch)
+      .gte('leaf_index', fromIndex);
+
+    if (leavesError) {
+      this.logger.error(
+        `[IndexerStore] Failed to drop ${tree} leaves from ${fromIndex} [${leavesError.code}]: ${leavesError.message}`,
+      );
+      throw new IndexerPersistenceException(
+        'replaceLeaves',
+        leavesError.message,
+      );
+    }
+
+    if (leaves.length === 0) return;
+
+    const { error } = await client
+      .from(LEAVES_TABLE)
+      .insert(leaves.map((leaf) => this.toLeafRow(tree, leaf)));
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to re-append ${leaves.length} ${tree} leaves from ${fromIndex} [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException('replaceLeaves', error.message);
+    }
+  }
+
+  /**
+   * Record a root in the history. Idempotent per (tree, epoch, leafCount).
+   */
+  async appendRoot(tree: string, root: StoredRoot): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) return;
+
+    const { error } = await client
+      .from(ROOTS_TABLE)
+      .upsert(this.toRootRow(tree, root), {
+        onConflict: 'pool,tree,epoch,leaf_count',
+        ignoreDuplicates: true,
+      });
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to persist ${tree} root for ${root.leafCount} leaves [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException('appendRoot', error.message);
+    }
+  }
+
+  /**
+   * Load the whole spent nullifier set
+   */
+  async loadNullifiers(): Promise<StoredNullifier[]> {
+    const client = this.supabaseService.getClient();
+    if (!client) return [];
+
+    const nullifiers: StoredNullifier[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await client
+        .from(NULLIFIERS_TABLE)
+        .select('nullifier, circuit, signature, slot, finality, created_at')
+        .eq('pool', this.pool)
+        .order('slot', { ascending: true })
+        .order('nullifier', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        this.logger.error(
+          `[IndexerStore] Failed to load nullifiers [${error.code}]: ${error.message}`,
+        );
+        throw new IndexerPersistenceException('loadNullifiers', error.message);
+      }
+
+      const rows = (data ?? []) as NullifierRow[];
+      for (const row of rows) {
+        nullifiers.push({
+          nullifier: row.nullifier,
+          circuit: row.circuit,
+          signature: row.signature,
+          slot: Number(row.slot),
+          finality: row.finality,
+          createdAt: new Date(row.created_at).getTime(),
+        });
+      }
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    this.logger.log(`[IndexerStore] Loaded ${nullifiers.length} nullifiers`);
+    return nullifiers;
+  }
+
+  /**
+   * Add a nullifier to the spent set. Idempotent per nullifier.
+   */
+  async appendNullifier(record: StoredNullifier): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) return;
+
+    const { error } = await client
+      .from(NULLIFIERS_TABLE)
+      .upsert(this.toNullifierRow(record), {
+        onConflict: 'pool,nullifier',
+        ignoreDuplicates: true,
+      });
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to persist nullifier ${record.nullifier.slice(0, 16)}... [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException('appendNullifier', error.message);
+    }
+  }
+
+  /**
+   * Record the confirmation level reached by a transaction's nullifiers
+   */
+  async updateNullifierFinality(
+    signature: string,
+    finality: LeafFinality,
+  ): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) return;
+
+    const { error } = await client
+      .from(NULLIFIERS_TABLE)
+      .update({ finality })
+      .eq('pool', this.pool)
+      .eq('signature', signature);
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to mark nullifiers of ${signature} ${finality} [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException(
+        'updateNullifierFinality',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Remove the nullifiers revealed by orphaned transactions
+   */
+  async deleteNullifiers(signatures: string[]): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client || signatures.length === 0) return;
+
+    const { error } = await client
+      .from(NULLIFIERS_TABLE)
+      .delete()
+      .eq('pool', this.pool)
+      .in('signature', signatures)
+      .neq('finality', 'finalized');
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to drop nullifiers of ${signatures.length} orphaned transactions [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException('deleteNullifiers', error.message);
+    }
+  }
+
+  /**
+   * Load the backfill checkpoint of a program, or null when none is stored
+   */
+  async loadCheckpoint(programId: string): Promise<SyncCheckpoint | null> {
+    const client = this.supabaseService.getClient();
+    if (!client) return null;
+
+    const { data, error } = await client
+      .from(SYNC_STATE_TABLE)
+      .select('last_slot, last_signature, updated_at')
+      .eq('pool', this.pool)
+      .eq('program_id', programId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to load sync checkpoint [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException('loadCheckpoint', error.message);
+    }
+
+    if (!data) return null;
+
+    const row = data as SyncStateRow;
+    return {
+      lastSlot: Number(row.last_slot),
+      lastSignature: row.last_signature,
+      updatedAt: new Date(row.updated_at).getTime(),
+    };
+  }
+
+  /**
+   * Save the backfill checkpoint of a program (overwrites the previous one)
+   */
+  async saveCheckpoint(
+    programId: string,
+    checkpoint: SyncCheckpoint,
+  ): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) return;
+
+    const { error } = await client.from(SYNC_STATE_TABLE).upsert(
+      {
+        pool: this.pool,
+        program_id: programId,
+        last_slot: checkpoint.lastSlot,
+        last_signature: checkpoint.lastSignature,
+        updated_at: new Date(checkpoint.updatedAt).toISOString(),
+      },
+      { onConflict: 'pool,program_id' },
+    );
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to save sync checkpoint at slot ${checkpoint.lastSlot} [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException('saveCheckpoint', error.message);
+    }
+  }
+
+  /**
+   * Load the most recently updated root publications, newest first
+   */
+  async loadRootPublications(limit: number): Promise<StoredRootPublication[]> {
+    const client = this.supabaseService.getClient();
+    if (!client) return [];
+
+    const { data, error } = await client
+      .from(ROOT_PUBLICATIONS_TABLE)
+      .select(
+        'root, status, attempts, signature, error, next_attempt_at, created_at, updated_at',
+      )
+      .eq('pool', this.pool)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to load root publications [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException(
+        'loadRootPublications',
+        error.message,
+      );
+    }
+
+    return ((data ?? []) as RootPublicationRow[]).map((row) => ({
+      root: row.root,
+      status: row.status,
+      attempts: row.attempts,
+      signature: row.signature,
+      error: row.error,
+      nextAttemptAt: row.next_attempt_at
+        ? new Date(row.next_attempt_at).getTime()
+        : null,
+      createdAt: new Date(row.created_at).getTime(),
+      updatedAt: new Date(row.updated_at).getTime(),
+    }));
+  }
+
+  /**
+   * Save the current state of a root publication (overwrites the previous one)
+   */
+  async saveRootPublication(publication: StoredRootPublication): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) return;
+
+    const { error } = await client
+      .from(ROOT_PUBLICATIONS_TABLE)
+      .upsert(this.toPublicationRow(publication), { onConflict: 'pool,root' });
+
+    if (error) {
+      this.logger.error(
+        `[IndexerStore] Failed to save publication of root ${publication.root.slice(0, 16)}... [${error.code}]: ${error.message}`,
+      );
+      throw new IndexerPersistenceException(
+        'saveRootPublication',
+        error.message,
+      );
+    }
+  }
+
+  /**
+   * Replace every leaf, root, nullifier and root publication of the pool and
+   * its backfill checkpoint (snapshot import)
+   *
+   * The rows are staged page by page first; apply_indexer_snapshot then swaps
+   * them in within one transaction. A failure at any step leaves the pool's
+   * persisted state as it was.
+   */
+  async replaceState(state: StoredPoolState): Promise<void> {
+    const client = this.supabaseService.getClient();
+    if (!client) return;
+
+    const importId = randomUUID();
+    const trees = Object.entries(state.trees);
+    try {
+      await this.stageRows(
+        importId,
+        LEAVES_TABLE,
+        trees.flatMap(([tree, { leaves }]) =>
+          leaves.map((leaf) => this.toLeafRow(tree, leaf)),
+        ),
+      );
+      await this.stageRows(
+        importId,
+        ROOTS_TABLE,
+        trees.flatMap(([tree, { roots }]) =>
+          roots.map((root) => this.toRootRow(tree, root)),
+        ),
+      );
+      await this.stageRows(
+        importId,
+        NULLIFIERS_TABLE,
+        state.nullifiers.map((record) => this.toNullifierRow(record)),
+      );
+      await this.stageRows(
+        importId,
+        ROOT_PUBLICATIONS_TABLE,
+        state.publications.map((publication) =>
+          this.toPublicationRow(publication),
+        ),
+      );
+
+      const { error } = await client.rpc(APPLY_SNAPSHOT_FUNCTION, {
+        p_import_id: importId,
+        p_pool: this.pool,
+        p_program_id: state.programId,
+        p_checkpoint: state.checkpoint && {
+          last_slot: state.checkpoint.lastSlot,
+          last_signature: state.checkpoint.lastSignature,
+          updated_at: new Date(state.checkpoint.updatedAt).toISOString(),
+        },
+      });
+      if (error) {
+        this.logger.error(
+          `[IndexerStore] Failed to apply snapshot import ${importId} [${error.code}]: ${error.message}`,
+        );
+        throw new IndexerPersistenceException('replaceState', error.message);
+      }
+    } catch (error) {
+      await this.clearStaging(importId);
+      throw error;
+    }
+  }
+
+  /**
+   * Write rows bound for `target` to the staging table, PAGE_SIZE per row
+   */
+  private async stageRows(
+    importId: string,
+    target: string,
+    rows: object[],
+  ): Promise<void> {
+    const client = this.supabaseService.getClient()!;
+
+    for (let from = 0; from < rows.length; from += PAGE_SIZE) {
+      const { error } = await client.from(SNAPSHOT_STAGING_TABLE).insert({
+        import_id: importId,
+        pool: this.pool,
+        target,
+        page: from / PAGE_SIZE,
+        rows: rows.slice(from, from + PAGE_SIZE),
+      });
+
+      if (error) {
+        this.logger.error(
+          `[IndexerStore] Failed to stage ${target} rows ${from}-${Math.min(from + PAGE_SIZE, rows.length) - 1} of ${rows.length} [${error.code}]: ${error.message}`,
+        );
+        throw new IndexerPersistenceException('replaceState', error.message);
+      }
+    }
+  }
+
+  /**
+   * Drop the staged rows of a failed import; best effort, since they are
+   * never read without a successful apply
+   */
+  private async clearStaging(importId: string): Promise<void> {
+    const { error } = await this.supabaseService
+      .getClient()!
+      .from(SNAPSHOT_STAGING_TABLE)
+      .delete()
+      .eq('pool', this.pool)
+      .eq('import_id', importId);
+
+    if (error) {
+      this.logger.warn(
+        `[IndexerStore] Could not clear staged rows of import ${importId} [${error.code}]: ${error.message}`,
+      );
+    }
+  }
+
+  private toLeafRow(tree: string, leaf: StoredLeaf) {
+    return {
+      pool: this.pool,
+      tree,
+      epoch: leaf.epoch ?? 0,
+      leaf_index: leaf.index,
+      commitment: leaf.commitment,
+      slot: leaf.slot ?? null,
+      signature: leaf.signature ?? null,
+      block_time: leaf.blockTime ?? null,
+      source: leaf.source ?? 'api',
+      finality: leaf.finality ?? 'finalized',
+      created_at: new Date(leaf.createdAt).toISOString(),
+    };
+  }
+
+  private toRootRow(tree: string, root: StoredRoot) {
+    return {
+      pool: this.pool,
+      tree,
+      epoch: root.epoch ?? 0,
+      root: root.root,
+      leaf_count: root.leafCount,
+      created_at: new Date(root.createdAt).toISOString(),
+    };
+  }
+
+  private toNullifierRow(record: StoredNullifier) {
+    return {
+      pool: this.pool,
+      nullifier: record.nullifier,
+      circuit: record.circuit,
+      signature: record.signature,
+      slot: record.slot,
+      finality: record.finality,
+      created_at: new Date(record.createdAt).toISOString(),
+    };
+  }
+
+  private toPublicationRow(publication: StoredRootPublication) {
+    return {
+      pool: this.pool,
+      root: publication.root,
+      status: publication.status,
+      attempts: publication.attempts,
+      signature: publication.signature ?? null,
+      error: publication.error ?? null,
+      next_attempt_at: publication.nextAttemptAt
+        ? new Date(publication.nextAttemptAt).toISOString()
+        : null,
+      created_at: new Date(publication.createdAt).toISOString(),
+      updated_at: new Date(publication.updatedAt).toISOString(),
+    };
+  }
+}
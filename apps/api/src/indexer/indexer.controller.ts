@@ -1,45 +1,192 @@
-import { Controller, Get, Post, Body, Param, Logger } from '@nestjs/common';
-import { IndexerService, MerkleProof } from './indexer.service';
-import { BlockchainSyncService } from './blockchain-sync.service';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Sse,
+  Logger,
+  MessageEvent,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import {
+  LeafInfo,
+  LeafPage,
+  MerkleBucket,
+  MerkleProof,
+  MerkleProofBatch,
+  ProofTarget,
+} from './indexer.service';
+import { BackfillResult, RootHistory } from './blockchain-sync.service';
+import { NullifierStatus } from './nullifier.service';
+import { AuditReport } from './indexer-audit.service';
+import { IndexerSnapshot } from './indexer-snapshot';
+import { SnapshotImportResult } from './indexer-snapshot.service';
+import { PoolRegistryService } from './pool-registry.service';
 import {
   InvalidCircuitException,
   ValidationMissingFieldException,
+  ValidationInvalidTypeException,
+  ValidationBatchTooLargeException,
   AppException,
 } from '../common/exceptions';
+import { RequireAdminScope } from '../common/admin-auth.guard';
+
+// Upper bound for POST /indexer/nullifiers/check
+const MAX_NULLIFIER_BATCH = 1000;
+
+// Upper bound for POST /indexer/:circuit/proofs
+const MAX_PROOF_BATCH = 256;
+
+// Page size bounds for GET /indexer/:circuit/roots
+const DEFAULT_ROOTS_LIMIT = 100;
+const MAX_ROOTS_LIMIT = 1000;
+
+// Page size bounds for GET /indexer/:circuit/commitments
+const DEFAULT_COMMITMENTS_LIMIT = 100;
+const MAX_COMMITMENTS_LIMIT = 1000;
 
 /**
  * Indexer Controller - HTTP endpoints for Merkle proof queries
  *
+ * Every route is served per pool under /pools/:pool/indexer/...; the
+ * /indexer/... paths below are the same routes for the default pool.
+ *
  * Provides:
  * - GET /indexer/status - Check indexer status and tree sizes
  * - GET /indexer/sync-status - Check blockchain sync status
+ * - GET /indexer/audit - Latest indexer/chain consistency audit
+ * - GET /indexer/events - Server-sent stream of commitment and root events
+ * - GET /indexer/nullifiers/:nullifier - Check whether a nullifier is spent
+ * - POST /indexer/nullifiers/check - Check a batch of nullifiers
+ * - GET /indexer/:circuit/commitments - Page through leaves with provenance
+ * - GET /indexer/:circuit/commitments/:commitment - Look up a leaf by commitment
+ * - GET /indexer/:circuit/leaves/:index - Look up a leaf by index
  * - GET /indexer/:circuit/root - Get current tree root for circuit
+ * - GET /indexer/:circuit/roots - Root history with on-chain status
  * - POST /indexer/:circuit/proof - Get Merkle proof for commitment
+ * - POST /indexer/:circuit/proofs - Get Merkle proofs for several commitments
+ * - GET /indexer/:circuit/buckets/:bucket - Leaf bucket for computing a proof locally
+ *
+ * Admin (API key with scope, see AdminAuthGuard):
+ * - POST /indexer/backfill - indexer:backfill
+ * - POST /indexer/audit - indexer:audit
+ * - GET /indexer/snapshot - indexer:snapshot
+ * - POST /indexer/snapshot - indexer:snapshot
+ * - POST /indexer/:circuit/commit - indexer:commit
+ * - POST /indexer/:circuit/sync - indexer:sync
  */
-@Controller('indexer')
+@Controller(['indexer', 'pools/:pool/indexer'])
 export class IndexerController {
   private readonly logger = new Logger(IndexerController.name);
 
-  constructor(
-    private indexerService: IndexerService,
-    private blockchainSyncService: BlockchainSyncService,
-  ) {}
+  constructor(private poolRegistry: PoolRegistryService) {}
 
   /**
    * Get indexer status
    * Useful for debugging and monitoring
    */
   @Get('status')
-  getStatus() {
+  getStatus(@Param('pool') poolKey?: string) {
+    const { indexer } = this.poolRegistry.get(poolKey);
+
     this.logger.log('[Indexer] GET /status');
-    return this.indexerService.getStatus();
+    return indexer.getStatus();
+  }
+
+  /**
+   * Tree parameters (depth, arity, hash, zero leaf) and derived zero values
+   * Clients size and check Merkle paths from this instead of hardcoding them
+   */
+  @Get('config')
+  getConfig(@Param('pool') poolKey?: string) {
+    const { config, indexer } = this.poolRegistry.get(poolKey);
+
+    this.logger.log('[Indexer] GET /config');
+    return { pool: config.key, tree: indexer.getTreeConfig() };
   }
 
   /**
-   * Get all commitments in a tree (for debugging)
+   * Check whether a nullifier was revealed on-chain (note spent)
+   * Declared before the :circuit routes so "nullifiers" is not taken as a circuit
+   */
+  @Get('nullifiers/:nullifier')
+  getNullifier(
+    @Param('pool') poolKey: string | undefined,
+    @Param('nullifier') nullifier: string,
+  ): NullifierStatus {
+    const { nullifiers } = this.poolRegistry.get(poolKey);
+
+    this.logger.log(`[Indexer] GET /nullifiers/${nullifier.slice(0, 16)}...`);
+    return nullifiers.getStatus(nullifier);
+  }
+
+  /**
+   * Check the spent state of several nullifiers at once
+   * POST body: { nullifiers: string[] }
+   * Returns: results in request order
+   */
+  @Post('nullifiers/check')
+  checkNullifiers(
+    @Param('pool') poolKey: string | undefined,
+    @Body() body: { nullifiers: string[] },
+  ): {
+    results: NullifierStatus[];
+    spentCount: number;
+  } {
+    const { nullifiers } = this.poolRegistry.get(poolKey);
+
+    if (!body || body.nullifiers === undefined) {
+      throw new ValidationMissingFieldException('nullifiers');
+    }
+    if (
+      !Array.isArray(body.nullifiers) ||
+      body.nullifiers.some((value) => typeof value !== 'string')
+    ) {
+      throw new ValidationInvalidTypeException(
+        'nullifiers',
+        'string[]',
+        typeof body.nullifiers,
+      );
+    }
+    if (body.nullifiers.length > MAX_NULLIFIER_BATCH) {
+      throw new ValidationBatchTooLargeException(
+        'nullifiers',
+        body.nullifiers.length,
+        MAX_NULLIFIER_BATCH,
+      );
+    }
+
+    this.logger.log(
+      `[Indexer] POST /nullifiers/check - ${body.nullifiers.length} nullifiers`,
+    );
+
+    const results = nullifiers.checkMany(body.nullifiers);
+    return {
+      results,
+      spentCount: results.filter((result) => result.spent).length,
+    };
+  }
+
+  /**
+   * Page through the leaves of a tree with their provenance
+   * (signature, slot, block time, finality, source)
+   *
+   * Query: ?fromIndex=N (default 0) &limit=N (default 100, max 1000)
+   *   &epoch=N (default: current epoch)
+   * Follow `nextIndex` for the next page; it is null on the last page.
    */
   @Get(':circuit/commitments')
-  getCommitments(@Param('circuit') circuit: string) {
+  getCommitments(
+    @Param('pool') poolKey: string | undefined,
+    @Param('circuit') circuit: string,
+    @Query('fromIndex') fromIndex?: string,
+    @Query('limit') limit?: string,
+    @Query('epoch') epoch?: string,
+  ): LeafPage {
+    const { indexer } = this.poolRegistry.get(poolKey);
+
     this.logger.log(`[Indexer] GET /${circuit}/commitments`);
 
     // Validate circuit
@@ -47,8 +194,65 @@ export class IndexerController {
       throw new InvalidCircuitException(circuit);
     }
 
-    return this.indexerService.getCommitments(
+    return indexer.getCommitments(
       circuit as 'shield' | 'transfer' | 'unshield',
+      this.parseIntegerQuery('fromIndex', fromIndex, 0, 0),
+      Math.min(
+        this.parseIntegerQuery('limit', limit, DEFAULT_COMMITMENTS_LIMIT, 1),
+        MAX_COMMITMENTS_LIMIT,
+      ),
+      this.parseOptionalEpoch(epoch),
+    );
+  }
+
+  /**
+   * Look up the leaf holding a commitment (hex or decimal)
+   */
+  @Get(':circuit/commitments/:commitment')
+  getLeafByCommitment(
+    @Param('pool') poolKey: string | undefined,
+    @Param('circuit') circuit: string,
+    @Param('commitment') commitment: string,
+  ): LeafInfo {
+    const { indexer } = this.poolRegistry.get(poolKey);
+
+    this.logger.log(
+      `[Indexer] GET /${circuit}/commitments/${commitment.slice(0, 16)}...`,
+    );
+
+    if (!['shield', 'transfer', 'unshield'].includes(circuit)) {
+      throw new InvalidCircuitException(circuit);
+    }
+
+    return indexer.getLeafByCommitment(
+      circuit as 'shield' | 'transfer' | 'unshield',
+      commitment,
+    );
+  }
+
+  /**
+   * Look up the leaf at a tree index
+   * Query: ?epoch=N (default: current epoch)
+   */
+  @Get(':circuit/leaves/:index')
+  getLeafByIndex(
+    @Param('pool') poolKey: string | undefined,
+    @Param('circuit') circuit: string,
+    @Param('index') index: string,
+    @Query('epoch') epoch?: string,
+  ): LeafInfo {
+    const { indexer } = this.poolRegistry.get(poolKey);
+
+    this.logger.log(`[Indexer] GET /${circuit}/leaves/${index}`);
+
+    if (!['shield', 'transfer', 'unshield'].includes(circuit)) {
+      throw new InvalidCircuitException(circuit);
+    }
+
+    return indexer.getLeafByIndex(
+      circuit as 'shield' | 'transfer' | 'unshield',
+      this.parseIntegerQuery('index', index, 0, 0),
+      this.parseOptionalEpoch(epoch),
     );
   }
 
@@ -57,9 +261,92 @@ export class IndexerController {
    * Shows whether indexer is listening to on-chain events
    */
   @Get('sync-status')
-  getSyncStatus() {
+  getSyncStatus(@Param('pool') poolKey?: string) {
+    const { sync } = this.poolRegistry.get(poolKey);
+
     this.logger.log('[Indexer] GET /sync-status');
-    return this.blockchainSyncService.getStatus();
+    return sync.getStatus();
+  }
+
+  /**
+   * Replay program transactions since the last sync checkpoint
+   * Waits for the run to finish (joins a run that is already in progress)
+   */
+  @Post('backfill')
+  @RequireAdminScope('indexer:backfill')
+  async backfill(@Param('pool') poolKey?: string): Promise<BackfillResult> {
+    const { sync } = this.poolRegistry.get(poolKey);
+
+    this.logger.log('[Indexer] POST /backfill');
+    return sync.backfill();
+  }
+
+  /**
+   * Latest indexer/chain consistency audit
+   * Runs the first audit if none has completed yet
+   */
+  @Get('audit')
+  async getAudit(@Param('pool') poolKey?: string): Promise<AuditReport> {
+    const { audit } = this.poolRegistry.get(poolKey);
+
+    this.logger.log('[Indexer] GET /audit');
+    return audit.getLastReport() ?? audit.audit();
+  }
+
+  /**
+   * Run a consistency audit now (joins an audit that is already in progress)
+   */
+  @Post('audit')
+  @RequireAdminScope('indexer:audit')
+  async runAudit(@Param('pool') poolKey?: string): Promise<AuditReport> {
+    const { audit } = this.poolRegistry.get(poolKey);
+
+    this.logger.log('[Indexer] POST /audit');
+    return audit.audit();
+  }
+
+  /**
+   * Export the pool's indexer state as a checksummed snapshot
+   */
+  @Get('snapshot')
+  @RequireAdminScope('indexer:snapshot')
+  async exportSnapshot(
+    @Param('pool') poolKey?: string,
+  ): Promise<IndexerSnapshot> {
+    const { snapshots } = this.poolRegistry.get(poolKey);
+
+    this.logger.log('[Indexer] GET /snapshot');
+    return snapshots.exportSnapshot();
+  }
+
+  /**
+   * Replace the pool's indexer state with a snapshot
+   * With ?dryRun=true the snapshot is only validated
+   */
+  @Post('snapshot')
+  @RequireAdminScope('indexer:snapshot')
+  async importSnapshot(
+    @Param('pool') poolKey: string | undefined,
+    @Body() body: unknown,
+    @Query('dryRun') dryRun?: string,
+  ): Promise<SnapshotImportResult> {
+    const { snapshots } = this.poolRegistry.get(poolKey);
+
+    this.logger.log(`[Indexer] POST /snapshot (dryRun: ${dryRun === 'true'})`);
+    return snapshots.importSnapshot(body, dryRun === 'true');
+  }
+
+  /**
+   * Stream indexer events as server-sent events
+   * Events: commitment_added, root_computed, root_published, root_failed
+   * (plus a heartbeat every 15s)
+   */
+  @Sse('events')
+  streamEvents(@Param('pool') poolKey?: string): Observable<MessageEvent> {
+    const { events } = this.poolRegistry.get(poolKey);
+
+    this.logger.log('[Indexer] GET /events');
+    return events.stream();
   }
 
   /**
@@ -67,7 +354,12 @@ export class IndexerController {
    * Used to validate tree state
    */
   @Get(':circuit/root')
-  async getRoot(@Param('circuit') circuit: string): Promise<{ root: string }> {
+  async getRoot(
+    @Param('pool') poolKey: string | undefined,
+    @Param('circuit') circuit: string,
+  ): Promise<{ root: string }> {
+    const { indexer } = this.poolRegistry.get(poolKey);
+
     this.logger.log(`[Indexer] GET /${circuit}/root`);
 
     // Validate circuit
@@ -76,7 +368,7 @@ export class IndexerController {
     }
 
     try {
-      const root = await this.indexerService.getRoot(
+      const root = await indexer.getRoot(
         circuit as 'shield' | 'transfer' | 'unshield',
       );
       return { root };
@@ -91,16 +383,96 @@ export class IndexerController {
     }
   }
 
+  /**
+   * Get the root history of a circuit, newest first
+   * Each root is matched against the on-chain roots ring buffer
+   * (status: pending / published / failed / evicted)
+   *
+   * Query: ?limit=N (default 100, max 1000)
+   */
+  @Get(':circuit/roots')
+  async getRoots(
+    @Param('pool') poolKey: string | undefined,
+    @Param('circuit') circuit: string,
+    @Query('limit') limit?: string,
+  ): Promise<RootHistory> {
+    const { sync } = this.poolRegistry.get(poolKey);
+
+    this.logger.log(`[Indexer] GET /${circuit}/roots`);
+
+    if (!['shield', 'transfer', 'unshield'].includes(circuit)) {
+      throw new InvalidCircuitException(circuit);
+    }
+
+    return sync.getRootHistory(
+      circuit as 'shield' | 'transfer' | 'unshield',
+      Math.min(
+        this.parseIntegerQuery('limit', limit, DEFAULT_ROOTS_LIMIT, 1),
+        MAX_ROOTS_LIMIT,
+      ),
+    );
+  }
+
+  /**
+   * Get a bucket of leaves and the siblings above it
+   * Clients compute their path from it, so the indexer only learns which
+   * bucket (not which commitment) a proof is for
+   */
+  @Get(':circuit/buckets/:bucket')
+  getBucket(
+    @Param('pool') poolKey: string | undefined,
+    @Param('circuit') circuit: string,
+    @Param('bucket') bucket: string,
+    @Query('epoch') epoch?: string,
+    @Query('root') root?: string,
+    @Query('leafCount') leafCount?: string,
+  ): MerkleBucket {
+    const { indexer } = this.poolRegistry.get(poolKey);
+
+    this.logger.log(`[Indexer] GET /${circuit}/buckets/${bucket}`);
+
+    if (!['shield', 'transfer', 'unshield'].includes(circuit)) {
+      throw new InvalidCircuitException(circuit);
+    }
+
+    return indexer.getBucket(
+      circuit as 'shield' | 'transfer' | 'unshield',
+      this.parseIntegerQuery('bucket', bucket, 0, 0),
+      {
+        root,
+        leafCount:
+          leafCount === undefined
+            ? undefined
+            : this.parseIntegerQuery('leafCount', leafCount, 1, 1),
+        epoch: this.parseOptionalEpoch(epoch),
+      },
+    );
+  }
+
   /**
    * Get Merkle proof for a commitment
-   * POST body: { commitment: string }
-   * Returns: { root, path, pathPositions }
+   * POST body: { commitment: string, root?: string, leafCount?: number,
+   *   epoch?: number }
+   * Returns: { root, path, pathPositions, leafIndex, leafCount, epoch }
+   *
+   * With root or leafCount the path is generated against that historical
+   * tree size instead of the current root. Without an epoch the proof is
+   * generated in the epoch holding the root, else the commitment.
    */
   @Post(':circuit/proof')
   async getProof(
+    @Param('pool') poolKey: string | undefined,
     @Param('circuit') circuit: string,
-    @Body() body: { commitment: string },
+    @Body()
+    body: {
+      commitment: string;
+      root?: string;
+      leafCount?: number;
+      epoch?: number;
+    },
   ): Promise<MerkleProof> {
+    const { indexer } = this.poolRegistry.get(poolKey);
+
     // Validate circuit
     if (!['shield', 'transfer', 'unshield'].includes(circuit)) {
       throw new InvalidCircuitException(circuit);
@@ -114,14 +486,17 @@ export class IndexerController {
       throw new ValidationMissingFieldException('commitment');
     }
 
+    this.validateProofTarget(body);
+
     this.logger.log(
-      `[Indexer] POST /${circuit}/proof - commitment=${body.commitment.slice(0, 16)}...`,
+      `[Indexer] POST /${circuit}/proof - commitment=${body.commitment.slice(0, 16)}...${body.root ? ` root=${body.root.slice(0, 16)}...` : ''}${body.leafCount ? ` leafCount=${body.leafCount}` : ''}`,
     );
 
     try {
-      const proof = await this.indexerService.getProof(
+      const proof = await indexer.getProof(
         circuit as 'shield' | 'transfer' | 'unshield',
         body.commitment,
+        { root: body.root, leafCount: body.leafCount, epoch: body.epoch },
       );
 
       this.logger.log(
@@ -145,15 +520,146 @@ export class IndexerController {
   }
 
   /**
-   * Add a commitment to the tree
-   * Normally called by Shield transaction processor
+   * Get Merkle proofs for several commitments against one consistent root
+   * POST body: { commitments: string[], root?: string, leafCount?: number,
+   *   epoch?: number }
+   * Returns: { root, leafCount, epoch, found, proofs: [{ commitment, path,
+   *   pathPositions, leafIndex } | { commitment, error }] }
+   */
+  @Post(':circuit/proofs')
+  async getProofs(
+    @Param('pool') poolKey: string | undefined,
+    @Param('circuit') circuit: string,
+    @Body()
+    body: {
+      commitments: string[];
+      root?: string;
+      leafCount?: number;
+      epoch?: number;
+    },
+  ): Promise<MerkleProofBatch> {
+    const { indexer } = this.poolRegistry.get(poolKey);
+
+    if (!['shield', 'transfer', 'unshield'].includes(circuit)) {
+      throw new InvalidCircuitException(circuit);
+    }
+
+    if (!body || body.commitments === undefined) {
+      throw new ValidationMissingFieldException('commitments');
+    }
+    if (
+      !Array.isArray(body.commitments) ||
+      body.commitments.some((commitment) => typeof commitment !== 'string')
+    ) {
+      throw new ValidationInvalidTypeException(
+        'commitments',
+        'string[]',
+        typeof body.commitments,
+      );
+    }
+    if (body.commitments.length > MAX_PROOF_BATCH) {
+      throw new ValidationBatchTooLargeException(
+        'commitments',
+        body.commitments.length,
+        MAX_PROOF_BATCH,
+      );
+    }
+    this.validateProofTarget(body);
+
+    this.logger.log(
+      `[Indexer] POST /${circuit}/proofs - ${body.commitments.length} commitments`,
+    );
+
+    return indexer.getProofs(
+      circuit as 'shield' | 'transfer' | 'unshield',
+      body.commitments,
+      { root: body.root, leafCount: body.leafCount, epoch: body.epoch },
+    );
+  }
+
+  /**
+   * Parse an integer query/path parameter, falling back to a default when absent
+   */
+  private parseIntegerQuery(
+    field: string,
+    value: string | undefined,
+    fallback: number,
+    min: number,
+  ): number {
+    const parsed = value === undefined ? fallback : Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+      throw new ValidationInvalidTypeException(
+        field,
+        min > 0 ? 'positive integer' : 'non-negative integer',
+        String(value),
+      );
+    }
+    return parsed;
+  }
+
+  private parseOptionalEpoch(epoch: string | undefined): number | undefined {
+    return epoch === undefined
+      ? undefined
+      : this.parseIntegerQuery('epoch', epoch, 0, 0);
+  }
+
+  /**
+   * Validate the optional historical root / leaf count / epoch of a proof
+   * request
+   */
+  private validateProofTarget(target: ProofTarget): void {
+    if (target.root !== undefined && typeof target.root !== 'string') {
+      throw new ValidationInvalidTypeException(
+        'root',
+        'hex string',
+        typeof target.root,
+      );
+    }
+    if (
+      target.leafCount !== undefined &&
+      (!Number.isInteger(target.leafCount) || target.leafCount < 1)
+    ) {
+      throw new ValidationInvalidTypeException(
+        'leafCount',
+        'positive integer',
+        String(target.leafCount),
+      );
+    }
+    if (
+      target.epoch !== undefined &&
+      (!Number.isInteger(target.epoch) || target.epoch < 0)
+    ) {
+      throw new ValidationInvalidTypeException(
+        'epoch',
+        'non-negative integer',
+        String(target.epoch),
+      );
+    }
+  }
+
+  /**
+   * Add a commitment to the tree and queue the new root for publication
+   * Admin only - the chain listener indexes real commitments on its own
    * POST body: { commitment: string }
+   *
+   * Idempotent: a commitment that is already a leaf returns that leaf with
+   * `duplicate: true` and nothing is published.
    */
   @Post(':circuit/commit')
+  @RequireAdminScope('indexer:commit')
   async addCommitment(
+    @Param('pool') poolKey: string | undefined,
     @Param('circuit') circuit: string,
     @Body() body: { commitment: string },
-  ): Promise<{ success: boolean; root: string; index: number }> {
+  ): Promise<{
+    success: boolean;
+    root: string;
+    index: number;
+    epoch: number;
+    duplicate: boolean;
+  }> {
+    const { indexer, rootPublisher } = this.poolRegistry.get(poolKey);
+
     // Validate circuit
     if (!['shield', 'transfer', 'unshield'].includes(circuit)) {
       throw new InvalidCircuitException(circuit);
@@ -172,23 +678,30 @@ export class IndexerController {
     );
 
     try {
-      const result = await this.indexerService.addCommitment(
+      const result = await indexer.addCommitment(
         circuit as 'shield' | 'transfer' | 'unshield',
         body.commitment,
       );
 
-      if (circuit === 'shield' || circuit === 'transfer') {
-        await this.blockchainSyncService.publishRoot(result.root);
+      if (result.duplicate) {
+        this.logger.log(
+          `[Indexer] Commitment already at index ${result.index} of epoch ${result.epoch} - nothing added`,
+        );
+      } else {
+        if (circuit === 'shield' || circuit === 'transfer') {
+          rootPublisher.enqueue(result.root);
+        }
+        this.logger.log(
+          `[Indexer] Commitment added at index ${result.index} of epoch ${result.epoch}, new root: ${result.root.slice(0, 16)}...`,
+        );
       }
 
-      this.logger.log(
-        `[Indexer] Commitment added at index ${result.index}, new root: ${result.root.slice(0, 16)}...`,
-      );
-
       return {
         success: true,
         root: result.root,
         index: result.index,
+        epoch: result.epoch,
+        duplicate: result.duplicate,
       };
     } catch (error) {
       if (error instanceof AppException) {
@@ -212,10 +725,14 @@ export class IndexerController {
    * POST body: { commitment: string, blockNumber?: number }
    */
   @Post(':circuit/sync')
+  @RequireAdminScope('indexer:sync')
   async syncCommitmentFromBlockchain(
+    @Param('pool') poolKey: string | undefined,
     @Param('circuit') circuit: string,
     @Body() body: { commitment: string; blockNumber?: number },
-  ): Promise<{ success: boolean; synced: boolean }> {
+  ): Promise<{ success: boolean; synced: boolean; duplicate: boolean }> {
+    const { sync } = this.poolRegistry.get(poolKey);
+
     // Validate circuit
     if (!['shield', 'transfer', 'unshield'].includes(circuit)) {
       throw new InvalidCircuitException(circuit);
@@ -234,13 +751,13 @@ export class IndexerController {
     );
 
     try {
-      await this.blockchainSyncService.manuallyAddCommitment(
+      const result = await sync.manuallyAddCommitment(
         circuit as 'shield' | 'transfer' | 'unshield',
         body.commitment,
         body.blockNumber,
       );
 
-      return { success: true, synced: true };
+      return { success: true, synced: true, duplicate: result.duplicate };
     } catch (error) {
       if (error instanceof AppException) {
         throw error;
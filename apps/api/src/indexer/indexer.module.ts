@@ -1,12 +1,16 @@
 import { Module } from '@nestjs/common';
-import { IndexerService } from './indexer.service';
 import { IndexerController } from './indexer.controller';
-import { BlockchainSyncService } from './blockchain-sync.service';
-import { SolanaService } from '../solana/solana.service';
+import { PoolsController } from './pools.controller';
+import { PoolRegistryService } from './pool-registry.service';
+import { SupabaseService } from '../supabase/supabase.service';
 
+/**
+ * The indexer services (trees, nullifiers, chain sync, root publishing,
+ * audit, events) are created per pool by PoolRegistryService
+ */
 @Module({
-  providers: [IndexerService, BlockchainSyncService, SolanaService],
-  controllers: [IndexerController],
-  exports: [IndexerService, BlockchainSyncService],
+  providers: [PoolRegistryService, SupabaseService],
+  controllers: [IndexerController, PoolsController],
+  exports: [PoolRegistryService],
 })
 export class IndexerModule {}
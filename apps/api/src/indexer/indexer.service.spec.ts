@@ -0,0 +1,529 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MessageEvent } from '@nestjs/common';
+import { buildPoseidon } from 'circomlibjs';
+import { IndexerService } from './indexer.service';
+import { DEFAULT_TREE_CONFIG, TreeConfig } from './pool-config';
+import { IndexerEventsService } from './indexer-events.service';
+import {
+  IndexerStoreService,
+  LeafFinality,
+  PersistedTreeState,
+  StoredLeaf,
+  StoredRoot,
+} from './indexer-store.service';
+import {
+  CommitmentNotFoundException,
+  DuplicateCommitmentException,
+  IndexerPersistenceException,
+  LeafNotFoundException,
+  UnknownRootException,
+} from '../common/exceptions';
+
+/**
+ * In-memory stand-in for the Supabase-backed store
+ */
+class MemoryStore {
+  leaves: Record<string, StoredLeaf[]> = {};
+  roots: Record<string, StoredRoot[]> = {};
+  failWrites = false;
+
+  isEnabled() {
+    return true;
+  }
+
+  async loadTree(tree: string): Promise<PersistedTreeState> {
+    return {
+      leaves: [...(this.leaves[tree] ?? [])],
+      roots: [...(this.roots[tree] ?? [])],
+    };
+  }
+
+  async appendLeaf(tree: string, leaf: StoredLeaf) {
+    if (this.failWrites) {
+      throw new IndexerPersistenceException('appendLeaf', 'offline');
+    }
+    (this.leaves[tree] ??= []).push(leaf);
+  }
+
+  async appendRoot(tree: string, root: StoredRoot) {
+    const roots = (this.roots[tree] ??= []);
+    if (!roots.some((entry) => entry.leafCount === root.leafCount)) {
+      roots.push(root);
+    }
+  }
+
+  async updateLeafFinality(
+    tree: string,
+    signature: string,
+    finality: LeafFinality,
+  ) {
+    for (const leaf of this.leaves[tree] ?? []) {
+      if (leaf.signature === signature) leaf.finality = finality;
+    }
+  }
+
+  async replaceLeavesFrom(
+    tree: string,
+    fromIndex: number,
+    leaves: StoredLeaf[],
+    epoch = 0,
+  ) {
+    const kept = (entry: { epoch?: number }, position: number) =>
+      (entry.epoch ?? 0) !== epoch || position <= fromIndex;
+    this.roots[tree] = (this.roots[tree] ?? []).filter((entry) =>
+      kept(entry, entry.leafCount),
+    );
+    this.leaves[tree] = [
+      ...(this.leaves[tree] ?? []).filter((leaf) => kept(leaf, leaf.index + 1)),
+      ...leaves.map((leaf) => ({ ...leaf })),
+    ];
+  }
+}
+
+async function startIndexer(
+  store: MemoryStore,
+  events = new IndexerEventsService(),
+  tree?: number | Partial<TreeConfig>,
+): Promise<IndexerService> {
+  // A bare number is a depth - small trees so tests can fill an epoch
+  const indexer = new IndexerService(
+    store as unknown as IndexerStoreService,
+    events,
+    {
+      ...DEFAULT_TREE_CONFIG,
+      ...(typeof tree === 'number' ? { depth: tree } : tree),
+    },
+  );
+  await indexer.onModuleInit();
+  return indexer;
+}
+
+describe('IndexerService persistence', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  it('restores the same root after a restart', async () => {
+    const first = await startIndexer(store);
+    await first.addCommitment('shield', '0x1234');
+    const { root } = await first.addCommitment('shield', '987654321');
+
+    const restarted = await startIndexer(store);
+
+    expect(await restarted.getRoot('shield')).toBe(root);
+    const proof = await restarted.getProof('shield', '0x1234');
+    expect(proof.root).toBe(root);
+  });
+
+  it('does not apply a leaf that could not be persisted', async () => {
+    const indexer = await startIndexer(store);
+    await indexer.addCommitment('shield', '42');
+    const before = await indexer.getRoot('shield');
+
+    store.failWrites = true;
+    await expect(indexer.addCommitment('shield', '43')).rejects.toBeInstanceOf(
+      IndexerPersistenceException,
+    );
+
+    expect(indexer.getStatus().trees.shield.count).toBe(1);
+    expect(await indexer.getRoot('shield')).toBe(before);
+  });
+});
+
+describe('IndexerService rollback', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  it('drops orphaned leaves and re-appends the other non-final ones', async () => {
+    const indexer = await startIndexer(store);
+    await indexer.addCommitment('shield', '0xa1');
+    await indexer.addCommitment('shield', '0xb2', {
+      slot: 10,
+      signature: 'sig-b',
+      finality: 'processed',
+    });
+    const { root: orphanedRoot } = await indexer.addCommitment(
+      'shield',
+      '0xc3',
+      { slot: 11, signature: 'sig-c', finality: 'confirmed' },
+    );
+
+    const [result] = await indexer.rollbackTransactions(['sig-b']);
+
+    const reference = await startIndexer(new MemoryStore());
+    await reference.addCommitment('shield', '0xa1');
+    const { root: expectedRoot } = await reference.addCommitment(
+      'shield',
+      '0xc3',
+    );
+
+    expect(result).toMatchObject({
+      tree: 'shield',
+      frontier: 1,
+      removed: 1,
+      reappended: 1,
+      root: expectedRoot,
+    });
+    expect(result.orphanedRoots).toContain(orphanedRoot);
+    expect(await indexer.getRoot('shield')).toBe(expectedRoot);
+    expect(indexer.getUnfinalizedLeaves()).toMatchObject([
+      { index: 1, signature: 'sig-c', finality: 'confirmed' },
+    ]);
+
+    const restarted = await startIndexer(store);
+    expect(await restarted.getRoot('shield')).toBe(expectedRoot);
+  });
+
+  it('keeps finalized leaves out of reach of a rollback', async () => {
+    const indexer = await startIndexer(store);
+    await indexer.addCommitment('shield', '0xb2', {
+      slot: 10,
+      signature: 'sig-b',
+      finality: 'processed',
+    });
+    await indexer.updateFinality('sig-b', 'finalized');
+
+    expect(indexer.getUnfinalizedLeaves()).toEqual([]);
+    expect(store.leaves.shield[0].finality).toBe('finalized');
+    expect(await indexer.rollbackTransactions(['sig-b'])).toEqual([]);
+  });
+});
+
+describe('IndexerService historical proofs', () => {
+  it('proves against an earlier root by value or leaf count', async () => {
+    const indexer = await startIndexer(new MemoryStore());
+    await indexer.addCommitment('shield', '0xa1');
+    const { root: published } = await indexer.addCommitment('shield', '0xb2');
+    await indexer.addCommitment('shield', '0xc3');
+
+    const reference = await startIndexer(new MemoryStore());
+    await reference.addCommitment('shield', '0xa1');
+    await reference.addCommitment('shield', '0xb2');
+    const expected = await reference.getProof('shield', '0xa1');
+
+    const byRoot = await indexer.getProof('shield', '0xa1', {
+      root: `0x${published.toUpperCase()}`,
+    });
+    expect(byRoot).toEqual(expected);
+    expect(byRoot).toMatchObject({ leafIndex: 0, leafCount: 2 });
+    expect(await indexer.getProof('shield', '0xa1', { leafCount: 2 })).toEqual(
+      expected,
+    );
+
+    await expect(
+      indexer.getProof('shield', '0xc3', { root: published }),
+    ).rejects.toBeInstanceOf(CommitmentNotFoundException);
+    await expect(
+      indexer.getProof('shield', '0xa1', { root: '0xdead' }),
+    ).rejects.toBeInstanceOf(UnknownRootException);
+    await expect(
+      indexer.getProof('shield', '0xa1', { root: published, leafCount: 3 }),
+    ).rejects.toBeInstanceOf(UnknownRootException);
+    await expect(
+      indexer.getProof('shield', '0xa1', { leafCount: 4 }),
+    ).rejects.toBeInstanceOf(UnknownRootException);
+  });
+});
+
+describe('IndexerService batch proofs', () => {
+  it('returns every path against one root with per-item errors', async () => {
+    const indexer = await startIndexer(new MemoryStore());
+    await indexer.addCommitment('shield', '0xa1');
+    await indexer.addCommitment('shield', '0xb2');
+    const { root } = await indexer.addCommitment('shield', '0xc3');
+    await indexer.addCommitment('shield', '0xd4');
+
+    const batch = await indexer.getProofs(
+      'shield',
+      ['0xc3', '0xd4', 'not-a-commitment', '0xa1', '0xee'],
+      { root },
+    );
+
+    expect(batch).toMatchObject({ root, leafCount: 3, found: 2 });
+    expect(batch.proofs.map((item) => item.error?.errorCode)).toEqual([
+      undefined,
+      'INDEXER_COMMITMENT_NOT_FOUND',
+      'INDEXER_INVALID_COMMITMENT_FORMAT',
+      undefined,
+      'INDEXER_COMMITMENT_NOT_FOUND',
+    ]);
+
+    const single = await indexer.getProof('shield', '0xa1', { root });
+    expect(batch.proofs[3]).toEqual({
+      commitment: '0xa1',
+      leafIndex: 0,
+      path: single.path,
+      pathPositions: single.pathPositions,
+    });
+  });
+});
+
+describe('IndexerService leaf listing', () => {
+  it('pages through leaves with their provenance', async () => {
+    const store = new MemoryStore();
+    const indexer = await startIndexer(store);
+    await indexer.addCommitment('shield', '0xa1');
+    await indexer.addCommitment('shield', '0xb2', {
+      slot: 10,
+      signature: 'sig-b',
+      finality: 'confirmed',
+      blockTime: 1700000000,
+    });
+    await indexer.addCommitment('shield', '0xc3', undefined, 'sync');
+
+    const first = indexer.getCommitments('transfer', 0, 2);
+    expect(first).toMatchObject({ circuit: 'shield', count: 3, nextIndex: 2 });
+    expect(first.commitments.map((leaf) => leaf.source)).toEqual([
+      'api',
+      'chain',
+    ]);
+    expect(indexer.getCommitments('shield', 2, 2)).toMatchObject({
+      nextIndex: null,
+      commitments: [{ index: 2, source: 'sync' }],
+    });
+
+    const restarted = await startIndexer(store);
+    expect(restarted.getLeafByIndex('shield', 1)).toMatchObject({
+      commitmentHex: '00'.repeat(31) + 'b2',
+      signature: 'sig-b',
+      slot: 10,
+      blockTime: 1700000000,
+      finality: 'confirmed',
+      source: 'chain',
+    });
+    expect(restarted.getLeafByCommitment('shield', '0xc3').index).toBe(2);
+    expect(() => restarted.getLeafByIndex('shield', 3)).toThrow(
+      LeafNotFoundException,
+    );
+    expect(() => restarted.getLeafByCommitment('shield', '0xd4')).toThrow(
+      CommitmentNotFoundException,
+    );
+  });
+});
+
+describe('IndexerService events', () => {
+  it('emits commitment_added and root_computed for each insert', async () => {
+    const events = new IndexerEventsService();
+    const indexer = await startIndexer(new MemoryStore(), events);
+    const received: MessageEvent[] = [];
+    const subscription = events
+      .stream()
+      .subscribe((event) => received.push(event));
+
+    const { root } = await indexer.addCommitment('shield', '0xa1', {
+      slot: 7,
+      signature: 'sig-a',
+      finality: 'confirmed',
+    });
+    subscription.unsubscribe();
+
+    expect(received.map((event) => event.type)).toEqual([
+      'commitment_added',
+      'root_computed',
+    ]);
+    expect(received[0].data).toMatchObject({
+      tree: 'shield',
+      index: 0,
+      commitment: '00'.repeat(31) + 'a1',
+      root,
+      source: 'chain',
+      signature: 'sig-a',
+    });
+    expect(received[1].data).toMatchObject({ root, leafCount: 1 });
+    expect(events.getStats()).toEqual({ subscribers: 0, emitted: 2 });
+  });
+});
+
+describe('IndexerService duplicates and epochs', () => {
+  it('inserts a commitment once per source transaction', async () => {
+    const store = new MemoryStore();
+    const indexer = await startIndexer(store);
+    const first = await indexer.addCommitment('shield', '0xa1');
+    const origin = { slot: 5, signature: 'sig-b', finality: 'confirmed' };
+    await indexer.addCommitment('shield', '0xb2', origin as never);
+
+    // Synced again through /commit, /sync and the chain listener
+    expect(await indexer.addCommitment('shield', 'a1')).toEqual({
+      ...first,
+      root: await indexer.getRoot('shield'),
+      duplicate: true,
+    });
+    expect(
+      await indexer.addCommitment('shield', '0xa1', {
+        slot: 4,
+        signature: 'sig-a',
+        finality: 'confirmed',
+      }),
+    ).toMatchObject({ index: 0, duplicate: true });
+    expect(
+      await indexer.addCommitment('transfer', '0xb2', origin as never),
+    ).toMatchObject({ index: 1, epoch: 0, duplicate: true });
+
+    await expect(
+      indexer.addCommitment('shield', '0xb2', {
+        slot: 9,
+        signature: 'sig-other',
+        finality: 'confirmed',
+      }),
+    ).rejects.toBeInstanceOf(DuplicateCommitmentException);
+    expect(store.leaves.shield).toHaveLength(2);
+    expect(indexer.getStatus().trees.shield.count).toBe(2);
+  });
+
+  it('rolls a full tree over to a new epoch and keeps proving the old one', async () => {
+    const store = new MemoryStore();
+    const events = new IndexerEventsService();
+    const indexer = await startIndexer(store, events, 2);
+    const received: MessageEvent[] = [];
+    const subscription = events
+      .stream()
+      .subscribe((event) => received.push(event));
+
+    for (const leaf of ['0xa1', '0xb2', '0xc3']) {
+      await indexer.addCommitment('shield', leaf);
+    }
+    const { root: sealedRoot } = await indexer.addCommitment('shield', '0xd4');
+    const next = await indexer.addCommitment('shield', '0xe5');
+    subscription.unsubscribe();
+
+    expect(next).toMatchObject({ index: 0, epoch: 1, duplicate: false });
+    expect(
+      received.find((event) => event.type === 'epoch_started')?.data,
+    ).toMatchObject({
+      tree: 'shield',
+      epoch: 1,
+      sealedRoot,
+      sealedLeafCount: 4,
+    });
+    expect(await indexer.addCommitment('shield', '0xb2')).toMatchObject({
+      index: 1,
+      epoch: 0,
+      root: sealedRoot,
+      duplicate: true,
+    });
+
+    const oldProof = await indexer.getProof('shield', '0xb2');
+    expect(oldProof).toMatchObject({
+      root: sealedRoot,
+      leafIndex: 1,
+      leafCount: 4,
+      epoch: 0,
+    });
+    expect(await indexer.getProof('shield', '0xe5')).toMatchObject({
+      root: next.root,
+      leafIndex: 0,
+      epoch: 1,
+    });
+    await expect(
+      indexer.getProof('shield', '0xb2', { epoch: 1 }),
+    ).rejects.toBeInstanceOf(CommitmentNotFoundException);
+
+    const restarted = await startIndexer(store, undefined, 2);
+    expect(restarted.getStatus().trees.shield).toMatchObject({
+      count: 1,
+      epoch: 1,
+      sealedEpochs: 1,
+      capacity: 4,
+    });
+    expect(await restarted.getRoot('shield')).toBe(next.root);
+    expect(await restarted.getProof('shield', '0xb2')).toEqual(oldProof);
+    expect(restarted.getLeafByIndex('shield', 3, 0)).toMatchObject({
+      epoch: 0,
+      commitmentHex: '00'.repeat(31) + 'd4',
+    });
+    expect(restarted.getLeafByCommitment('shield', '0xe5')).toMatchObject({
+      epoch: 1,
+      index: 0,
+    });
+  });
+});
+
+describe('IndexerService tree configuration', () => {
+  it('builds trees of the configured depth, arity and zero leaf', async () => {
+    const indexer = await startIndexer(new MemoryStore(), undefined, {
+      depth: 3,
+      arity: 4,
+      zeroLeaf: '7',
+    });
+    const poseidon = await buildPoseidon();
+    const hash = (children: string[]): bigint =>
+      BigInt(
+        String(poseidon.F.toString(poseidon(children.map((c) => BigInt(c))))),
+      );
+    const hex = (value: bigint) => value.toString(16).padStart(64, '0');
+
+    const config = indexer.getTreeConfig();
+    expect(config).toMatchObject({
+      depth: 3,
+      arity: 4,
+      hash: 'poseidon',
+      zeroLeaf: '7',
+      capacity: 64,
+      pathLength: 9,
+    });
+    expect(config.zeroValues[0]).toBe(hex(7n));
+    expect(config.zeroValues[1]).toBe(hex(hash(['7', '7', '7', '7'])));
+    expect(indexer.getStatus().trees.shield.capacity).toBe(64);
+
+    for (const leaf of ['0xa1', '0xa2', '0xa3', '0xa4', '0xa5']) {
+      await indexer.addCommitment('shield', leaf);
+    }
+    const proof = await indexer.getProof('shield', '0xa5');
+    expect(proof.path).toHaveLength(9);
+    expect(proof.pathPositions).toEqual(['0', '1', '0']);
+
+    // Fold the path back up: siblings fill every position but the node's own
+    let node = 0xa5n;
+    proof.pathPositions.forEach((position, level) => {
+      const siblings = proof.path
+        .slice(level * 3, level * 3 + 3)
+        .map((value) => BigInt(`0x${value}`).toString());
+      siblings.splice(Number(position), 0, node.toString());
+      node = hash(siblings);
+    });
+    expect(hex(node)).toBe(proof.root);
+  });
+});
+
+describe('IndexerService buckets', () => {
+  it('serves the leaves of a bucket with the path above it', async () => {
+    const indexer = await startIndexer(new MemoryStore());
+    await indexer.addCommitment('shield', '0xa1');
+    const { root: published } = await indexer.addCommitment('shield', '0xb2');
+    await indexer.addCommitment('shield', '0xc3');
+
+    // Default binary tree of depth 20: buckets of 2^8 leaves
+    expect(indexer.getTreeConfig()).toMatchObject({
+      bucketHeight: 8,
+      bucketSize: 256,
+    });
+
+    const proof = await indexer.getProof('shield', '0xb2');
+    const bucket = indexer.getBucket('shield', 0);
+    expect(bucket).toMatchObject({
+      root: proof.root,
+      leafCount: 3,
+      epoch: 0,
+      height: 8,
+      fromIndex: 0,
+    });
+    expect(bucket.leaves).toEqual([
+      'a1'.padStart(64, '0'),
+      'b2'.padStart(64, '0'),
+      'c3'.padStart(64, '0'),
+    ]);
+    expect(bucket.path).toEqual(proof.path.slice(8));
+    expect(bucket.pathPositions).toEqual(proof.pathPositions.slice(8));
+
+    const historical = indexer.getBucket('shield', 0, { root: published });
+    expect(historical).toMatchObject({ root: published, leafCount: 2 });
+    expect(historical.leaves).toHaveLength(2);
+
+    expect(() => indexer.getBucket('shield', 1)).toThrow(LeafNotFoundException);
+  });
+});
@@ -1,11 +1,26 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { buildPoseidon } from 'circomlibjs';
+import {
+  IndexerStoreService,
+  LeafFinality,
+  LeafSource,
+  StoredLeaf,
+  StoredRoot,
+} from './indexer-store.service';
+import { IncrementalMerkleTree } from './merkle-tree';
+import { DEFAULT_TREE_CONFIG, TreeConfig } from './pool-config';
+import { IndexerEventsService } from './indexer-events.service';
 import {
   IndexerNotInitializedException,
   InvalidCommitmentFormatException,
   HashFailedException,
   EmptyTreeException,
   CommitmentNotFoundException,
+  LeafNotFoundException,
+  UnknownRootException,
+  DuplicateCommitmentException,
+  SnapshotMismatchException,
+  AppException,
 } from '../common/exceptions';
 
 /**
@@ -15,16 +30,237 @@ export interface MerkleProof {
   root: string;
   path: string[];
   pathPositions: string[];
+  leafIndex: number;
+  leafCount: number; // tree size the root belongs to
+  epoch: number; // tree epoch the root belongs to
+}
+
+/**
+ * Result for one commitment of a batch proof request: either the path
+ * against the batch root or the error that would have been thrown for it
+ */
+export interface BatchProofItem {
+  commitment: string; // as requested
+  path?: string[];
+  pathPositions?: string[];
+  leafIndex?: number;
+  error?: {
+    errorCode: string;
+    message: string;
+    details?: Record<string, any>;
+  };
+}
+
+/**
+ * Paths for several commitments, all against the same root
+ */
+export interface MerkleProofBatch {
+  root: string;
+  leafCount: number;
+  epoch: number;
+  found: number;
+  proofs: BatchProofItem[];
+}
+
+/**
+ * Historical tree state to prove against (defaults to the current root)
+ */
+export interface ProofTarget {
+  root?: string; // hex, with or without 0x
+  leafCount?: number;
+  epoch?: number; // defaults to the epoch holding the root or commitment
+}
+
+/**
+ * Outcome of an insert. An insert of a commitment that is already a leaf
+ * (same transaction, or without one) is a no-op returning the existing leaf.
+ */
+export interface CommitmentInsert {
+  index: number; // index within the epoch
+  epoch: number;
+  root: string; // latest root of the epoch holding the leaf (hex)
+  duplicate: boolean;
+}
+
+/**
+ * On-chain origin of a leaf ingested from program events
+ */
+export interface LeafOrigin {
+  slot: number;
+  signature: string;
+  finality: LeafFinality;
+  blockTime?: number | null; // unix seconds, when the RPC reported it
+}
+
+/**
+ * A leaf with its provenance, as returned by the leaf listing and lookups
+ */
+export interface LeafInfo {
+  epoch: number;
+  index: number; // index within the epoch
+  commitmentDecimal: string;
+  commitmentHex: string;
+  preview: string;
+  source: LeafSource;
+  signature: string | null;
+  slot: number | null;
+  blockTime: number | null;
+  finality: LeafFinality;
+  createdAt: number;
+}
+
+/**
+ * One page of a tree's leaves, in index order
+ */
+export interface LeafPage {
+  circuit: 'shield' | 'transfer' | 'unshield';
+  epoch: number;
+  count: number; // leaves in the epoch
+  fromIndex: number;
+  limit: number;
+  nextIndex: number | null; // cursor of the next page, null on the last one
+  commitments: LeafInfo[];
 }
 
+/**
+ * Leaf that can still be rolled back (its transaction is not finalized)
+ */
+export interface UnfinalizedLeaf {
+  tree: 'shield' | 'unshield';
+  index: number;
+  slot: number;
+  signature: string;
+  finality: LeafFinality;
+}
+
+/**
+ * Outcome of rolling a tree back to its finalized frontier
+ */
+export interface RollbackResult {
+  tree: 'shield' | 'unshield';
+  frontier: number; // leaves kept as-is (all finalized)
+  removed: number; // orphaned leaves dropped
+  reappended: number; // surviving non-finalized leaves re-inserted
+  orphanedRoots: string[]; // roots (hex) that are no longer in the history
+  root: string | null; // new root (hex), null when the tree is empty
+}
+
+/**
+ * A recorded root that differs from the root recomputed from the leaves
+ */
+export interface RootMismatch {
+  leafCount: number;
+  recorded: string; // hex, from the root history or the live tree
+  recomputed: string | null; // null when the stored leaves stop short of leafCount
+  source: 'history' | 'live';
+}
+
+/**
+ * Roots recomputed from a tree's stored leaves (current epoch); sealed
+ * epochs are reported as stored
+ */
+export interface TreeRecomputation {
+  tree: 'shield' | 'unshield';
+  epoch: number;
+  leaves: StoredLeaf[];
+  roots: string[]; // roots[n] = hex root of the first n leaves, roots[0] = empty tree
+  mismatches: RootMismatch[];
+  sealed: {
+    leaves: StoredLeaf[];
+    roots: string[]; // recorded roots (hex) of the sealed epochs
+  };
+}
+
+/**
+ * Outcome of the latest indexer/chain consistency audit
+ */
+export interface AuditSummary {
+  status: 'consistent' | 'divergent' | 'unavailable';
+  checkedAt: number;
+  issues: string[];
+}
+
+/**
+ * Aligned subtree of leaves and the siblings above it, from which a client
+ * computes the path of its own leaf without naming it
+ */
+export interface MerkleBucket {
+  root: string;
+  leafCount: number;
+  epoch: number;
+  bucket: number;
+  height: number; // levels inside the bucket - it spans arity^height leaves
+  fromIndex: number; // index of the bucket's first leaf
+  leaves: string[]; // hex, up to the tree size - later positions are zero leaves
+  path: string[]; // hex siblings from the bucket root up, (arity - 1) per level
+  pathPositions: string[];
+}
+
+/**
+ * Every epoch of a tree, as carried by an indexer snapshot
+ */
+export interface TreeState {
+  epoch: number; // current epoch
+  leafCount: number; // leaves in the current epoch
+  root: string | null; // current root (hex), null while the epoch is empty
+  leaves: StoredLeaf[]; // ordered by epoch and index
+  roots: StoredRoot[]; // ordered by epoch and leaf count
+}
+
+/**
+ * Tree parameters as published to clients (hex values)
+ */
+export interface PublishedTreeConfig extends TreeConfig {
+  capacity: number; // leaves per epoch
+  pathLength: number; // siblings per proof: depth * (arity - 1)
+  zeroValues: string[]; // zeroValues[level] = root of an empty subtree of that height
+  emptyRoot: string;
+  bucketHeight: number; // height of the subtrees served by getBucket
+  bucketSize: number; // leaves per bucket: arity^bucketHeight
+  trees: Record<'shield' | 'transfer' | 'unshield', 'shield' | 'unshield'>; // circuit -> tree
+}
+
+// Leaves hashed between event loop yields while recomputing a tree
+const RECOMPUTE_YIELD_INTERVAL = 1000;
+
+// A bucket is the lowest subtree holding at least this many leaves (the
+// whole tree when smaller): the indexer only learns which of them a client
+// needs a path for
+const BUCKET_MIN_LEAVES = 256;
+
+/**
+ * One epoch of a tree: a full-capacity tree is sealed and the next epoch
+ * starts empty, so indices and roots are only unique within an epoch
+ */
+interface TreeEpoch {
+  epoch: number;
+  tree: IncrementalMerkleTree;
+  leaves: StoredLeaf[];
+  roots: StoredRoot[];
+}
+
+const epochOf = (entry: { epoch?: number }) => entry.epoch ?? 0;
+
+const FINALITY_RANK: Record<LeafFinality, number> = {
+  processed: 0,
+  confirmed: 1,
+  finalized: 2,
+};
+
 /**
  * IndexerService - Maintains Merkle trees for commitment inclusion proofs
  *
  * Responsibilities:
  * 1. Accept real commitments from Shield transactions via addCommitment()
  * 2. Build and maintain Merkle trees per circuit (shield/transfer/unshield)
- * 3. Generate Merkle proofs using real Poseidon hashing
+ * 3. Generate Merkle proofs using real Poseidon hashing (incremental trees,
+ *    O(depth) hashes per append and no hashing per proof)
  * 4. Provide efficient root lookups and inclusion proofs
+ * 5. Persist leaves and root history so a restart restores the same root
+ * 6. Track the slot and finality of chain-ingested leaves and roll back
+ *    leaves whose transaction never became final
+ * 7. Keep inserts idempotent per commitment and roll a full tree over to a
+ *    new epoch (earlier epochs stay available for proofs)
  *
  * Uses circomlibjs Poseidon for proper hashing. All data is real - no test vectors.
  */
@@ -33,7 +269,6 @@ export class IndexerService {
   private readonly logger = new Logger(IndexerService.name);
   private poseidon: any; // Poseidon hash function from circomlibjs
   private initialized = false;
-  private readonly treeDepth = 20;
   private zeroValues: string[] = [];
   private latestRoots: Record<
     string,
@@ -44,15 +279,44 @@ export class IndexerService {
     unshield: null,
   };
 
-  // In-memory Merkle trees for each circuit
-  // Key: circuit name (shield/transfer/unshield)
-  // Value: array of commitments in the tree
-  private trees: Record<string, string[]> = {
+  // In-memory Merkle trees for each circuit, created once Poseidon is ready
+  // Key: tree name (shield/unshield - transfer shares the shield tree)
+  private trees: Record<string, IncrementalMerkleTree> = {};
+
+  // Leaf records (origin and finality) per tree, parallel to the tree leaves
+  private leafRecords: Record<string, StoredLeaf[]> = {
+    shield: [],
+    unshield: [],
+  };
+
+  // Root history per tree, oldest first (mirrors indexer_roots)
+  private rootHistory: Record<string, StoredRoot[]> = {
     shield: [],
     transfer: [],
     unshield: [],
   };
 
+  // Current epoch per tree - trees/leafRecords/rootHistory hold its state
+  private epochs: Record<string, number> = { shield: 0, unshield: 0 };
+
+  // Full trees of earlier epochs, oldest first (read-only, kept for proofs)
+  private sealedEpochs: Record<string, TreeEpoch[]> = {
+    shield: [],
+    unshield: [],
+  };
+
+  // Serializes writes per tree so index assignment and persistence stay in order
+  private writeLocks: Record<string, Promise<unknown>> = {};
+
+  // Latest consistency audit, reported by IndexerAuditService
+  private audit: AuditSummary | null = null;
+
+  constructor(
+    private readonly store: IndexerStoreService,
+    private readonly events: IndexerEventsService,
+    private readonly treeConfig: TreeConfig = DEFAULT_TREE_CONFIG,
+  ) {}
+
   /**
    * Initialize the indexer - must be called once on startup
    */
@@ -61,10 +325,21 @@ export class IndexerService {
       this.logger.log('[Indexer] Initializing Poseidon hash...');
       this.poseidon = await buildPoseidon();
       this.initializeZeroValues();
-      this.initialized = true;
+      this.createTrees();
       this.logger.log('[Indexer] Poseidon initialized successfully');
+
+      if (this.store.isEnabled()) {
+        await this.restoreTree('shield');
+        await this.restoreTree('unshield');
+      } else {
+        this.logger.warn(
+          '[Indexer] Persistence disabled (Supabase not configured) - trees will be lost on restart',
+        );
+      }
+
+      this.initialized = true;
       this.logger.log(
-        '[Indexer] Trees are empty - ready to receive real commitments from blockchain or API',
+        `[Indexer] Ready - shield tree has ${this.trees.shield.size} commitments, unshield tree has ${this.trees.unshield.size}`,
       );
     } catch (error) {
       this.logger.error(`[Indexer] Initialization failed: ${error}`);
@@ -77,93 +352,594 @@ export class IndexerService {
    * In production, called when Shield transaction is confirmed on-chain
    * Returns the index where it was added and the new root
    *
+   * Inserts are idempotent per commitment and source transaction: a
+   * commitment that is already a leaf is not inserted again (when both
+   * inserts name a transaction they must be the same one). A full tree is
+   * sealed and the leaf goes to the first index of the next epoch.
+   *
    * @param commitment - Can be hex string (with or without 0x) or decimal string
+   * @param origin - Slot, signature and finality when ingested from chain;
+   *                 leaves without an origin are treated as finalized
+   * @param source - How the leaf was inserted (recorded as provenance)
    */
   public async addCommitment(
     circuit: 'shield' | 'transfer' | 'unshield',
     commitment: string,
-  ): Promise<{ index: number; root: string }> {
+    origin?: LeafOrigin,
+    source: LeafSource = origin ? 'chain' : 'api',
+  ): Promise<CommitmentInsert> {
     if (!this.initialized) {
       throw new IndexerNotInitializedException('Poseidon hash not initialized');
     }
 
+    const treeKey = this.resolveTreeKey(circuit) as 'shield' | 'unshield';
+
+    const normalizedCommitment = this.normalizeCommitment(commitment);
+
+    return this.runExclusive(treeKey, async () => {
+      const existing = this.findLeaf(treeKey, normalizedCommitment);
+      if (existing) {
+        const { state, record } = existing;
+        if (
+          origin?.signature &&
+          record.signature &&
+          origin.signature !== record.signature
+        ) {
+          throw new DuplicateCommitmentException(commitment, circuit, {
+            epoch: state.epoch,
+            index: record.index,
+            signature: record.signature,
+          });
+        }
+
+        this.logger.log(
+          `[Indexer] Commitment ${normalizedCommitment.slice(0, 16)}... already in ${treeKey} tree (epoch ${state.epoch}, index ${record.index}) - insert skipped`,
+        );
+        return {
+          index: record.index,
+          epoch: state.epoch,
+          root: this.decimalToHex(state.tree.root()),
+          duplicate: true,
+        };
+      }
+
+      if (this.trees[treeKey].size >= this.trees[treeKey].capacity) {
+        this.rollOver(treeKey);
+      }
+
+      // Persist the leaf first - it is only applied in memory once it is durable
+      const tree = this.trees[treeKey];
+      const epoch = this.epochs[treeKey];
+      const index = tree.size;
+      const record: StoredLeaf = {
+        epoch,
+        index,
+        commitment: normalizedCommitment,
+        createdAt: Date.now(),
+        slot: origin?.slot ?? null,
+        signature: origin?.signature ?? null,
+        blockTime: origin?.blockTime ?? null,
+        source,
+        finality: origin?.finality ?? 'finalized',
+      };
+      await this.store.appendLeaf(treeKey, record);
+      tree.insert(normalizedCommitment);
+      this.leafRecords[treeKey].push(record);
+
+      this.logger.log(
+        `[Indexer] Added commitment to ${treeKey} tree from ${circuit} at index ${index}: ${normalizedCommitment.slice(0, 16)}...`,
+      );
+      this.logger.debug(`[Indexer] ${treeKey} tree size is now ${tree.size}`);
+      if (tree.size <= 5) {
+        const preview = tree.leaves.map((value, idx) => ({
+          index: idx,
+          decimal: value,
+          hex: this.decimalToHex(value),
+        }));
+        this.logger.debug(
+          `[Indexer] Current ${treeKey} commitments: ${JSON.stringify(preview)}`,
+        );
+      }
+
+      // Calculate new root
+      const root = await this.getRoot(treeKey);
+      const updatedAt = Date.now();
+      this.latestRoots[treeKey] = {
+        root,
+        updatedAt,
+      };
+      this.events.emit({
+        type: 'commitment_added',
+        data: {
+          tree: treeKey,
+          epoch,
+          index,
+          commitment: this.decimalToHex(normalizedCommitment),
+          root,
+          source,
+          signature: record.signature,
+          slot: record.slot,
+          blockTime: record.blockTime,
+        },
+      });
+      await this.recordRoot(treeKey, {
+        root,
+        leafCount: tree.size,
+        createdAt: updatedAt,
+      });
+
+      return { index, epoch, root, duplicate: false };
+    });
+  }
+
+  /**
+   * Whether a commitment is already a leaf of the circuit's tree (any epoch)
+   *
+   * @param commitment - Can be hex string (with or without 0x) or decimal string
+   */
+  public hasCommitment(
+    circuit: 'shield' | 'transfer' | 'unshield',
+    commitment: string,
+  ): boolean {
     const treeKey = this.resolveTreeKey(circuit);
+    return (
+      !!this.trees[treeKey] &&
+      this.findLeaf(treeKey, this.normalizeCommitment(commitment)) !== null
+    );
+  }
 
-    // Normalize commitment to decimal string for internal storage
-    // This is needed because Poseidon.F.toString() returns decimal strings
-    let normalizedCommitment: string;
+  /**
+   * Seal the full tree of the current epoch and start the next epoch with an
+   * empty tree. The sealed epoch keeps serving leaves, roots and proofs.
+   */
+  private rollOver(treeKey: 'shield' | 'unshield'): void {
+    const sealed = this.currentEpoch(treeKey);
+    this.sealedEpochs[treeKey].push(sealed);
+
+    const epoch = sealed.epoch + 1;
+    this.epochs[treeKey] = epoch;
+    this.trees[treeKey] = this.createTree();
+    this.leafRecords[treeKey] = [];
+    this.rootHistory[treeKey] = [];
+
+    const sealedRoot = this.decimalToHex(sealed.tree.root());
+    this.logger.error(
+      `[Indexer] ${treeKey} tree is full (${sealed.tree.capacity} leaves) - sealed epoch ${sealed.epoch} at root ${sealedRoot.slice(0, 16)}..., new leaves go to epoch ${epoch}`,
+    );
+    this.events.emit({
+      type: 'epoch_started',
+      data: {
+        tree: treeKey,
+        epoch,
+        sealedRoot,
+        sealedLeafCount: sealed.tree.size,
+      },
+    });
+  }
+
+  /**
+   * State of the current epoch of a tree
+   */
+  private currentEpoch(treeKey: string): TreeEpoch {
+    return {
+      epoch: this.epochs[treeKey],
+      tree: this.trees[treeKey],
+      leaves: this.leafRecords[treeKey],
+      roots: this.rootHistory[treeKey],
+    };
+  }
+
+  /**
+   * All epochs of a tree, current first
+   */
+  private epochStates(treeKey: string): TreeEpoch[] {
+    return [
+      this.currentEpoch(treeKey),
+      ...[...(this.sealedEpochs[treeKey] ?? [])].reverse(),
+    ];
+  }
+
+  private findEpoch(treeKey: string, epoch: number): TreeEpoch | undefined {
+    return this.epochStates(treeKey).find((state) => state.epoch === epoch);
+  }
+
+  /**
+   * The leaf holding a (decimal) commitment and its epoch, or null
+   */
+  private findLeaf(
+    treeKey: string,
+    commitment: string,
+  ): { state: TreeEpoch; record: StoredLeaf } | null {
+    for (const state of this.epochStates(treeKey)) {
+      const index = state.tree.indexOf(commitment);
+      if (index !== -1) {
+        return { state, record: state.leaves[index] };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Normalize a commitment to the decimal string used for internal storage
+   * (Poseidon.F.toString() returns decimal strings)
+   *
+   * Strings made only of hex digits are read as hex, with or without 0x.
+   */
+  private normalizeCommitment(commitment: string): string {
     try {
-      // If it looks like a hex string (only contains [0-9a-fA-F]), convert to decimal
       if (/^[0-9a-fA-F]+$/.test(commitment)) {
         // Hex string without 0x prefix
-        const bigIntValue = BigInt('0x' + commitment);
-        normalizedCommitment = bigIntValue.toString(10); // Convert to decimal
-        this.logger.debug(
-          `[Indexer] Converted hex commitment to decimal: ${commitment.slice(0, 16)}... -> ${normalizedCommitment}`,
-        );
-      } else if (commitment.startsWith('0x')) {
+        return BigInt('0x' + commitment).toString(10);
+      }
+      if (commitment.startsWith('0x')) {
         // Hex string with 0x prefix
-        const bigIntValue = BigInt(commitment);
-        normalizedCommitment = bigIntValue.toString(10);
-        this.logger.debug(
-          `[Indexer] Converted hex commitment to decimal: ${commitment.slice(0, 16)}... -> ${normalizedCommitment}`,
-        );
-      } else {
-        // Already decimal string
-        normalizedCommitment = commitment;
+        return BigInt(commitment).toString(10);
       }
+      // Already decimal string
+      return BigInt(commitment).toString(10);
     } catch (error) {
       throw new InvalidCommitmentFormatException(
         commitment,
         `Cannot convert to BigInt: ${error}`,
       );
     }
+  }
+
+  /**
+   * Chain-ingested leaves whose transaction has not reached finalized yet
+   */
+  public getUnfinalizedLeaves(): UnfinalizedLeaf[] {
+    const pending: UnfinalizedLeaf[] = [];
+    for (const treeKey of ['shield', 'unshield'] as const) {
+      const records = this.epochStates(treeKey).flatMap(
+        (state) => state.leaves,
+      );
+      for (const record of records) {
+        if (record.finality !== 'finalized' && record.signature) {
+          pending.push({
+            tree: treeKey,
+            index: record.index,
+            slot: record.slot,
+            signature: record.signature,
+            finality: record.finality,
+          });
+        }
+      }
+    }
+    return pending;
+  }
 
-    // Add commitment and get its index
-    const index = this.trees[treeKey].length;
-    this.trees[treeKey].push(normalizedCommitment);
+  /**
+   * Raise the finality of all leaves emitted by a transaction
+   * (never lowers it - a finalized leaf stays finalized)
+   */
+  public async updateFinality(
+    signature: string,
+    finality: LeafFinality,
+  ): Promise<void> {
+    for (const treeKey of ['shield', 'unshield'] as const) {
+      await this.runExclusive(treeKey, async () => {
+        const records = this.epochStates(treeKey)
+          .flatMap((state) => state.leaves)
+          .filter(
+            (record) =>
+              record.signature === signature &&
+              FINALITY_RANK[record.finality] < FINALITY_RANK[finality],
+          );
+        if (records.length === 0) return;
 
-    this.logger.log(
-      `[Indexer] Added commitment to ${treeKey} tree from ${circuit} at index ${index}: ${normalizedCommitment.slice(0, 16)}...`,
+        await this.store.updateLeafFinality(treeKey, signature, finality);
+        records.forEach((record) => (record.finality = finality));
+
+        this.logger.debug(
+          `[Indexer] ${records.length} ${treeKey} leaves of ${signature.slice(0, 16)}... are now ${finality}`,
+        );
+      });
+    }
+  }
+
+  /**
+   * Drop the leaves emitted by orphaned transactions (skipped slot or forked
+   * out) and roll each affected tree back to its finalized frontier
+   *
+   * The tree is truncated to the longest prefix of finalized leaves, the
+   * surviving non-finalized leaves are re-appended in their original order
+   * and every root above the frontier is recomputed. Only the current epoch
+   * can be rolled back - a sealed epoch is never rewritten.
+   */
+  public async rollbackTransactions(
+    signatures: string[],
+  ): Promise<RollbackResult[]> {
+    const orphaned = new Set(signatures);
+    const results: RollbackResult[] = [];
+
+    for (const treeKey of ['shield', 'unshield'] as const) {
+      const result = await this.runExclusive(treeKey, () =>
+        this.rollbackTree(treeKey, orphaned),
+      );
+      if (result) results.push(result);
+    }
+
+    return results;
+  }
+
+  private async rollbackTree(
+    treeKey: 'shield' | 'unshield',
+    orphaned: Set<string>,
+  ): Promise<RollbackResult | null> {
+    const records = this.leafRecords[treeKey];
+    // Finalized leaves can no longer be orphaned
+    const isOrphaned = (record: StoredLeaf) =>
+      record.finality !== 'finalized' &&
+      !!record.signature &&
+      orphaned.has(record.signature);
+    const sealedOrphans = this.sealedEpochs[treeKey]
+      .flatMap((state) => state.leaves)
+      .filter(isOrphaned);
+    if (sealedOrphans.length > 0) {
+      this.logger.error(
+        `[Indexer] ${sealedOrphans.length} orphaned ${treeKey} leaves are in a sealed epoch and cannot be rolled back`,
+      );
+    }
+    if (!records.some(isOrphaned)) return null;
+
+    const firstPending = records.findIndex(
+      (record) => record.finality !== 'finalized',
     );
-    this.logger.debug(
-      `[Indexer] ${treeKey} tree size is now ${this.trees[treeKey].length}`,
+    const frontier = firstPending === -1 ? records.length : firstPending;
+    const tail = records.slice(frontier);
+    const survivors = tail
+      .filter((record) => !isOrphaned(record))
+      .map((record, offset) => ({ ...record, index: frontier + offset }));
+
+    // Persist first - memory only follows once the store agrees
+    await this.store.replaceLeavesFrom(
+      treeKey,
+      frontier,
+      survivors,
+      this.epochs[treeKey],
     );
-    if (this.trees[treeKey].length <= 5) {
-      const preview = this.trees[treeKey].map((value, idx) => ({
-        index: idx,
-        decimal: value,
-        hex: this.decimalToHex(value),
-      }));
-      this.logger.debug(
-        `[Indexer] Current ${treeKey} commitments: ${JSON.stringify(preview)}`,
-      );
+
+    const tree = this.trees[treeKey];
+    const discardedRoots = this.rootHistory[treeKey].filter(
+      (entry) => entry.leafCount > frontier,
+    );
+    tree.truncate(frontier);
+    records.length = frontier;
+    this.rootHistory[treeKey] = this.rootHistory[treeKey].filter(
+      (entry) => entry.leafCount <= frontier,
+    );
+
+    for (const record of survivors) {
+      tree.insert(record.commitment);
+      records.push(record);
+      await this.recordRoot(treeKey, {
+        root: this.decimalToHex(tree.root()),
+        leafCount: tree.size,
+        createdAt: Date.now(),
+      });
     }
 
-    // Calculate new root
-    const root = await this.getRoot(treeKey);
-    this.latestRoots[treeKey] = {
+    const root = tree.size > 0 ? this.decimalToHex(tree.root()) : null;
+    this.latestRoots[treeKey] = root ? { root, updatedAt: Date.now() } : null;
+
+    const currentRoots = new Set(
+      this.rootHistory[treeKey].map((entry) => entry.root),
+    );
+    const orphanedRoots = discardedRoots
+      .map((entry) => entry.root)
+      .filter((value) => !currentRoots.has(value));
+
+    this.logger.warn(
+      `[Indexer] Rolled back ${treeKey} tree to finalized frontier ${frontier}: dropped ${tail.length - survivors.length} orphaned leaves, re-appended ${survivors.length}`,
+    );
+
+    return {
+      tree: treeKey,
+      frontier,
+      removed: tail.length - survivors.length,
+      reappended: survivors.length,
+      orphanedRoots,
       root,
-      updatedAt: Date.now(),
     };
+  }
+
+  /**
+   * Rebuild a tree (every epoch) from the durable store and check it
+   * reproduces the persisted roots
+   */
+  private async restoreTree(treeKey: 'shield' | 'unshield'): Promise<void> {
+    const { leaves: allLeaves, roots: allRoots } =
+      await this.store.loadTree(treeKey);
+    const { sealed, current } = this.rebuildEpochs(
+      treeKey,
+      allLeaves,
+      allRoots,
+    );
+    this.sealedEpochs[treeKey] = sealed;
+    this.epochs[treeKey] = current.epoch;
+    this.trees[treeKey] = current.tree;
+    this.leafRecords[treeKey] = current.leaves;
+    this.rootHistory[treeKey] = current.roots;
+
+    const tree = this.trees[treeKey];
+    const leaves = this.leafRecords[treeKey];
+    if (leaves.length === 0) {
+      return;
+    }
+
+    const root = this.decimalToHex(tree.root());
+    const persisted = this.rootHistory[treeKey].find(
+      (entry) => entry.leafCount === leaves.length,
+    );
+
+    // A crash between the leaf write and the root write leaves the root missing - repair it
+    const updatedAt = persisted?.createdAt ?? Date.now();
+    if (!persisted) {
+      this.logger.warn(
+        `[Indexer] Root for ${leaves.length} ${treeKey} leaves missing from history - recording recomputed root`,
+      );
+      await this.recordRoot(treeKey, {
+        root,
+        leafCount: leaves.length,
+        createdAt: updatedAt,
+      });
+    }
+
+    this.latestRoots[treeKey] = { root, updatedAt };
+    this.logger.log(
+      `[Indexer] Restored ${treeKey} tree: epoch ${current.epoch}, ${leaves.length} leaves, root ${root.slice(0, 16)}...`,
+    );
+  }
+
+  /**
+   * Rebuild every epoch of a tree from its leaves, ordered by epoch and
+   * index; all epochs before the last one must be full
+   */
+  private rebuildEpochs(
+    treeKey: string,
+    allLeaves: StoredLeaf[],
+    allRoots: StoredRoot[],
+  ): { sealed: TreeEpoch[]; current: TreeEpoch } {
+    const last =
+      allLeaves.length > 0 ? epochOf(allLeaves[allLeaves.length - 1]) : 0;
+
+    const sealed: TreeEpoch[] = [];
+    for (let epoch = 0; epoch < last; epoch++) {
+      const state = this.rebuildEpoch(
+        treeKey,
+        epoch,
+        allLeaves.filter((leaf) => epochOf(leaf) === epoch),
+        allRoots.filter((entry) => epochOf(entry) === epoch),
+      );
+      if (state.tree.size !== state.tree.capacity) {
+        throw new Error(
+          `[Indexer] Persisted ${treeKey} epoch ${epoch} was sealed with ${state.tree.size} of ${state.tree.capacity} leaves`,
+        );
+      }
+      sealed.push(state);
+    }
+
+    const current = this.rebuildEpoch(
+      treeKey,
+      last,
+      allLeaves.filter((leaf) => epochOf(leaf) === last),
+      allRoots.filter((entry) => epochOf(entry) === last),
+    );
+    return { sealed, current };
+  }
+
+  /**
+   * Rebuild one epoch from its persisted leaves, checking the leaf log has
+   * no gap and the final root matches the persisted one
+   */
+  private rebuildEpoch(
+    treeKey: string,
+    epoch: number,
+    leaves: StoredLeaf[],
+    roots: StoredRoot[],
+  ): TreeEpoch {
+    leaves.forEach((leaf, position) => {
+      if (leaf.index !== position) {
+        throw new Error(
+          `[Indexer] Persisted ${treeKey} tree has a gap in epoch ${epoch}: expected leaf ${position}, found ${leaf.index}`,
+        );
+      }
+    });
+
+    const tree = this.createTree();
+    leaves.forEach((leaf) => tree.insert(leaf.commitment));
+
+    const persisted = roots.find((entry) => entry.leafCount === leaves.length);
+    if (leaves.length > 0 && persisted) {
+      const root = this.decimalToHex(tree.root());
+      if (persisted.root !== root) {
+        throw new Error(
+          `[Indexer] Restored ${treeKey} root ${root.slice(0, 16)}... does not match persisted root ${persisted.root.slice(0, 16)}... for ${leaves.length} leaves of epoch ${epoch} - was the tree configuration changed?`,
+        );
+      }
+    }
+
+    return { epoch, tree, leaves, roots };
+  }
+
+  /**
+   * Append a root to the in-memory and persisted history.
+   * The leaf is already durable at this point and the root can be recomputed
+   * from the leaves, so a failed write is logged instead of failing the insert.
+   */
+  private async recordRoot(treeKey: string, root: StoredRoot): Promise<void> {
+    const entry: StoredRoot = { ...root, epoch: this.epochs[treeKey] };
+    const history = this.rootHistory[treeKey];
+    if (!history.some((existing) => existing.leafCount === entry.leafCount)) {
+      history.push(entry);
+      this.events.emit({
+        type: 'root_computed',
+        data: {
+          tree: treeKey,
+          epoch: entry.epoch,
+          root: entry.root,
+          leafCount: entry.leafCount,
+        },
+      });
+    }
+
+    try {
+      await this.store.appendRoot(treeKey, entry);
+    } catch (error) {
+      this.logger.error(
+        `[Indexer] Root for ${entry.leafCount} ${treeKey} leaves not persisted: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
 
-    return { index, root };
+  /**
+   * Run a tree mutation after all previously queued mutations of the same tree
+   */
+  private runExclusive<T>(treeKey: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writeLocks[treeKey] ?? Promise.resolve();
+    const next = previous.then(task, task);
+    this.writeLocks[treeKey] = next.catch(() => undefined);
+    return next;
   }
 
   /**
    * Pre-compute zero values for each tree level so padding hashes stay deterministic.
+   * Level 0 is the configured zero leaf, each level above hashes `arity`
+   * copies of the level below.
    */
   private initializeZeroValues() {
-    this.zeroValues = new Array(this.treeDepth + 1);
-    this.zeroValues[0] = '0';
+    const { depth, arity, hash, zeroLeaf } = this.treeConfig;
+    this.zeroValues = new Array(depth + 1);
+    this.zeroValues[0] = zeroLeaf;
 
-    for (let level = 1; level <= this.treeDepth; level++) {
+    for (let level = 1; level <= depth; level++) {
       const previous = this.zeroValues[level - 1];
-      this.zeroValues[level] = this.hashPair(previous, previous);
+      this.zeroValues[level] = this.hashNodes(
+        ...new Array<string>(arity).fill(previous),
+      );
     }
 
     this.logger.log(
-      `[Indexer] Precomputed zero values for ${this.treeDepth} levels`,
+      `[Indexer] Precomputed zero values for ${depth} levels (arity ${arity}, ${hash}, zero leaf ${zeroLeaf.slice(0, 16)})`,
+    );
+  }
+
+  /**
+   * Create an empty incremental tree per tree key (transfer shares shield)
+   */
+  private createTrees() {
+    for (const treeKey of ['shield', 'unshield']) {
+      this.trees[treeKey] = this.createTree();
+    }
+  }
+
+  private createTree(): IncrementalMerkleTree {
+    return new IncrementalMerkleTree(
+      this.treeConfig.depth,
+      this.zeroValues,
+      (...children) => this.hashNodes(...children),
+      this.treeConfig.arity,
     );
   }
 
@@ -172,10 +948,14 @@ export class IndexerService {
    * Returns root, path, and positions for circuit verification
    *
    * @param commitment - Can be hex string (with or without 0x) or decimal string
+   * @param target - Historical root or leaf count to prove against, so
+   *   clients can use a root that is already published on-chain. The proof
+   *   is generated in the epoch holding the root (or the commitment).
    */
   public async getProof(
     circuit: 'shield' | 'transfer' | 'unshield',
     commitment: string,
+    target: ProofTarget = {},
   ): Promise<MerkleProof> {
     this.logger.debug('=== GET MERKLE PROOF START ===');
     this.logger.debug(`Circuit: ${circuit}`);
@@ -186,48 +966,37 @@ export class IndexerService {
     }
 
     const treeKey = this.resolveTreeKey(circuit);
-    const commitments = this.trees[treeKey];
-    this.logger.debug(`Tree has ${commitments?.length || 0} commitments`);
 
-    if (!commitments || commitments.length === 0) {
+    // Normalize commitment to decimal for searching (same as storage format)
+    const normalizedCommitment = this.normalizeCommitment(commitment);
+
+    const state = this.selectEpoch(
+      treeKey,
+      circuit,
+      target,
+      normalizedCommitment,
+    );
+    const tree = state.tree;
+    this.logger.debug(
+      `Tree has ${tree.size} commitments in epoch ${state.epoch}`,
+    );
+
+    if (tree.size === 0) {
       this.logger.error(`❌ No commitments found for circuit: ${treeKey}`);
       this.logger.error('Tree is empty! Did you forget to shield first?');
       this.logger.error('Available circuits:', Object.keys(this.trees));
       throw new EmptyTreeException(circuit);
     }
 
-    // Normalize commitment to decimal for searching (same as storage format)
-    let normalizedCommitment: string;
-    try {
-      if (/^[0-9a-fA-F]+$/.test(commitment)) {
-        // Hex without 0x
-        normalizedCommitment = BigInt('0x' + commitment).toString(10);
-        this.logger.debug(
-          `Normalized hex (no 0x) to decimal: ${normalizedCommitment}`,
-        );
-      } else if (commitment.startsWith('0x')) {
-        // Hex with 0x
-        normalizedCommitment = BigInt(commitment).toString(10);
-        this.logger.debug(
-          `Normalized hex (with 0x) to decimal: ${normalizedCommitment}`,
-        );
-      } else {
-        // Already decimal
-        normalizedCommitment = commitment;
-        this.logger.debug(`Already decimal: ${normalizedCommitment}`);
-      }
-    } catch (err) {
-      this.logger.error(`❌ Invalid commitment format: ${commitment}`);
-      this.logger.error(`Error: ${err}`);
-      throw new InvalidCommitmentFormatException(commitment, String(err));
-    }
+    const leafCount = this.resolveProofSize(state, circuit, target);
 
     // Find commitment index (compare as decimal strings)
+    const commitments = tree.leaves;
     this.logger.debug(`Searching for commitment in tree...`);
     this.logger.debug(
       `Tree commitments: ${JSON.stringify(commitments.slice(0, 5))}${commitments.length > 5 ? '...' : ''}`,
     );
-    const index = commitments.findIndex((c) => c === normalizedCommitment);
+    const index = tree.indexOf(normalizedCommitment);
 
     if (index === -1) {
       this.logger.error(`❌ Commitment not found in ${circuit} tree`);
@@ -246,154 +1015,310 @@ export class IndexerService {
       );
     }
 
+    if (index >= leafCount) {
+      this.logger.warn(
+        `[Indexer] Commitment at index ${index} is newer than the requested root (${leafCount} leaves)`,
+      );
+      throw new CommitmentNotFoundException(commitment, circuit, leafCount);
+    }
+
     this.logger.log(`✅ Found commitment at index ${index}`);
     this.logger.debug('=== GET MERKLE PROOF END ===');
 
     // Generate Merkle proof
-    return this.generateProof(commitments, index);
+    return this.generateProof(state, index, leafCount);
   }
 
   /**
-   * Generate Merkle proof for a commitment at given index
+   * Get Merkle proofs for several commitments against one consistent root
    *
-   * Algorithm:
-   * 1. Start at leaf, traverse to root
-   * 2. At each level, collect sibling hash
-   * 3. Record whether sibling is left (0) or right (1)
+   * The root and tree size are resolved once and all paths are built in a
+   * single pass over the tree. Commitments that are malformed, unknown,
+   * newer than the root or in another epoch get a per-item error instead of
+   * failing the batch.
    */
-  private generateProof(commitments: string[], leafIndex: number): MerkleProof {
-    const pathValues: string[] = [];
-    const pathPositions: string[] = [];
+  public async getProofs(
+    circuit: 'shield' | 'transfer' | 'unshield',
+    commitments: string[],
+    target: ProofTarget = {},
+  ): Promise<MerkleProofBatch> {
+    if (!this.initialized) {
+      throw new IndexerNotInitializedException('Poseidon hash not initialized');
+    }
 
-    // Build tree level by level
-    let currentLevel = [...commitments];
-    let currentIndex = leafIndex;
+    const treeKey = this.resolveTreeKey(circuit);
+    const state = this.selectEpoch(treeKey, circuit, target);
+    const tree = state.tree;
+    if (tree.size === 0) {
+      throw new EmptyTreeException(circuit);
+    }
 
+    const leafCount = this.resolveProofSize(state, circuit, target);
+
+    const items: BatchProofItem[] = commitments.map((commitment) => {
+      try {
+        const index = tree.indexOf(this.normalizeCommitment(commitment));
+        if (index === -1 || index >= leafCount) {
+          throw new CommitmentNotFoundException(commitment, circuit, leafCount);
+        }
+        return { commitment, leafIndex: index };
+      } catch (error) {
+        if (!(error instanceof AppException)) {
+          throw error;
+        }
+        return {
+          commitment,
+          error: {
+            errorCode: error.getErrorCode(),
+            message: error.message,
+            details: error.getDetails(),
+          },
+        };
+      }
+    });
+
+    const found = items.filter((item) => !item.error);
+    const paths = tree.proofs(
+      found.map((item) => item.leafIndex),
+      leafCount,
+    );
+    found.forEach((item, i) => {
+      item.path = paths[i].path.map((value) => this.decimalToHex(value));
+      item.pathPositions = paths[i].pathPositions;
+    });
+
+    const root = this.decimalToHex(tree.root(leafCount));
     this.logger.log(
-      `[Indexer] Building proof for leaf at index ${leafIndex} (level has ${currentLevel.length} nodes)`,
+      `[Indexer] Generated ${found.length}/${commitments.length} ${treeKey} proofs with root: ${root.slice(0, 16)}...`,
     );
 
-    for (let level = 0; level < this.treeDepth; level++) {
-      if (currentLevel.length === 0) {
-        pathValues.push(this.zeroValues[level]);
-        pathPositions.push('0');
-        currentLevel = [this.zeroValues[level + 1]];
-        currentIndex = Math.floor(currentIndex / 2);
-        continue;
-      }
+    return {
+      root,
+      leafCount,
+      epoch: state.epoch,
+      found: found.length,
+      proofs: items,
+    };
+  }
 
-      if (currentLevel.length % 2 === 1) {
-        currentLevel = [...currentLevel, this.zeroValues[level]];
-      }
+  /**
+   * Get a bucket of leaves and the siblings from the bucket root up
+   *
+   * Bucket `b` holds leaves [b * bucketSize, (b + 1) * bucketSize) of the
+   * epoch. A client that knows its leaf index computes the path inside the
+   * bucket itself, so unlike getProof the request does not reveal which
+   * commitment is about to be spent.
+   *
+   * @param target - Historical root or leaf count, as for getProof; without
+   *   an epoch the current epoch (or the one holding the root) is used
+   */
+  public getBucket(
+    circuit: 'shield' | 'transfer' | 'unshield',
+    bucket: number,
+    target: ProofTarget = {},
+  ): MerkleBucket {
+    if (!this.initialized) {
+      throw new IndexerNotInitializedException('Poseidon hash not initialized');
+    }
+
+    const treeKey = this.resolveTreeKey(circuit);
+    const state = this.selectEpoch(treeKey, circuit, target);
+    if (state.tree.size === 0) {
+      throw new EmptyTreeException(circuit);
+    }
 
-      // Find sibling at current level
-      const isLeftChild = currentIndex % 2 === 0;
-      const siblingIndex = isLeftChild ? currentIndex + 1 : currentIndex - 1;
-
-      const sibling =
-        siblingIndex >= 0 && siblingIndex < currentLevel.length
-          ? currentLevel[siblingIndex]
-          : this.zeroValues[level];
-
-      pathValues.push(sibling);
-      pathPositions.push(isLeftChild ? '0' : '1');
-
-      // Move to next level (hash pairs)
-      const nextLevel = [];
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right =
-          i + 1 < currentLevel.length
-            ? currentLevel[i + 1]
-            : this.zeroValues[level];
-
-        // Hash this pair
-        const hash = this.hashPair(left, right);
-        nextLevel.push(hash);
+    const leafCount = this.resolveProofSize(state, circuit, target);
+    const height = this.bucketHeight();
+    const fromIndex = bucket * this.treeConfig.arity ** height;
+    if (fromIndex >= leafCount) {
+      throw new LeafNotFoundException(circuit, fromIndex, leafCount);
+    }
+
+    const { root, leaves, path, pathPositions } = state.tree.subtree(
+      bucket,
+      height,
+      leafCount,
+    );
+    const rootHex = this.decimalToHex(root);
+    this.logger.log(
+      `[Indexer] Served ${treeKey} bucket ${bucket} (${leaves.length} leaves from ${fromIndex}) with root: ${rootHex.slice(0, 16)}...`,
+    );
+
+    return {
+      root: rootHex,
+      leafCount,
+      epoch: state.epoch,
+      bucket,
+      height,
+      fromIndex,
+      leaves: leaves.map((value) => this.decimalToHex(value)),
+      path: path.map((value) => this.decimalToHex(value)),
+      pathPositions,
+    };
+  }
+
+  private bucketHeight(): number {
+    const { depth, arity } = this.treeConfig;
+    let height = 0;
+    while (height < depth && arity ** height < BUCKET_MIN_LEAVES) {
+      height++;
+    }
+    return height;
+  }
+
+  /**
+   * Epoch a proof is generated in: the requested epoch, else the epoch
+   * holding the requested root, else the epoch holding the commitment,
+   * else the current epoch
+   */
+  private selectEpoch(
+    treeKey: string,
+    circuit: string,
+    target: ProofTarget,
+    commitment?: string,
+  ): TreeEpoch {
+    if (target.epoch !== undefined) {
+      const state = this.findEpoch(treeKey, target.epoch);
+      if (!state) {
+        throw new UnknownRootException(
+          circuit,
+          target,
+          `No epoch ${target.epoch} (current epoch is ${this.epochs[treeKey]})`,
+        );
       }
+      return state;
+    }
+
+    if (target.root !== undefined) {
+      const rootHex = this.normalizeRootHex(target.root);
+      const state = this.epochStates(treeKey).find((candidate) =>
+        candidate.roots.some((entry) => entry.root === rootHex),
+      );
+      // An unknown root is reported by resolveProofSize
+      return state ?? this.currentEpoch(treeKey);
+    }
 
-      currentLevel = nextLevel;
-      currentIndex = Math.floor(currentIndex / 2);
+    if (commitment !== undefined) {
+      const found = this.findLeaf(treeKey, commitment);
+      if (found) return found.state;
+    }
+
+    return this.currentEpoch(treeKey);
+  }
+
+  private normalizeRootHex(root: string): string {
+    return root.toLowerCase().replace(/^0x/, '').padStart(64, '0');
+  }
+
+  /**
+   * Resolve the tree size a proof should be generated at
+   *
+   * A root is looked up in the root history; a bare leaf count only has to
+   * be within the current tree. When both are given they must match.
+   */
+  private resolveProofSize(
+    state: TreeEpoch,
+    circuit: string,
+    target: ProofTarget,
+  ): number {
+    const tree = state.tree;
+    const { root, leafCount } = target;
+
+    if (root === undefined) {
+      if (leafCount === undefined) {
+        return tree.size;
+      }
+      if (
+        !Number.isInteger(leafCount) ||
+        leafCount < 1 ||
+        leafCount > tree.size
+      ) {
+        throw new UnknownRootException(
+          circuit,
+          target,
+          `Leaf count must be between 1 and ${tree.size}`,
+        );
+      }
+      return leafCount;
+    }
 
-      this.logger.debug(
-        `[Indexer] Level ${level}: sibling=${this.decimalToHex(sibling).slice(0, 8)}..., hash_count=${nextLevel.length}`,
+    const rootHex = this.normalizeRootHex(root);
+    const entry = state.roots.find((candidate) => candidate.root === rootHex);
+    if (!entry || entry.leafCount > tree.size) {
+      throw new UnknownRootException(circuit, target);
+    }
+    if (leafCount !== undefined && leafCount !== entry.leafCount) {
+      throw new UnknownRootException(
+        circuit,
+        target,
+        `Root belongs to a tree of ${entry.leafCount} leaves`,
       );
     }
 
-    // Final hash is the root
-    const root = currentLevel[0] || this.zeroValues[this.treeDepth];
+    return entry.leafCount;
+  }
+
+  /**
+   * Generate Merkle proof for a commitment at given index
+   *
+   * Reads the sibling at each level from the tree's cached nodes (as they
+   * were at `leafCount` leaves) and records whether the node is the left (0)
+   * or right (1) child. Values are hex encoded.
+   */
+  private generateProof(
+    state: TreeEpoch,
+    leafIndex: number,
+    leafCount: number,
+  ): MerkleProof {
+    const { root, path, pathPositions } = state.tree.proof(
+      leafIndex,
+      leafCount,
+    );
     const rootHex = this.decimalToHex(root);
 
     this.logger.log(
-      `[Indexer] Generated proof with root: ${rootHex.slice(0, 16)}...`,
+      `[Indexer] Generated proof for leaf ${leafIndex} with root: ${rootHex.slice(0, 16)}...`,
     );
 
     return {
       root: rootHex,
-      path: pathValues.map((value) => this.decimalToHex(value)),
+      path: path.map((value) => this.decimalToHex(value)),
       pathPositions,
+      leafIndex,
+      leafCount,
+      epoch: state.epoch,
     };
   }
 
   /**
-   * Hash two values using Poseidon
-   * Poseidon([left, right]) = hash of the pair
+   * Hash the children of a node using Poseidon
+   * Poseidon([left, ..., right]) = hash of the children (2 for a binary tree)
    *
-   * @param left - Decimal string representation of field element
-   * @param right - Decimal string representation of field element
+   * @param children - Decimal string representations of field elements
    * @returns Decimal string representation of hash result
    */
-  private hashPair(left: string, right: string): string {
+  private hashNodes(...children: string[]): string {
     if (!this.poseidon) {
       throw new IndexerNotInitializedException('Poseidon not initialized');
     }
 
     try {
       // Convert decimal strings to BigInt (all internal values are decimal)
-      const leftBig = BigInt(left);
-      const rightBig = BigInt(right);
+      const inputs = children.map((child) => BigInt(child));
 
       // Use Poseidon hash function
-      const hash = this.poseidon([leftBig, rightBig]);
+      const hash = this.poseidon(inputs);
 
       // Convert back to decimal string
       return this.poseidon.F.toString(hash);
     } catch (error) {
       this.logger.error(
-        `[Indexer] Poseidon hash failed: ${error}, left=${left.slice(0, 8)}..., right=${right.slice(0, 8)}...`,
+        `[Indexer] Poseidon hash failed: ${error}, inputs=${children.map((child) => `${child.slice(0, 8)}...`).join(', ')}`,
       );
       throw new HashFailedException(String(error));
     }
   }
 
-  /**
-   * Compute the root of a tree for the given commitment set (decimal strings).
-   */
-  private computeRootDecimal(commitments: string[]): string {
-    let currentLevel = [...commitments];
-
-    for (let level = 0; level < this.treeDepth; level++) {
-      if (currentLevel.length === 0) {
-        return this.zeroValues[this.treeDepth];
-      }
-
-      if (currentLevel.length % 2 === 1) {
-        currentLevel = [...currentLevel, this.zeroValues[level]];
-      }
-
-      const nextLevel: string[] = [];
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = currentLevel[i + 1];
-        nextLevel.push(this.hashPair(left, right));
-      }
-
-      currentLevel = nextLevel;
-    }
-
-    return currentLevel[0] ?? this.zeroValues[this.treeDepth];
-  }
-
   /**
    * Convert decimal string representation from Poseidon back into fixed-length hex.
    */
@@ -415,60 +1340,412 @@ export class IndexerService {
     }
 
     const treeKey = this.resolveTreeKey(circuit);
-    const commitments = this.trees[treeKey];
-    if (!commitments || commitments.length === 0) {
+    const tree = this.trees[treeKey];
+    if (tree.size === 0) {
       throw new EmptyTreeException(circuit);
     }
 
-    const rootDecimal = this.computeRootDecimal(commitments);
-    return this.decimalToHex(rootDecimal);
+    return this.decimalToHex(tree.root());
+  }
+
+  /**
+   * Roots computed for a circuit's tree, oldest first
+   */
+  public getRootHistory(
+    circuit: 'shield' | 'transfer' | 'unshield',
+  ): StoredRoot[] {
+    return [...this.rootHistory[this.resolveTreeKey(circuit)]];
   }
 
   /**
    * Get status/stats about the indexer
    */
   public getStatus() {
-    const shieldCount = this.trees.shield.length;
     return {
       initialized: this.initialized,
+      persistence: {
+        enabled: this.store.isEnabled(),
+      },
+      events: this.events.getStats(),
       trees: {
-        shield: {
-          count: shieldCount,
-        },
-        transfer: {
-          count: shieldCount,
-        },
-        unshield: {
-          count: this.trees.unshield?.length || 0,
-        },
+        shield: this.getTreeStatus('shield'),
+        transfer: this.getTreeStatus('shield'),
+        unshield: this.getTreeStatus('unshield'),
       },
       latestRoots: {
         shield: this.latestRoots.shield,
         transfer: this.latestRoots.transfer,
         unshield: this.latestRoots.unshield,
       },
+      audit: this.audit,
+    };
+  }
+
+  /**
+   * Size of a tree's current epoch; `count` only covers the current epoch
+   */
+  private getTreeStatus(treeKey: 'shield' | 'unshield') {
+    return {
+      count: this.trees[treeKey]?.size ?? 0,
+      unfinalized: this.countUnfinalized(treeKey),
+      epoch: this.epochs[treeKey],
+      sealedEpochs: this.sealedEpochs[treeKey].length,
+      capacity: this.treeConfig.arity ** this.treeConfig.depth,
+    };
+  }
+
+  /**
+   * Tree parameters with the derived zero values, so clients can check and
+   * recompute paths for the circuits they compile
+   */
+  public getTreeConfig(): PublishedTreeConfig {
+    if (!this.initialized) {
+      throw new IndexerNotInitializedException('Poseidon hash not initialized');
+    }
+
+    const { depth, arity } = this.treeConfig;
+    const bucketHeight = this.bucketHeight();
+    return {
+      ...this.treeConfig,
+      capacity: arity ** depth,
+      pathLength: depth * (arity - 1),
+      zeroValues: this.zeroValues.map((value) => this.decimalToHex(value)),
+      emptyRoot: this.decimalToHex(this.zeroValues[depth]),
+      bucketHeight,
+      bucketSize: arity ** bucketHeight,
+      trees: { shield: 'shield', transfer: 'shield', unshield: 'unshield' },
     };
   }
 
   /**
-   * Get all commitments in a tree (for debugging)
+   * Every epoch of both trees, taken under the write locks so leaves, roots
+   * and the current root agree
    */
-  public getCommitments(circuit: 'shield' | 'transfer' | 'unshield') {
+  public async exportTrees(): Promise<
+    Record<'shield' | 'unshield', TreeState>
+  > {
+    if (!this.initialized) {
+      throw new IndexerNotInitializedException('Poseidon hash not initialized');
+    }
+
+    const exportTree = (treeKey: 'shield' | 'unshield') =>
+      this.runExclusive(treeKey, async (): Promise<TreeState> => {
+        const epochs = this.epochStates(treeKey).reverse();
+        const tree = this.trees[treeKey];
+        return {
+          epoch: this.epochs[treeKey],
+          leafCount: tree.size,
+          root: tree.size > 0 ? this.decimalToHex(tree.root()) : null,
+          leaves: epochs.flatMap((state) =>
+            state.leaves.map((leaf) => ({
+              epoch: state.epoch,
+              index: leaf.index,
+              commitment: leaf.commitment,
+              createdAt: leaf.createdAt,
+              slot: leaf.slot ?? null,
+              signature: leaf.signature ?? null,
+              blockTime: leaf.blockTime ?? null,
+              source: leaf.source ?? 'api',
+              finality: leaf.finality ?? 'finalized',
+            })),
+          ),
+          roots: epochs.flatMap((state) =>
+            state.roots.map((entry) => ({
+              epoch: state.epoch,
+              root: entry.root,
+              leafCount: entry.leafCount,
+              createdAt: entry.createdAt,
+            })),
+          ),
+        };
+      });
+
+    return {
+      shield: await exportTree('shield'),
+      unshield: await exportTree('unshield'),
+    };
+  }
+
+  /**
+   * Replace both trees with the given states (snapshot import)
+   *
+   * Every epoch is rebuilt first and must reproduce the state's roots, so a
+   * state that does not check out leaves the trees untouched. `persist` then
+   * writes the store, with both trees locked, and memory is only replaced
+   * once it succeeded; without `persist` only the checks run (dry run).
+   */
+  public async restoreTrees(
+    states: Record<'shield' | 'unshield', TreeState>,
+    persist: (() => Promise<void>) | null,
+  ): Promise<void> {
+    if (!this.initialized) {
+      throw new IndexerNotInitializedException('Poseidon hash not initialized');
+    }
+
+    await this.runExclusive('shield', () =>
+      this.runExclusive('unshield', async () => {
+        const rebuilt = (['shield', 'unshield'] as const).map((treeKey) => ({
+          treeKey,
+          state: states[treeKey],
+          ...this.rebuildState(treeKey, states[treeKey]),
+        }));
+        if (!persist) return;
+
+        await persist();
+
+        for (const { treeKey, state, sealed, current } of rebuilt) {
+          this.sealedEpochs[treeKey] = sealed;
+          this.epochs[treeKey] = current.epoch;
+          this.trees[treeKey] = current.tree;
+          this.leafRecords[treeKey] = current.leaves;
+          this.rootHistory[treeKey] = current.roots;
+
+          const latest = current.roots.find(
+            (entry) => entry.leafCount === current.tree.size,
+          );
+          this.latestRoots[treeKey] = state.root
+            ? { root: state.root, updatedAt: latest?.createdAt ?? Date.now() }
+            : null;
+          this.logger.warn(
+            `[Indexer] Imported ${treeKey} tree: epoch ${current.epoch}, ${current.tree.size} leaves, root ${state.root ? `${state.root.slice(0, 16)}...` : 'none'}`,
+          );
+        }
+      }),
+    );
+  }
+
+  /**
+   * Rebuild a tree state and check it against its own epoch, size and root
+   */
+  private rebuildState(
+    treeKey: 'shield' | 'unshield',
+    state: TreeState,
+  ): { sealed: TreeEpoch[]; current: TreeEpoch } {
+    let rebuilt: { sealed: TreeEpoch[]; current: TreeEpoch };
+    try {
+      rebuilt = this.rebuildEpochs(treeKey, state.leaves, state.roots);
+    } catch (error) {
+      throw new SnapshotMismatchException(
+        error instanceof Error ? error.message : String(error),
+        { tree: treeKey },
+      );
+    }
+
+    const { tree, epoch } = rebuilt.current;
+    const root = tree.size > 0 ? this.decimalToHex(tree.root()) : null;
+    if (
+      epoch !== state.epoch ||
+      tree.size !== state.leafCount ||
+      root !== state.root
+    ) {
+      throw new SnapshotMismatchException(
+        `Rebuilt ${treeKey} tree does not reproduce the snapshot root`,
+        {
+          tree: treeKey,
+          expected: {
+            epoch: state.epoch,
+            leafCount: state.leafCount,
+            root: state.root,
+          },
+          recomputed: { epoch, leafCount: tree.size, root },
+        },
+      );
+    }
+    return rebuilt;
+  }
+
+  /**
+   * Record the outcome of a consistency audit (shown in getStatus)
+   */
+  public setAuditSummary(summary: AuditSummary): void {
+    this.audit = summary;
+  }
+
+  /**
+   * Rebuild the current epoch of a tree from its stored leaves (the durable
+   * store when enabled) and check the root history and the live root
+   * against it
+   */
+  public async recomputeRoots(
+    circuit: 'shield' | 'transfer' | 'unshield',
+  ): Promise<TreeRecomputation> {
+    if (!this.initialized) {
+      throw new IndexerNotInitializedException('Poseidon hash not initialized');
+    }
+
+    const treeKey = this.resolveTreeKey(circuit) as 'shield' | 'unshield';
+
+    // Snapshot under the write lock so leaves, history and live root agree
+    const snapshot = await this.runExclusive(treeKey, async () => {
+      const live = this.trees[treeKey];
+      const epoch = this.epochs[treeKey];
+      const epochs = this.epochStates(treeKey).reverse();
+      const stored = this.store.isEnabled()
+        ? await this.store.loadTree(treeKey)
+        : {
+            leaves: epochs.flatMap((state) => state.leaves),
+            roots: epochs.flatMap((state) => state.roots),
+          };
+      const inEpoch = (entry: { epoch?: number }) => epochOf(entry) === epoch;
+      return {
+        epoch,
+        leaves: stored.leaves.filter(inEpoch),
+        roots: stored.roots.filter(inEpoch),
+        sealed: {
+          leaves: stored.leaves.filter((entry) => !inEpoch(entry)),
+          roots: stored.roots
+            .filter((entry) => !inEpoch(entry))
+            .map((entry) => entry.root),
+        },
+        liveSize: live.size,
+        liveRoot: live.size > 0 ? this.decimalToHex(live.root()) : null,
+      };
+    });
+
+    const tree = this.createTree();
+    const roots = [this.decimalToHex(this.zeroValues[this.treeConfig.depth])];
+    for (const [position, leaf] of snapshot.leaves.entries()) {
+      tree.insert(leaf.commitment);
+      roots.push(this.decimalToHex(tree.root()));
+      if ((position + 1) % RECOMPUTE_YIELD_INTERVAL === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    }
+
+    const mismatches: RootMismatch[] = snapshot.roots
+      .filter((entry) => roots[entry.leafCount] !== entry.root)
+      .map((entry) => ({
+        leafCount: entry.leafCount,
+        recorded: entry.root,
+        recomputed: roots[entry.leafCount] ?? null,
+        source: 'history',
+      }));
+    if (snapshot.liveRoot && roots[snapshot.liveSize] !== snapshot.liveRoot) {
+      mismatches.push({
+        leafCount: snapshot.liveSize,
+        recorded: snapshot.liveRoot,
+        recomputed: roots[snapshot.liveSize] ?? null,
+        source: 'live',
+      });
+    }
+
+    return {
+      tree: treeKey,
+      epoch: snapshot.epoch,
+      leaves: snapshot.leaves,
+      roots,
+      mismatches,
+      sealed: snapshot.sealed,
+    };
+  }
+
+  /**
+   * Page through a tree's leaves with their provenance, in index order
+   *
+   * @param fromIndex - Index of the first leaf (cursor from `nextIndex`)
+   * @param limit - Maximum number of leaves in the page
+   * @param epoch - Epoch to list (defaults to the current one)
+   */
+  public getCommitments(
+    circuit: 'shield' | 'transfer' | 'unshield',
+    fromIndex: number,
+    limit: number,
+    epoch?: number,
+  ): LeafPage {
     const treeKey = this.resolveTreeKey(circuit);
-    const commitments = this.trees[treeKey] || [];
+    const state =
+      epoch === undefined
+        ? this.currentEpoch(treeKey)
+        : this.findEpoch(treeKey, epoch);
+    const records = state?.leaves ?? [];
+    const page = records.slice(fromIndex, fromIndex + limit);
+    const end = fromIndex + page.length;
+
     return {
       circuit: treeKey,
-      count: commitments.length,
-      commitments: commitments.map((c, index) => ({
+      epoch: state?.epoch ?? epoch,
+      count: records.length,
+      fromIndex,
+      limit,
+      nextIndex: end < records.length ? end : null,
+      commitments: page.map((record) => this.toLeafInfo(record)),
+    };
+  }
+
+  /**
+   * Get the leaf at a given index
+   *
+   * @param epoch - Epoch of the index (defaults to the current one)
+   */
+  public getLeafByIndex(
+    circuit: 'shield' | 'transfer' | 'unshield',
+    index: number,
+    epoch?: number,
+  ): LeafInfo {
+    const treeKey = this.resolveTreeKey(circuit);
+    const state =
+      epoch === undefined
+        ? this.currentEpoch(treeKey)
+        : this.findEpoch(treeKey, epoch);
+    const record = state?.leaves[index];
+    if (!record) {
+      throw new LeafNotFoundException(
+        circuit,
         index,
-        commitmentDecimal: c,
-        commitmentHex: this.decimalToHex(c),
-        // Show first 16 chars for readability
-        preview: this.decimalToHex(c).slice(0, 16) + '...',
-      })),
+        state?.leaves.length ?? 0,
+      );
+    }
+    return this.toLeafInfo(record);
+  }
+
+  /**
+   * Get the leaf holding a commitment, in any epoch
+   *
+   * @param commitment - Can be hex string (with or without 0x) or decimal string
+   */
+  public getLeafByCommitment(
+    circuit: 'shield' | 'transfer' | 'unshield',
+    commitment: string,
+  ): LeafInfo {
+    const treeKey = this.resolveTreeKey(circuit);
+    const found = this.trees[treeKey]
+      ? this.findLeaf(treeKey, this.normalizeCommitment(commitment))
+      : null;
+    if (!found) {
+      throw new CommitmentNotFoundException(
+        commitment,
+        circuit,
+        this.trees[treeKey]?.size,
+      );
+    }
+    return this.toLeafInfo(found.record);
+  }
+
+  private toLeafInfo(record: StoredLeaf): LeafInfo {
+    const commitmentHex = this.decimalToHex(record.commitment);
+    return {
+      epoch: epochOf(record),
+      index: record.index,
+      commitmentDecimal: record.commitment,
+      commitmentHex,
+      // Show first 16 chars for readability
+      preview: commitmentHex.slice(0, 16) + '...',
+      // Leaves persisted before sources were recorded: chain ones have a signature
+      source: record.source ?? (record.signature ? 'chain' : 'api'),
+      signature: record.signature ?? null,
+      slot: record.slot ?? null,
+      blockTime: record.blockTime ?? null,
+      finality: record.finality ?? 'finalized',
+      createdAt: record.createdAt,
     };
   }
 
+  private countUnfinalized(treeKey: 'shield' | 'unshield'): number {
+    return this.leafRecords[treeKey].filter(
+      (record) => record.finality !== 'finalized',
+    ).length;
+  }
+
   private resolveTreeKey(
     circuit: 'shield' | 'transfer' | 'unshield',
   ): 'shield' | 'transfer' | 'unshield' {
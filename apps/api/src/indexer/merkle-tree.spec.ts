@@ -0,0 +1,242 @@
+import { describe, it, expect } from '@jest/globals';
+import { IncrementalMerkleTree } from './merkle-tree';
+
+const FIELD =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+// Cheap, order-sensitive stand-in for Poseidon
+const hashPair = (left: string, right: string) =>
+  ((BigInt(left) * 31n + BigInt(right) * 17n + 7n) % FIELD).toString();
+
+function zeroValuesFor(depth: number): string[] {
+  const zeros = ['0'];
+  for (let level = 1; level <= depth; level++) {
+    zeros.push(hashPair(zeros[level - 1], zeros[level - 1]));
+  }
+  return zeros;
+}
+
+/**
+ * Reference implementation: rebuild every level from the full leaf array
+ */
+function rebuildProof(leaves: string[], leafIndex: number, zeros: string[]) {
+  const depth = zeros.length - 1;
+  const path: string[] = [];
+  const pathPositions: string[] = [];
+  let level0 = [...leaves];
+  let index = leafIndex;
+
+  for (let level = 0; level < depth; level++) {
+    if (level0.length % 2 === 1) level0 = [...level0, zeros[level]];
+    const isLeft = index % 2 === 0;
+    path.push(level0[isLeft ? index + 1 : index - 1] ?? zeros[level]);
+    pathPositions.push(isLeft ? '0' : '1');
+
+    const next: string[] = [];
+    for (let i = 0; i < level0.length; i += 2) {
+      next.push(hashPair(level0[i], level0[i + 1]));
+    }
+    level0 = next;
+    index = Math.floor(index / 2);
+  }
+
+  return { root: level0[0] ?? zeros[depth], path, pathPositions };
+}
+
+describe('IncrementalMerkleTree', () => {
+  const depth = 6;
+  const zeros = zeroValuesFor(depth);
+
+  it('matches a full rebuild for every size and leaf', () => {
+    const tree = new IncrementalMerkleTree(depth, zeros, hashPair);
+    const leaves: string[] = [];
+
+    for (let n = 1; n <= 20; n++) {
+      const leaf = String(1000 + n * 13);
+      leaves.push(leaf);
+      expect(tree.insert(leaf)).toBe(n - 1);
+
+      for (let i = 0; i < n; i++) {
+        expect(tree.proof(i)).toEqual(rebuildProof(leaves, i, zeros));
+      }
+    }
+  });
+
+  it('uses O(depth) hashes per insert', () => {
+    let calls = 0;
+    const counting = (left: string, right: string) => {
+      calls++;
+      return hashPair(left, right);
+    };
+    const tree = new IncrementalMerkleTree(depth, zeros, counting);
+
+    for (let n = 0; n < 40; n++) tree.insert(String(n + 1));
+    expect(calls).toBe(40 * depth);
+
+    calls = 0;
+    tree.proof(17);
+    expect(calls).toBe(0);
+  });
+
+  it('truncates back to the same state as a tree built to that size', () => {
+    const tree = new IncrementalMerkleTree(depth, zeros, hashPair);
+    for (let n = 1; n <= 13; n++) tree.insert(String(500 + n));
+
+    for (const size of [11, 8, 5, 1, 0]) {
+      tree.truncate(size);
+      const leaves = Array.from({ length: size }, (_, i) => String(501 + i));
+
+      expect(tree.size).toBe(size);
+      expect(tree.root()).toBe(rebuildProof(leaves, 0, zeros).root);
+      expect(tree.indexOf(String(501 + size))).toBe(-1);
+    }
+
+    tree.insert('9');
+    expect(tree.proof(0)).toEqual(rebuildProof(['9'], 0, zeros));
+  });
+
+  it('proves against every earlier tree size', () => {
+    const tree = new IncrementalMerkleTree(depth, zeros, hashPair);
+    const leaves = Array.from({ length: 19 }, (_, i) => String(700 + i * 3));
+    leaves.forEach((leaf) => tree.insert(leaf));
+
+    for (let size = 1; size <= leaves.length; size++) {
+      const prefix = leaves.slice(0, size);
+      expect(tree.root(size)).toBe(rebuildProof(prefix, 0, zeros).root);
+
+      for (let i = 0; i < size; i++) {
+        expect(tree.proof(i, size)).toEqual(rebuildProof(prefix, i, zeros));
+      }
+    }
+
+    expect(() => tree.proof(5, 5)).toThrow('out of range');
+    expect(() => tree.proof(0, 20)).toThrow('out of range');
+  });
+
+  it('hashes the right edge of an earlier size once per batch', () => {
+    let calls = 0;
+    const counting = (left: string, right: string) => {
+      calls++;
+      return hashPair(left, right);
+    };
+    const tree = new IncrementalMerkleTree(depth, zeros, counting);
+    const leaves = Array.from({ length: 30 }, (_, i) => String(300 + i));
+    leaves.forEach((leaf) => tree.insert(leaf));
+
+    calls = 0;
+    const indices = [0, 4, 9, 16, 20];
+    const proofs = tree.proofs(indices, 21);
+
+    expect(calls).toBeLessThanOrEqual(depth);
+    indices.forEach((leafIndex, i) => {
+      expect(proofs[i]).toEqual(
+        rebuildProof(leaves.slice(0, 21), leafIndex, zeros),
+      );
+    });
+  });
+
+  it('serves subtrees from which every leaf path can be rebuilt', () => {
+    const tree = new IncrementalMerkleTree(depth, zeros, hashPair);
+    const leaves = Array.from({ length: 21 }, (_, i) => String(900 + i));
+    leaves.forEach((leaf) => tree.insert(leaf));
+    const height = 3;
+
+    for (const size of [21, 13]) {
+      for (let leafIndex = 0; leafIndex < size; leafIndex++) {
+        const bucket = Math.floor(leafIndex / 2 ** height);
+        const subtree = tree.subtree(bucket, height, size);
+
+        // Path inside the bucket, from its leaves padded with zero leaves
+        const path: string[] = [];
+        const pathPositions: string[] = [];
+        let nodes = subtree.leaves;
+        let index = leafIndex % 2 ** height;
+        for (let level = 0; level < height; level++) {
+          const full = Array.from(
+            { length: 2 ** (height - level) },
+            (_, i) => nodes[i] ?? zeros[level],
+          );
+          path.push(full[index ^ 1]);
+          pathPositions.push(String(index % 2));
+          nodes = Array.from({ length: full.length / 2 }, (_, i) =>
+            hashPair(full[2 * i], full[2 * i + 1]),
+          );
+          index = Math.floor(index / 2);
+        }
+
+        expect({
+          root: subtree.root,
+          path: [...path, ...subtree.path],
+          pathPositions: [...pathPositions, ...subtree.pathPositions],
+        }).toEqual(tree.proof(leafIndex, size));
+      }
+    }
+
+    expect(() => tree.subtree(2, height, 13)).toThrow('holds no leaves');
+    expect(() => tree.subtree(0, depth + 1)).toThrow('out of range');
+  });
+
+  it('returns the zero root for an empty tree and rejects overflow', () => {
+    const tree = new IncrementalMerkleTree(2, zeroValuesFor(2), hashPair);
+    expect(tree.root()).toBe(zeroValuesFor(2)[2]);
+
+    for (let n = 0; n < 4; n++) tree.insert(String(n + 1));
+    expect(() => tree.insert('5')).toThrow('full');
+  });
+
+  it('supports trees of higher arity', () => {
+    const arity = 3;
+    const hashNodes = (...children: string[]) =>
+      (
+        children.reduce((acc, child) => acc * 31n + BigInt(child), 7n) % FIELD
+      ).toString();
+    const zeros = ['5'];
+    for (let level = 1; level <= 3; level++) {
+      zeros.push(hashNodes(...Array<string>(arity).fill(zeros[level - 1])));
+    }
+
+    // Reference: rebuild each level from the full leaf array
+    const rebuild = (leaves: string[], leafIndex: number) => {
+      const path: string[] = [];
+      const pathPositions: string[] = [];
+      let nodes = [...leaves];
+      let index = leafIndex;
+      for (let level = 0; level < 3; level++) {
+        const first = index - (index % arity);
+        for (let child = 0; child < arity; child++) {
+          if (first + child !== index) {
+            path.push(nodes[first + child] ?? zeros[level]);
+          }
+        }
+        pathPositions.push(String(index % arity));
+
+        const next: string[] = [];
+        for (let i = 0; i < nodes.length; i += arity) {
+          const children = Array.from(
+            { length: arity },
+            (_, child) => nodes[i + child] ?? zeros[level],
+          );
+          next.push(hashNodes(...children));
+        }
+        nodes = next;
+        index = Math.floor(index / arity);
+      }
+      return { root: nodes[0] ?? zeros[3], path, pathPositions };
+    };
+
+    const tree = new IncrementalMerkleTree(3, zeros, hashNodes, arity);
+    expect(tree.capacity).toBe(27);
+    expect(tree.root()).toBe(zeros[3]);
+
+    const leaves = Array.from({ length: 11 }, (_, i) => String(40 + i));
+    leaves.forEach((leaf) => tree.insert(leaf));
+    for (let size = 1; size <= leaves.length; size++) {
+      for (let i = 0; i < size; i++) {
+        expect(tree.proof(i, size)).toEqual(rebuild(leaves.slice(0, size), i));
+      }
+    }
+
+    tree.truncate(4);
+    expect(tree.proof(3)).toEqual(rebuild(leaves.slice(0, 4), 3));
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Hash the child nodes (decimal strings, left to right) into their parent
+ */
+export type HashNodesFn = (...children: string[]) => string;
+
+/**
+ * Sibling path of a leaf, values as decimal strings
+ *
+ * A binary tree has one sibling per level. A tree of arity k has k - 1
+ * siblings per level (left to right, skipping the node itself) and
+ * pathPositions[level] is the node's position among its k siblings.
+ */
+export interface MerklePath {
+  root: string;
+  path: string[];
+  pathPositions: string[];
+}
+
+/**
+ * An aligned subtree of a tree and the siblings from its root up
+ *
+ * `leaves` stops at the tree's size (the remaining positions hold the zero
+ * leaf); `path` and `pathPositions` follow MerklePath, starting at the
+ * subtree's height.
+ */
+export interface MerkleSubtree extends MerklePath {
+  leaves: string[];
+}
+
+/**
+ * IncrementalMerkleTree - Append-only, fixed-depth Merkle tree (binary by
+ * default, any arity >= 2)
+ *
+ * Every node of the filled part of the tree is cached per level
+ * (levels[0] holds the leaves). Nodes on the right edge are stored with the
+ * zero padding of the still-empty subtrees, so they form the frontier of the
+ * tree and are rehashed on each append.
+ *
+ * Costs:
+ * - insert: O(depth) hashes (only the path of the new leaf is recomputed)
+ * - proof: O(depth) lookups, no hashing
+ * - root: O(1)
+ * - proof/root at an earlier size: O(depth) hashes (only the nodes on that
+ *   size's right edge are recomputed, complete subtrees are cached); a batch
+ *   of proofs at the same size shares them
+ *
+ * Produces exactly the same roots and paths as rebuilding the tree from the
+ * full leaf array with zeroValues[level] padding.
+ */
+export class IncrementalMerkleTree {
+  private readonly levels: string[][];
+  private readonly leafIndex = new Map<string, number>();
+
+  constructor(
+    private readonly depth: number,
+    private readonly zeroValues: string[],
+    private readonly hashNodes: HashNodesFn,
+    private readonly arity = 2,
+  ) {
+    if (!Number.isInteger(arity) || arity < 2) {
+      throw new Error(`Tree arity must be an integer >= 2, got ${arity}`);
+    }
+    if (zeroValues.length < depth + 1) {
+      throw new Error(
+        `Expected ${depth + 1} zero values for depth ${depth}, got ${zeroValues.length}`,
+      );
+    }
+
+    this.levels = Array.from({ length: depth + 1 }, () => []);
+  }
+
+  /**
+   * Number of leaves in the tree
+   */
+  get size(): number {
+    return this.levels[0].length;
+  }
+
+  /**
+   * Maximum number of leaves (arity^depth)
+   */
+  get capacity(): number {
+    return this.arity ** this.depth;
+  }
+
+  /**
+   * Leaves in insertion order
+   */
+  get leaves(): readonly string[] {
+    return this.levels[0];
+  }
+
+  /**
+   * Append a leaf and return its index
+   */
+  insert(leaf: string): number {
+    const index = this.size;
+    if (index >= this.capacity) {
+      throw new Error(`Merkle tree is full (${this.capacity} leaves)`);
+    }
+
+    this.levels[0].push(leaf);
+    if (!this.leafIndex.has(leaf)) {
+      this.leafIndex.set(leaf, index);
+    }
+
+    let nodeIndex = index;
+    for (let level = 0; level < this.depth; level++) {
+      // An appended node is always the last one of its level, so its right
+      // siblings are still zero subtrees
+      const parent = Math.floor(nodeIndex / this.arity);
+      this.levels[level + 1][parent] = this.hashChildren(level, parent);
+      nodeIndex = parent;
+    }
+
+    return index;
+  }
+
+  /**
+   * Drop every leaf from index `size` on (used to roll back orphaned leaves)
+   *
+   * Only the new right edge is rehashed: O(depth) hashes.
+   */
+  truncate(size: number): void {
+    if (size < 0 || size > this.size) {
+      throw new Error(
+        `Cannot truncate tree of ${this.size} leaves to ${size} leaves`,
+      );
+    }
+
+    for (const [leaf, index] of this.leafIndex) {
+      if (index >= size) {
+        this.leafIndex.delete(leaf);
+      }
+    }
+
+    let count = size;
+    this.levels[0].length = count;
+    for (let level = 0; level < this.depth; level++) {
+      const parentCount = Math.ceil(count / this.arity);
+      this.levels[level + 1].length = parentCount;
+
+      if (parentCount > 0) {
+        const parent = parentCount - 1;
+        this.levels[level + 1][parent] = this.hashChildren(level, parent);
+      }
+      count = parentCount;
+    }
+  }
+
+  /**
+   * Index of the first occurrence of a leaf, or -1
+   */
+  indexOf(leaf: string): number {
+    return this.leafIndex.get(leaf) ?? -1;
+  }
+
+  /**
+   * Root (decimal string) of the tree, or of the tree as it was when it
+   * held `size` leaves
+   */
+  root(size: number = this.size): string {
+    this.assertHistoricalSize(size);
+    return this.nodeAt(this.depth, 0, size, new Map());
+  }
+
+  /**
+   * Sibling path for the leaf at the given index, against the current root
+   * or against the root of the tree as it was when it held `size` leaves
+   *
+   * pathPositions[level] is '0' when the node is the left child and '1'
+   * when it is the right child (its position among the siblings for
+   * arity > 2).
+   */
+  proof(leafIndex: number, size: number = this.size): MerklePath {
+    return this.proofs([leafIndex], size)[0];
+  }
+
+  /**
+   * Sibling paths for several leaves against the same root, in input order
+   */
+  proofs(leafIndices: number[], size: number = this.size): MerklePath[] {
+    this.assertHistoricalSize(size);
+    for (const leafIndex of leafIndices) {
+      if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= size) {
+        throw new Error(
+          `Leaf index ${leafIndex} out of range (tree has ${size} leaves)`,
+        );
+      }
+    }
+
+    const edge = new Map<string, string>();
+    const root = this.nodeAt(this.depth, 0, size, edge);
+
+    return leafIndices.map((leafIndex) => ({
+      root,
+      ...this.pathFrom(0, leafIndex, size, edge),
+    }));
+  }
+
+  /**
+   * Leaves of the aligned subtree of the given height holding leaves
+   * [index * arity^height, (index + 1) * arity^height), with the sibling
+   * path from its root to the tree root (current or at `size` leaves)
+   *
+   * Lets a client compute the path of any leaf in the subtree itself,
+   * without naming the leaf.
+   */
+  subtree(
+    index: number,
+    height: number,
+    size: number = this.size,
+  ): MerkleSubtree {
+    this.assertHistoricalSize(size);
+    if (!Number.isInteger(height) || height < 0 || height > this.depth) {
+      throw new Error(
+        `Subtree height ${height} out of range (tree depth is ${this.depth})`,
+      );
+    }
+    const span = this.arity ** height;
+    if (!Number.isInteger(index) || index < 0 || index * span >= size) {
+      throw new Error(
+        `Subtree ${index} of height ${height} holds no leaves (tree has ${size} leaves)`,
+      );
+    }
+
+    const edge = new Map<string, string>();
+    return {
+      root: this.nodeAt(this.depth, 0, size, edge),
+      leaves: this.levels[0].slice(
+        index * span,
+        Math.min((index + 1) * span, size),
+      ),
+      ...this.pathFrom(height, index, size, edge),
+    };
+  }
+
+  /**
+   * Siblings and positions from a node up to the root
+   */
+  private pathFrom(
+    fromLevel: number,
+    fromIndex: number,
+    size: number,
+    edge: Map<string, string>,
+  ): Omit<MerklePath, 'root'> {
+    const path: string[] = [];
+    const pathPositions: string[] = [];
+
+    let nodeIndex = fromIndex;
+    for (let level = fromLevel; level < this.depth; level++) {
+      const position = nodeIndex % this.arity;
+      const first = nodeIndex - position;
+      for (let child = 0; child < this.arity; child++) {
+        if (child !== position) {
+          path.push(this.nodeAt(level, first + child, size, edge));
+        }
+      }
+      pathPositions.push(String(position));
+
+      nodeIndex = Math.floor(nodeIndex / this.arity);
+    }
+
+    return { path, pathPositions };
+  }
+
+  /**
+   * Value of a node in the tree as it was when it held `size` leaves
+   *
+   * Subtrees that were already complete at that size are read from the
+   * cache, empty ones are zero values; only the partial subtree on the right
+   * edge is rehashed, once per `edge` map.
+   */
+  private nodeAt(
+    level: number,
+    index: number,
+    size: number,
+    edge: Map<string, string>,
+  ): string {
+    if (size === this.size) {
+      return this.levels[level][index] ?? this.zeroValues[level];
+    }
+
+    const span = this.arity ** level;
+    const firstLeaf = index * span;
+
+    if (firstLeaf >= size) {
+      return this.zeroValues[level];
+    }
+    if (firstLeaf + span <= size) {
+      return this.levels[level][index];
+    }
+
+    const key = `${level}:${index}`;
+    let node = edge.get(key);
+    if (node === undefined) {
+      const children: string[] = [];
+      for (let child = 0; child < this.arity; child++) {
+        children.push(
+          this.nodeAt(level - 1, index * this.arity + child, size, edge),
+        );
+      }
+      node = this.hashNodes(...children);
+      edge.set(key, node);
+    }
+    return node;
+  }
+
+  /**
+   * Hash the cached children of a node at `level + 1`, padding the children
+   * past the end of the level with the zero subtree
+   */
+  private hashChildren(level: number, parent: number): string {
+    const children: string[] = [];
+    for (let child = 0; child < this.arity; child++) {
+      children.push(
+        this.levels[level][parent * this.arity + child] ??
+          this.zeroValues[level],
+      );
+    }
+    return this.hashNodes(...children);
+  }
+
+  private assertHistoricalSize(size: number): void {
+    if (!Number.isInteger(size) || size < 0 || size > this.size) {
+      throw new Error(
+        `Tree size ${size} out of range (tree has ${this.size} leaves)`,
+      );
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  IndexerStoreService,
+  LeafFinality,
+  StoredNullifier,
+} from './indexer-store.service';
+import { LeafOrigin } from './indexer.service';
+import { SpentNullifier } from './program-events';
+import { InvalidNullifierFormatException } from '../common/exceptions';
+
+/**
+ * Spent state of a nullifier as returned by the API
+ */
+export interface NullifierStatus {
+  nullifier: string; // 64-char hex
+  spent: boolean;
+  circuit?: 'transfer' | 'unshield';
+  signature?: string;
+  slot?: number;
+  finality?: LeafFinality;
+  spentAt?: number;
+}
+
+const FINALITY_RANK: Record<LeafFinality, number> = {
+  processed: 0,
+  confirmed: 1,
+  finalized: 2,
+};
+
+/**
+ * NullifierService - Indexed set of nullifiers revealed on-chain
+ *
+ * Every submit_transfer / submit_unshield instruction reveals the nullifier
+ * of the note it spends. The sync service feeds them here, so wallets can
+ * check whether a note was spent without relying on local bookkeeping.
+ *
+ * Like leaves, nullifiers keep the slot and finality of their transaction
+ * and are dropped again when that transaction is orphaned.
+ */
+@Injectable()
+export class NullifierService implements OnModuleInit {
+  private readonly logger = new Logger(NullifierService.name);
+
+  // Key: 64-char hex nullifier
+  private readonly spent = new Map<string, StoredNullifier>();
+
+  constructor(private readonly store: IndexerStoreService) {}
+
+  async onModuleInit() {
+    if (!this.store.isEnabled()) return;
+
+    for (const record of await this.store.loadNullifiers()) {
+      this.spent.set(record.nullifier, record);
+    }
+    this.logger.log(
+      `[Nullifiers] Restored ${this.spent.size} spent nullifiers`,
+    );
+  }
+
+  /**
+   * Add a nullifier revealed by a spend instruction
+   * Returns false when it was already in the set.
+   */
+  async recordSpend(
+    spend: SpentNullifier,
+    origin: LeafOrigin,
+  ): Promise<boolean> {
+    if (this.spent.has(spend.nullifier)) return false;
+
+    const record: StoredNullifier = {
+      nullifier: spend.nullifier,
+      circuit: spend.circuit,
+      signature: origin.signature,
+      slot: origin.slot,
+      finality: origin.finality,
+      createdAt: Date.now(),
+    };
+
+    await this.store.appendNullifier(record);
+    this.spent.set(record.nullifier, record);
+
+    this.logger.log(
+      `[Nullifiers] ${spend.circuit} spent nullifier ${spend.nullifier.slice(0, 16)}... (slot ${origin.slot})`,
+    );
+    return true;
+  }
+
+  /**
+   * Spent state of one nullifier (hex with or without 0x, or decimal)
+   */
+  getStatus(nullifier: string): NullifierStatus {
+    const normalized = this.normalizeNullifier(nullifier);
+    const record = this.spent.get(normalized);
+    if (!record) {
+      return { nullifier: normalized, spent: false };
+    }
+
+    return {
+      nullifier: normalized,
+      spent: true,
+      circuit: record.circuit,
+      signature: record.signature,
+      slot: record.slot,
+      finality: record.finality,
+      spentAt: record.createdAt,
+    };
+  }
+
+  /**
+   * Spent state of several nullifiers, in request order
+   */
+  checkMany(nullifiers: string[]): NullifierStatus[] {
+    return nullifiers.map((nullifier) => this.getStatus(nullifier));
+  }
+
+  /**
+   * Transactions whose nullifiers are not finalized yet, with their slot
+   */
+  getUnfinalizedTransactions(): Array<{ signature: string; slot: number }> {
+    const pending = new Map<string, number>();
+    for (const record of this.spent.values()) {
+      if (record.finality !== 'finalized') {
+        pending.set(record.signature, record.slot);
+      }
+    }
+    return Array.from(pending, ([signature, slot]) => ({ signature, slot }));
+  }
+
+  /**
+   * Raise the finality of the nullifiers revealed by a transaction
+   */
+  async updateFinality(
+    signature: string,
+    finality: LeafFinality,
+  ): Promise<void> {
+    const records = Array.from(this.spent.values()).filter(
+      (record) =>
+        record.signature === signature &&
+        FINALITY_RANK[record.finality] < FINALITY_RANK[finality],
+    );
+    if (records.length === 0) return;
+
+    await this.store.updateNullifierFinality(signature, finality);
+    records.forEach((record) => (record.finality = finality));
+  }
+
+  /**
+   * Drop the non-finalized nullifiers revealed by orphaned transactions
+   * Returns how many nullifiers became unspent again.
+   */
+  async removeTransactions(signatures: string[]): Promise<number> {
+    const orphaned = new Set(signatures);
+    const records = Array.from(this.spent.values()).filter(
+      (record) =>
+        record.finality !== 'finalized' && orphaned.has(record.signature),
+    );
+    if (records.length === 0) return 0;
+
+    await this.store.deleteNullifiers(signatures);
+    records.forEach((record) => this.spent.delete(record.nullifier));
+
+    this.logger.warn(
+      `[Nullifiers] Dropped ${records.length} nullifiers of orphaned transactions`,
+    );
+    return records.length;
+  }
+
+  /**
+   * Every spent nullifier, oldest first
+   */
+  list(): StoredNullifier[] {
+    return Array.from(this.spent.values())
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((record) => ({ ...record }));
+  }
+
+  /**
+   * Replace the whole set in memory (snapshot import, once the store has
+   * been replaced)
+   */
+  replaceAll(records: StoredNullifier[]): void {
+    this.spent.clear();
+    for (const record of records) {
+      this.spent.set(record.nullifier, { ...record });
+    }
+    this.logger.warn(
+      `[Nullifiers] Imported ${this.spent.size} spent nullifiers`,
+    );
+  }
+
+  getStats() {
+    return {
+      count: this.spent.size,
+      unfinalized: Array.from(this.spent.values()).filter(
+        (record) => record.finality !== 'finalized',
+      ).length,
+    };
+  }
+
+  /**
+   * Normalize to 64-char lowercase hex
+   *
+   * 0x-prefixed and 64-character strings are read as hex, other digit-only
+   * strings as decimal.
+   */
+  private normalizeNullifier(nullifier: string): string {
+    let value: bigint;
+    try {
+      if (nullifier.startsWith('0x')) {
+        value = BigInt(nullifier);
+      } else if (/^[0-9a-fA-F]{64}$/.test(nullifier)) {
+        value = BigInt('0x' + nullifier);
+      } else if (/^[0-9]+$/.test(nullifier)) {
+        value = BigInt(nullifier);
+      } else {
+        throw new Error('Not a hex or decimal string');
+      }
+    } catch (error) {
+      throw new InvalidNullifierFormatException(
+        nullifier,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    if (value >= 1n << 256n) {
+      throw new InvalidNullifierFormatException(nullifier, 'Exceeds 32 bytes');
+    }
+    return value.toString(16).padStart(64, '0');
+  }
+}
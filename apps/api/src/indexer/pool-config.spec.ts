@@ -0,0 +1,160 @@
+import { describe, it, expect } from '@jest/globals';
+import { ConfigService } from '@nestjs/config';
+import {
+  DEFAULT_POOL_KEY,
+  DEFAULT_TREE_CONFIG,
+  loadPoolConfigs,
+} from './pool-config';
+
+const DEVNET_PROGRAM = 'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz';
+const TESTNET_PROGRAM = '11111111111111111111111111111111';
+
+function configFor(env: Record<string, string>): ConfigService {
+  return { get: (name: string) => env[name] } as unknown as ConfigService;
+}
+
+describe('loadPoolConfigs', () => {
+  it('builds a single default pool from the single-program variables', () => {
+    const { pools, defaultKey } = loadPoolConfigs(
+      configFor({
+        SOLANA_RPC_URL: 'https://api.testnet.solana.com',
+        NOIRWIRE_PROGRAM_ID: TESTNET_PROGRAM,
+        SOLANA_ADMIN_KEYPAIR: 'secret',
+      }),
+    );
+
+    expect(defaultKey).toBe(DEFAULT_POOL_KEY);
+    expect(pools).toEqual([
+      {
+        key: DEFAULT_POOL_KEY,
+        programId: TESTNET_PROGRAM,
+        rpcUrl: 'https://api.testnet.solana.com',
+        rpcConfigured: true,
+        commitment: 'processed',
+        network: 'testnet',
+        adminKeypair: 'secret',
+        tree: DEFAULT_TREE_CONFIG,
+      },
+    ]);
+    expect(loadPoolConfigs(configFor({})).pools[0]).toMatchObject({
+      programId: DEVNET_PROGRAM,
+      rpcConfigured: false,
+      network: 'devnet',
+    });
+  });
+
+  it('reads several pools from NOIRWIRE_POOLS', () => {
+    const { pools, defaultKey } = loadPoolConfigs(
+      configFor({
+        NOIRWIRE_POOLS: JSON.stringify([
+          {
+            key: 'devnet',
+            programId: DEVNET_PROGRAM,
+            rpcUrl: 'https://api.devnet.solana.com',
+            adminKeypairEnv: 'DEVNET_ADMIN_KEYPAIR',
+          },
+          {
+            key: 'testnet',
+            programId: TESTNET_PROGRAM,
+            rpcUrl: 'https://rpc.example.com',
+            network: 'testnet',
+            commitment: 'confirmed',
+          },
+        ]),
+        NOIRWIRE_DEFAULT_POOL: 'testnet',
+        DEVNET_ADMIN_KEYPAIR: 'devnet-secret',
+      }),
+    );
+
+    expect(defaultKey).toBe('testnet');
+    expect(pools.map((pool) => pool.key)).toEqual(['devnet', 'testnet']);
+    expect(pools[0]).toMatchObject({
+      network: 'devnet',
+      commitment: 'processed',
+      adminKeypair: 'devnet-secret',
+    });
+    expect(pools[1]).toMatchObject({
+      network: 'testnet',
+      commitment: 'confirmed',
+      adminKeypair: undefined,
+    });
+  });
+
+  it('rejects invalid pool configurations', () => {
+    const pool = {
+      key: 'devnet',
+      programId: DEVNET_PROGRAM,
+      rpcUrl: 'https://api.devnet.solana.com',
+    };
+    for (const [pools, message] of [
+      ['not json', /not valid JSON/],
+      [[], /non-empty array/],
+      [[{ ...pool, key: 'Dev Net' }], /Invalid pool key/],
+      [[{ ...pool, programId: 'nope' }], /invalid programId/],
+      [[{ ...pool, rpcUrl: undefined }], /has no rpcUrl/],
+      [[pool, pool], /configured twice/],
+    ] as const) {
+      expect(() =>
+        loadPoolConfigs(
+          configFor({
+            NOIRWIRE_POOLS:
+              typeof pools === 'string' ? pools : JSON.stringify(pools),
+          }),
+        ),
+      ).toThrow(message);
+    }
+    expect(() =>
+      loadPoolConfigs(
+        configFor({
+          NOIRWIRE_POOLS: JSON.stringify([pool]),
+          NOIRWIRE_DEFAULT_POOL: 'mainnet',
+        }),
+      ),
+    ).toThrow(/not one of the configured pools/);
+  });
+
+  it('reads tree parameters from MERKLE_* with per-pool overrides', () => {
+    const { pools } = loadPoolConfigs(
+      configFor({
+        MERKLE_TREE_DEPTH: '16',
+        MERKLE_ZERO_LEAF: '0x2a',
+        NOIRWIRE_POOLS: JSON.stringify([
+          {
+            key: 'devnet',
+            programId: DEVNET_PROGRAM,
+            rpcUrl: 'https://api.devnet.solana.com',
+          },
+          {
+            key: 'quad',
+            programId: TESTNET_PROGRAM,
+            rpcUrl: 'https://api.testnet.solana.com',
+            tree: { depth: 10, arity: 4 },
+          },
+        ]),
+      }),
+    );
+
+    expect(pools[0].tree).toEqual({
+      depth: 16,
+      arity: 2,
+      hash: 'poseidon',
+      zeroLeaf: '42',
+    });
+    expect(pools[1].tree).toEqual({
+      depth: 10,
+      arity: 4,
+      hash: 'poseidon',
+      zeroLeaf: '42',
+    });
+
+    for (const [env, message] of [
+      [{ MERKLE_TREE_DEPTH: '0' }, /depth must be a positive integer/],
+      [{ MERKLE_TREE_ARITY: '17' }, /arity must be an integer from 2 to 16/],
+      [{ MERKLE_TREE_DEPTH: '40' }, /exceeds/],
+      [{ MERKLE_TREE_HASH: 'sha256' }, /not supported/],
+      [{ MERKLE_ZERO_LEAF: 'zero' }, /not a field element/],
+    ] as const) {
+      expect(() => loadPoolConfigs(configFor(env))).toThrow(message);
+    }
+  });
+});
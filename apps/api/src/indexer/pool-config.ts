@@ -0,0 +1,285 @@
+import { ConfigService } from '@nestjs/config';
+import { Commitment, PublicKey } from '@solana/web3.js';
+
+// Key of the pool built from the single-program environment variables
+export const DEFAULT_POOL_KEY = 'default';
+
+const DEFAULT_PROGRAM_ID = 'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz';
+const DEFAULT_RPC_URL = 'https://api.devnet.solana.com';
+
+// Pool keys appear in routes and partition the indexer tables
+const POOL_KEY_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+// BN254 scalar field - tree nodes are elements of it
+const FIELD_MODULUS =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+// Hash functions the indexer can build trees with
+export const TREE_HASHES = ['poseidon'] as const;
+export type TreeHash = (typeof TREE_HASHES)[number];
+
+// circomlibjs Poseidon takes 1-16 inputs
+const MAX_TREE_ARITY = 16;
+
+// Leaf indices and counts are stored as INTEGER
+const MAX_TREE_CAPACITY = 2 ** 31 - 1;
+
+/**
+ * Merkle tree parameters - must match the circuits compiled for the pool
+ */
+export interface TreeConfig {
+  depth: number;
+  arity: number; // children per node (inputs of the node hash)
+  hash: TreeHash;
+  zeroLeaf: string; // value of an empty leaf (decimal)
+}
+
+export const DEFAULT_TREE_CONFIG: TreeConfig = {
+  depth: 20,
+  arity: 2,
+  hash: 'poseidon',
+  zeroLeaf: '0',
+};
+
+/**
+ * One privacy pool served by the indexer: a program deployment on a cluster
+ */
+export interface PoolConfig {
+  key: string;
+  programId: string; // base58
+  rpcUrl: string;
+  rpcConfigured: boolean; // false when falling back to the public devnet RPC
+  commitment: Commitment;
+  network: string; // cluster name, e.g. devnet
+  adminKeypair?: string; // secret key (JSON byte array or base58)
+  tree: TreeConfig;
+}
+
+/**
+ * Entry of NOIRWIRE_POOLS
+ */
+interface PoolEntry {
+  key?: unknown;
+  programId?: unknown;
+  rpcUrl?: unknown;
+  commitment?: unknown;
+  network?: unknown;
+  adminKeypairEnv?: unknown; // name of the env var holding the admin secret key
+  tree?: unknown; // { depth?, arity?, hash?, zeroLeaf? } overriding the MERKLE_* defaults
+}
+
+export interface PoolConfigs {
+  pools: PoolConfig[];
+  defaultKey: string;
+}
+
+/**
+ * Read the pools to serve from the environment
+ *
+ * NOIRWIRE_POOLS is a JSON array of pools, e.g.
+ *   [{ "key": "devnet", "programId": "Hza5...", "rpcUrl": "https://api.devnet.solana.com",
+ *      "adminKeypairEnv": "DEVNET_ADMIN_KEYPAIR" }]
+ * with NOIRWIRE_DEFAULT_POOL naming the pool served under /indexer (the
+ * first one by default). Without it a single "default" pool is built from
+ * SOLANA_RPC_URL, NOIRWIRE_PROGRAM_ID, SOLANA_COMMITMENT and
+ * SOLANA_ADMIN_KEYPAIR.
+ *
+ * Tree parameters default to MERKLE_TREE_DEPTH, MERKLE_TREE_ARITY,
+ * MERKLE_TREE_HASH and MERKLE_ZERO_LEAF (depth 20 binary Poseidon tree with
+ * zero leaves when unset); a pool entry can override them with `tree`.
+ *
+ * Throws on an invalid configuration so a misconfigured pool fails startup
+ * instead of indexing the wrong program.
+ */
+export function loadPoolConfigs(config: ConfigService): PoolConfigs {
+  const commitment =
+    (config.get<string>('SOLANA_COMMITMENT') as Commitment) || 'processed';
+  const raw = config.get<string>('NOIRWIRE_POOLS');
+  const tree = parseTreeConfig(
+    'MERKLE_*',
+    {
+      depth: config.get<string>('MERKLE_TREE_DEPTH'),
+      arity: config.get<string>('MERKLE_TREE_ARITY'),
+      hash: config.get<string>('MERKLE_TREE_HASH'),
+      zeroLeaf: config.get<string>('MERKLE_ZERO_LEAF'),
+    },
+    DEFAULT_TREE_CONFIG,
+  );
+
+  if (!raw) {
+    const rpcUrl = config.get<string>('SOLANA_RPC_URL');
+    return {
+      pools: [
+        {
+          key: DEFAULT_POOL_KEY,
+          programId: parseProgramId(
+            DEFAULT_POOL_KEY,
+            config.get<string>('NOIRWIRE_PROGRAM_ID') || DEFAULT_PROGRAM_ID,
+          ),
+          rpcUrl: rpcUrl || DEFAULT_RPC_URL,
+          rpcConfigured: !!rpcUrl,
+          commitment,
+          network: networkFromRpcUrl(rpcUrl || DEFAULT_RPC_URL),
+          adminKeypair: config.get<string>('SOLANA_ADMIN_KEYPAIR'),
+          tree,
+        },
+      ],
+      defaultKey: DEFAULT_POOL_KEY,
+    };
+  }
+
+  let entries: PoolEntry[];
+  try {
+    entries = JSON.parse(raw) as PoolEntry[];
+  } catch (error) {
+    throw new Error(
+      `[PoolConfig] NOIRWIRE_POOLS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('[PoolConfig] NOIRWIRE_POOLS must be a non-empty array');
+  }
+
+  const pools = entries.map((entry): PoolConfig => {
+    const key = entry?.key;
+    if (typeof key !== 'string' || !POOL_KEY_PATTERN.test(key)) {
+      throw new Error(
+        `[PoolConfig] Invalid pool key ${JSON.stringify(key)} - use 1-32 lowercase letters, digits or dashes`,
+      );
+    }
+    if (typeof entry.rpcUrl !== 'string' || !entry.rpcUrl) {
+      throw new Error(`[PoolConfig] Pool ${key} has no rpcUrl`);
+    }
+    if (typeof entry.programId !== 'string') {
+      throw new Error(`[PoolConfig] Pool ${key} has no programId`);
+    }
+
+    const keypairEnv =
+      typeof entry.adminKeypairEnv === 'string'
+        ? entry.adminKeypairEnv
+        : undefined;
+    return {
+      key,
+      programId: parseProgramId(key, entry.programId),
+      rpcUrl: entry.rpcUrl,
+      rpcConfigured: true,
+      commitment:
+        typeof entry.commitment === 'string'
+          ? (entry.commitment as Commitment)
+          : commitment,
+      network:
+        typeof entry.network === 'string'
+          ? entry.network
+          : networkFromRpcUrl(entry.rpcUrl),
+      adminKeypair: keypairEnv ? config.get<string>(keypairEnv) : undefined,
+      tree:
+        entry.tree === undefined
+          ? tree
+          : parseTreeConfig(`Pool ${key}`, entry.tree, tree),
+    };
+  });
+
+  const keys = pools.map((pool) => pool.key);
+  const repeated = keys.find((key, position) => keys.indexOf(key) !== position);
+  if (repeated) {
+    throw new Error(`[PoolConfig] Pool key ${repeated} is configured twice`);
+  }
+
+  const defaultKey = config.get<string>('NOIRWIRE_DEFAULT_POOL') || keys[0];
+  if (!keys.includes(defaultKey)) {
+    throw new Error(
+      `[PoolConfig] NOIRWIRE_DEFAULT_POOL ${defaultKey} is not one of the configured pools (${keys.join(', ')})`,
+    );
+  }
+
+  return { pools, defaultKey };
+}
+
+/**
+ * Determine the Solana cluster from an RPC URL
+ */
+export function networkFromRpcUrl(rpcUrl: string): string {
+  if (rpcUrl.includes('mainnet')) return 'mainnet-beta';
+  if (rpcUrl.includes('devnet')) return 'devnet';
+  if (rpcUrl.includes('testnet')) return 'testnet';
+  if (rpcUrl.includes('localhost')) return 'localnet';
+
+  return 'unknown';
+}
+
+/**
+ * Validate tree parameters; unset values are taken from `defaults`
+ * Numbers may be given as strings (environment variables), the zero leaf as
+ * decimal or 0x-prefixed hex.
+ */
+export function parseTreeConfig(
+  source: string,
+  raw: unknown,
+  defaults: TreeConfig,
+): TreeConfig {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`[PoolConfig] ${source} tree must be an object`);
+  }
+  const { depth, arity, hash, zeroLeaf } = raw as Record<string, unknown>;
+  const given = (value: unknown) =>
+    value !== undefined && value !== null && value !== '';
+
+  const parsed: TreeConfig = {
+    depth: given(depth) ? Number(depth) : defaults.depth,
+    arity: given(arity) ? Number(arity) : defaults.arity,
+    hash: given(hash) ? (String(hash) as TreeHash) : defaults.hash,
+    zeroLeaf: defaults.zeroLeaf,
+  };
+
+  if (!TREE_HASHES.includes(parsed.hash)) {
+    throw new Error(
+      `[PoolConfig] ${source} tree hash ${parsed.hash} is not supported (${TREE_HASHES.join(', ')})`,
+    );
+  }
+  if (
+    !Number.isInteger(parsed.arity) ||
+    parsed.arity < 2 ||
+    parsed.arity > MAX_TREE_ARITY
+  ) {
+    throw new Error(
+      `[PoolConfig] ${source} tree arity must be an integer from 2 to ${MAX_TREE_ARITY}, got ${String(arity)}`,
+    );
+  }
+  if (!Number.isInteger(parsed.depth) || parsed.depth < 1) {
+    throw new Error(
+      `[PoolConfig] ${source} tree depth must be a positive integer, got ${String(depth)}`,
+    );
+  }
+  if (parsed.arity ** parsed.depth > MAX_TREE_CAPACITY) {
+    throw new Error(
+      `[PoolConfig] ${source} tree of depth ${parsed.depth} and arity ${parsed.arity} exceeds ${MAX_TREE_CAPACITY} leaves`,
+    );
+  }
+
+  if (given(zeroLeaf)) {
+    let value: bigint;
+    try {
+      value = BigInt(String(zeroLeaf));
+    } catch {
+      value = -1n;
+    }
+    if (value < 0n || value >= FIELD_MODULUS) {
+      throw new Error(
+        `[PoolConfig] ${source} tree zeroLeaf ${String(zeroLeaf)} is not a field element`,
+      );
+    }
+    parsed.zeroLeaf = value.toString(10);
+  }
+
+  return parsed;
+}
+
+function parseProgramId(pool: string, value: string): string {
+  try {
+    return new PublicKey(value).toBase58();
+  } catch {
+    throw new Error(
+      `[PoolConfig] Pool ${pool} has an invalid programId: ${value}`,
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { ConfigService } from '@nestjs/config';
+import { PoolRegistryService } from './pool-registry.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { UnknownPoolException } from '../common/exceptions';
+
+const commitment = (n: number) => n.toString(16).padStart(64, '0');
+
+describe('PoolRegistryService', () => {
+  it('runs an isolated indexer per pool and resolves the default one', async () => {
+    const env: Record<string, string> = {
+      NOIRWIRE_POOLS: JSON.stringify([
+        {
+          key: 'devnet',
+          programId: 'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz',
+          rpcUrl: 'https://api.devnet.solana.com',
+        },
+        {
+          key: 'testnet',
+          programId: '11111111111111111111111111111111',
+          rpcUrl: 'https://api.testnet.solana.com',
+        },
+      ]),
+    };
+    const metrics = new MetricsService();
+    const registry = new PoolRegistryService(
+      { get: (name: string) => env[name] } as unknown as ConfigService,
+      { getClient: () => null } as unknown as SupabaseService,
+      metrics,
+    );
+    await registry.onModuleInit();
+
+    const devnet = registry.get('devnet');
+    const testnet = registry.get('testnet');
+    expect(registry.get()).toBe(devnet);
+
+    await devnet.indexer.addCommitment('shield', commitment(1));
+    await devnet.indexer.addCommitment('shield', commitment(2));
+    await testnet.indexer.addCommitment('shield', commitment(2));
+
+    expect(
+      testnet.indexer.getLeafByCommitment('shield', commitment(2)),
+    ).toMatchObject({ index: 0 });
+    expect(await testnet.indexer.getRoot('shield')).not.toBe(
+      await devnet.indexer.getRoot('shield'),
+    );
+    expect(registry.list().map((pool) => registry.describe(pool))).toEqual([
+      expect.objectContaining({
+        key: 'devnet',
+        default: true,
+        network: 'devnet',
+        publishing: false,
+        initialized: true,
+        trees: expect.objectContaining({ shield: { count: 2, epoch: 0 } }),
+      }),
+      expect.objectContaining({
+        key: 'testnet',
+        default: false,
+        programId: '11111111111111111111111111111111',
+        trees: expect.objectContaining({ shield: { count: 1, epoch: 0 } }),
+      }),
+    ]);
+    expect(() => registry.get('mainnet')).toThrow(UnknownPoolException);
+
+    // Tree sizes are read per pool on each scrape
+    const scrape = metrics.render();
+    expect(scrape).toContain(
+      'noirwire_indexer_tree_leaves{pool="devnet",tree="shield"} 2\n',
+    );
+    expect(scrape).toContain(
+      'noirwire_indexer_tree_leaves{pool="testnet",tree="shield"} 1\n',
+    );
+
+    await registry.onModuleDestroy();
+  });
+});
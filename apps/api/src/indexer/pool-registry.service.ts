@@ -0,0 +1,222 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IndexerService } from './indexer.service';
+import { IndexerStoreService } from './indexer-store.service';
+import { IndexerEventsService } from './indexer-events.service';
+import { NullifierService } from './nullifier.service';
+import { RootPublisherService } from './root-publisher.service';
+import { BlockchainSyncService } from './blockchain-sync.service';
+import { IndexerAuditService } from './indexer-audit.service';
+import { IndexerSnapshotService } from './indexer-snapshot.service';
+import { PoolConfig, TreeConfig, loadPoolConfigs } from './pool-config';
+import { SolanaService } from '../solana/solana.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { UnknownPoolException } from '../common/exceptions';
+
+/**
+ * The services of one pool - each pool has its own trees, nullifier set,
+ * publication queue, chain listener, audit, snapshots and event stream
+ */
+export interface IndexerPool {
+  config: PoolConfig;
+  solana: SolanaService;
+  store: IndexerStoreService;
+  events: IndexerEventsService;
+  indexer: IndexerService;
+  nullifiers: NullifierService;
+  rootPublisher: RootPublisherService;
+  sync: BlockchainSyncService;
+  audit: IndexerAuditService;
+  snapshots: IndexerSnapshotService;
+}
+
+/**
+ * Public description of a pool, as listed by GET /pools
+ */
+export interface PoolSummary {
+  key: string;
+  programId: string;
+  network: string;
+  default: boolean;
+  rpcConfigured: boolean;
+  publishing: boolean; // admin keypair loaded
+  initialized: boolean;
+  listening: boolean;
+  tree: TreeConfig;
+  trees: Record<string, { count: number; epoch: number }>;
+}
+
+/**
+ * PoolRegistryService - Builds and runs the indexer services of every pool
+ *
+ * Pools come from NOIRWIRE_POOLS (see loadPoolConfigs). The per-pool
+ * services are created here rather than by Nest, so this service forwards
+ * the lifecycle hooks in Nest's order: every pool restores its state
+ * (onModuleInit) before any chain listener or audit starts
+ * (onApplicationBootstrap).
+ */
+@Injectable()
+export class PoolRegistryService
+  implements OnModuleInit, OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(PoolRegistryService.name);
+  private readonly pools = new Map<string, IndexerPool>();
+  private readonly defaultKey: string;
+
+  constructor(
+    configService: ConfigService,
+    supabaseService: SupabaseService,
+    private readonly metrics: MetricsService,
+  ) {
+    const { pools, defaultKey } = loadPoolConfigs(configService);
+    for (const config of pools) {
+      this.pools.set(config.key, this.createPool(config, supabaseService));
+    }
+    this.defaultKey = defaultKey;
+    metrics.onCollect(() => this.collectMetrics());
+  }
+
+  async onModuleInit() {
+    for (const pool of this.pools.values()) {
+      await pool.indexer.onModuleInit();
+      await pool.nullifiers.onModuleInit();
+      await pool.rootPublisher.onModuleInit();
+    }
+    this.logger.log(
+      `[PoolRegistry] ${this.pools.size} pool(s) ready: ${[...this.pools.values()].map(({ config }) => `${config.key} (${config.programId} on ${config.network})`).join(', ')}; default ${this.defaultKey}`,
+    );
+  }
+
+  async onApplicationBootstrap() {
+    for (const pool of this.pools.values()) {
+      await pool.sync.onApplicationBootstrap();
+      pool.audit.onApplicationBootstrap();
+    }
+  }
+
+  async onModuleDestroy() {
+    for (const pool of this.pools.values()) {
+      pool.audit.onModuleDestroy();
+      await pool.sync.onModuleDestroy();
+      pool.rootPublisher.onModuleDestroy();
+      pool.events.onModuleDestroy();
+    }
+  }
+
+  /**
+   * Pool by key; without a key the default pool (routes under /indexer)
+   */
+  public get(key?: string): IndexerPool {
+    const pool = this.pools.get(key ?? this.defaultKey);
+    if (!pool) {
+      throw new UnknownPoolException(key, [...this.pools.keys()]);
+    }
+    return pool;
+  }
+
+  public getDefaultKey(): string {
+    return this.defaultKey;
+  }
+
+  /**
+   * Every pool, in configuration order
+   */
+  public list(): IndexerPool[] {
+    return [...this.pools.values()];
+  }
+
+  public describe(pool: IndexerPool): PoolSummary {
+    const status = pool.indexer.getStatus();
+    const trees: PoolSummary['trees'] = {};
+    for (const [tree, { count, epoch }] of Object.entries(status.trees)) {
+      trees[tree] = { count, epoch };
+    }
+
+    return {
+      key: pool.config.key,
+      programId: pool.config.programId,
+      network: pool.config.network,
+      default: pool.config.key === this.defaultKey,
+      rpcConfigured: pool.config.rpcConfigured,
+      publishing: !!pool.solana.getAdminKeypair(),
+      initialized: status.initialized,
+      listening: pool.sync.getStatus().isListening,
+      tree: pool.config.tree,
+      trees,
+    };
+  }
+
+  /**
+   * Tree sizes and sync lag of every pool, read on each metrics scrape
+   */
+  private collectMetrics(): void {
+    for (const { config, indexer, sync } of this.pools.values()) {
+      const { trees } = indexer.getStatus();
+      for (const tree of ['shield', 'unshield'] as const) {
+        const labels = { pool: config.key, tree };
+        this.metrics.treeLeaves.set(labels, trees[tree].count);
+        this.metrics.treeEpoch.set(labels, trees[tree].epoch);
+      }
+
+      const lag = sync.getSlotLag();
+      if (lag === null) {
+        this.metrics.syncLagSlots.remove({ pool: config.key });
+      } else {
+        this.metrics.syncLagSlots.set({ pool: config.key }, lag);
+      }
+    }
+  }
+
+  private createPool(
+    config: PoolConfig,
+    supabaseService: SupabaseService,
+  ): IndexerPool {
+    const solana = new SolanaService(config);
+    const store = new IndexerStoreService(supabaseService, config.key);
+    const events = new IndexerEventsService();
+    const indexer = new IndexerService(store, events, config.tree);
+    const nullifiers = new NullifierService(store);
+    const rootPublisher = new RootPublisherService(
+      solana,
+      store,
+      events,
+      this.metrics,
+    );
+    const sync = new BlockchainSyncService(
+      indexer,
+      solana,
+      store,
+      nullifiers,
+      rootPublisher,
+    );
+    const audit = new IndexerAuditService(indexer, sync, solana);
+    const snapshots = new IndexerSnapshotService(
+      config,
+      store,
+      indexer,
+      nullifiers,
+      rootPublisher,
+      sync,
+    );
+
+    return {
+      config,
+      solana,
+      store,
+      events,
+      indexer,
+      nullifiers,
+      rootPublisher,
+      sync,
+      audit,
+      snapshots,
+    };
+  }
+}
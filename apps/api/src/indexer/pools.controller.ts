@@ -0,0 +1,28 @@
+import { Controller, Get, Logger } from '@nestjs/common';
+import { PoolRegistryService, PoolSummary } from './pool-registry.service';
+
+/**
+ * Pools Controller - Registry of the pools served by this instance
+ *
+ * Provides:
+ * - GET /pools - Configured pools with program ID, network and tree sizes
+ *
+ * The indexer routes of a pool are under /pools/:pool/indexer.
+ */
+@Controller('pools')
+export class PoolsController {
+  private readonly logger = new Logger(PoolsController.name);
+
+  constructor(private poolRegistry: PoolRegistryService) {}
+
+  @Get()
+  listPools(): { default: string; pools: PoolSummary[] } {
+    this.logger.log('[Pools] GET /pools');
+    return {
+      default: this.poolRegistry.getDefaultKey(),
+      pools: this.poolRegistry
+        .list()
+        .map((pool) => this.poolRegistry.describe(pool)),
+    };
+  }
+}
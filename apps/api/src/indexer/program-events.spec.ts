@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  NEW_COMMITMENT_EVENT_DISCRIMINATOR,
+  SUBMIT_TRANSFER_DISCRIMINATOR,
+  SUBMIT_UNSHIELD_DISCRIMINATOR,
+  decodeNewCommitmentEvents,
+  decodeSpendInstruction,
+} from './program-events';
+
+const PROGRAM_ID = 'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz';
+const OTHER_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+function newCommitmentLog(commitmentHex: string): string {
+  // Commitments are emitted as little-endian field elements
+  const le = Buffer.from(commitmentHex, 'hex').reverse();
+  const data = Buffer.concat([NEW_COMMITMENT_EVENT_DISCRIMINATOR, le]);
+  return `Program data: ${data.toString('base64')}`;
+}
+
+describe('decodeNewCommitmentEvents', () => {
+  const first = '00'.repeat(31) + '2a';
+  const second = '1f' + '00'.repeat(30) + '01';
+
+  it('decodes commitments emitted by the program in order', () => {
+    const logs = [
+      `Program ${PROGRAM_ID} invoke [1]`,
+      'Program log: Instruction: SubmitTransfer',
+      newCommitmentLog(first),
+      newCommitmentLog(second),
+      `Program ${PROGRAM_ID} success`,
+    ];
+
+    expect(decodeNewCommitmentEvents(logs, PROGRAM_ID)).toEqual([
+      first,
+      second,
+    ]);
+  });
+
+  it('ignores data logged by other programs and other events', () => {
+    const logs = [
+      `Program ${PROGRAM_ID} invoke [1]`,
+      `Program ${OTHER_PROGRAM_ID} invoke [2]`,
+      newCommitmentLog(second),
+      `Program ${OTHER_PROGRAM_ID} success`,
+      `Program data: ${Buffer.alloc(40, 7).toString('base64')}`,
+      newCommitmentLog(first),
+      `Program ${PROGRAM_ID} success`,
+    ];
+
+    expect(decodeNewCommitmentEvents(logs, PROGRAM_ID)).toEqual([first]);
+  });
+});
+
+describe('decodeSpendInstruction', () => {
+  const nullifier = 'ab' + '00'.repeat(30) + 'cd';
+
+  function instruction(discriminator: Buffer, inputs: string[]): Buffer {
+    const proof = Buffer.alloc(256, 1);
+    const proofLength = Buffer.alloc(4);
+    proofLength.writeUInt32LE(proof.length);
+    const inputCount = Buffer.alloc(4);
+    inputCount.writeUInt32LE(inputs.length);
+
+    return Buffer.concat([
+      discriminator,
+      proofLength,
+      proof,
+      inputCount,
+      ...inputs.map((hex) => Buffer.from(hex, 'hex').reverse()),
+    ]);
+  }
+
+  const other = (n: number) => n.toString(16).padStart(64, '0');
+
+  it('reads the nullifier of compact and full transfer inputs', () => {
+    expect(
+      decodeSpendInstruction(
+        instruction(SUBMIT_TRANSFER_DISCRIMINATOR, [nullifier, other(2)]),
+      ),
+    ).toEqual({ circuit: 'transfer', nullifier });
+
+    expect(
+      decodeSpendInstruction(
+        instruction(SUBMIT_TRANSFER_DISCRIMINATOR, [
+          other(1),
+          nullifier,
+          other(2),
+          other(3),
+        ]),
+      ),
+    ).toEqual({ circuit: 'transfer', nullifier });
+  });
+
+  it('reads the nullifier of unshield inputs and ignores other instructions', () => {
+    const inputs = [
+      other(1),
+      nullifier,
+      other(3),
+      other(4),
+      other(5),
+      other(6),
+    ];
+
+    expect(
+      decodeSpendInstruction(
+        instruction(SUBMIT_UNSHIELD_DISCRIMINATOR, inputs),
+      ),
+    ).toEqual({ circuit: 'unshield', nullifier });
+    expect(
+      decodeSpendInstruction(instruction(Buffer.alloc(8), inputs)),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Decoding of zk_pool program events from transaction logs
+ *
+ * Anchor `emit!` writes events as "Program data: <base64>" log lines, where
+ * the payload starts with the 8-byte event discriminator
+ * sha256("event:<EventName>")[0..8] followed by the borsh-encoded fields.
+ */
+
+// sha256("event:NewCommitment").slice(0, 8)
+export const NEW_COMMITMENT_EVENT_DISCRIMINATOR = Buffer.from(
+  '4e154bf30584cc43',
+  'hex',
+);
+
+const PROGRAM_DATA_PREFIX = 'Program data: ';
+const INVOKE_LOG = /^Program (\w+) invoke \[\d+\]$/;
+const EXIT_LOG = /^Program (\w+) (success|failed)/;
+
+/**
+ * Convert a 32-byte little-endian field element into 64-char big-endian hex
+ */
+export function leBytesToHex(bytes: Buffer): string {
+  return Buffer.from(bytes).reverse().toString('hex').padStart(64, '0');
+}
+
+/**
+ * Extract the event payloads emitted by the given program, in log order.
+ * Payloads logged by other programs (e.g. during CPIs) are ignored.
+ */
+export function extractProgramData(
+  logs: string[],
+  programId: string,
+): Buffer[] {
+  const payloads: Buffer[] = [];
+  const callStack: string[] = [];
+
+  for (const log of logs) {
+    const invoke = INVOKE_LOG.exec(log);
+    if (invoke) {
+      callStack.push(invoke[1]);
+      continue;
+    }
+
+    if (EXIT_LOG.test(log)) {
+      callStack.pop();
+      continue;
+    }
+
+    if (
+      log.startsWith(PROGRAM_DATA_PREFIX) &&
+      callStack[callStack.length - 1] === programId
+    ) {
+      payloads.push(
+        Buffer.from(log.slice(PROGRAM_DATA_PREFIX.length), 'base64'),
+      );
+    }
+  }
+
+  return payloads;
+}
+
+/**
+ * Decode the commitments of all NewCommitment events in a transaction's logs.
+ * Returns 64-char hex commitments in emission order.
+ */
+export function decodeNewCommitmentEvents(
+  logs: string[],
+  programId: string,
+): string[] {
+  const discriminatorLength = NEW_COMMITMENT_EVENT_DISCRIMINATOR.length;
+
+  return extractProgramData(logs, programId)
+    .filter(
+      (data) =>
+        data.length >= discriminatorLength + 32 &&
+        data
+          .subarray(0, discriminatorLength)
+          .equals(NEW_COMMITMENT_EVENT_DISCRIMINATOR),
+    )
+    .map((data) =>
+      leBytesToHex(
+        data.subarray(discriminatorLength, discriminatorLength + 32),
+      ),
+    );
+}
+
+// sha256("global:submit_transfer").slice(0, 8)
+export const SUBMIT_TRANSFER_DISCRIMINATOR = Buffer.from(
+  '8339fdea6265259d',
+  'hex',
+);
+
+// sha256("global:submit_unshield").slice(0, 8)
+export const SUBMIT_UNSHIELD_DISCRIMINATOR = Buffer.from(
+  '889fee9e7d1bd9e0',
+  'hex',
+);
+
+const SPEND_INSTRUCTION_LOG =
+  /^Program log: Instruction: Submit(Transfer|Unshield)$/;
+
+/**
+ * Whether the logs show a submit_transfer / submit_unshield instruction
+ * (Anchor logs the instruction name before running it)
+ */
+export function hasSpendInstructionLog(logs: string[]): boolean {
+  return logs.some((log) => SPEND_INSTRUCTION_LOG.test(log));
+}
+
+/**
+ * Nullifier revealed by a spend instruction
+ */
+export interface SpentNullifier {
+  circuit: 'transfer' | 'unshield';
+  nullifier: string; // 64-char hex
+}
+
+/**
+ * Decode the nullifier revealed by a submit_transfer / submit_unshield
+ * instruction, or null for any other instruction
+ *
+ * Data layout: discriminator (8) | proof_len u32 | proof | inputs_len u32 |
+ * inputs_len x 32-byte little-endian public inputs.
+ * - transfer: [root, nullifier, new_commitment, fee], or the compact
+ *   [nullifier, new_commitment] sent by the web client
+ * - unshield: [root, nullifier, recipient_lo, recipient_hi, amount, fee]
+ */
+export function decodeSpendInstruction(data: Buffer): SpentNullifier | null {
+  const discriminator = data.subarray(0, 8);
+  let circuit: SpentNullifier['circuit'];
+  if (discriminator.equals(SUBMIT_TRANSFER_DISCRIMINATOR)) {
+    circuit = 'transfer';
+  } else if (discriminator.equals(SUBMIT_UNSHIELD_DISCRIMINATOR)) {
+    circuit = 'unshield';
+  } else {
+    return null;
+  }
+
+  if (data.length < 12) return null;
+  const proofLength = data.readUInt32LE(8);
+  const inputsOffset = 12 + proofLength;
+  if (data.length < inputsOffset + 4) return null;
+
+  const inputCount = data.readUInt32LE(inputsOffset);
+  const nullifierPosition = circuit === 'transfer' && inputCount === 2 ? 0 : 1;
+  if (nullifierPosition >= inputCount) return null;
+
+  const start = inputsOffset + 4 + nullifierPosition * 32;
+  if (data.length < start + 32) return null;
+
+  return {
+    circuit,
+    nullifier: leBytesToHex(data.subarray(start, start + 32)),
+  };
+}
+
+/**
+ * Contents of the on-chain roots account (ring buffer of published roots)
+ */
+export interface RootsAccount {
+  roots: Buffer[]; // 32-byte little-endian roots, in storage order
+  cursor: number; // next slot to be written
+  size: number; // slots in use
+  capacity: number;
+}
+
+/**
+ * Decode the roots account
+ *
+ * Data layout: discriminator (8) | vec_len u32 | vec_len x 32-byte roots |
+ * cursor u16 | size u16 | capacity u16
+ */
+export function decodeRootsAccount(data: Buffer): RootsAccount {
+  if (data.length < 8 + 4 + 2 + 2 + 2 + 1) {
+    throw new Error('Roots account data is malformed');
+  }
+
+  let offset = 8; // discriminator
+  const vecLength = data.readUInt32LE(offset);
+  offset += 4;
+
+  const roots: Buffer[] = [];
+  for (let i = 0; i < vecLength; i++) {
+    const start = offset + i * 32;
+    const end = start + 32;
+    if (end > data.length) break;
+    roots.push(Buffer.from(data.slice(start, end)));
+  }
+  offset += vecLength * 32;
+
+  const cursor = data.readUInt16LE(offset);
+  offset += 2;
+  const size = data.readUInt16LE(offset);
+  offset += 2;
+  const capacity = data.readUInt16LE(offset);
+
+  return { roots, cursor, size, capacity };
+}
@@ -0,0 +1,199 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { RootPublisherService } from './root-publisher.service';
+import { IndexerEventsService, IndexerEvent } from './indexer-events.service';
+import {
+  IndexerStoreService,
+  StoredRootPublication,
+} from './indexer-store.service';
+import { SolanaService } from '../solana/solana.service';
+import { MetricsService } from '../metrics/metrics.service';
+
+const PROGRAM_ID = new PublicKey(
+  'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz',
+);
+
+const root = (n: number) => n.toString(16).padStart(64, '0');
+
+describe('RootPublisherService', () => {
+  let sent: number;
+  let failures: string[];
+  let saved: Map<string, StoredRootPublication>;
+  let stored: StoredRootPublication[];
+  let emitted: IndexerEvent[];
+  let metrics: MetricsService;
+
+  async function createPublisher(): Promise<RootPublisherService> {
+    const connection = {
+      getAccountInfo: async () => null,
+      getLatestBlockhash: async () => ({
+        blockhash: PublicKey.default.toBase58(),
+        lastValidBlockHeight: 100,
+      }),
+      sendRawTransaction: async () => {
+        const failure = failures.shift();
+        if (failure) throw new Error(failure);
+        sent++;
+        return `sig-${sent}`;
+      },
+      confirmTransaction: async () => ({ value: { err: null } }),
+    };
+    const admin = Keypair.generate();
+    const solana = {
+      getConnection: () => connection,
+      getProgramId: () => PROGRAM_ID,
+      getAdminKeypair: () => admin,
+      getNetwork: () => 'devnet',
+      getPoolKey: () => 'default',
+    };
+    const store = {
+      loadRootPublications: async () => stored,
+      saveRootPublication: async (publication: StoredRootPublication) => {
+        saved.set(publication.root, publication);
+      },
+    };
+    const events = new IndexerEventsService();
+    events.emit = (event: IndexerEvent) => {
+      emitted.push(event);
+    };
+
+    const publisher = new RootPublisherService(
+      solana as unknown as SolanaService,
+      store as unknown as IndexerStoreService,
+      events,
+      metrics,
+    );
+    await publisher.onModuleInit();
+    return publisher;
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sent = 0;
+    failures = [];
+    saved = new Map();
+    stored = [];
+    emitted = [];
+    metrics = new MetricsService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('publishes only the newest root of a burst', async () => {
+    const publisher = await createPublisher();
+
+    for (let n = 1; n <= 5; n++) publisher.enqueue(root(n));
+    expect(publisher.getQueueStatus().depth).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(2_000);
+
+    expect(sent).toBe(1);
+    expect(publisher.getPublication(root(5))).toMatchObject({
+      status: 'published',
+      signature: 'sig-1',
+    });
+    expect(publisher.getPublication(root(2))?.status).toBe('superseded');
+    expect(publisher.getQueueStatus()).toMatchObject({
+      depth: 0,
+      published: 1,
+      superseded: 4,
+    });
+    expect(saved.get(root(5))?.status).toBe('published');
+    expect(emitted.map((event) => event.type)).toEqual(['root_published']);
+  });
+
+  it('retries RPC errors with backoff and gives up on program errors', async () => {
+    const publisher = await createPublisher();
+    failures = ['Blockhash not found', 'fetch failed'];
+
+    publisher.enqueue(root(1));
+    await jest.advanceTimersByTimeAsync(2_000);
+    expect(publisher.getPublication(root(1))).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      error: 'Blockhash not found',
+    });
+
+    // Second attempt after 2s, third after another 4s
+    await jest.advanceTimersByTimeAsync(2_000);
+    expect(publisher.getPublication(root(1))?.attempts).toBe(2);
+    await jest.advanceTimersByTimeAsync(4_000);
+    expect(publisher.getPublication(root(1))).toMatchObject({
+      status: 'published',
+      attempts: 3,
+    });
+    expect(publisher.getQueueStatus().lastError).toMatchObject({
+      root: root(1),
+      error: 'fetch failed',
+    });
+
+    failures = ['custom program error: 0x1770'];
+    publisher.enqueue(root(2));
+    await jest.advanceTimersByTimeAsync(2_000);
+    expect(publisher.getPublication(root(2))).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+    });
+    expect(emitted.map((event) => event.type)).toEqual([
+      'root_published',
+      'root_failed',
+    ]);
+
+    const scrape = metrics.render();
+    for (const [outcome, count] of [
+      ['retried', 2],
+      ['published', 1],
+      ['failed', 1],
+    ]) {
+      expect(scrape).toContain(
+        `noirwire_root_publications_total{pool="default",outcome="${outcome}"} ${count}\n`,
+      );
+    }
+  });
+
+  it('resumes the newest unfinished root after a restart', async () => {
+    stored = [
+      {
+        root: root(3),
+        status: 'queued',
+        attempts: 2,
+        createdAt: 3,
+        updatedAt: 3,
+      },
+      {
+        root: root(2),
+        status: 'publishing',
+        attempts: 1,
+        createdAt: 2,
+        updatedAt: 2,
+      },
+      {
+        root: root(1),
+        status: 'published',
+        attempts: 1,
+        createdAt: 1,
+        updatedAt: 1,
+      },
+    ];
+    const publisher = await createPublisher();
+
+    expect(publisher.getQueueStatus().queued).toBe(root(3));
+    expect(publisher.getPublication(root(2))?.status).toBe('superseded');
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(publisher.getPublication(root(3))).toMatchObject({
+      status: 'published',
+      attempts: 3,
+    });
+    expect(sent).toBe(1);
+  });
+});
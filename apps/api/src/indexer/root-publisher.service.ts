@@ -0,0 +1,628 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import {
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { SolanaService } from '../solana/solana.service';
+import { IndexerEventsService } from './indexer-events.service';
+import {
+  IndexerStoreService,
+  RootPublicationState,
+  StoredRootPublication,
+} from './indexer-store.service';
+import { decodeRootsAccount } from './program-events';
+import { MetricsService } from '../metrics/metrics.service';
+
+// Correct discriminator for add_root instruction from IDL
+// Calculated as: sha256("global:add_root").slice(0, 8)
+const ADD_ROOT_DISCRIMINATOR = Buffer.from([
+  88, 51, 115, 122, 205, 57, 113, 207,
+]);
+
+// A root waits this long before it is sent, so a burst of commitments is
+// published as its newest root only
+const PUBLISH_COALESCE_MS = 2_000;
+const PUBLISH_RETRY_BASE_DELAY_MS = 2_000;
+const PUBLISH_RETRY_MAX_DELAY_MS = 60_000;
+const PUBLISH_MAX_ATTEMPTS = 8;
+
+// Publications kept in memory (and loaded on startup) for status queries
+const MAX_TRACKED_PUBLICATIONS = 200;
+
+// Errors that no retry can fix: wrong admin key, pool not initialized,
+// program rejected the instruction
+const NON_RETRYABLE_ERRORS = [
+  'Unauthorized',
+  'AccountNotFound',
+  'custom program error',
+];
+
+/**
+ * Root publication as tracked in memory
+ */
+export type RootPublication = StoredRootPublication;
+
+/**
+ * Queue counters shown in GET /indexer/sync-status
+ */
+export interface RootPublicationQueueStatus {
+  depth: number; // queued + in flight
+  queued: string | null;
+  publishing: string | null;
+  nextAttemptAt: number | null;
+  published: number;
+  superseded: number;
+  failed: number;
+  lastPublishedAt: number | null;
+  lastError: { root: string; error: string; at: number } | null;
+}
+
+/**
+ * RootPublisherService - Durable queue of roots to add to the on-chain
+ * roots buffer
+ *
+ * - Coalescing: at most one root waits in the queue. A newer root replaces
+ *   (supersedes) the waiting one, so a burst costs one add_root transaction.
+ * - Retries: blockhash expiry and RPC errors are retried with exponential
+ *   backoff; each attempt first checks whether the root already landed.
+ * - Durability: every state change is saved to indexer_root_publications and
+ *   the waiting root is picked up again after a restart.
+ */
+@Injectable()
+export class RootPublisherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RootPublisherService.name);
+  private readonly publications = new Map<string, RootPublication>();
+  private queuedRoot: string | null = null;
+  private publishingRoot: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private closed = false;
+  private stats = {
+    published: 0,
+    superseded: 0,
+    failed: 0,
+    lastPublishedAt: null as number | null,
+  };
+  private lastError: RootPublicationQueueStatus['lastError'] = null;
+
+  constructor(
+    private readonly solanaService: SolanaService,
+    private readonly store: IndexerStoreService,
+    private readonly events: IndexerEventsService,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  /**
+   * Restore the queue before the chain listener starts adding roots
+   */
+  async onModuleInit() {
+    let stored: StoredRootPublication[] = [];
+    try {
+      stored = await this.store.loadRootPublications(MAX_TRACKED_PUBLICATIONS);
+    } catch (error) {
+      this.logger.error(
+        `[RootPublisher] Could not restore the publication queue: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    this.restore(stored);
+  }
+
+  onModuleDestroy() {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a root for publication and return right away
+   */
+  enqueue(rootHex: string): void {
+    if (!this.solanaService.getAdminKeypair()) {
+      this.logger.warn(
+        '[RootPublisher] Skipping root publish - admin keypair not configured',
+      );
+      return;
+    }
+
+    if (!rootHex || rootHex.length === 0) {
+      this.logger.warn('[RootPublisher] Cannot publish empty root');
+      return;
+    }
+
+    const root = this.normalizeRootHex(rootHex);
+    const existing = this.publications.get(root);
+    if (
+      existing?.status === 'published' ||
+      root === this.queuedRoot ||
+      root === this.publishingRoot
+    ) {
+      return;
+    }
+
+    this.supersedeQueued(root);
+
+    const now = Date.now();
+    const publication: RootPublication = {
+      root,
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: now + PUBLISH_COALESCE_MS,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.track(publication);
+    this.persist(publication);
+    this.queuedRoot = root;
+
+    this.logger.log(
+      `[RootPublisher] Queued root ${root.slice(0, 16)}... for publication`,
+    );
+    this.schedule();
+  }
+
+  /**
+   * Mark roots built on rolled-back leaves; a waiting one is dropped
+   */
+  markOrphaned(roots: string[]): void {
+    for (const root of roots) {
+      const publication = this.publications.get(root);
+      if (!publication) continue;
+
+      if (publication.status === 'published') {
+        this.logger.warn(
+          `[RootPublisher] Published root ${root.slice(0, 16)}... was built on orphaned leaves`,
+        );
+      }
+      if (root === this.queuedRoot) {
+        this.queuedRoot = null;
+      }
+      this.update(publication, { status: 'orphaned', nextAttemptAt: null });
+    }
+  }
+
+  /**
+   * Publication state of a root, if it was ever queued
+   */
+  getPublication(root: string): RootPublication | undefined {
+    return this.publications.get(root);
+  }
+
+  /**
+   * Tracked publications, newest first
+   */
+  getPublications(): RootPublication[] {
+    return Array.from(this.publications.values()).reverse();
+  }
+
+  /**
+   * Publications that are queued or in flight, newest first
+   */
+  getPending(): RootPublication[] {
+    return this.getPublications()
+      .filter(
+        (entry) => entry.status === 'queued' || entry.status === 'publishing',
+      )
+      .map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Replace the whole queue with the given unfinished publications
+   * (snapshot import, once the store has been replaced); the newest one is
+   * queued again
+   */
+  replaceQueue(publications: StoredRootPublication[]): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.publications.clear();
+    this.queuedRoot = null;
+    this.restore(
+      publications
+        .map((publication) => ({ ...publication }))
+        .sort((a, b) => b.updatedAt - a.updatedAt),
+    );
+  }
+
+  /**
+   * Track stored publications (newest first) and resume the newest
+   * unfinished one
+   */
+  private restore(stored: StoredRootPublication[]): void {
+    // Newest first: only the newest unfinished root is worth publishing
+    for (const publication of [...stored].reverse()) {
+      this.publications.set(publication.root, publication);
+    }
+    const unfinished = stored.filter(
+      (entry) => entry.status === 'queued' || entry.status === 'publishing',
+    );
+    for (const [position, entry] of unfinished.entries()) {
+      if (position === 0) {
+        this.queuedRoot = entry.root;
+        this.update(entry, {
+          status: 'queued',
+          nextAttemptAt: Math.max(entry.nextAttemptAt ?? 0, Date.now()),
+        });
+      } else {
+        this.update(entry, { status: 'superseded', nextAttemptAt: null });
+      }
+    }
+
+    if (this.queuedRoot) {
+      this.logger.log(
+        `[RootPublisher] Resuming publication of root ${this.queuedRoot.slice(0, 16)}...`,
+      );
+    }
+    this.schedule();
+  }
+
+  getQueueStatus(): RootPublicationQueueStatus {
+    const queued = this.queuedRoot
+      ? this.publications.get(this.queuedRoot)
+      : null;
+
+    return {
+      depth: (this.queuedRoot ? 1 : 0) + (this.publishingRoot ? 1 : 0),
+      queued: this.queuedRoot,
+      publishing: this.publishingRoot,
+      nextAttemptAt: queued?.nextAttemptAt ?? null,
+      ...this.stats,
+      lastError: this.lastError,
+    };
+  }
+
+  private schedule(): void {
+    if (this.closed || this.draining || this.timer || !this.queuedRoot) {
+      return;
+    }
+
+    const queued = this.publications.get(this.queuedRoot);
+    const delay = Math.max(0, (queued?.nextAttemptAt ?? 0) - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.drain();
+    }, delay);
+  }
+
+  /**
+   * Send the waiting root once it is due; roots queued meanwhile wait for
+   * the next round
+   */
+  private async drain(): Promise<void> {
+    this.draining = true;
+    try {
+      while (!this.closed && this.queuedRoot) {
+        const publication = this.publications.get(this.queuedRoot);
+        if ((publication.nextAttemptAt ?? 0) > Date.now()) break;
+
+        this.queuedRoot = null;
+        this.publishingRoot = publication.root;
+        try {
+          await this.attempt(publication);
+        } finally {
+          this.publishingRoot = null;
+        }
+      }
+    } finally {
+      this.draining = false;
+      this.schedule();
+    }
+  }
+
+  private async attempt(publication: RootPublication): Promise<void> {
+    const { root } = publication;
+    this.update(publication, {
+      status: 'publishing',
+      attempts: publication.attempts + 1,
+      nextAttemptAt: null,
+    });
+
+    try {
+      const signature = await this.sendAddRoot(root);
+
+      this.update(publication, {
+        status: 'published',
+        signature,
+        error: null,
+      });
+      this.stats.published++;
+      this.stats.lastPublishedAt = Date.now();
+      this.events.emit({
+        type: 'root_published',
+        data: { root, signature },
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.lastError = { root, error: errorMessage, at: Date.now() };
+      this.logFailureHint(errorMessage);
+
+      const retryable =
+        publication.attempts < PUBLISH_MAX_ATTEMPTS &&
+        !NON_RETRYABLE_ERRORS.some((pattern) => errorMessage.includes(pattern));
+
+      if (this.queuedRoot) {
+        // A newer root is already waiting; it covers this one
+        this.stats.superseded++;
+        this.update(publication, {
+          status: 'superseded',
+          error: errorMessage,
+        });
+      } else if (retryable) {
+        const delay = Math.min(
+          PUBLISH_RETRY_BASE_DELAY_MS * 2 ** (publication.attempts - 1),
+          PUBLISH_RETRY_MAX_DELAY_MS,
+        );
+        this.logger.warn(
+          `[RootPublisher] Attempt ${publication.attempts}/${PUBLISH_MAX_ATTEMPTS} for root ${root.slice(0, 16)}... failed: ${errorMessage} - retrying in ${delay}ms`,
+        );
+        this.queuedRoot = root;
+        this.update(publication, {
+          status: 'queued',
+          error: errorMessage,
+          nextAttemptAt: Date.now() + delay,
+        });
+      } else {
+        this.logger.error(
+          `[RootPublisher] ❌ Giving up on root ${root.slice(0, 16)}... after ${publication.attempts} attempt(s): ${errorMessage}`,
+        );
+        this.stats.failed++;
+        this.update(publication, { status: 'failed', error: errorMessage });
+        this.events.emit({
+          type: 'root_failed',
+          data: { root, error: errorMessage },
+        });
+      }
+    }
+  }
+
+  /**
+   * Send and confirm an add_root transaction
+   *
+   * @returns The transaction signature, or null when the root was already
+   *   in the on-chain buffer (e.g. an earlier attempt landed after all)
+   */
+  private async sendAddRoot(root: string): Promise<string | null> {
+    const adminKeypair = this.solanaService.getAdminKeypair();
+    if (!adminKeypair) {
+      throw new Error('Admin keypair not configured');
+    }
+
+    const connection = this.solanaService.getConnection();
+    const programId = this.solanaService.getProgramId();
+    const [configPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('config')],
+      programId,
+    );
+    const [rootsPda] = PublicKey.findProgramAddressSync(
+      [Buffer.from('roots')],
+      programId,
+    );
+
+    const rootBytes = this.toLittleEndianBytes(root);
+    if (await this.rootExistsOnChain(rootsPda, rootBytes)) {
+      this.logger.log(
+        `[RootPublisher] Root already present on-chain: ${root.slice(0, 16)}...`,
+      );
+      return null;
+    }
+
+    this.logger.log(
+      `[RootPublisher] Publishing root on-chain: ${root.slice(0, 16)}...`,
+    );
+    this.logger.debug(`[RootPublisher] Program ID: ${programId.toBase58()}`);
+    this.logger.debug(`[RootPublisher] Config PDA: ${configPda.toBase58()}`);
+    this.logger.debug(`[RootPublisher] Roots PDA: ${rootsPda.toBase58()}`);
+    this.logger.debug(
+      `[RootPublisher] Admin pubkey: ${adminKeypair.publicKey.toBase58()}`,
+    );
+
+    const instruction = new TransactionInstruction({
+      programId,
+      keys: [
+        { pubkey: configPda, isSigner: false, isWritable: false },
+        { pubkey: rootsPda, isSigner: false, isWritable: true },
+        { pubkey: adminKeypair.publicKey, isSigner: true, isWritable: false }, // authority
+        {
+          pubkey: adminKeypair.publicKey,
+          isSigner: false,
+          isWritable: false,
+        }, // admin
+        {
+          pubkey: SystemProgram.programId,
+          isSigner: false,
+          isWritable: false,
+        },
+      ],
+      data: Buffer.concat([ADD_ROOT_DISCRIMINATOR, rootBytes]),
+    });
+
+    // A fresh blockhash per attempt, so a retry after expiry can land
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash('confirmed');
+
+    const transaction = new Transaction({
+      feePayer: adminKeypair.publicKey,
+      blockhash,
+      lastValidBlockHeight,
+    }).add(instruction);
+
+    transaction.sign(adminKeypair);
+
+    const signature = await connection.sendRawTransaction(
+      transaction.serialize(),
+      {
+        skipPreflight: false,
+        preflightCommitment: 'confirmed',
+        maxRetries: 3,
+      },
+    );
+
+    this.logger.log(
+      `[RootPublisher] ✅ add_root transaction sent: ${signature}`,
+    );
+    this.logger.log(
+      `[RootPublisher] 🔗 View on explorer: https://explorer.solana.com/tx/${signature}?cluster=${this.solanaService.getNetwork()}`,
+    );
+
+    const confirmation = await connection.confirmTransaction(
+      { signature, blockhash, lastValidBlockHeight },
+      'confirmed',
+    );
+
+    if (confirmation.value.err) {
+      throw new Error(
+        `add_root transaction failed: ${JSON.stringify(confirmation.value.err)}`,
+      );
+    }
+
+    this.logger.log(
+      `[RootPublisher] ✅ Root ${root.slice(0, 16)}... published - now available for proofs`,
+    );
+    return signature;
+  }
+
+  private async rootExistsOnChain(
+    rootsPda: PublicKey,
+    rootBytes: Buffer,
+  ): Promise<boolean> {
+    const accountInfo = await this.solanaService
+      .getConnection()
+      .getAccountInfo(rootsPda, 'confirmed');
+    if (!accountInfo) {
+      this.logger.warn(
+        '[RootPublisher] Roots account not found on-chain; ensure pool is initialized',
+      );
+      return false;
+    }
+
+    const { roots, size } = decodeRootsAccount(accountInfo.data);
+    return roots.slice(0, size).some((stored) => stored.equals(rootBytes));
+  }
+
+  /**
+   * Provide helpful troubleshooting info for a failed attempt
+   */
+  private logFailureHint(errorMessage: string): void {
+    this.logger.error(
+      `[RootPublisher] ❌ Failed to publish root: ${errorMessage}`,
+    );
+
+    if (errorMessage.includes('Unauthorized')) {
+      this.logger.error(
+        '[RootPublisher] 💡 The admin keypair does not match the on-chain admin. Check SOLANA_ADMIN_KEYPAIR in .env',
+      );
+    } else if (errorMessage.includes('AccountNotFound')) {
+      this.logger.error(
+        '[RootPublisher] 💡 The pool may not be initialized. Run: npm run initialize-pool',
+      );
+    } else if (errorMessage.includes('insufficient funds')) {
+      this.logger.error(
+        `[RootPublisher] 💡 Admin account needs SOL. Airdrop: solana airdrop 1 ${this.solanaService.getAdminKeypair()?.publicKey.toBase58()} --url ${this.solanaService.getNetwork()}`,
+      );
+    }
+  }
+
+  private supersedeQueued(newRoot: string): void {
+    if (!this.queuedRoot) return;
+
+    const waiting = this.publications.get(this.queuedRoot);
+    this.queuedRoot = null;
+    if (!waiting) return;
+
+    this.stats.superseded++;
+    this.update(waiting, { status: 'superseded', nextAttemptAt: null });
+    this.logger.debug(
+      `[RootPublisher] Root ${waiting.root.slice(0, 16)}... superseded by ${newRoot.slice(0, 16)}...`,
+    );
+  }
+
+  private update(
+    publication: RootPublication,
+    changes: Partial<
+      Pick<
+        RootPublication,
+        'attempts' | 'signature' | 'error' | 'nextAttemptAt'
+      >
+    > & { status?: RootPublicationState },
+  ): void {
+    const previous = publication.status;
+    Object.assign(publication, changes, { updatedAt: Date.now() });
+    this.track(publication);
+    this.persist(publication);
+    if (changes.status && changes.status !== previous) {
+      this.countOutcome(previous, changes.status);
+    }
+  }
+
+  /**
+   * Count finished publications and retries in noirwire_root_publications_total
+   */
+  private countOutcome(
+    previous: RootPublicationState,
+    status: RootPublicationState,
+  ): void {
+    const outcome =
+      previous === 'publishing' && status === 'queued' ? 'retried' : status;
+    if (outcome === 'queued' || outcome === 'publishing') return;
+
+    this.metrics.rootPublications.inc({
+      pool: this.solanaService.getPoolKey(),
+      outcome,
+    });
+  }
+
+  /**
+   * Keep the publication as the newest entry, dropping the oldest finished
+   * ones beyond MAX_TRACKED_PUBLICATIONS
+   */
+  private track(publication: RootPublication): void {
+    this.publications.delete(publication.root);
+    this.publications.set(publication.root, publication);
+
+    for (const [root, entry] of this.publications) {
+      if (this.publications.size <= MAX_TRACKED_PUBLICATIONS) break;
+      if (entry.status !== 'queued' && entry.status !== 'publishing') {
+        this.publications.delete(root);
+      }
+    }
+  }
+
+  /**
+   * Save in the background; a lost write only costs a redundant attempt
+   * after a restart
+   */
+  private persist(publication: RootPublication): void {
+    this.store.saveRootPublication({ ...publication }).catch((error) => {
+      this.logger.warn(
+        `[RootPublisher] Could not save publication of root ${publication.root.slice(0, 16)}...: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    });
+  }
+
+  private normalizeRootHex(root: string): string {
+    const sanitized = root.startsWith('0x') ? root.slice(2) : root;
+    return sanitized.toLowerCase();
+  }
+
+  private toLittleEndianBytes(rootHex: string): Buffer {
+    const value = BigInt(`0x${rootHex}`);
+    const buffer = Buffer.alloc(32);
+    let temp = value;
+    for (let i = 0; i < 32; i++) {
+      buffer[i] = Number(temp & 0xffn);
+      temp >>= 8n;
+    }
+    return buffer;
+  }
+}
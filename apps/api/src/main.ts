@@ -1,9 +1,29 @@
 import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { json, urlencoded } from 'express';
 import { AppModule } from './app.module';
 import { HttpLoggingFilter } from './common/http-logging.filter';
+import { forAdminScope } from './common/admin-auth.guard';
+
+const SNAPSHOT_BODY_LIMIT = '512mb';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Body parsers are registered below: Nest skips its own JSON parser once
+  // any middleware named jsonParser is applied, even a path-scoped one
+  const app = await NestFactory.create(AppModule, { bodyParser: false });
+
+  // Snapshot imports carry whole trees - far above the default 100kb body
+  // limit. Only callers whose admin key has indexer:snapshot get the larger
+  // limit; anyone else gets the default parser and the guard's 401/403
+  app.use(
+    ['/indexer/snapshot', '/pools/:pool/indexer/snapshot'],
+    forAdminScope(
+      app.get(ConfigService).get<string>('ADMIN_API_KEYS'),
+      'indexer:snapshot',
+      json({ limit: SNAPSHOT_BODY_LIMIT }),
+    ),
+  );
+  app.use(json(), urlencoded({ extended: true }));
 
   // Register global exception filter for logging
   app.useGlobalFilters(new HttpLoggingFilter());
@@ -0,0 +1,37 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { MetricsService } from './metrics.service';
+
+/**
+ * HTTP Metrics Middleware
+ * Records the latency of every request under its route template (e.g.
+ * /indexer/:circuit/proof), so the series stay bounded whatever the URLs
+ */
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metrics: MetricsService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const startTime = process.hrtime.bigint();
+    // Express sets req.route to this middleware's own catch-all route first;
+    // it only changes when a controller route matches
+    const ownRoute: unknown = req.route;
+
+    res.on('finish', () => {
+      const route: { path?: unknown } | undefined = req.route;
+      this.metrics.httpRequestDuration.observe(
+        {
+          method: req.method,
+          route:
+            route && route !== ownRoute && typeof route.path === 'string'
+              ? route.path
+              : 'unmatched',
+          status: res.statusCode,
+        },
+        Number(process.hrtime.bigint() - startTime) / 1e9,
+      );
+    });
+
+    next();
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { MetricsRegistry } from './metrics-registry';
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and cumulative histograms', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('requests_total', 'Requests', ['route']);
+    const size = registry.gauge('queue_size', 'Queue size');
+    const latency = registry.histogram(
+      'latency_seconds',
+      'Latency',
+      ['route'],
+      [0.1, 1],
+    );
+
+    requests.inc({ route: '/a' });
+    requests.inc({ route: '/a' }, 2);
+    requests.inc({ route: 'say "hi"\n' });
+    size.set({}, 4);
+    latency.observe({ route: '/a' }, 0.05);
+    latency.observe({ route: '/a' }, 0.5);
+    latency.observe({ route: '/a' }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{route="/a"} 3',
+        'requests_total{route="say \\"hi\\"\\n"} 1',
+        '# HELP queue_size Queue size',
+        '# TYPE queue_size gauge',
+        'queue_size 4',
+        '# HELP latency_seconds Latency',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{route="/a",le="0.1"} 1',
+        'latency_seconds_bucket{route="/a",le="1"} 2',
+        'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+        'latency_seconds_sum{route="/a"} 3.55',
+        'latency_seconds_count{route="/a"} 3',
+        '',
+      ].join('\n'),
+    );
+    expect(() => registry.gauge('queue_size', 'Again')).toThrow();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Minimal Prometheus registry: counters, gauges and histograms rendered in
+ * the text exposition format (version 0.0.4)
+ *
+ * Every series of a metric carries the same label names, given when the
+ * metric is created; values are set per combination of label values.
+ */
+
+type LabelValues<L extends string> = Record<L, string | number>;
+
+abstract class Metric<L extends string> {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly L[],
+  ) {}
+
+  abstract lines(): string[];
+
+  /**
+   * Series key and label set, e.g. `{pool="default",tree="shield"}`
+   */
+  protected labelSet(labels: LabelValues<L>, extra = ''): string {
+    const pairs = this.labelNames.map(
+      (label) => `${label}="${escapeLabelValue(String(labels[label]))}"`,
+    );
+    if (extra) pairs.push(extra);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
+}
+
+export class Counter<L extends string = never> extends Metric<L> {
+  readonly type = 'counter';
+  private readonly series = new Map<string, number>();
+
+  inc(labels: LabelValues<L>, value = 1): void {
+    const key = this.labelSet(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + value);
+  }
+
+  lines(): string[] {
+    return Array.from(
+      this.series,
+      ([labels, value]) => `${this.name}${labels} ${formatValue(value)}`,
+    );
+  }
+}
+
+export class Gauge<L extends string = never> extends Metric<L> {
+  readonly type = 'gauge';
+  private readonly series = new Map<string, number>();
+
+  set(labels: LabelValues<L>, value: number): void {
+    this.series.set(this.labelSet(labels), value);
+  }
+
+  /**
+   * Drop a series, e.g. when its value is unknown
+   */
+  remove(labels: LabelValues<L>): void {
+    this.series.delete(this.labelSet(labels));
+  }
+
+  lines(): string[] {
+    return Array.from(
+      this.series,
+      ([labels, value]) => `${this.name}${labels} ${formatValue(value)}`,
+    );
+  }
+}
+
+export class Histogram<L extends string = never> extends Metric<L> {
+  readonly type = 'histogram';
+  private readonly series = new Map<
+    string,
+    { labels: LabelValues<L>; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly L[],
+    private readonly buckets: readonly number[], // upper bounds, ascending
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: LabelValues<L>, value: number): void {
+    const key = this.labelSet(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, entry);
+    }
+
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket !== -1) entry.counts[bucket]++;
+    entry.sum += value;
+    entry.count++;
+  }
+
+  lines(): string[] {
+    const lines: string[] = [];
+    for (const [key, { labels, counts, sum, count }] of this.series) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += counts[index];
+        lines.push(
+          `${this.name}_bucket${this.labelSet(labels, `le="${formatValue(bound)}"`)} ${cumulative}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${this.labelSet(labels, 'le="+Inf"')} ${count}`,
+      );
+      lines.push(`${this.name}_sum${key} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${key} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric<string>[] = [];
+
+  counter<L extends string = never>(
+    name: string,
+    help: string,
+    labelNames: readonly L[] = [],
+  ): Counter<L> {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge<L extends string = never>(
+    name: string,
+    help: string,
+    labelNames: readonly L[] = [],
+  ): Gauge<L> {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram<L extends string = never>(
+    name: string,
+    help: string,
+    labelNames: readonly L[],
+    buckets: readonly number[],
+  ): Histogram<L> {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Every metric in registration order, as served by GET /metrics
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.lines());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<M extends Metric<string>>(metric: M): M {
+    if (this.metrics.some(({ name }) => name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
@@ -0,0 +1,20 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Metrics Controller - Prometheus scrape endpoint
+ *
+ * Provides:
+ * - GET /metrics - Every metric in the Prometheus text format
+ */
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metrics: MetricsService) {}
+
+  @Get()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  @Header('Cache-Control', 'no-store')
+  getMetrics(): string {
+    return this.metrics.render();
+  }
+}
@@ -0,0 +1,121 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MetricsRegistry } from './metrics-registry';
+
+// Upper bounds in seconds
+const HTTP_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+const PROOF_GENERATION_BUCKETS = [0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+const PROOF_VERIFICATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5,
+];
+
+/**
+ * MetricsService - Prometheus metrics of the API, served by GET /metrics
+ *
+ * Services record into the metrics below as things happen. Values that are
+ * cheaper to read than to track (tree sizes, sync lag) are filled in by
+ * collectors registered with onCollect, which run on every scrape.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly logger = new Logger(MetricsService.name);
+  private readonly registry = new MetricsRegistry();
+  private readonly collectors: Array<() => void> = [];
+
+  readonly httpRequestDuration = this.registry.histogram(
+    'noirwire_http_request_duration_seconds',
+    'HTTP request latency by route template and status code',
+    ['method', 'route', 'status'],
+    HTTP_DURATION_BUCKETS,
+  );
+
+  readonly proofGenerationDuration = this.registry.histogram(
+    'noirwire_proof_generation_duration_seconds',
+    'Groth16 proof generation time per circuit (outcome: success or error)',
+    ['circuit', 'outcome'],
+    PROOF_GENERATION_BUCKETS,
+  );
+
+  readonly proofVerificationDuration = this.registry.histogram(
+    'noirwire_proof_verification_duration_seconds',
+    'Groth16 proof verification time per circuit (outcome: valid, invalid or error)',
+    ['circuit', 'outcome'],
+    PROOF_VERIFICATION_BUCKETS,
+  );
+
+  readonly proverTasks = this.registry.gauge(
+    'noirwire_prover_tasks',
+    'Proof requests in the prover worker pool (state: running or queued)',
+    ['state'],
+  );
+
+  readonly proverRejections = this.registry.counter(
+    'noirwire_prover_rejections_total',
+    'Proof requests refused with 503 because the prover queue was full',
+  );
+
+  readonly proverNodes = this.registry.gauge(
+    'noirwire_prover_nodes',
+    'Registered remote prover nodes (state: online or offline)',
+    ['state'],
+  );
+
+  readonly proverTaskReassignments = this.registry.counter(
+    'noirwire_prover_task_reassignments_total',
+    'Proof tasks requeued because their prover node stopped sending heartbeats',
+  );
+
+  readonly treeLeaves = this.registry.gauge(
+    'noirwire_indexer_tree_leaves',
+    'Leaves in the current epoch of each indexer tree',
+    ['pool', 'tree'],
+  );
+
+  readonly treeEpoch = this.registry.gauge(
+    'noirwire_indexer_tree_epoch',
+    'Current epoch of each indexer tree',
+    ['pool', 'tree'],
+  );
+
+  readonly rootPublications = this.registry.counter(
+    'noirwire_root_publications_total',
+    'Root publications by outcome (published, superseded, failed, orphaned) and retried attempts',
+    ['pool', 'outcome'],
+  );
+
+  readonly syncLagSlots = this.registry.gauge(
+    'noirwire_sync_lag_slots',
+    'Slots between the chain tip and the last slot the indexer applied (0 when caught up)',
+    ['pool'],
+  );
+
+  readonly supabaseErrors = this.registry.counter(
+    'noirwire_supabase_errors_total',
+    'Failed Supabase requests by table, operation and HTTP status (network: no response)',
+    ['table', 'operation', 'status'],
+  );
+
+  /**
+   * Run a collector before every scrape
+   */
+  onCollect(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Every metric in the Prometheus text format
+   */
+  render(): string {
+    for (const collector of this.collectors) {
+      try {
+        collector();
+      } catch (error) {
+        this.logger.warn(
+          `[Metrics] Collector failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,21 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Positive integer setting of the proving services; unset or empty gives
+ * `fallback`, anything else that is not a positive integer fails startup
+ */
+export function readPositiveInt(
+  configService: ConfigService,
+  name: string,
+  fallback: number,
+): number {
+  const raw = configService.get<string>(name);
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(
+      `[ProofConfig] ${name} must be a positive integer, got ${raw}`,
+    );
+  }
+  return value;
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { ConfigService } from '@nestjs/config';
+import { ProofJobsService } from './proof-jobs.service';
+import { ProofService } from './proof.service';
+import { ProverPoolService } from './prover-pool.service';
+import { ProverNodesService } from './prover-nodes.service';
+import { VerifierService } from '../verifier/verifier.service';
+import { CircuitRegistryService } from '../circuits/circuit-registry.service';
+import { MissingProofFieldException } from '../common/exceptions';
+import { expectErrorCode } from '../../test/helpers';
+
+interface Deferred {
+  resolve: (value: { proofBase64: string; publicSignals: string[] }) => void;
+  reject: (error: unknown) => void;
+}
+
+// Proof generation that finishes when the test says so
+function createService(
+  env: Record<string, string> = {},
+  workers = 1,
+  proverNodes: Partial<ProverNodesService> = { enabled: false },
+) {
+  const pending: Deferred[] = [];
+  const proofService = {
+    generateProof: jest.fn(
+      () => new Promise((resolve, reject) => pending.push({ resolve, reject })),
+    ),
+  };
+  const verifierService = {
+    verifyProof: jest.fn(async () => ({ valid: true })),
+  };
+  const service = new ProofJobsService(
+    proofService as unknown as ProofService,
+    verifierService as unknown as VerifierService,
+    { size: workers } as ProverPoolService,
+    proverNodes as ProverNodesService,
+    {
+      resolve: (circuit: string, version?: string) => ({
+        version: version ?? 'v1',
+      }),
+    } as unknown as CircuitRegistryService,
+    { get: (name: string) => env[name] } as unknown as ConfigService,
+  );
+  return { service, pending, proofService, verifierService };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ProofJobsService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs jobs one at a time and reports their result', async () => {
+    const { service, pending, proofService } = createService();
+
+    const first = service.submit('shield', { amount: '1' });
+    const second = service.submit('transfer', { amount: '2' });
+
+    expect(first).toMatchObject({ status: 'running', position: null });
+    expect(second).toMatchObject({ status: 'queued', position: 0 });
+    expect(proofService.generateProof).toHaveBeenCalledTimes(1);
+
+    pending[0].resolve({ proofBase64: 'cHJvb2Y=', publicSignals: ['7'] });
+    await flush();
+
+    expect(service.get(first.id)).toMatchObject({
+      status: 'done',
+      result: { proofBase64: 'cHJvb2Y=', publicSignals: ['7'], verified: true },
+      error: null,
+      expiresAt: expect.any(Number),
+      timings: {
+        queuedMs: expect.any(Number),
+        generationMs: expect.any(Number),
+        verificationMs: expect.any(Number),
+        totalMs: expect.any(Number),
+      },
+    });
+    expect(service.get(second.id).status).toBe('running');
+    expect(proofService.generateProof).toHaveBeenLastCalledWith(
+      'transfer',
+      { amount: '2' },
+      'v1',
+    );
+  });
+
+  it('runs as many jobs at once as there are prover workers', () => {
+    const { service } = createService({}, 2);
+
+    const jobs = [1, 2, 3].map((amount) =>
+      service.submit('shield', { amount: String(amount) }),
+    );
+
+    expect(jobs.map(({ status }) => status)).toEqual([
+      'running',
+      'running',
+      'queued',
+    ]);
+  });
+
+  it('reports the error code of a failed job', async () => {
+    const { service, pending, verifierService } = createService();
+
+    const missing = service.submit('shield', {});
+    pending[0].reject(new MissingProofFieldException('shield', 'amount'));
+    await flush();
+
+    expect(service.get(missing.id)).toMatchObject({
+      status: 'failed',
+      result: null,
+      error: {
+        statusCode: 400,
+        errorCode: 'PROOF_MISSING_FIELD',
+        details: { missingField: 'amount' },
+      },
+    });
+
+    verifierService.verifyProof.mockResolvedValueOnce({
+      valid: false,
+      error: 'pairing check failed',
+    } as never);
+    const invalid = service.submit('shield', { amount: '1' });
+    await flush();
+    pending[1].resolve({ proofBase64: 'cHJvb2Y=', publicSignals: [] });
+    await flush();
+
+    expect(service.get(invalid.id)).toMatchObject({
+      status: 'failed',
+      error: { errorCode: 'VERIFIER_VERIFICATION_FAILED' },
+    });
+  });
+
+  it('forgets finished jobs after the TTL', async () => {
+    const { service, pending } = createService({
+      PROOF_JOB_TTL_SECONDS: '60',
+    });
+
+    const job = service.submit('shield', { amount: '1' });
+    pending[0].resolve({ proofBase64: 'cHJvb2Y=', publicSignals: [] });
+    await flush();
+    const { expiresAt } = service.get(job.id);
+
+    jest.spyOn(Date, 'now').mockReturnValue(expiresAt - 1);
+    expect(service.get(job.id).status).toBe('done');
+
+    jest.spyOn(Date, 'now').mockReturnValue(expiresAt);
+    expectErrorCode(() => service.get(job.id), 'PROOF_JOB_NOT_FOUND');
+  });
+
+  it('refuses jobs once the queue is full', () => {
+    const { service } = createService({ PROOF_JOB_MAX_QUEUED: '1' });
+
+    service.submit('shield', { amount: '1' }); // running
+    service.submit('shield', { amount: '2' }); // queued
+
+    expectErrorCode(
+      () => service.submit('shield', { amount: '3' }),
+      'PROOF_JOB_QUEUE_FULL',
+    );
+    expect(() => service.submit('shield', { amount: '3' })).toThrow(
+      expect.objectContaining({ retryAfterSeconds: 10 }),
+    );
+  });
+
+  it('counts jobs waiting for a remote node against the queue limit', () => {
+    const tasks: unknown[] = [];
+    const { service } = createService({ PROOF_JOB_MAX_QUEUED: '2' }, 1, {
+      enabled: true,
+      get queued() {
+        return tasks.length;
+      },
+      capacity: 1,
+      prove: jest.fn(() => {
+        tasks.push({});
+        return new Promise(() => {});
+      }) as ProverNodesService['prove'],
+    });
+
+    service.submit('shield', { amount: '1' });
+    service.submit('shield', { amount: '2' });
+
+    expect(tasks).toHaveLength(2);
+    expect(() => service.submit('shield', { amount: '3' })).toThrow(
+      expect.objectContaining({
+        errorCode: 'PROOF_JOB_QUEUE_FULL',
+        retryAfterSeconds: 15,
+      }),
+    );
+  });
+});
@@ -0,0 +1,330 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { ProofService } from './proof.service';
+import { readPositiveInt } from './proof-config';
+import { ProverPoolService } from './prover-pool.service';
+import { ProverNodesService } from './prover-nodes.service';
+import { VerifierService } from '../verifier/verifier.service';
+import { CircuitRegistryService } from '../circuits/circuit-registry.service';
+import { getErrorDetails } from '../common/error-codes';
+import {
+  AppException,
+  ProofJobNotFoundException,
+  ProofJobQueueFullException,
+  VerificationFailedException,
+} from '../common/exceptions';
+
+const DEFAULT_TTL_SECONDS = 15 * 60;
+const DEFAULT_MAX_QUEUED = 50;
+const DEFAULT_PROOF_MS = 5000; // until a job has finished
+
+export type ProofCircuit = 'shield' | 'transfer' | 'unshield';
+
+export type ProofJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface ProofJobTimings {
+  queuedMs: number | null; // created -> started
+  generationMs: number | null;
+  verificationMs: number | null;
+  totalMs: number | null; // created -> finished
+}
+
+export interface ProofJobResult {
+  proofBase64: string;
+  publicSignals: string[];
+  verified: true;
+  signature?: string; // the prover node's, when proved remotely
+}
+
+/**
+ * Same fields as the body of an error response, so clients handle a failed
+ * job like a failed request
+ */
+export interface ProofJobError {
+  statusCode: number;
+  errorCode: string;
+  message: string;
+  userMessage?: string;
+  details?: Record<string, any>;
+}
+
+export interface ProofJob {
+  id: string;
+  circuit: ProofCircuit;
+  version: string; // circuit version, resolved when the job is queued
+  status: ProofJobStatus;
+  position: number | null; // jobs ahead of this one while queued
+  node: string | null; // remote prover node running it, if any
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  expiresAt: number | null; // set once finished
+  timings: ProofJobTimings;
+  result: ProofJobResult | null;
+  error: ProofJobError | null;
+}
+
+/**
+ * ProofJobsService - proof generation outside the request/response cycle
+ *
+ * POST /proof/jobs queues a job and returns its ID at once; the job then
+ * generates and verifies the proof like POST /proof/generate, and the client
+ * polls GET /proof/jobs/:id for the outcome. Jobs start in the order they
+ * were submitted, as many at once as there are prover workers. With remote
+ * prover nodes registered, every job goes straight to ProverNodesService and
+ * runs once a node leases it; jobs waiting there count against
+ * PROOF_JOB_MAX_QUEUED like those waiting here. The circuit input holds the note secrets, so
+ * it is kept only until the job is handed on; finished jobs are forgotten
+ * after PROOF_JOB_TTL_SECONDS.
+ */
+@Injectable()
+export class ProofJobsService {
+  private readonly logger = new Logger(ProofJobsService.name);
+  private readonly jobs = new Map<string, ProofJob>();
+  private readonly queue: Array<{ job: ProofJob; input: Record<string, any> }> =
+    [];
+  private running = 0;
+  private averageProofMs: number | null = null;
+  private readonly ttlMs: number;
+  private readonly maxQueued: number;
+
+  constructor(
+    private readonly proofService: ProofService,
+    private readonly verifierService: VerifierService,
+    private readonly proverPool: ProverPoolService,
+    private readonly proverNodes: ProverNodesService,
+    private readonly circuitRegistry: CircuitRegistryService,
+    configService: ConfigService,
+  ) {
+    this.ttlMs =
+      readPositiveInt(
+        configService,
+        'PROOF_JOB_TTL_SECONDS',
+        DEFAULT_TTL_SECONDS,
+      ) * 1000;
+    this.maxQueued = readPositiveInt(
+      configService,
+      'PROOF_JOB_MAX_QUEUED',
+      DEFAULT_MAX_QUEUED,
+    );
+  }
+
+  /**
+   * Queue a proof with the given circuit version (default: the manifest's);
+   * throws ProofJobQueueFullException when PROOF_JOB_MAX_QUEUED jobs are
+   * already waiting, here or for a remote node
+   */
+  submit(
+    circuit: ProofCircuit,
+    input: Record<string, any>,
+    version?: string,
+  ): ProofJob {
+    this.removeExpired();
+    // Unknown versions fail the request, not the job
+    const resolved = this.circuitRegistry.resolve(circuit, version).version;
+    const { waiting, slots } = this.backlog();
+    if (waiting >= this.maxQueued) {
+      throw new ProofJobQueueFullException(
+        this.maxQueued,
+        this.retryAfterSeconds(waiting, slots),
+      );
+    }
+
+    const job: ProofJob = {
+      id: randomUUID(),
+      circuit,
+      version: resolved,
+      status: 'queued',
+      position: null,
+      node: null,
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      expiresAt: null,
+      timings: {
+        queuedMs: null,
+        generationMs: null,
+        verificationMs: null,
+        totalMs: null,
+      },
+      result: null,
+      error: null,
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push({ job, input });
+    this.logger.log(
+      `[ProofJobs] Queued ${circuit} job ${job.id} (${this.queue.length} waiting)`,
+    );
+
+    this.drain();
+    return this.view(job);
+  }
+
+  get(id: string): ProofJob {
+    this.removeExpired();
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new ProofJobNotFoundException(id);
+    }
+    return this.view(job);
+  }
+
+  private view(job: ProofJob): ProofJob {
+    const position = this.queue.findIndex((entry) => entry.job === job);
+    return {
+      ...job,
+      position: position === -1 ? null : position,
+      timings: { ...job.timings },
+    };
+  }
+
+  /**
+   * Jobs waiting to start, and how many proofs run at once
+   */
+  private backlog(): { waiting: number; slots: number } {
+    if (this.proverNodes.enabled) {
+      return {
+        waiting: this.queue.length + this.proverNodes.queued,
+        slots: this.proverNodes.capacity,
+      };
+    }
+    return { waiting: this.queue.length, slots: this.proverPool.size };
+  }
+
+  /**
+   * Seconds until a job is likely to start: the waiting jobs drained at
+   * `slots` proofs per average proof time
+   */
+  private retryAfterSeconds(waiting: number, slots: number): number {
+    const proofMs = this.averageProofMs ?? DEFAULT_PROOF_MS;
+    return Math.max(
+      1,
+      Math.ceil((proofMs * (waiting / Math.max(slots, 1) + 1)) / 1000),
+    );
+  }
+
+  private drain(): void {
+    // Remote nodes pace themselves by leasing tasks
+    const slots = this.proverNodes.enabled ? Infinity : this.proverPool.size;
+    while (this.running < slots && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      this.running++;
+      void this.run(next.job, next.input).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run(job: ProofJob, input: Record<string, any>): Promise<void> {
+    try {
+      const { proofBase64, publicSignals, signature } = await this.generate(
+        job,
+        input,
+      );
+      job.timings.generationMs = Date.now() - job.startedAt!;
+      this.averageProofMs =
+        this.averageProofMs === null
+          ? job.timings.generationMs
+          : this.averageProofMs * 0.8 + job.timings.generationMs * 0.2;
+
+      const verificationStart = Date.now();
+      const verification = await this.verifierService.verifyProof(
+        job.circuit,
+        { proof: proofBase64, publicSignals },
+        job.version,
+      );
+      job.timings.verificationMs = Date.now() - verificationStart;
+      if (!verification.valid) {
+        throw new VerificationFailedException(
+          job.circuit,
+          `Generated proof failed verification: ${verification.error}`,
+        );
+      }
+
+      job.result = { proofBase64, publicSignals, verified: true, signature };
+      this.finish(job, 'done');
+    } catch (error) {
+      job.error = toJobError(error);
+      this.finish(job, 'failed');
+      this.logger.warn(
+        `[ProofJobs] ${job.circuit} job ${job.id} failed: ${job.error.errorCode} ${job.error.message}`,
+      );
+    }
+  }
+
+  private generate(
+    job: ProofJob,
+    input: Record<string, any>,
+  ): Promise<{
+    proofBase64: string;
+    publicSignals: string[];
+    signature?: string;
+  }> {
+    if (this.proverNodes.enabled) {
+      return this.proverNodes.prove(job.circuit, job.version, input, (node) =>
+        this.start(job, node),
+      );
+    }
+    this.start(job, null);
+    return this.proofService.generateProof(job.circuit, input, job.version);
+  }
+
+  /**
+   * Mark the job running; a remote job reassigned to another node keeps its
+   * first start time
+   */
+  private start(job: ProofJob, node: string | null): void {
+    job.status = 'running';
+    job.node = node;
+    if (job.startedAt === null) {
+      job.startedAt = Date.now();
+      job.timings.queuedMs = job.startedAt - job.createdAt;
+    }
+    this.logger.log(
+      `[ProofJobs] Running ${job.circuit} job ${job.id}${node ? ` on ${node}` : ''} (waited ${job.timings.queuedMs}ms)`,
+    );
+  }
+
+  private finish(job: ProofJob, status: 'done' | 'failed'): void {
+    job.status = status;
+    job.finishedAt = Date.now();
+    job.expiresAt = job.finishedAt + this.ttlMs;
+    job.timings.totalMs = job.finishedAt - job.createdAt;
+    if (status === 'done') {
+      this.logger.log(
+        `[ProofJobs] ✅ ${job.circuit} job ${job.id} done (gen: ${job.timings.generationMs}ms, verify: ${job.timings.verificationMs}ms)`,
+      );
+    }
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [id, job] of this.jobs) {
+      if (job.expiresAt !== null && job.expiresAt <= now) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+function toJobError(error: unknown): ProofJobError {
+  if (error instanceof AppException) {
+    const definition = getErrorDetails(error.getErrorCode());
+    return {
+      statusCode: definition.status,
+      errorCode: definition.code,
+      message: definition.message,
+      userMessage: definition.userMessage,
+      details: error.getDetails(),
+    };
+  }
+  const definition = getErrorDetails('INTERNAL_ERROR');
+  return {
+    statusCode: definition.status,
+    errorCode: definition.code,
+    message: `Proof generation failed: ${error instanceof Error ? error.message : String(error)}`,
+    userMessage: definition.userMessage,
+  };
+}
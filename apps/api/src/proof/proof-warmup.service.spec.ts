@@ -0,0 +1,85 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { ProofWarmupService } from './proof-warmup.service';
+import { ProofService } from './proof.service';
+import { VerifierService } from '../verifier/verifier.service';
+import { CircuitRegistryService } from '../circuits/circuit-registry.service';
+
+const SAMPLE = { amount: '1' };
+
+function createService(valid: boolean | Error) {
+  const proofService = {
+    generateProof: jest.fn(async () => {
+      if (valid instanceof Error) throw valid;
+      return { proofBase64: 'cHJvb2Y=', publicSignals: ['1'], version: 'v1' };
+    }),
+  };
+  const verifierService = {
+    verifyProof: jest.fn(async () => ({
+      valid,
+      ...(!valid && { error: 'pairing check failed' }),
+    })),
+  };
+  const circuitRegistry = {
+    loaded: () => [
+      {
+        circuit: 'shield',
+        version: 'v1',
+        zkey: Buffer.from('zkey'),
+        sampleInput: SAMPLE,
+      },
+      { circuit: 'transfer', version: 'v1', zkey: null, sampleInput: null },
+    ],
+    recordWarmup: jest.fn(),
+  };
+  const service = new ProofWarmupService(
+    proofService as unknown as ProofService,
+    verifierService as unknown as VerifierService,
+    circuitRegistry as unknown as CircuitRegistryService,
+  );
+  return { service, proofService, verifierService, circuitRegistry };
+}
+
+describe('ProofWarmupService', () => {
+  it('proves and verifies the sample input of each provable version', async () => {
+    const { service, proofService, verifierService, circuitRegistry } =
+      createService(true);
+
+    await service.warmUp();
+
+    expect(proofService.generateProof).toHaveBeenCalledTimes(1);
+    expect(proofService.generateProof).toHaveBeenCalledWith(
+      'shield',
+      SAMPLE,
+      'v1',
+    );
+    expect(verifierService.verifyProof).toHaveBeenCalledWith(
+      'shield',
+      { proof: 'cHJvb2Y=', publicSignals: ['1'] },
+      'v1',
+    );
+    expect(circuitRegistry.recordWarmup).toHaveBeenCalledWith('shield', 'v1', {
+      status: 'passed',
+      durationMs: expect.any(Number),
+    });
+  });
+
+  it('records a failed warm-up instead of throwing', async () => {
+    for (const outcome of [false, new Error('Invalid witness length')]) {
+      const { service, circuitRegistry } = createService(outcome);
+
+      await expect(service.warmUp()).resolves.toBeUndefined();
+
+      expect(circuitRegistry.recordWarmup).toHaveBeenCalledWith(
+        'shield',
+        'v1',
+        expect.objectContaining({
+          status: 'failed',
+          error:
+            outcome instanceof Error
+              ? 'Invalid witness length'
+              : 'sample proof failed verification: pairing check failed',
+        }),
+      );
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ProofService } from './proof.service';
+import { VerifierService } from '../verifier/verifier.service';
+import { CircuitRegistryService } from '../circuits/circuit-registry.service';
+import { AppException } from '../common/exceptions';
+
+/**
+ * ProofWarmupService - one proof per circuit version before the API is ready
+ *
+ * Proves the manifest's sample input of every version with a proving key and
+ * verifies the result. The first real request then finds snarkjs already
+ * initialized on a prover worker, and broken artifacts (hashes match, but
+ * the wasm and zkey don't prove what the vk checks) keep /health/ready at
+ * 503 instead of surfacing as failed user proofs. Runs in the background:
+ * the API serves requests meanwhile.
+ */
+@Injectable()
+export class ProofWarmupService implements OnModuleInit {
+  private readonly logger = new Logger(ProofWarmupService.name);
+  private running: Promise<void> | null = null;
+
+  constructor(
+    private readonly proofService: ProofService,
+    private readonly verifierService: VerifierService,
+    private readonly circuitRegistry: CircuitRegistryService,
+  ) {}
+
+  onModuleInit() {
+    // Not awaited: readiness reports the outcome
+    void this.warmUp();
+  }
+
+  /**
+   * Resolves once every version has been warmed up or has failed; never
+   * rejects
+   */
+  warmUp(): Promise<void> {
+    this.running ??= this.run();
+    return this.running;
+  }
+
+  private async run(): Promise<void> {
+    const circuits = this.circuitRegistry
+      .loaded()
+      .filter(({ zkey }) => zkey !== null);
+
+    for (const { circuit, version, sampleInput } of circuits) {
+      const label = `${circuit}@${version}`;
+      const startTime = Date.now();
+      try {
+        const { proofBase64, publicSignals } =
+          await this.proofService.generateProof(circuit, sampleInput, version);
+        const verification = await this.verifierService.verifyProof(
+          circuit,
+          { proof: proofBase64, publicSignals },
+          version,
+        );
+        if (!verification.valid) {
+          throw new Error(
+            `sample proof failed verification${verification.error ? `: ${verification.error}` : ''}`,
+          );
+        }
+
+        const durationMs = Date.now() - startTime;
+        this.circuitRegistry.recordWarmup(circuit, version, {
+          status: 'passed',
+          durationMs,
+        });
+        this.logger.log(`[ProofWarmup] ${label} ready in ${durationMs}ms`);
+      } catch (error) {
+        const message = describe(error);
+        this.circuitRegistry.recordWarmup(circuit, version, {
+          status: 'failed',
+          durationMs: Date.now() - startTime,
+          error: message,
+        });
+        this.logger.error(`[ProofWarmup] ${label} failed: ${message}`);
+      }
+    }
+  }
+}
+
+// AppExceptions keep the underlying cause in details.reason
+function describe(error: unknown): string {
+  if (error instanceof AppException && error.getDetails()?.reason) {
+    return `${error.message}: ${error.getDetails()!.reason}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
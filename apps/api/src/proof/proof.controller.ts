@@ -1,13 +1,17 @@
 import {
   Controller,
   Post,
+  Get,
   Body,
+  Param,
+  HttpCode,
   Logger,
   HttpException,
   BadRequestException,
   InternalServerErrorException,
 } from '@nestjs/common';
 import { ProofService } from './proof.service';
+import { ProofJobsService } from './proof-jobs.service';
 import { VerifierService } from '../verifier/verifier.service';
 
 @Controller('proof')
@@ -17,6 +21,7 @@ export class ProofController {
   constructor(
     private readonly proofService: ProofService,
     private readonly verifierService: VerifierService,
+    private readonly proofJobsService: ProofJobsService,
   ) {}
 
   @Post('generate')
@@ -25,9 +30,10 @@ export class ProofController {
     body: {
       circuit: 'shield' | 'transfer' | 'unshield';
       input: Record<string, any>;
+      version?: string;
     },
   ) {
-    const { circuit, input } = body;
+    const { circuit, input, version } = body;
     const requestId = Math.random().toString(36).substr(2, 9);
 
     this.logger.log(`[${requestId}] Generate proof request for circuit: ${circuit}`);
@@ -46,12 +52,18 @@ export class ProofController {
       throw new BadRequestException('Input must be a valid object');
     }
 
+    validateVersion(version);
+
     try {
       this.logger.log(`[${requestId}] Starting proof generation for ${circuit}...`);
       const startTime = Date.now();
 
       // Generate proof
-      const result = await this.proofService.generateProof(circuit, input);
+      const result = await this.proofService.generateProof(
+        circuit,
+        input,
+        version,
+      );
       const proofGenTime = Date.now() - startTime;
 
       this.logger.log(
@@ -62,10 +74,14 @@ export class ProofController {
       this.logger.log(`[${requestId}] Verifying generated ${circuit} proof...`);
       const verifyStartTime = Date.now();
 
-      const verification = await this.verifierService.verifyProof(circuit, {
-        proof: result.proofBase64,
-        publicSignals: result.publicSignals,
-      });
+      const verification = await this.verifierService.verifyProof(
+        circuit,
+        {
+          proof: result.proofBase64,
+          publicSignals: result.publicSignals,
+        },
+        result.version,
+      );
 
       const verifyTime = Date.now() - verifyStartTime;
 
@@ -129,6 +145,43 @@ export class ProofController {
     }
   }
 
+  /**
+   * Queue a proof and return at once; poll GET /proof/jobs/:id for it
+   */
+  @Post('jobs')
+  @HttpCode(202)
+  createJob(
+    @Body()
+    body: {
+      circuit: 'shield' | 'transfer' | 'unshield';
+      input: Record<string, any>;
+      version?: string;
+    },
+  ) {
+    const { circuit, input, version } = body;
+
+    // Validate circuit
+    if (!['shield', 'transfer', 'unshield'].includes(circuit)) {
+      throw new BadRequestException(
+        `Invalid circuit: ${circuit}. Must be shield, transfer, or unshield`,
+      );
+    }
+
+    // Validate input
+    if (!input || typeof input !== 'object') {
+      throw new BadRequestException('Input must be a valid object');
+    }
+
+    validateVersion(version);
+
+    return this.proofJobsService.submit(circuit, input, version);
+  }
+
+  @Get('jobs/:id')
+  getJob(@Param('id') id: string) {
+    return this.proofJobsService.get(id);
+  }
+
   @Post('verify')
   async verify(
     @Body()
@@ -136,9 +189,10 @@ export class ProofController {
       circuit: 'shield' | 'transfer' | 'unshield';
       proof: string;
       publicSignals: string[];
+      version?: string;
     },
   ) {
-    const { circuit, proof, publicSignals } = body;
+    const { circuit, proof, publicSignals, version } = body;
     const requestId = Math.random().toString(36).substr(2, 9);
 
     this.logger.log(`[${requestId}] Verify proof request for circuit: ${circuit}`);
@@ -160,14 +214,17 @@ export class ProofController {
       throw new BadRequestException('Public signals must be an array');
     }
 
+    validateVersion(version);
+
     try {
       this.logger.log(`[${requestId}] Starting verification for ${circuit}...`);
       const startTime = Date.now();
 
-      const result = await this.verifierService.verifyProof(circuit, {
-        proof,
-        publicSignals,
-      });
+      const result = await this.verifierService.verifyProof(
+        circuit,
+        { proof, publicSignals },
+        version,
+      );
 
       const verifyTime = Date.now() - startTime;
       this.logger.log(
@@ -176,6 +233,7 @@ export class ProofController {
 
       return {
         valid: result.valid,
+        version: result.version,
         error: result.error,
         timing: result.timing,
         requestId,
@@ -200,3 +258,10 @@ export class ProofController {
     }
   }
 }
+
+// Optional circuit version from the request body; GET /proof/circuits lists them
+function validateVersion(version: unknown) {
+  if (version !== undefined && (typeof version !== 'string' || !version)) {
+    throw new BadRequestException('Version must be a non-empty string');
+  }
+}
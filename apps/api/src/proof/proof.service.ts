@@ -1,106 +1,82 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { promises as fs } from 'fs';
-import * as path from 'path';
-import * as snarkjs from 'snarkjs';
-import { existsSync } from 'fs';
 import {
-  WasmNotFoundException,
   ZkeyNotFoundException,
   ProofGenerationFailedException,
   MissingProofFieldException,
+  InvalidProofInputException,
+  ProverBusyException,
 } from '../common/exceptions';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  CircuitRegistryService,
+  LoadedCircuit,
+} from '../circuits/circuit-registry.service';
+import { ProverPoolService } from './prover-pool.service';
 
 @Injectable()
 export class ProofService {
   private readonly logger = new Logger(ProofService.name);
-  private proofsRoot: string;
-
-  constructor() {
-    // Find proofs directory - handles both dev and prod environments
-    // Dev: __dirname = dist/apps/api/src/proof, proofs at dist/apps/api/proofs (../.. from proof dir)
-    // Docker/Prod: __dirname = /app/apps/api/dist/apps/api/src/proof, proofs at /app/apps/api/dist/apps/api/proofs
-    const possiblePaths = [
-      path.resolve(__dirname, '../../proofs'), // From proof/proof.service.js to dist/apps/api/proofs ✓
-      path.resolve(__dirname, '../proofs'), // Legacy fallback
-      path.resolve(__dirname, '../../../proofs'), // Another legacy fallback
-      path.resolve(process.cwd(), 'apps/api/proofs'), // cwd-relative
-      path.resolve(process.cwd(), 'proofs'), // root proofs
-    ];
-
-    // Try each path in order, use the first one that actually exists
-    this.proofsRoot = possiblePaths[0]; // Default fallback
-
-    for (const p of possiblePaths) {
-      try {
-        if (existsSync(p)) {
-          this.proofsRoot = p;
-          this.logger.log(`[ProofService] Found proofs at: ${p}`);
-          break;
-        }
-      } catch {
-        // Continue to next path
-      }
-    }
 
-    this.logger.log(`[ProofService] Using proofs from: ${this.proofsRoot}`);
-  }
+  constructor(
+    private readonly metrics: MetricsService,
+    private readonly proverPool: ProverPoolService,
+    private readonly circuitRegistry: CircuitRegistryService,
+  ) {}
 
+  /**
+   * Groth16 proof with the given circuit version (default: the manifest's)
+   */
   async generateProof(
     circuit: 'shield' | 'transfer' | 'unshield',
     input: Record<string, any>,
+    version?: string,
   ) {
     const requestId = Math.random().toString(36).substr(2, 9);
-    const circuitDir = path.join(this.proofsRoot, circuit);
+    const artifacts = this.circuitRegistry.resolve(circuit, version);
+    const label = `${circuit}@${artifacts.version}`;
 
-    this.logger.log(`[${requestId}] Generating ${circuit} proof`);
-    this.logger.debug(`[${requestId}] Circuit dir: ${circuitDir}`);
+    this.logger.log(`[${requestId}] Generating ${label} proof`);
 
-    // Ensure build artifacts exist
-    const wasmPath = path.join(circuitDir, `${circuit}.wasm`);
-    const zkeyPath = path.join(circuitDir, `${circuit}_final.zkey`);
-
-    this.logger.debug(`[${requestId}] Looking for WASM: ${wasmPath}`);
-    this.logger.debug(`[${requestId}] Looking for ZKEY: ${zkeyPath}`);
-
-    if (!(await this.exists(wasmPath))) {
-      const msg = `WASM artifact missing for ${circuit}: ${wasmPath}`;
-      this.logger.error(`[${requestId}] ${msg}`);
-      throw new WasmNotFoundException(circuit, wasmPath);
+    // Artifacts were hash-checked at boot; a version may still be verify-only
+    if (!artifacts.zkey) {
+      this.logger.error(`[${requestId}] No proving key for ${label}`);
+      throw new ZkeyNotFoundException(circuit, label);
     }
 
-    if (!(await this.exists(zkeyPath))) {
-      const msg = `ZKEY artifact missing for ${circuit}: ${zkeyPath}`;
-      this.logger.error(`[${requestId}] ${msg}`);
-      throw new ZkeyNotFoundException(circuit, zkeyPath);
-    }
+    // Log input keys but not full values (could be large)
+    const inputKeys = Object.keys(input).sort();
+    this.logger.log(`[${requestId}] Input keys: ${inputKeys.join(', ')}`);
 
-    this.logger.log(`[${requestId}] ✓ Artifacts found`);
+    // Validate against the manifest's input schema; outside the try below so
+    // a bad input is reported as such, not as a failed proof
+    this.validateInput(artifacts, input, requestId);
 
+    let proofStartTime: number | null = null;
+    let proofGenTime: number | null = null;
     try {
-      // Log input keys but not full values (could be large)
-      const inputKeys = Object.keys(input).sort();
-      this.logger.log(`[${requestId}] Input keys: ${inputKeys.join(', ')}`);
-
-      // Validate required fields for each circuit
-      this.validateInput(circuit, input, requestId);
-
       // Transform input for unshield circuit
       let circuitInput = input;
       if (circuit === 'unshield') {
         circuitInput = this.transformUnshieldInput(input, requestId);
       }
 
-      this.logger.log(`[${requestId}] Calling snarkjs.groth16.fullProve...`);
-      const proofStartTime = Date.now();
+      this.logger.log(
+        `[${requestId}] Calling snarkjs.groth16.fullProve on a prover worker...`,
+      );
+      proofStartTime = Date.now();
 
-      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+      const { proof, publicSignals } = await this.proverPool.prove(
         circuitInput,
-        wasmPath,
-        zkeyPath,
+        artifacts.wasm,
+        artifacts.zkey,
       );
 
-      const proofGenTime = Date.now() - proofStartTime;
+      proofGenTime = Date.now() - proofStartTime;
       this.logger.log(`[${requestId}] ✓ Proof generated in ${proofGenTime}ms`);
+      this.metrics.proofGenerationDuration.observe(
+        { circuit, outcome: 'success' },
+        proofGenTime / 1000,
+      );
       this.logger.debug(
         `[${requestId}] Public signals count: ${publicSignals.length}`,
       );
@@ -146,8 +122,18 @@ export class ProofService {
         `[${requestId}] ✅ ${circuit} proof complete (256 bytes base64)`,
       );
 
-      return { proofBase64, publicSignals };
+      return { proofBase64, publicSignals, version: artifacts.version };
     } catch (err: any) {
+      // Back-pressure, not a failed proof - passed on as 503
+      if (err instanceof ProverBusyException) {
+        throw err;
+      }
+      if (proofStartTime !== null && proofGenTime === null) {
+        this.metrics.proofGenerationDuration.observe(
+          { circuit, outcome: 'error' },
+          (Date.now() - proofStartTime) / 1000,
+        );
+      }
       this.logger.error(
         `[${requestId}] ❌ Proof generation failed for ${circuit}`,
       );
@@ -178,33 +164,17 @@ export class ProofService {
     }
   }
 
+  /**
+   * Check the input against the version's schema in the manifest
+   */
   private validateInput(
-    circuit: 'shield' | 'transfer' | 'unshield',
+    { circuit, input: schema }: LoadedCircuit,
     input: Record<string, any>,
     requestId: string,
   ) {
-    const requiredFields: Record<string, string[]> = {
-      shield: ['recipient_pk', 'amount', 'blinding'],
-      transfer: [
-        'root',
-        'nullifier',
-        'recipient_pk',
-        'fee',
-        'blinding',
-        'path_elements',
-        'path_index',
-      ],
-      unshield: [
-        'secret',
-        'amount',
-        'blinding',
-        'path_elements',
-        'path_index',
-        'fee',
-      ],
-    };
-
-    const required = requiredFields[circuit];
+    const required = Object.keys(schema).filter(
+      (field) => !schema[field].optional,
+    );
     const missing = required.filter((field) => !(field in input));
 
     if (missing.length > 0) {
@@ -214,6 +184,22 @@ export class ProofService {
       throw new MissingProofFieldException(circuit, missing[0], required);
     }
 
+    for (const [field, { type }] of Object.entries(schema)) {
+      if (!(field in input)) continue;
+      const value = input[field];
+      const valid =
+        type === 'field[]' ? Array.isArray(value) : isFieldValue(value);
+      if (!valid) {
+        this.logger.warn(
+          `[${requestId}] ${circuit} input ${field} is not a ${type}`,
+        );
+        throw new InvalidProofInputException(
+          circuit,
+          `${field} must be a ${type === 'field[]' ? 'list of field elements' : 'field element (decimal or 0x-hex string)'}`,
+        );
+      }
+    }
+
     this.logger.debug(
       `[${requestId}] ✓ All required fields present for ${circuit}`,
     );
@@ -282,13 +268,12 @@ export class ProofService {
     );
     return transformed;
   }
+}
 
-  private async exists(p: string) {
-    try {
-      await fs.access(p);
-      return true;
-    } catch {
-      return false;
-    }
-  }
+function isFieldValue(value: unknown): boolean {
+  return (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'bigint'
+  );
 }
@@ -0,0 +1,117 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ProverNodesController } from './prover-nodes.controller';
+import { ProverNodesService } from './prover-nodes.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { createProverNode } from '../../test/helpers';
+
+const node = createProverNode('node-a');
+
+function createController() {
+  const service = new ProverNodesService(
+    {
+      get: (name: string) => (name === 'PROVER_NODES' ? node.entry : undefined),
+    } as unknown as ConfigService,
+    new MetricsService(),
+  );
+  return { controller: new ProverNodesController(service), service };
+}
+
+// HTTP status of the exception `fn` throws
+function statusOf(fn: () => unknown): number {
+  try {
+    fn();
+  } catch (error) {
+    return (error as HttpException).getStatus();
+  }
+  throw new Error('expected an exception');
+}
+
+const PROOF = { proofBase64: 'cHJvb2Y=', publicSignals: ['1'] };
+
+describe('ProverNodesController', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects malformed bodies before checking the signature', () => {
+    const { controller, service } = createController();
+    const heartbeat = jest.spyOn(service, 'heartbeat');
+    const nextTask = jest.spyOn(service, 'nextTask');
+    const submitResult = jest.spyOn(service, 'submitResult');
+    const signed = node.heartbeat();
+    const { timestamp, signature } = node.next();
+
+    for (const body of [
+      null,
+      { ...signed, timestamp: '1' },
+      { ...signed, signature: '' },
+      { ...signed, capacity: 0 },
+      { ...signed, circuits: ['shield', 'mint'] },
+      { ...signed, tasks: 'task-1' },
+      { ...signed, tasks: undefined },
+    ]) {
+      expect(statusOf(() => controller.heartbeat(node.id, body as never))).toBe(
+        400,
+      );
+    }
+    expect(
+      statusOf(() => controller.nextTask(node.id, { timestamp } as never)),
+    ).toBe(400);
+    for (const outcome of [
+      {},
+      { proofBase64: 'cHJvb2Y=', publicSignals: [1] },
+      { error: { errorCode: 'PROOF_MISSING_FIELD' } },
+    ]) {
+      expect(
+        statusOf(() =>
+          controller.submitResult(node.id, 'task-1', {
+            timestamp,
+            signature,
+            ...outcome,
+          } as never),
+        ),
+      ).toBe(400);
+    }
+
+    expect(heartbeat).not.toHaveBeenCalled();
+    expect(nextTask).not.toHaveBeenCalled();
+    expect(submitResult).not.toHaveBeenCalled();
+  });
+
+  it('answers 401 to a bad signature or an unknown node', () => {
+    const { controller } = createController();
+    const impostor = createProverNode('node-a');
+
+    expect(
+      statusOf(() => controller.heartbeat('node-b', node.heartbeat())),
+    ).toBe(401);
+    expect(
+      statusOf(() => controller.heartbeat(node.id, impostor.heartbeat())),
+    ).toBe(401);
+    expect(
+      statusOf(() =>
+        controller.nextTask(node.id, {
+          ...node.next(),
+          timestamp: Date.now() + 1000,
+        }),
+      ),
+    ).toBe(401);
+    expect(
+      statusOf(() =>
+        controller.submitResult(
+          node.id,
+          'task-1',
+          impostor.result('task-1', PROOF),
+        ),
+      ),
+    ).toBe(401);
+
+    // The signed body gets through
+    expect(controller.heartbeat(node.id, node.heartbeat())).toMatchObject({
+      nodeId: 'node-a',
+      tasks: [],
+    });
+  });
+});
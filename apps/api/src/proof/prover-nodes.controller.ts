@@ -0,0 +1,106 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ProverNodesService } from './prover-nodes.service';
+import {
+  HeartbeatRequest,
+  PROVER_CIRCUITS,
+  SignedRequest,
+  TaskResultRequest,
+} from './prover-protocol';
+
+/**
+ * Endpoints remote prover nodes call; see prover-protocol.ts
+ *
+ * Requests are authenticated by the signature in the body, so the shape is
+ * checked here before ProverNodesService verifies it.
+ */
+@Controller('proof/nodes')
+export class ProverNodesController {
+  constructor(private readonly proverNodesService: ProverNodesService) {}
+
+  @Get()
+  getStatus() {
+    return this.proverNodesService.getStatus();
+  }
+
+  @Post(':nodeId/heartbeat')
+  @HttpCode(200)
+  heartbeat(@Param('nodeId') nodeId: string, @Body() body: HeartbeatRequest) {
+    assertSigned(body);
+    if (!Number.isInteger(body.capacity) || body.capacity < 1) {
+      throw new BadRequestException('capacity must be a positive integer');
+    }
+    if (
+      !Array.isArray(body.circuits) ||
+      body.circuits.length === 0 ||
+      !body.circuits.every((circuit) => PROVER_CIRCUITS.includes(circuit))
+    ) {
+      throw new BadRequestException(
+        `circuits must list one or more of ${PROVER_CIRCUITS.join(', ')}`,
+      );
+    }
+    if (
+      !Array.isArray(body.tasks) ||
+      !body.tasks.every((taskId) => typeof taskId === 'string')
+    ) {
+      throw new BadRequestException('tasks must be a list of task IDs');
+    }
+    return this.proverNodesService.heartbeat(nodeId, body);
+  }
+
+  @Post(':nodeId/tasks/next')
+  @HttpCode(200)
+  nextTask(@Param('nodeId') nodeId: string, @Body() body: SignedRequest) {
+    assertSigned(body);
+    return this.proverNodesService.nextTask(nodeId, body);
+  }
+
+  @Post(':nodeId/tasks/:taskId/result')
+  @HttpCode(200)
+  submitResult(
+    @Param('nodeId') nodeId: string,
+    @Param('taskId') taskId: string,
+    @Body() body: TaskResultRequest,
+  ) {
+    assertSigned(body);
+    if ('error' in body) {
+      if (
+        !body.error ||
+        typeof body.error.errorCode !== 'string' ||
+        typeof body.error.message !== 'string'
+      ) {
+        throw new BadRequestException(
+          'error must have an errorCode and a message',
+        );
+      }
+    } else if (
+      typeof body.proofBase64 !== 'string' ||
+      !Array.isArray(body.publicSignals) ||
+      !body.publicSignals.every((signal) => typeof signal === 'string')
+    ) {
+      throw new BadRequestException(
+        'A result needs proofBase64 and publicSignals, or an error',
+      );
+    }
+    return this.proverNodesService.submitResult(nodeId, taskId, body);
+  }
+}
+
+function assertSigned(body: SignedRequest): void {
+  if (!body || typeof body !== 'object') {
+    throw new BadRequestException('Request body must be a JSON object');
+  }
+  if (!Number.isFinite(body.timestamp)) {
+    throw new BadRequestException('timestamp must be a number (ms)');
+  }
+  if (typeof body.signature !== 'string' || !body.signature) {
+    throw new BadRequestException('signature is required');
+  }
+}
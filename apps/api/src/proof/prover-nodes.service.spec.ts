@@ -0,0 +1,219 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { ConfigService } from '@nestjs/config';
+import { ProverNodesService, parseProverNodes } from './prover-nodes.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { createProverNode, expectErrorCode } from '../../test/helpers';
+
+function createService(...nodes: Array<{ entry: string }>) {
+  const env: Record<string, string> = {
+    PROVER_NODES: nodes.map((node) => node.entry).join(','),
+    PROVER_NODE_TIMEOUT_SECONDS: '10',
+  };
+  const service = new ProverNodesService(
+    { get: (name: string) => env[name] } as unknown as ConfigService,
+    new MetricsService(),
+  );
+  service.onModuleInit();
+  return service;
+}
+
+const PROOF = { proofBase64: 'cHJvb2Y=', publicSignals: ['1'] };
+
+describe('ProverNodesService', () => {
+  let service: ProverNodesService;
+
+  afterEach(() => {
+    service?.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('skips malformed PROVER_NODES entries', () => {
+    const node = createProverNode('node-a');
+
+    const { nodes, errors } = parseProverNodes(
+      `${node.entry}, broken, node-b:bm90LWEta2V5, ${node.entry}`,
+    );
+
+    expect(nodes.map(({ id }) => id)).toEqual(['node-a']);
+    expect(errors).toHaveLength(3);
+  });
+
+  it('leases a task to a node and resolves with its signed proof', async () => {
+    const node = createProverNode('node-a');
+    service = createService(node);
+    const onLeased = jest.fn();
+    const proof = service.prove('shield', 'v1', { amount: '1' }, onLeased);
+
+    // Not leased before the node has announced itself
+    expect(service.nextTask(node.id, node.next())).toEqual({ task: null });
+    service.heartbeat(node.id, node.heartbeat());
+    const { task } = service.nextTask(node.id, node.next());
+
+    expect(task).toMatchObject({
+      circuit: 'shield',
+      version: 'v1',
+      input: { amount: '1' },
+    });
+    expect(onLeased).toHaveBeenCalledWith('node-a');
+    // At capacity: nothing more to lease
+    expect(service.nextTask(node.id, node.next())).toEqual({ task: null });
+
+    const result = node.result(task!.taskId, PROOF);
+    service.submitResult(node.id, task!.taskId, result);
+    await expect(proof).resolves.toEqual({
+      ...PROOF,
+      node: 'node-a',
+      signature: result.signature,
+    });
+  });
+
+  it('rejects requests with a forged signature or unknown node', () => {
+    const node = createProverNode('node-a');
+    const impostor = createProverNode('node-a');
+    service = createService(node);
+
+    expectErrorCode(
+      () => service.heartbeat(node.id, impostor.heartbeat()),
+      'PROOF_NODE_UNAUTHORIZED',
+    );
+    expectErrorCode(
+      () => service.heartbeat('node-b', node.heartbeat()),
+      'PROOF_NODE_UNAUTHORIZED',
+    );
+    // A signed heartbeat can't be replayed with other fields
+    expectErrorCode(
+      () => service.heartbeat(node.id, { ...node.heartbeat(), capacity: 8 }),
+      'PROOF_NODE_UNAUTHORIZED',
+    );
+  });
+
+  it('rejects replayed requests', async () => {
+    jest.useFakeTimers();
+    const node = createProverNode('node-a');
+    service = createService(node);
+    const proof = service.prove('shield', 'v1', { amount: '1' });
+
+    const heartbeat = node.heartbeat();
+    service.heartbeat(node.id, heartbeat);
+    expectErrorCode(
+      () => service.heartbeat(node.id, heartbeat),
+      'PROOF_NODE_UNAUTHORIZED',
+    );
+    const next = node.next();
+    const { task } = service.nextTask(node.id, next);
+    expectErrorCode(
+      () => service.nextTask(node.id, next),
+      'PROOF_NODE_UNAUTHORIZED',
+    );
+
+    // The node times out and leases the task again: a result signed during
+    // the first lease doesn't answer the second
+    const stale = node.result(task!.taskId, PROOF);
+    jest.advanceTimersByTime(11_000);
+    service.heartbeat(node.id, node.heartbeat());
+    expect(service.nextTask(node.id, node.next()).task!.taskId).toBe(
+      task!.taskId,
+    );
+    expectErrorCode(
+      () => service.submitResult(node.id, task!.taskId, stale),
+      'PROOF_NODE_UNAUTHORIZED',
+    );
+
+    service.submitResult(
+      node.id,
+      task!.taskId,
+      node.result(task!.taskId, PROOF),
+    );
+    await expect(proof).resolves.toMatchObject({ node: 'node-a' });
+  });
+
+  it('reassigns the tasks of a node that stops sending heartbeats', async () => {
+    jest.useFakeTimers();
+    const slow = createProverNode('node-a');
+    const spare = createProverNode('node-b');
+    service = createService(slow, spare);
+    const proof = service.prove('shield', 'v1', { amount: '1' });
+
+    service.heartbeat(slow.id, slow.heartbeat());
+    const { task } = service.nextTask(slow.id, slow.next());
+    jest.advanceTimersByTime(5000);
+    service.heartbeat(spare.id, spare.heartbeat());
+    jest.advanceTimersByTime(6000);
+
+    // node-a is offline and its task went to node-b
+    expect(service.getStatus().nodes).toMatchObject([
+      { id: 'node-a', online: false, tasks: 0 },
+      { id: 'node-b', online: true, tasks: 0 },
+    ]);
+    const { task: retried } = service.nextTask(spare.id, spare.next());
+    expect(retried!.taskId).toBe(task!.taskId);
+
+    // Too late for node-a
+    expectErrorCode(
+      () =>
+        service.submitResult(
+          slow.id,
+          task!.taskId,
+          slow.result(task!.taskId, PROOF),
+        ),
+      'PROOF_NODE_TASK_NOT_LEASED',
+    );
+    service.submitResult(
+      spare.id,
+      task!.taskId,
+      spare.result(task!.taskId, PROOF),
+    );
+    await expect(proof).resolves.toMatchObject({ node: 'node-b' });
+  });
+
+  it('reassigns a task the node stops reporting', async () => {
+    const node = createProverNode('node-a');
+    service = createService(node);
+    const proof = service.prove('shield', 'v1', { amount: '1' });
+
+    service.heartbeat(node.id, node.heartbeat());
+    const { task } = service.nextTask(node.id, node.next());
+    // Once could be a heartbeat crossing the lease; twice in a row, the task
+    // is lost
+    service.heartbeat(node.id, node.heartbeat());
+    service.heartbeat(node.id, node.heartbeat(1, [task!.taskId]));
+    service.heartbeat(node.id, node.heartbeat());
+    expect(service.getStatus()).toMatchObject({ queued: 0, leased: 1 });
+    expect(service.heartbeat(node.id, node.heartbeat()).tasks).toEqual([]);
+    expect(service.getStatus()).toMatchObject({ queued: 1, leased: 0 });
+
+    const { task: retried } = service.nextTask(node.id, node.next());
+    expect(retried!.taskId).toBe(task!.taskId);
+    service.submitResult(
+      node.id,
+      task!.taskId,
+      node.result(task!.taskId, PROOF),
+    );
+    await expect(proof).resolves.toMatchObject({ node: 'node-a' });
+  });
+
+  it("fails the task with the node's error", async () => {
+    const node = createProverNode('node-a');
+    service = createService(node);
+    const proof = service.prove('shield', 'v1', {});
+
+    service.heartbeat(node.id, node.heartbeat());
+    const { task } = service.nextTask(node.id, node.next());
+    service.submitResult(
+      node.id,
+      task!.taskId,
+      node.result(task!.taskId, {
+        error: {
+          errorCode: 'PROOF_MISSING_FIELD',
+          message: 'Missing required field',
+          details: { field: 'amount', circuit: 'shield' },
+        },
+      }),
+    );
+
+    await expect(proof).rejects.toMatchObject({
+      errorCode: 'PROOF_MISSING_FIELD',
+      details: { field: 'amount', circuit: 'shield' },
+    });
+  });
+});
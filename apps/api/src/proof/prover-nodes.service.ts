@@ -0,0 +1,502 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { KeyObject, randomUUID } from 'crypto';
+import { readPositiveInt } from './proof-config';
+import {
+  HeartbeatRequest,
+  HeartbeatResponse,
+  NextTaskResponse,
+  ProverCircuit,
+  SignedRequest,
+  TaskResultRequest,
+  heartbeatMessage,
+  nextTaskMessage,
+  parsePublicKey,
+  resultMessage,
+  verifyMessage,
+} from './prover-protocol';
+import { ErrorCode, ErrorCodes } from '../common/error-codes';
+import {
+  AppException,
+  ProofGenerationFailedException,
+  ProverNodeTimeoutException,
+  ProverNodeUnauthorizedException,
+  ProverTaskNotLeasedException,
+} from '../common/exceptions';
+import { MetricsService } from '../metrics/metrics.service';
+
+const DEFAULT_NODE_TIMEOUT_SECONDS = 30;
+const CHECK_INTERVAL_MS = 1000;
+const MAX_CLOCK_SKEW_MS = 60_000;
+const MAX_TASK_LEASES = 3;
+// Two, not one: a heartbeat can cross the response that leased the task
+const MISSED_REPORTS = 2;
+
+export interface RegisteredProverNode {
+  id: string;
+  publicKey: KeyObject;
+}
+
+/**
+ * Proof computed by a prover node, with the node's signature over it
+ */
+export interface RemoteProof {
+  proofBase64: string;
+  publicSignals: string[];
+  node: string;
+  signature: string;
+}
+
+export interface ProverNodeStatus {
+  id: string;
+  online: boolean;
+  lastHeartbeatAt: number | null;
+  capacity: number;
+  circuits: ProverCircuit[];
+  tasks: number; // leased right now
+}
+
+interface ProverNode extends RegisteredProverNode {
+  online: boolean;
+  lastHeartbeatAt: number | null;
+  capacity: number;
+  circuits: ProverCircuit[];
+  tasks: Set<string>;
+  // Timestamp of the last accepted request of each kind
+  lastTimestamps: Record<'heartbeat' | 'next', number>;
+}
+
+interface RemoteTask {
+  id: string;
+  circuit: ProverCircuit;
+  version: string;
+  input: Record<string, any>;
+  queuedAt: number;
+  node: string | null; // current lease holder
+  leasedAt: number; // timestamp of the holder's lease request
+  missedReports: number; // holder's heartbeats since then that left it out
+  leasedTo: string[]; // every node it was leased to, in order
+  onLeased?: (node: string) => void;
+  resolve: (proof: RemoteProof) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Parse PROVER_NODES: comma-separated `nodeId:publicKey` entries, the key an
+ * Ed25519 public key as base64 DER (`yarn prover:keygen` prints both)
+ *
+ * Malformed entries are reported in `errors` and skipped.
+ */
+export function parseProverNodes(value: string | undefined): {
+  nodes: RegisteredProverNode[];
+  errors: string[];
+} {
+  const nodes: RegisteredProverNode[] = [];
+  const errors: string[] = [];
+
+  for (const entry of (value || '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const [id, key, ...rest] = trimmed.split(':');
+    if (!id || !key || rest.length > 0) {
+      errors.push(`Entry "${id || '?'}" is not nodeId:publicKey`);
+      continue;
+    }
+    if (nodes.some((node) => node.id === id)) {
+      errors.push(`Node "${id}" is listed twice`);
+      continue;
+    }
+    try {
+      nodes.push({ id, publicKey: parsePublicKey(key) });
+    } catch (error) {
+      errors.push(
+        `Node "${id}" has an invalid key: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return { nodes, errors };
+}
+
+/**
+ * ProverNodesService - schedules proofs on remote prover nodes
+ *
+ * Tasks wait in a FIFO queue until a node with a free slot for the circuit
+ * asks for one (nodes pull; see prover-protocol.ts). A node that sends no
+ * heartbeat for PROVER_NODE_TIMEOUT_SECONDS is taken offline and its tasks
+ * go back to the front of the queue for the next node, as does a task the
+ * node leaves out of MISSED_REPORTS heartbeats (it restarted, or lost the
+ * task); a task that was leased MAX_TASK_LEASES times, or waits that long
+ * with no node online, fails.
+ * Without PROVER_NODES the service is disabled and proofs stay local.
+ */
+@Injectable()
+export class ProverNodesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProverNodesService.name);
+  private readonly nodes = new Map<string, ProverNode>();
+  private readonly queue: RemoteTask[] = [];
+  private readonly leased = new Map<string, RemoteTask>();
+  private readonly timeoutMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    configService: ConfigService,
+    private readonly metrics: MetricsService,
+  ) {
+    const { nodes, errors } = parseProverNodes(
+      configService.get<string>('PROVER_NODES'),
+    );
+    for (const error of errors) {
+      this.logger.error(`[ProverNodes] Ignoring PROVER_NODES entry: ${error}`);
+    }
+    for (const node of nodes) {
+      this.nodes.set(node.id, {
+        ...node,
+        online: false,
+        lastHeartbeatAt: null,
+        capacity: 0,
+        circuits: [],
+        tasks: new Set(),
+        lastTimestamps: { heartbeat: 0, next: 0 },
+      });
+    }
+    this.timeoutMs =
+      readPositiveInt(
+        configService,
+        'PROVER_NODE_TIMEOUT_SECONDS',
+        DEFAULT_NODE_TIMEOUT_SECONDS,
+      ) * 1000;
+
+    metrics.onCollect(() => {
+      const online = [...this.nodes.values()].filter((node) => node.online);
+      metrics.proverNodes.set({ state: 'online' }, online.length);
+      metrics.proverNodes.set(
+        { state: 'offline' },
+        this.nodes.size - online.length,
+      );
+    });
+  }
+
+  /**
+   * True when PROVER_NODES registers at least one node
+   */
+  get enabled(): boolean {
+    return this.nodes.size > 0;
+  }
+
+  /**
+   * Tasks waiting for a node to lease them
+   */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Tasks the online nodes run at once
+   */
+  get capacity(): number {
+    return [...this.nodes.values()]
+      .filter((node) => node.online)
+      .reduce((total, node) => total + node.capacity, 0);
+  }
+
+  onModuleInit() {
+    if (!this.enabled) return;
+    this.logger.log(
+      `[ProverNodes] Proving on ${this.nodes.size} remote node(s): ${[...this.nodes.keys()].join(', ')}`,
+    );
+    this.timer = setInterval(() => this.checkNodes(), CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a proof for the nodes; `onLeased` runs each time a node takes it
+   */
+  prove(
+    circuit: ProverCircuit,
+    version: string,
+    input: Record<string, any>,
+    onLeased?: (node: string) => void,
+  ): Promise<RemoteProof> {
+    return new Promise<RemoteProof>((resolve, reject) => {
+      this.queue.push({
+        id: randomUUID(),
+        circuit,
+        version,
+        input,
+        queuedAt: Date.now(),
+        node: null,
+        leasedAt: 0,
+        missedReports: 0,
+        leasedTo: [],
+        onLeased,
+        resolve,
+        reject,
+      });
+    });
+  }
+
+  heartbeat(nodeId: string, request: HeartbeatRequest): HeartbeatResponse {
+    const node = this.authenticate(
+      nodeId,
+      request,
+      heartbeatMessage(nodeId, request),
+    );
+    this.acceptTimestamp(node, 'heartbeat', request.timestamp);
+    if (!node.online) {
+      this.logger.log(
+        `[ProverNodes] Node ${nodeId} online (capacity ${request.capacity}, circuits ${request.circuits.join(', ')})`,
+      );
+    }
+    node.online = true;
+    node.lastHeartbeatAt = Date.now();
+    node.capacity = request.capacity;
+    node.circuits = request.circuits;
+
+    // A heartbeat signed before the lease request can't list the task yet
+    const lost: RemoteTask[] = [];
+    for (const taskId of node.tasks) {
+      const task = this.leased.get(taskId)!;
+      if (request.tasks.includes(taskId)) {
+        task.missedReports = 0;
+      } else if (
+        request.timestamp > task.leasedAt &&
+        ++task.missedReports >= MISSED_REPORTS
+      ) {
+        lost.push(task);
+      }
+    }
+    if (lost.length > 0) {
+      this.logger.warn(
+        `[ProverNodes] Node ${nodeId} no longer reports ${lost.length} task(s), reassigning`,
+      );
+      this.requeue(node, lost);
+    }
+
+    return {
+      nodeId,
+      timeoutSeconds: this.timeoutMs / 1000,
+      tasks: [...node.tasks],
+    };
+  }
+
+  /**
+   * Lease the oldest task the node can prove, if it has a free slot
+   */
+  nextTask(nodeId: string, request: SignedRequest): NextTaskResponse {
+    const node = this.authenticate(
+      nodeId,
+      request,
+      nextTaskMessage(nodeId, request.timestamp),
+    );
+    this.acceptTimestamp(node, 'next', request.timestamp);
+    if (!node.online || node.tasks.size >= node.capacity) {
+      return { task: null };
+    }
+    const index = this.queue.findIndex((task) =>
+      node.circuits.includes(task.circuit),
+    );
+    if (index === -1) {
+      return { task: null };
+    }
+
+    const [task] = this.queue.splice(index, 1);
+    task.node = nodeId;
+    task.leasedAt = request.timestamp;
+    task.missedReports = 0;
+    task.leasedTo.push(nodeId);
+    node.tasks.add(task.id);
+    this.leased.set(task.id, task);
+    this.logger.log(
+      `[ProverNodes] Leased ${task.circuit} task ${task.id} to ${nodeId}`,
+    );
+    task.onLeased?.(nodeId);
+
+    return {
+      task: {
+        taskId: task.id,
+        circuit: task.circuit,
+        version: task.version,
+        input: task.input,
+      },
+    };
+  }
+
+  submitResult(
+    nodeId: string,
+    taskId: string,
+    request: TaskResultRequest,
+  ): { accepted: true } {
+    const node = this.authenticate(
+      nodeId,
+      request,
+      resultMessage(nodeId, taskId, request.timestamp, request),
+    );
+    const task = this.leased.get(taskId);
+    if (!task || task.node !== nodeId) {
+      throw new ProverTaskNotLeasedException(nodeId, taskId);
+    }
+    // A result signed for an earlier lease of the task is a replay
+    if (request.timestamp <= task.leasedAt) {
+      throw new ProverNodeUnauthorizedException(
+        nodeId,
+        'result timestamp is not after the lease',
+      );
+    }
+    this.leased.delete(taskId);
+    node.tasks.delete(taskId);
+
+    if ('error' in request) {
+      this.logger.warn(
+        `[ProverNodes] ${task.circuit} task ${taskId} failed on ${nodeId}: ${request.error.errorCode} ${request.error.message}`,
+      );
+      task.reject(remoteError(task.circuit, request.error));
+    } else {
+      this.logger.log(
+        `[ProverNodes] ${task.circuit} task ${taskId} proved by ${nodeId}`,
+      );
+      task.resolve({
+        proofBase64: request.proofBase64,
+        publicSignals: request.publicSignals,
+        node: nodeId,
+        signature: request.signature,
+      });
+    }
+    return { accepted: true };
+  }
+
+  getStatus() {
+    return {
+      enabled: this.enabled,
+      timeoutSeconds: this.timeoutMs / 1000,
+      queued: this.queue.length,
+      leased: this.leased.size,
+      nodes: [...this.nodes.values()].map(
+        (node): ProverNodeStatus => ({
+          id: node.id,
+          online: node.online,
+          lastHeartbeatAt: node.lastHeartbeatAt,
+          capacity: node.capacity,
+          circuits: node.circuits,
+          tasks: node.tasks.size,
+        }),
+      ),
+    };
+  }
+
+  /**
+   * Take silent nodes offline and move their tasks on
+   */
+  private checkNodes(): void {
+    const now = Date.now();
+
+    for (const node of this.nodes.values()) {
+      if (!node.online || node.lastHeartbeatAt! + this.timeoutMs > now) {
+        continue;
+      }
+      node.online = false;
+      this.logger.warn(
+        `[ProverNodes] Node ${node.id} missed its heartbeat, ${node.tasks.size} task(s) to reassign`,
+      );
+
+      this.requeue(
+        node,
+        [...node.tasks].map((taskId) => this.leased.get(taskId)!),
+      );
+    }
+
+    // Nobody to prove them: fail tasks rather than hold them forever
+    const anyOnline = [...this.nodes.values()].some((node) => node.online);
+    if (anyOnline) return;
+    for (const task of [...this.queue]) {
+      if (task.queuedAt + MAX_TASK_LEASES * this.timeoutMs <= now) {
+        this.queue.splice(this.queue.indexOf(task), 1);
+        task.reject(new ProverNodeTimeoutException(task.id, task.leasedTo));
+      }
+    }
+  }
+
+  /**
+   * Take tasks away from their node and back to the front of the queue,
+   * oldest first since they have waited longest; fail those that were
+   * leased MAX_TASK_LEASES times
+   */
+  private requeue(node: ProverNode, tasks: RemoteTask[]): void {
+    for (const task of [...tasks].reverse()) {
+      node.tasks.delete(task.id);
+      this.leased.delete(task.id);
+      task.node = null;
+      if (task.leasedTo.length >= MAX_TASK_LEASES) {
+        task.reject(new ProverNodeTimeoutException(task.id, task.leasedTo));
+        continue;
+      }
+      this.metrics.proverTaskReassignments.inc({});
+      this.queue.unshift(task);
+    }
+  }
+
+  private authenticate(
+    nodeId: string,
+    { timestamp, signature }: SignedRequest,
+    message: string,
+  ): ProverNode {
+    const node = this.nodes.get(nodeId);
+    if (!node) {
+      throw new ProverNodeUnauthorizedException(nodeId, 'unknown node');
+    }
+    if (Math.abs(Date.now() - timestamp) > MAX_CLOCK_SKEW_MS) {
+      throw new ProverNodeUnauthorizedException(
+        nodeId,
+        `timestamp more than ${MAX_CLOCK_SKEW_MS / 1000}s from server time`,
+      );
+    }
+    if (!verifyMessage(message, signature, node.publicKey)) {
+      throw new ProverNodeUnauthorizedException(nodeId, 'invalid signature');
+    }
+    return node;
+  }
+
+  /**
+   * Heartbeats and lease requests must each come with a later timestamp than
+   * the last one accepted, so a captured request can't be sent again
+   */
+  private acceptTimestamp(
+    node: ProverNode,
+    kind: 'heartbeat' | 'next',
+    timestamp: number,
+  ): void {
+    if (timestamp <= node.lastTimestamps[kind]) {
+      throw new ProverNodeUnauthorizedException(
+        node.id,
+        `${kind} timestamp is not after the last one accepted`,
+      );
+    }
+    node.lastTimestamps[kind] = timestamp;
+  }
+}
+
+/**
+ * The node's error as the exception the API would have thrown itself
+ */
+function remoteError(
+  circuit: string,
+  error: { errorCode: string; message: string; details?: Record<string, any> },
+): AppException {
+  if (error.errorCode in ErrorCodes) {
+    return new AppException(error.errorCode as ErrorCode, error.details);
+  }
+  return new ProofGenerationFailedException(circuit, error.message);
+}
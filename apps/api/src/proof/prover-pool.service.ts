@@ -0,0 +1,91 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { availableParallelism } from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { readPositiveInt } from './proof-config';
+import {
+  ProverArtifact,
+  ProverPool,
+  ProverPoolStats,
+  ProverResult,
+} from './prover-pool';
+import { ProverBusyException } from '../common/exceptions';
+import { MetricsService } from '../metrics/metrics.service';
+
+const DEFAULT_MAX_QUEUED = 16;
+
+/**
+ * ProverPoolService - the API's pool of prover worker threads
+ *
+ * PROVER_WORKERS sets the number of workers (default: one per CPU but one,
+ * which is left to the event loop), PROVER_MAX_QUEUED how many proofs may
+ * wait for a worker before new ones are refused with 503.
+ */
+@Injectable()
+export class ProverPoolService implements OnModuleDestroy {
+  private readonly logger = new Logger(ProverPoolService.name);
+  private readonly pool: ProverPool;
+
+  constructor(
+    configService: ConfigService,
+    private readonly metrics: MetricsService,
+  ) {
+    const size = readPositiveInt(
+      configService,
+      'PROVER_WORKERS',
+      Math.max(1, availableParallelism() - 1),
+    );
+    const maxQueued = readPositiveInt(
+      configService,
+      'PROVER_MAX_QUEUED',
+      DEFAULT_MAX_QUEUED,
+    );
+    // Compiled next to this file (dist/.../proof/prover.worker.js)
+    const workerFile = path.join(__dirname, 'prover.worker.js');
+    this.pool = new ProverPool(size, maxQueued, () => new Worker(workerFile));
+    this.logger.log(
+      `[ProverPool] ${size} worker(s), up to ${maxQueued} queued proofs`,
+    );
+
+    metrics.onCollect(() => {
+      const { running, queued } = this.pool.stats();
+      metrics.proverTasks.set({ state: 'running' }, running);
+      metrics.proverTasks.set({ state: 'queued' }, queued);
+    });
+  }
+
+  get size(): number {
+    return this.pool.size;
+  }
+
+  /**
+   * Groth16 proof of `input` on a worker thread; throws ProverBusyException
+   * when the queue is full
+   */
+  async prove(
+    input: Record<string, any>,
+    wasm: ProverArtifact,
+    zkey: ProverArtifact,
+  ): Promise<ProverResult> {
+    try {
+      return await this.pool.prove({ input, wasm, zkey });
+    } catch (error) {
+      if (error instanceof ProverBusyException) {
+        this.metrics.proverRejections.inc({});
+        this.logger.warn(
+          `[ProverPool] Queue full (${this.pool.maxQueued}), refusing proof`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  getStats(): ProverPoolStats {
+    return this.pool.stats();
+  }
+
+  async onModuleDestroy() {
+    await this.pool.close();
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { Worker } from 'worker_threads';
+import { ProverPool } from './prover-pool';
+import { ProverBusyException } from '../common/exceptions';
+
+// Stands in for prover.worker: answers after input.delay ms, echoing
+// input.value as the public signal
+const FAKE_PROVER = `
+const { parentPort } = require('worker_threads');
+parentPort.on('message', ({ id, input }) => {
+  if (input.crash) process.exit(1);
+  setTimeout(() => {
+    parentPort.postMessage(
+      input.fail
+        ? { id, error: 'witness check failed' }
+        : {
+            id,
+            proof: { pi_a: [], pi_b: [], pi_c: [] },
+            publicSignals: [String(input.value)],
+          },
+    );
+  }, input.delay || 0);
+});
+`;
+
+const request = (input: Record<string, any>) => ({
+  input,
+  wasm: 'circuit.wasm',
+  zkey: 'circuit_final.zkey',
+});
+
+describe('ProverPool', () => {
+  let pool: ProverPool;
+
+  const createPool = (size: number, maxQueued: number) =>
+    (pool = new ProverPool(
+      size,
+      maxQueued,
+      () => new Worker(FAKE_PROVER, { eval: true }),
+    ));
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('proves on at most `size` workers and queues the rest', async () => {
+    createPool(2, 4);
+
+    const proofs = [1, 2, 3].map((value) =>
+      pool.prove(request({ value, delay: 50 })),
+    );
+
+    expect(pool.stats()).toMatchObject({ workers: 2, running: 2, queued: 1 });
+    const results = await Promise.all(proofs);
+    expect(results.map(({ publicSignals }) => publicSignals)).toEqual([
+      ['1'],
+      ['2'],
+      ['3'],
+    ]);
+    expect(pool.stats()).toMatchObject({
+      workers: 2,
+      running: 0,
+      queued: 0,
+      averageProofMs: expect.any(Number),
+    });
+  });
+
+  it('refuses requests with a retry hint once the queue is full', async () => {
+    createPool(1, 1);
+    const running = pool.prove(request({ value: 1, delay: 50 }));
+    const queued = pool.prove(request({ value: 2, delay: 50 }));
+
+    const refused = pool.prove(request({ value: 3 }));
+
+    await expect(refused).rejects.toBeInstanceOf(ProverBusyException);
+    // Nothing timed yet: 5s per proof, one queued ahead of a free slot
+    await expect(refused).rejects.toMatchObject({
+      errorCode: 'PROOF_PROVER_BUSY',
+      retryAfterSeconds: 10,
+    });
+    await expect(Promise.all([running, queued])).resolves.toHaveLength(2);
+  });
+
+  it('fails only the request of a crashed worker and replaces it', async () => {
+    createPool(1, 2);
+
+    const crashed = pool.prove(request({ crash: true }));
+    const failed = pool.prove(request({ fail: true }));
+    const next = pool.prove(request({ value: 7 }));
+
+    await expect(crashed).rejects.toThrow('exited with code 1');
+    await expect(failed).rejects.toThrow('witness check failed');
+    await expect(next).resolves.toMatchObject({ publicSignals: ['7'] });
+    expect(pool.stats().workers).toBe(1);
+  });
+});
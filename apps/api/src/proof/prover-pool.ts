@@ -0,0 +1,199 @@
+import { Worker } from 'worker_threads';
+import { ProverBusyException } from '../common/exceptions';
+
+// Assumed proof time until the pool has timed one
+const DEFAULT_PROOF_MS = 5000;
+
+/**
+ * What a prover worker is asked to prove
+ */
+export interface ProverRequest {
+  input: Record<string, any>;
+  wasm: ProverArtifact;
+  zkey: ProverArtifact;
+}
+
+/**
+ * A file path, or the file's contents (copied to the worker with the task)
+ */
+export type ProverArtifact = string | Uint8Array;
+
+/**
+ * Output of snarkjs.groth16.fullProve
+ */
+export interface ProverResult {
+  proof: { pi_a: string[]; pi_b: string[][]; pi_c: string[] };
+  publicSignals: string[];
+}
+
+/**
+ * Messages between the pool and prover.worker
+ */
+export type ProverTaskMessage = ProverRequest & { id: number };
+export type ProverReplyMessage =
+  | ({ id: number } & ProverResult)
+  | { id: number; error: string };
+
+export interface ProverPoolStats {
+  size: number;
+  workers: number; // started, at most `size`
+  running: number;
+  queued: number;
+  maxQueued: number;
+  averageProofMs: number | null;
+}
+
+interface Task {
+  id: number;
+  request: ProverRequest;
+  resolve: (result: ProverResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Fixed-size pool of worker threads running snarkjs
+ *
+ * Each worker proves one request at a time; requests beyond `size` wait in a
+ * FIFO queue of at most `maxQueued`. A full queue rejects new requests with
+ * ProverBusyException instead of letting the wait grow. Workers start on
+ * demand, and one that crashes fails only its own request and is replaced
+ * on the next dispatch.
+ */
+export class ProverPool {
+  private readonly workers = new Set<Worker>();
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, Task>();
+  private readonly queue: Task[] = [];
+  private nextId = 1;
+  private averageProofMs: number | null = null;
+  private closed = false;
+
+  constructor(
+    readonly size: number,
+    readonly maxQueued: number,
+    private readonly createWorker: () => Worker,
+  ) {}
+
+  prove(request: ProverRequest): Promise<ProverResult> {
+    if (this.closed) {
+      return Promise.reject(new Error('Prover pool is shut down'));
+    }
+    if (!this.hasFreeWorker() && this.queue.length >= this.maxQueued) {
+      return Promise.reject(
+        new ProverBusyException(this.queue.length, this.retryAfterSeconds()),
+      );
+    }
+
+    return new Promise<ProverResult>((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, request, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  stats(): ProverPoolStats {
+    return {
+      size: this.size,
+      workers: this.workers.size,
+      running: this.running.size,
+      queued: this.queue.length,
+      maxQueued: this.maxQueued,
+      averageProofMs: this.averageProofMs,
+    };
+  }
+
+  /**
+   * Fail waiting requests and stop every worker
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const task of this.queue.splice(0)) {
+      task.reject(new Error('Prover pool is shut down'));
+    }
+    const workers = Array.from(this.workers);
+    for (const worker of workers) {
+      this.remove(worker, new Error('Prover pool is shut down'));
+    }
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private hasFreeWorker(): boolean {
+    return this.idle.length > 0 || this.workers.size < this.size;
+  }
+
+  /**
+   * Seconds until a slot is likely to free up: the queue ahead drained at
+   * `size` proofs per average proof time
+   */
+  private retryAfterSeconds(): number {
+    const proofMs = this.averageProofMs ?? DEFAULT_PROOF_MS;
+    return Math.max(
+      1,
+      Math.ceil((proofMs * (this.queue.length / this.size + 1)) / 1000),
+    );
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0 && this.hasFreeWorker()) {
+      const worker = this.idle.pop() ?? this.spawn();
+      const task = this.queue.shift()!;
+      const started = Date.now();
+      this.running.set(worker, {
+        ...task,
+        resolve: (result) => {
+          this.recordDuration(Date.now() - started);
+          task.resolve(result);
+        },
+      });
+      worker.postMessage({ id: task.id, ...task.request });
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = this.createWorker();
+    // Idle workers must not keep the process alive on shutdown
+    worker.unref();
+    worker.on('message', (reply: ProverReplyMessage) =>
+      this.onReply(worker, reply),
+    );
+    worker.on('error', (error) => this.remove(worker, error));
+    worker.on('exit', (code) =>
+      this.remove(worker, new Error(`Prover worker exited with code ${code}`)),
+    );
+    this.workers.add(worker);
+    return worker;
+  }
+
+  private onReply(worker: Worker, reply: ProverReplyMessage): void {
+    const task = this.running.get(worker);
+    if (!task || task.id !== reply.id) return;
+
+    this.running.delete(worker);
+    this.idle.push(worker);
+    if ('error' in reply) {
+      task.reject(new Error(reply.error));
+    } else {
+      task.resolve({ proof: reply.proof, publicSignals: reply.publicSignals });
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Drop a crashed or terminated worker, failing the request it was running
+   */
+  private remove(worker: Worker, error: Error): void {
+    if (!this.workers.delete(worker)) return;
+
+    const idleIndex = this.idle.indexOf(worker);
+    if (idleIndex !== -1) this.idle.splice(idleIndex, 1);
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+    task?.reject(error);
+
+    if (!this.closed) this.dispatch();
+  }
+
+  private recordDuration(ms: number): void {
+    this.averageProofMs =
+      this.averageProofMs === null ? ms : this.averageProofMs * 0.8 + ms * 0.2;
+  }
+}
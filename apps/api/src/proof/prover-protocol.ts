@@ -0,0 +1,196 @@
+/**
+ * Prover node protocol
+ *
+ * Remote prover nodes pull proof tasks from the API over HTTP:
+ *
+ *   POST /proof/nodes/:nodeId/heartbeat              alive, capacity, circuits,
+ *                                                    tasks it is running
+ *   POST /proof/nodes/:nodeId/tasks/next             lease the next task
+ *   POST /proof/nodes/:nodeId/tasks/:taskId/result   proof or error
+ *
+ * Every request carries a millisecond `timestamp` and an Ed25519 `signature`
+ * by the node's key over the message built below, so the API knows which
+ * node sent it - results included - and rejects stale or forged requests.
+ * Timestamps must also move forward: each heartbeat and lease request later
+ * than the node's last one, each result later than the lease request that
+ * got the task, so a captured request can't be replayed. Node keys are
+ * registered with the API in PROVER_NODES.
+ */
+
+import {
+  KeyObject,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+} from 'crypto';
+
+export const PROTOCOL_VERSION = 'noirwire-prover-v1';
+
+export type ProverCircuit = 'shield' | 'transfer' | 'unshield';
+
+export const PROVER_CIRCUITS: ProverCircuit[] = [
+  'shield',
+  'transfer',
+  'unshield',
+];
+
+export interface SignedRequest {
+  timestamp: number;
+  signature: string; // base64
+}
+
+export interface HeartbeatRequest extends SignedRequest {
+  capacity: number; // tasks the node runs at once
+  circuits: ProverCircuit[];
+  tasks: string[]; // leased tasks the node is proving or submitting
+}
+
+export interface HeartbeatResponse {
+  nodeId: string;
+  timeoutSeconds: number; // without a heartbeat for this long, tasks move on
+  tasks: string[]; // tasks still leased to the node; drop any others
+}
+
+export interface ProverTask {
+  taskId: string;
+  circuit: ProverCircuit;
+  version: string; // circuit version from the artifact manifest
+  input: Record<string, any>;
+}
+
+export interface NextTaskResponse {
+  task: ProverTask | null;
+}
+
+/**
+ * Outcome a node reports for a task: the proof as POST /proof/generate
+ * returns it, or the error body it would have answered with
+ */
+export type TaskOutcome =
+  | { proofBase64: string; publicSignals: string[] }
+  | {
+      error: {
+        errorCode: string;
+        message: string;
+        details?: Record<string, any>;
+      };
+    };
+
+export type TaskResultRequest = SignedRequest & TaskOutcome;
+
+/**
+ * Message a heartbeat signs
+ */
+export function heartbeatMessage(
+  nodeId: string,
+  { timestamp, capacity, circuits, tasks }: Omit<HeartbeatRequest, 'signature'>,
+): string {
+  return signedMessage(
+    'heartbeat',
+    nodeId,
+    timestamp,
+    capacity,
+    circuits.join(','),
+    tasks.join(','),
+  );
+}
+
+/**
+ * Message a task lease request signs
+ */
+export function nextTaskMessage(nodeId: string, timestamp: number): string {
+  return signedMessage('next', nodeId, timestamp);
+}
+
+/**
+ * Message a result signs: the outcome is covered by its SHA-256
+ */
+export function resultMessage(
+  nodeId: string,
+  taskId: string,
+  timestamp: number,
+  outcome: TaskOutcome,
+): string {
+  return signedMessage(
+    'result',
+    nodeId,
+    taskId,
+    timestamp,
+    outcomeDigest(outcome),
+  );
+}
+
+export function signMessage(message: string, privateKey: KeyObject): string {
+  return sign(null, Buffer.from(message), privateKey).toString('base64');
+}
+
+export function verifyMessage(
+  message: string,
+  signature: string,
+  publicKey: KeyObject,
+): boolean {
+  try {
+    return verify(
+      null,
+      Buffer.from(message),
+      publicKey,
+      Buffer.from(signature, 'base64'),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ed25519 public key from base64 DER (SPKI), as listed in PROVER_NODES
+ */
+export function parsePublicKey(base64: string): KeyObject {
+  const key = createPublicKey({
+    key: Buffer.from(base64, 'base64'),
+    format: 'der',
+    type: 'spki',
+  });
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`expected an ed25519 key, got ${key.asymmetricKeyType}`);
+  }
+  return key;
+}
+
+/**
+ * Ed25519 private key from base64 DER (PKCS#8), as in PROVER_NODE_PRIVATE_KEY
+ */
+export function parsePrivateKey(base64: string): KeyObject {
+  const key = createPrivateKey({
+    key: Buffer.from(base64, 'base64'),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`expected an ed25519 key, got ${key.asymmetricKeyType}`);
+  }
+  return key;
+}
+
+function outcomeDigest(outcome: TaskOutcome): string {
+  // Rebuilt field by field so extra body fields can't change the digest
+  const canonical =
+    'error' in outcome
+      ? {
+          error: {
+            errorCode: outcome.error.errorCode,
+            message: outcome.error.message,
+            details: outcome.error.details ?? null,
+          },
+        }
+      : {
+          proofBase64: outcome.proofBase64,
+          publicSignals: outcome.publicSignals,
+        };
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+function signedMessage(...parts: Array<string | number>): string {
+  return [PROTOCOL_VERSION, ...parts].join('\n');
+}
@@ -0,0 +1,47 @@
+/**
+ * Prover worker thread, started by ProverPool
+ *
+ * Runs snarkjs.groth16.fullProve off the main thread so the API keeps
+ * serving other requests while a proof computes. One request at a time, on
+ * one core: parallelism comes from the number of workers in the pool.
+ */
+
+import workerThreads, { parentPort } from 'worker_threads';
+import type {
+  ProverReplyMessage,
+  ProverResult,
+  ProverTaskMessage,
+} from './prover-pool';
+
+// snarkjs loads web-worker 1.2.0 (through ffjavascript), which takes any
+// worker thread for one it started itself and throws on load without its
+// workerData. Proving single-threaded, it never starts a worker, so let it
+// load as on the main thread. (The default import is the module object
+// itself, which web-worker reads; a namespace import would be a copy.)
+(workerThreads as { isMainThread: boolean }).isMainThread = true;
+const snarkjsLoaded = import('snarkjs');
+
+async function prove(task: ProverTaskMessage): Promise<ProverReplyMessage> {
+  try {
+    const snarkjs = await snarkjsLoaded;
+    const { proof, publicSignals }: ProverResult =
+      await snarkjs.groth16.fullProve(
+        task.input,
+        task.wasm,
+        task.zkey,
+        undefined,
+        undefined,
+        { singleThread: true },
+      );
+    return { id: task.id, proof, publicSignals };
+  } catch (error) {
+    return {
+      id: task.id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+parentPort!.on('message', (task: ProverTaskMessage) => {
+  void prove(task).then((reply) => parentPort!.postMessage(reply));
+});
@@ -0,0 +1,10 @@
+import { NestFactory } from '@nestjs/core';
+import { ProverNodeModule } from './prover-node.module';
+
+// Standalone prover node: no HTTP server, it calls the API (yarn start:prover)
+async function bootstrap() {
+  const app = await NestFactory.createApplicationContext(ProverNodeModule);
+  app.enableShutdownHooks();
+}
+
+void bootstrap();
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MetricsModule } from '../metrics/metrics.module';
+import { CircuitsModule } from '../circuits/circuits.module';
+import { ProofService } from '../proof/proof.service';
+import { ProverPoolService } from '../proof/prover-pool.service';
+import { ProverNodeService } from './prover-node.service';
+
+// A prover node proves with the API's own ProofService and worker pool
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+    MetricsModule,
+    CircuitsModule,
+  ],
+  providers: [ProofService, ProverPoolService, ProverNodeService],
+})
+export class ProverNodeModule {}
@@ -0,0 +1,183 @@
+import {
+  describe,
+  it,
+  expect,
+  jest,
+  afterEach,
+  beforeEach,
+} from '@jest/globals';
+import { HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ProverNodeService } from './prover-node.service';
+import { ProofService } from '../proof/proof.service';
+import { ProverPoolService } from '../proof/prover-pool.service';
+import { ProverNodesController } from '../proof/prover-nodes.controller';
+import { ProverNodesService } from '../proof/prover-nodes.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { createProverNode } from '../../test/helpers';
+
+type RequestKind = 'heartbeat' | 'next' | 'result';
+
+interface Deferred {
+  resolve: (value: { proofBase64: string; publicSignals: string[] }) => void;
+}
+
+const PROOF = { proofBase64: 'cHJvb2Y=', publicSignals: ['1'] };
+
+let stop: (() => void) | null = null;
+
+// A node talking to a real ProverNodesService: fetch calls the controller
+function createNode() {
+  const keys = createProverNode('node-a');
+  const api = new ProverNodesService(
+    {
+      get: (name: string) =>
+        ({ PROVER_NODES: keys.entry, PROVER_NODE_TIMEOUT_SECONDS: '10' })[name],
+    } as unknown as ConfigService,
+    new MetricsService(),
+  );
+  api.onModuleInit();
+  const controller = new ProverNodesController(api);
+
+  // Requests that fail before reaching the API, per kind, in order
+  const failures: Record<RequestKind, Array<'network' | 503>> = {
+    heartbeat: [],
+    next: [],
+    result: [],
+  };
+  const requests: RequestKind[] = [];
+  jest.spyOn(global, 'fetch').mockImplementation(async (url, init) => {
+    const [nodeId, ...path] = new URL(String(url)).pathname
+      .replace('/proof/nodes/', '')
+      .split('/');
+    const kind: RequestKind =
+      path[0] === 'heartbeat'
+        ? 'heartbeat'
+        : path[1] === 'next'
+          ? 'next'
+          : 'result';
+    requests.push(kind);
+
+    const failure = failures[kind].shift();
+    if (failure === 'network') {
+      throw new TypeError('fetch failed');
+    }
+    if (failure) {
+      return new Response(JSON.stringify({ statusCode: failure }), {
+        status: failure,
+      });
+    }
+
+    const body = JSON.parse(String(init!.body)) as never;
+    try {
+      const payload =
+        kind === 'heartbeat'
+          ? controller.heartbeat(nodeId, body)
+          : kind === 'next'
+            ? controller.nextTask(nodeId, body)
+            : controller.submitResult(nodeId, path[1], body);
+      return new Response(JSON.stringify(payload));
+    } catch (error) {
+      const exception = error as HttpException;
+      return new Response(JSON.stringify(exception.getResponse()), {
+        status: exception.getStatus(),
+      });
+    }
+  });
+
+  // Proofs finish when the test says so
+  const pending: Deferred[] = [];
+  const proofService = {
+    generateProof: jest.fn(
+      () => new Promise((resolve) => pending.push({ resolve })),
+    ),
+  };
+  const env: Record<string, string> = {
+    PROVER_API_URL: 'http://api.test/',
+    PROVER_NODE_ID: keys.id,
+    PROVER_NODE_PRIVATE_KEY: keys.privateKey,
+  };
+  const node = new ProverNodeService(
+    { get: (name: string) => env[name] } as unknown as ConfigService,
+    proofService as unknown as ProofService,
+    { size: 1 } as ProverPoolService,
+  );
+  stop = () => {
+    node.onModuleDestroy();
+    api.onModuleDestroy();
+  };
+
+  return { node, api, failures, requests, pending, proofService };
+}
+
+describe('ProverNodeService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    stop?.();
+    stop = null;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('leases a task, proves it and submits the result', async () => {
+    const { node, api, pending, proofService } = createNode();
+    const proof = api.prove('shield', 'v1', { amount: '1' });
+
+    await node.onApplicationBootstrap();
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(proofService.generateProof).toHaveBeenCalledWith(
+      'shield',
+      { amount: '1' },
+      'v1',
+    );
+    pending[0].resolve(PROOF);
+    await jest.advanceTimersByTimeAsync(10);
+
+    await expect(proof).resolves.toMatchObject({ ...PROOF, node: 'node-a' });
+  });
+
+  it('drops the result of a reassigned task and proves it again', async () => {
+    const { node, api, failures, requests, pending, proofService } =
+      createNode();
+    const proof = api.prove('shield', 'v1', { amount: '1' });
+
+    await node.onApplicationBootstrap();
+    await jest.advanceTimersByTimeAsync(10);
+    // Heartbeats get lost while the proof runs: the API gives up on the node
+    failures.heartbeat.push('network', 'network', 'network');
+    await jest.advanceTimersByTimeAsync(12_000);
+    expect(api.getStatus()).toMatchObject({ queued: 1, leased: 0 });
+
+    // The late result is refused, and not sent again
+    pending[0].resolve(PROOF);
+    await jest.advanceTimersByTimeAsync(10);
+    expect(requests.filter((kind) => kind === 'result')).toHaveLength(1);
+
+    // Back online, the node leases the task again
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(proofService.generateProof).toHaveBeenCalledTimes(2);
+    pending[1].resolve(PROOF);
+    await jest.advanceTimersByTimeAsync(10);
+
+    await expect(proof).resolves.toMatchObject({ node: 'node-a' });
+  });
+
+  it('retries a result the API did not take', async () => {
+    const { node, api, failures, requests, pending } = createNode();
+    const proof = api.prove('shield', 'v1', { amount: '1' });
+
+    await node.onApplicationBootstrap();
+    await jest.advanceTimersByTimeAsync(10);
+    failures.result.push('network', 503);
+    pending[0].resolve(PROOF);
+    // Retried after 1s, then 2s
+    await jest.advanceTimersByTimeAsync(3100);
+
+    expect(requests.filter((kind) => kind === 'result')).toHaveLength(3);
+    await expect(proof).resolves.toMatchObject({ node: 'node-a' });
+  });
+});
@@ -0,0 +1,285 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { KeyObject } from 'crypto';
+import { ProofService } from '../proof/proof.service';
+import { ProverPoolService } from '../proof/prover-pool.service';
+import { readPositiveInt } from '../proof/proof-config';
+import {
+  HeartbeatResponse,
+  NextTaskResponse,
+  PROVER_CIRCUITS,
+  ProverTask,
+  TaskOutcome,
+  heartbeatMessage,
+  nextTaskMessage,
+  parsePrivateKey,
+  resultMessage,
+  signMessage,
+} from '../proof/prover-protocol';
+import { AppException } from '../common/exceptions';
+
+const DEFAULT_HEARTBEAT_SECONDS = 5;
+const IDLE_POLL_MS = 1000;
+const RETRY_MS = 5000;
+const RESULT_ATTEMPTS = 5;
+const RESULT_RETRY_MS = 1000; // doubled after each failed attempt
+
+/**
+ * ProverNodeService - the prover node side of prover-protocol.ts
+ *
+ * Heartbeats to the API at PROVER_API_URL every PROVER_NODE_HEARTBEAT_SECONDS
+ * and, while a prover worker is free, leases the next task, proves it
+ * locally and posts the signed result, retrying when the API can't be
+ * reached. Heartbeats list the tasks in progress, so the API can move on a
+ * task the node lost. The node's capacity is its PROVER_WORKERS.
+ */
+@Injectable()
+export class ProverNodeService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(ProverNodeService.name);
+  private readonly apiUrl: string;
+  private readonly nodeId: string;
+  private readonly privateKey: KeyObject;
+  private readonly heartbeatMs: number;
+  private readonly running = new Set<string>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  private lastTimestamp = 0;
+
+  constructor(
+    configService: ConfigService,
+    private readonly proofService: ProofService,
+    private readonly proverPool: ProverPoolService,
+  ) {
+    const apiUrl = configService.get<string>('PROVER_API_URL');
+    const nodeId = configService.get<string>('PROVER_NODE_ID');
+    const privateKey = configService.get<string>('PROVER_NODE_PRIVATE_KEY');
+    if (!apiUrl || !nodeId || !privateKey) {
+      throw new Error(
+        '[ProverNode] PROVER_API_URL, PROVER_NODE_ID and PROVER_NODE_PRIVATE_KEY are required',
+      );
+    }
+    this.apiUrl = apiUrl.replace(/\/$/, '');
+    this.nodeId = nodeId;
+    this.privateKey = parsePrivateKey(privateKey);
+    this.heartbeatMs =
+      readPositiveInt(
+        configService,
+        'PROVER_NODE_HEARTBEAT_SECONDS',
+        DEFAULT_HEARTBEAT_SECONDS,
+      ) * 1000;
+  }
+
+  async onApplicationBootstrap() {
+    this.logger.log(
+      `[ProverNode] ${this.nodeId} proving for ${this.apiUrl} (capacity ${this.proverPool.size})`,
+    );
+    await this.heartbeat();
+    void this.pollLoop();
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    try {
+      const timestamp = this.timestamp();
+      const capacity = this.proverPool.size;
+      const circuits = PROVER_CIRCUITS;
+      const tasks = [...this.running];
+      const response = await this.post<HeartbeatResponse>('heartbeat', {
+        timestamp,
+        capacity,
+        circuits,
+        tasks,
+        signature: signMessage(
+          heartbeatMessage(this.nodeId, {
+            timestamp,
+            capacity,
+            circuits,
+            tasks,
+          }),
+          this.privateKey,
+        ),
+      });
+      for (const taskId of this.running) {
+        if (!response.tasks.includes(taskId)) {
+          this.logger.warn(
+            `[ProverNode] Task ${taskId} was reassigned; its result will be refused`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`[ProverNode] Heartbeat failed: ${describe(error)}`);
+    }
+
+    if (!this.stopped) {
+      this.heartbeatTimer = setTimeout(() => {
+        void this.heartbeat();
+      }, this.heartbeatMs);
+    }
+  }
+
+  private async pollLoop(): Promise<void> {
+    while (!this.stopped) {
+      if (this.running.size >= this.proverPool.size) {
+        await sleep(IDLE_POLL_MS);
+        continue;
+      }
+
+      let task: ProverTask | null;
+      try {
+        const timestamp = this.timestamp();
+        ({ task } = await this.post<NextTaskResponse>('tasks/next', {
+          timestamp,
+          signature: signMessage(
+            nextTaskMessage(this.nodeId, timestamp),
+            this.privateKey,
+          ),
+        }));
+      } catch (error) {
+        this.logger.warn(`[ProverNode] Task poll failed: ${describe(error)}`);
+        await sleep(RETRY_MS);
+        continue;
+      }
+
+      if (task) {
+        void this.runTask(task);
+      } else {
+        await sleep(IDLE_POLL_MS);
+      }
+    }
+  }
+
+  private async runTask(task: ProverTask): Promise<void> {
+    this.running.add(task.taskId);
+    this.logger.log(
+      `[ProverNode] Proving ${task.circuit}@${task.version} task ${task.taskId}...`,
+    );
+
+    let outcome: TaskOutcome;
+    try {
+      const { proofBase64, publicSignals } =
+        await this.proofService.generateProof(
+          task.circuit,
+          task.input,
+          task.version,
+        );
+      outcome = { proofBase64, publicSignals };
+    } catch (error) {
+      outcome = {
+        error:
+          error instanceof AppException
+            ? {
+                errorCode: error.getErrorCode(),
+                message: error.message,
+                details: error.getDetails(),
+              }
+            : { errorCode: 'INTERNAL_ERROR', message: describe(error) },
+      };
+    }
+
+    try {
+      await this.submit(task.taskId, outcome);
+    } finally {
+      this.running.delete(task.taskId);
+    }
+  }
+
+  /**
+   * Post a task's result, retrying network and server errors with backoff;
+   * a refusal, such as for a task that was reassigned, is final
+   */
+  private async submit(taskId: string, outcome: TaskOutcome): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const timestamp = this.timestamp();
+        await this.post(`tasks/${taskId}/result`, {
+          ...outcome,
+          timestamp,
+          signature: signMessage(
+            resultMessage(this.nodeId, taskId, timestamp, outcome),
+            this.privateKey,
+          ),
+        });
+        this.logger.log(
+          `[ProverNode] Submitted ${'error' in outcome ? 'error' : 'proof'} for task ${taskId}`,
+        );
+        return;
+      } catch (error) {
+        const refused = error instanceof ApiError && error.status < 500;
+        if (refused || attempt >= RESULT_ATTEMPTS || this.stopped) {
+          this.logger.error(
+            `[ProverNode] Could not submit task ${taskId}: ${describe(error)}`,
+          );
+          return;
+        }
+        this.logger.warn(
+          `[ProverNode] Submitting task ${taskId} failed, retrying: ${describe(error)}`,
+        );
+        await sleep(RESULT_RETRY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * Milliseconds for the next signed request: the API refuses a timestamp
+   * that doesn't move forward, even within one millisecond
+   */
+  private timestamp(): number {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return this.lastTimestamp;
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const response = await fetch(
+      `${this.apiUrl}/proof/nodes/${encodeURIComponent(this.nodeId)}/${path}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+    );
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new ApiError(
+        response.status,
+        [response.status, payload?.errorCode, payload?.message]
+          .filter(Boolean)
+          .join(' '),
+      );
+    }
+    return payload as T;
+  }
+}
+
+/**
+ * Error response from the API
+ */
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,5 +1,4 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import {
   Commitment,
   Connection,
@@ -7,34 +6,70 @@ import {
   PublicKey,
 } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { PoolConfig } from '../indexer/pool-config';
 
+/**
+ * SolanaService - RPC connection, program ID and admin keypair of one pool
+ *
+ * Created per pool by PoolRegistryService.
+ */
 @Injectable()
 export class SolanaService {
   private readonly logger = new Logger(SolanaService.name);
   private readonly connection: Connection;
+  private readonly rpcUrl: string;
+  private readonly commitment: Commitment;
   private readonly programId: PublicKey;
   private readonly adminKeypair?: Keypair;
 
-  constructor(private readonly configService: ConfigService) {
-    const rpcUrl =
-      this.configService.get<string>('SOLANA_RPC_URL') ||
-      'https://api.devnet.solana.com';
-    const commitment =
-      (this.configService.get<string>('SOLANA_COMMITMENT') as Commitment) ||
-      'processed';
+  constructor(private readonly pool: PoolConfig) {
+    this.rpcUrl = pool.rpcUrl;
+    this.commitment = pool.commitment;
 
-    this.connection = new Connection(rpcUrl, commitment);
-    const programId =
-      this.configService.get<string>('NOIRWIRE_PROGRAM_ID') ||
-      'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz';
-    this.programId = new PublicKey(programId);
+    this.connection = new Connection(this.rpcUrl, this.commitment);
+    this.programId = new PublicKey(pool.programId);
     this.adminKeypair = this.loadAdminKeypair();
   }
 
+  public getPoolKey(): string {
+    return this.pool.key;
+  }
+
+  /**
+   * Cluster name of the pool (devnet, testnet, mainnet-beta, ...)
+   */
+  public getNetwork(): string {
+    return this.pool.network;
+  }
+
+  /**
+   * Whether an RPC endpoint was configured for the pool (chain sync and
+   * audits only run against a configured endpoint)
+   */
+  public isRpcConfigured(): boolean {
+    return this.pool.rpcConfigured;
+  }
+
+  public getRpcUrl(): string {
+    return this.rpcUrl;
+  }
+
   public getConnection(): Connection {
     return this.connection;
   }
 
+  /**
+   * Create a dedicated connection (own websocket) with the same RPC settings.
+   * Used by long-lived subscriptions that need to reconnect independently.
+   */
+  public createConnection(): Connection {
+    return new Connection(this.rpcUrl, this.commitment);
+  }
+
+  public getCommitment(): Commitment {
+    return this.commitment;
+  }
+
   public getProgramId(): PublicKey {
     return this.programId;
   }
@@ -44,10 +79,10 @@ export class SolanaService {
   }
 
   private loadAdminKeypair(): Keypair | undefined {
-    const secret = this.configService.get<string>('SOLANA_ADMIN_KEYPAIR');
+    const secret = this.pool.adminKeypair;
     if (!secret) {
       this.logger.warn(
-        '[SolanaService] SOLANA_ADMIN_KEYPAIR not configured - root publishing disabled',
+        `[SolanaService] No admin keypair configured for pool ${this.pool.key} - root publishing disabled`,
       );
       return undefined;
     }
@@ -61,7 +96,7 @@ export class SolanaService {
         const decoded = Uint8Array.from(parsed);
         const kp = Keypair.fromSecretKey(decoded);
         this.logger.log(
-          `[SolanaService] Admin keypair loaded: ${kp.publicKey.toBase58()}`,
+          `[SolanaService] Admin keypair loaded for pool ${this.pool.key}: ${kp.publicKey.toBase58()}`,
         );
         return kp;
       }
@@ -70,12 +105,12 @@ export class SolanaService {
       const decoded = bs58.decode(secret.trim());
       const kp = Keypair.fromSecretKey(decoded);
       this.logger.log(
-        `[SolanaService] Admin keypair loaded: ${kp.publicKey.toBase58()}`,
+        `[SolanaService] Admin keypair loaded for pool ${this.pool.key}: ${kp.publicKey.toBase58()}`,
       );
       return kp;
     } catch (error) {
       this.logger.error(
-        `[SolanaService] Failed to parse SOLANA_ADMIN_KEYPAIR: ${
+        `[SolanaService] Failed to parse the admin keypair of pool ${this.pool.key}: ${
           error instanceof Error ? error.message : String(error)
         }`,
       );
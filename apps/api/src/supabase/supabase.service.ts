@@ -1,12 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { MetricsService } from '../metrics/metrics.service';
+
+const OPERATIONS: Record<string, string> = {
+  GET: 'select',
+  HEAD: 'select',
+  POST: 'insert',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
 
 @Injectable()
 export class SupabaseService {
   private readonly logger = new Logger(SupabaseService.name);
   private supabase: SupabaseClient | null = null;
 
-  constructor() {
+  constructor(private readonly metrics: MetricsService) {
     const supabaseUrl = process.env.SUPABASE_URL;
     const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
 
@@ -29,6 +38,7 @@ export class SupabaseService {
           autoRefreshToken: false,
           persistSession: false,
         },
+        global: { fetch: this.countingFetch },
       });
 
       this.logger.log('✅ Supabase client initialized successfully');
@@ -223,4 +233,50 @@ export class SupabaseService {
   getClient(): SupabaseClient | null {
     return this.supabase;
   }
+
+  /**
+   * fetch for the Supabase client that counts failed requests
+   * 406 is not counted: PostgREST answers .single() on zero rows with it,
+   * which callers treat as "not found".
+   */
+  private readonly countingFetch = async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    try {
+      const response = await fetch(input, init);
+      if (response.status >= 400 && response.status !== 406) {
+        this.recordError(input, init, String(response.status));
+      }
+      return response;
+    } catch (error) {
+      this.recordError(input, init, 'network');
+      throw error;
+    }
+  };
+
+  private recordError(
+    input: string | URL | Request,
+    init: RequestInit | undefined,
+    status: string,
+  ): void {
+    const request = input instanceof Request ? input : null;
+    const url = new URL(request ? request.url : String(input));
+    const method = (init?.method ?? request?.method ?? 'GET').toUpperCase();
+    const prefer = new Headers(init?.headers ?? request?.headers).get('Prefer');
+
+    // /rest/v1/<table> or /rest/v1/rpc/<function>; other APIs by name
+    const segments = url.pathname.split('/').filter(Boolean);
+    const isRest = segments[0] === 'rest';
+    const table = isRest
+      ? segments.slice(2).join('/') || 'unknown'
+      : (segments[0] ?? 'unknown');
+    const operation = table.startsWith('rpc/')
+      ? 'rpc'
+      : method === 'POST' && prefer?.includes('resolution=merge-duplicates')
+        ? 'upsert'
+        : (OPERATIONS[method] ?? method.toLowerCase());
+
+    this.metrics.supabaseErrors.inc({ table, operation, status });
+  }
 }
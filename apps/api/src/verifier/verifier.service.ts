@@ -5,12 +5,15 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import * as snarkjs from 'snarkjs';
-import { promises as fs } from 'fs';
-import * as path from 'path';
-import { existsSync } from 'fs';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  CircuitRegistryService,
+  LoadedCircuit,
+} from '../circuits/circuit-registry.service';
 
 export interface VerificationResult {
   valid: boolean;
+  version?: string; // circuit version verified against
   error?: string;
   timing?: {
     verificationMs: number;
@@ -25,58 +28,35 @@ export interface ProofData {
 @Injectable()
 export class VerifierService {
   private readonly logger = new Logger(VerifierService.name);
-  // Point to the proofs directory bundled with the API
-  private proofsRoot: string;
 
-  // Cache verification keys in memory for performance
-  private vkCache: Map<string, any> = new Map();
-
-  constructor() {
-    const possiblePaths = [
-      path.resolve(__dirname, '../../proofs'), // From verifier/verifier.service.js to dist/apps/api/proofs ✓
-      path.resolve(__dirname, '../../../proofs'), // Legacy fallback
-      path.resolve(__dirname, '../proofs'), // Legacy fallback 2
-      path.resolve(process.cwd(), 'apps/api/proofs'), // cwd-relative
-      path.resolve(process.cwd(), 'proofs'), // root proofs
-    ];
-
-    this.proofsRoot = possiblePaths[0]; // Default
-
-    for (const p of possiblePaths) {
-      try {
-        if (existsSync(p)) {
-          this.proofsRoot = p;
-          this.logger.log(`[VerifierService] Found proofs at: ${p}`);
-          break;
-        }
-      } catch {
-        // Continue to next path
-      }
-    }
-
-    this.logger.log(`[VerifierService] Using proofs from: ${this.proofsRoot}`);
-  }
+  constructor(
+    private readonly metrics: MetricsService,
+    private readonly circuitRegistry: CircuitRegistryService,
+  ) {}
 
   /**
-   * Verify a Groth16 proof against the circuit's verification key
+   * Verify a Groth16 proof against the verification key of the given circuit
+   * version (default: the manifest's); an unknown version throws
    */
   async verifyProof(
     circuit: 'shield' | 'transfer' | 'unshield',
     proofData: ProofData,
+    version?: string,
   ): Promise<VerificationResult> {
+    const artifacts = this.circuitRegistry.resolve(circuit, version);
     const startTime = Date.now();
 
     try {
-      this.logger.log(`Verifying ${circuit} proof...`);
+      this.logger.log(`Verifying ${circuit}@${artifacts.version} proof...`);
 
-      // Get verification key (cached)
-      const vKey = await this.getVerificationKey(circuit);
+      // Loaded and hash-checked at boot
+      const vKey = artifacts.vk;
 
       // Decode proof from base64
       const proof = this.decodeProof(proofData.proof);
 
       // Validate public signals format
-      this.validatePublicSignals(circuit, proofData.publicSignals);
+      this.validatePublicSignals(artifacts, proofData.publicSignals);
 
       // Verify with snarkjs
       const valid = await snarkjs.groth16.verify(
@@ -86,6 +66,10 @@ export class VerifierService {
       );
 
       const verificationMs = Date.now() - startTime;
+      this.metrics.proofVerificationDuration.observe(
+        { circuit, outcome: valid ? 'valid' : 'invalid' },
+        verificationMs / 1000,
+      );
 
       if (valid) {
         this.logger.log(
@@ -97,50 +81,26 @@ export class VerifierService {
 
       return {
         valid,
+        version: artifacts.version,
         timing: { verificationMs },
       };
     } catch (error: any) {
       const verificationMs = Date.now() - startTime;
+      this.metrics.proofVerificationDuration.observe(
+        { circuit, outcome: 'error' },
+        verificationMs / 1000,
+      );
       this.logger.error(`Verification error for ${circuit}:`, error.message);
 
       return {
         valid: false,
+        version: artifacts.version,
         error: error.message || 'Unknown verification error',
         timing: { verificationMs },
       };
     }
   }
 
-  /**
-   * Get verification key for a circuit (with caching)
-   */
-  private async getVerificationKey(
-    circuit: 'shield' | 'transfer' | 'unshield',
-  ): Promise<any> {
-    // Check cache
-    if (this.vkCache.has(circuit)) {
-      return this.vkCache.get(circuit);
-    }
-
-    // Load from proofs directory
-    const vkPath = path.join(this.proofsRoot, circuit, 'vk.json');
-
-    try {
-      const vkJson = await fs.readFile(vkPath, 'utf-8');
-      const vKey = JSON.parse(vkJson);
-
-      // Cache for future use
-      this.vkCache.set(circuit, vKey);
-
-      this.logger.log(`Loaded verification key for ${circuit} circuit`);
-      return vKey;
-    } catch (error: any) {
-      throw new Error(
-        `Failed to load verification key for ${circuit}: ${error.message}`,
-      );
-    }
-  }
-
   /**
    * Decode base64 proof to snarkjs format
    */
@@ -184,22 +144,16 @@ export class VerifierService {
   }
 
   /**
-   * Validate public signals format based on circuit type
+   * Validate public signals against the circuit version's layout
    */
   private validatePublicSignals(
-    circuit: 'shield' | 'transfer' | 'unshield',
+    { circuit, version, publicSignals: layout }: LoadedCircuit,
     publicSignals: string[],
   ): void {
-    const expectedCounts: Record<string, number> = {
-      shield: 1, // commitment
-      transfer: 4, // root, nullifier, new_commitment, fee
-      unshield: 6, // root, nullifier, recipient_lo, recipient_hi, amount, fee
-    };
-
-    const expected = expectedCounts[circuit];
-    if (publicSignals.length !== expected) {
+    // Layout from the manifest, e.g. transfer: root, nullifier, new_commitment, fee
+    if (publicSignals.length !== layout.length) {
       throw new Error(
-        `Invalid public signal count for ${circuit}: expected ${expected}, got ${publicSignals.length}`,
+        `Invalid public signal count for ${circuit}@${version}: expected ${layout.length} (${layout.join(', ')}), got ${publicSignals.length}`,
       );
     }
 
@@ -218,12 +172,4 @@ export class VerifierService {
       }
     }
   }
-
-  /**
-   * Clear verification key cache (useful for testing)
-   */
-  clearCache(): void {
-    this.vkCache.clear();
-    this.logger.log('Verification key cache cleared');
-  }
 }
@@ -0,0 +1,96 @@
+/**
+ * Helpers shared by the unit specs in src/
+ */
+
+import { expect } from '@jest/globals';
+import { PublicKey } from '@solana/web3.js';
+import { generateKeyPairSync } from 'crypto';
+import { NEW_COMMITMENT_EVENT_DISCRIMINATOR } from '../src/indexer/program-events';
+import {
+  TaskOutcome,
+  heartbeatMessage,
+  nextTaskMessage,
+  resultMessage,
+  signMessage,
+} from '../src/proof/prover-protocol';
+import { AppException } from '../src/common/exceptions';
+
+/**
+ * Log messages of a program transaction emitting NewCommitment events
+ */
+export function programLogs(
+  programId: PublicKey,
+  commitments: string[],
+): string[] {
+  return [
+    `Program ${programId.toBase58()} invoke [1]`,
+    ...commitments.map((hex) => {
+      const le = Buffer.from(hex, 'hex').reverse();
+      const data = Buffer.concat([NEW_COMMITMENT_EVENT_DISCRIMINATOR, le]);
+      return `Program data: ${data.toString('base64')}`;
+    }),
+    `Program ${programId.toBase58()} success`,
+  ];
+}
+
+/**
+ * Expect `fn` to throw an AppException with `code`
+ */
+export function expectErrorCode(fn: () => unknown, code: string): void {
+  try {
+    fn();
+    throw new Error(`expected ${code}`);
+  } catch (error) {
+    expect(error).toBeInstanceOf(AppException);
+    expect((error as AppException).getErrorCode()).toBe(code);
+  }
+}
+
+/**
+ * A prover node with a fresh key: its PROVER_NODES entry and private key, and
+ * signed request bodies for the prover node endpoints
+ */
+export function createProverNode(id: string) {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  // Moves forward like the node's clock, even within one millisecond
+  let last = 0;
+  const now = () => (last = Math.max(Date.now(), last + 1));
+
+  return {
+    id,
+    entry: `${id}:${publicKey.export({ format: 'der', type: 'spki' }).toString('base64')}`,
+    privateKey: privateKey
+      .export({ format: 'der', type: 'pkcs8' })
+      .toString('base64'),
+    heartbeat: (capacity = 1, tasks: string[] = []) => {
+      const request = {
+        timestamp: now(),
+        capacity,
+        circuits: ['shield' as const],
+        tasks,
+      };
+      return {
+        ...request,
+        signature: signMessage(heartbeatMessage(id, request), privateKey),
+      };
+    },
+    next: () => {
+      const timestamp = now();
+      return {
+        timestamp,
+        signature: signMessage(nextTaskMessage(id, timestamp), privateKey),
+      };
+    },
+    result: (taskId: string, outcome: TaskOutcome) => {
+      const timestamp = now();
+      return {
+        ...outcome,
+        timestamp,
+        signature: signMessage(
+          resultMessage(id, taskId, timestamp, outcome),
+          privateKey,
+        ),
+      };
+    },
+  };
+}
@@ -8,9 +8,15 @@ import {
   addCommitmentToIndexer as addCommitmentRequest,
   getCircuitCommitmentsFromIndexer,
   getIndexerStatus as fetchIndexerStatus,
+  getIndexerTreeConfig,
+  getLeafByCommitmentFromIndexer as fetchLeaf,
   getMerkleProofFromIndexer as fetchMerkleProof,
+  type CircuitCommitment,
 } from '../../lib/indexerClient';
 
+// Number of most recent shield leaves shown with the status
+const RECENT_COMMITMENTS = 20;
+
 /**
  * Debug Indexer Page
  * 
@@ -24,23 +30,21 @@ interface IndexerStatus {
   initialized: boolean;
   trees: Record<string, { count: number }>;
   latestRoots?: Record<string, { root: string; updatedAt: number } | null>;
-  shieldCommitments?: Array<{
-    index: number;
-    commitmentDecimal: string;
-    commitmentHex: string;
-    preview: string;
-  }>;
+  shieldCommitments?: CircuitCommitment[];
 }
 
 export default function DebugIndexerPage() {
   const [status, setStatus] = useState<IndexerStatus | null>(null);
   const [testCommitment, setTestCommitment] = useState('');
+  const [adminApiKey, setAdminApiKey] = useState('');
   const [testCircuit, setTestCircuit] = useState<'shield' | 'transfer' | 'unshield'>('shield');
   const [proofResult, setProofResult] = useState<{
     root: string;
     path: string[];
     pathPositions: string[];
   } | null>(null);
+  const [expectedPathLength, setExpectedPathLength] = useState<number | null>(null);
+  const [leafResult, setLeafResult] = useState<CircuitCommitment | null>(null);
   const [addResult, setAddResult] = useState<{
     success: boolean;
     root: string;
@@ -57,10 +61,12 @@ export default function DebugIndexerPage() {
       const data = await fetchIndexerStatus();
       const nextStatus: IndexerStatus = { ...data };
 
-      // Also fetch commitments for shield tree
+      // Also fetch the most recent commitments of the shield tree
       if (data.trees.shield && data.trees.shield.count > 0) {
-        const commitmentsData =
-          await getCircuitCommitmentsFromIndexer('shield');
+        const commitmentsData = await getCircuitCommitmentsFromIndexer('shield', {
+          fromIndex: Math.max(0, data.trees.shield.count - RECENT_COMMITMENTS),
+          limit: RECENT_COMMITMENTS,
+        });
         console.log('[Debug] Shield commitments:', commitmentsData);
         nextStatus.shieldCommitments = commitmentsData.commitments;
       }
@@ -108,6 +114,10 @@ export default function DebugIndexerPage() {
       setError('Please enter a commitment');
       return;
     }
+    if (!adminApiKey) {
+      setError('Adding commitments requires an admin API key (indexer:commit scope)');
+      return;
+    }
 
     setLoading(true);
     setError('');
@@ -116,7 +126,7 @@ export default function DebugIndexerPage() {
     try {
       console.log(`[Debug] Adding commitment to ${testCircuit}:`, testCommitment);
       
-      const result = await addCommitmentRequest(testCircuit, testCommitment);
+      const result = await addCommitmentRequest(testCircuit, testCommitment, adminApiKey);
       setAddResult(result);
       console.log('[Debug] Commitment added:', result);
 
@@ -143,7 +153,11 @@ export default function DebugIndexerPage() {
     try {
       console.log(`[Debug] Getting proof for ${testCircuit}:`, testCommitment);
       
-      const result = await fetchMerkleProof(testCircuit, testCommitment);
+      const [result, treeConfig] = await Promise.all([
+        fetchMerkleProof(testCircuit, testCommitment),
+        getIndexerTreeConfig(),
+      ]);
+      setExpectedPathLength(treeConfig.pathLength);
       setProofResult(result);
       console.log('[Debug] Merkle proof:', result);
     } catch (err) {
@@ -154,6 +168,28 @@ export default function DebugIndexerPage() {
     }
   };
 
+  const handleLookUpLeaf = async () => {
+    if (!testCommitment) {
+      setError('Please enter a commitment');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setLeafResult(null);
+
+    try {
+      const result = await fetchLeaf(testCircuit, testCommitment);
+      setLeafResult(result);
+      console.log('[Debug] Leaf:', result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      console.error('[Debug] Failed to look up leaf:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className={styles.page}>
       <Navigation />
@@ -246,10 +282,23 @@ export default function DebugIndexerPage() {
             />
           </div>
 
+          <div className={debugStyles.inputGroup}>
+            <label className={styles.label}>
+              Admin API key (only for Add to Indexer):
+            </label>
+            <input
+              type="password"
+              value={adminApiKey}
+              onChange={(e) => setAdminApiKey(e.target.value)}
+              placeholder="Key with the indexer:commit scope"
+              className={styles.input}
+            />
+          </div>
+
           <div className={debugStyles.buttonRow}>
             <button 
               onClick={handleAddCommitment}
-              disabled={loading || !testCommitment}
+              disabled={loading || !testCommitment || !adminApiKey}
               className={`${styles.button} ${debugStyles.buttonWarning}`}
             >
               Add to Indexer
@@ -262,8 +311,25 @@ export default function DebugIndexerPage() {
             >
               Get Merkle Proof
             </button>
+
+            <button 
+              onClick={handleLookUpLeaf}
+              disabled={loading || !testCommitment}
+              className={`${styles.button} ${debugStyles.buttonSecondary}`}
+            >
+              Look Up Leaf
+            </button>
           </div>
 
+          {leafResult && (
+            <div className={debugStyles.resultSection}>
+              <h3 className={debugStyles.resultTitle}>✅ Leaf #{leafResult.index} ({leafResult.source}, {leafResult.finality}):</h3>
+              <pre className={debugStyles.codeBlock}>
+                {JSON.stringify(leafResult, null, 2)}
+              </pre>
+            </div>
+          )}
+
           {addResult && (
             <div className={debugStyles.resultSection}>
               <h3 className={debugStyles.resultTitle}>✅ Add Result:</h3>
@@ -280,13 +346,13 @@ export default function DebugIndexerPage() {
                 {JSON.stringify(proofResult, null, 2)}
               </pre>
               <div className={`${debugStyles.proofStatus} ${
-                proofResult.path.length === 20 
+                proofResult.path.length === expectedPathLength 
                   ? debugStyles.proofStatusSuccess 
                   : debugStyles.proofStatusError
               }`}>
-                {proofResult.path.length === 20 
-                  ? `✅ Path has correct length (20)` 
-                  : `❌ Path has wrong length (${proofResult.path.length}, expected 20)`}
+                {proofResult.path.length === expectedPathLength 
+                  ? `✅ Path has correct length (${expectedPathLength})` 
+                  : `❌ Path has wrong length (${proofResult.path.length}, expected ${expectedPathLength})`}
               </div>
             </div>
           )}
@@ -302,8 +368,8 @@ export default function DebugIndexerPage() {
             <div className={debugStyles.workflowTitle}>Workflow:</div>
             1. Load Status → Check tree counts<br />
             2. Load Notes → Find a commitment<br />
-            3. Paste commitment → Add to Indexer<br />
-            4. Get Merkle Proof → Verify path has 20 elements
+            3. Paste commitment → Look Up Leaf (Add to Indexer needs an admin key)<br />
+            4. Get Merkle Proof → Verify path length matches the tree config
           </div>
         </section>
       </div>
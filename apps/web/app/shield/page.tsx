@@ -6,13 +6,12 @@ import { useState } from 'react';
 import { computeCommitment, fieldToBuffer, bufferToField } from '../../lib/crypto';
 import { generateProof, decodeProof } from '../../lib/proofService';
 import { ProcessingStep, ShieldInput } from '../../lib/types';
-import { API_BASE_URL, FRONTEND_URL } from '../../lib/constants';
+import { FRONTEND_URL, PROGRAM_ID } from '../../lib/constants';
 import { useWalletData } from '../context/WalletDataContext';
 import { getNextNoteIndex, deriveBlindingFactor } from '../../lib/privacyUtils';
 import styles from '../components/TransactionLayout.module.css';
 import Navigation from '../components/Navigation';
 
-const PROGRAM_ID = new PublicKey('Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz');
 const SHIELD_DISCRIMINATOR = Buffer.from([20, 113, 217, 81, 39, 76, 191, 163]);
 
 export default function ShieldPage() {
@@ -134,56 +133,22 @@ export default function ShieldPage() {
         throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
       }
       
-      // Add commitment to indexer (for Merkle tree)
-      console.log('');
-      console.log('═══════════════════════════════════════════════');
-      console.log('🔥 ADDING COMMITMENT TO INDEXER');
-      console.log('═══════════════════════════════════════════════');
-      setStatus('Adding commitment to indexer...');
+      // Wait for the chain listener to index the commitment (for Merkle tree)
+      setStatus('Waiting for the indexer to pick up your commitment...');
+      let indexedLeaf: { index: number; epoch: number } | null = null;
       try {
-        // Debug: Log the actual values
-        console.log(`[Shield] commitmentHex type: ${typeof commitmentHex}, value:`, commitmentHex);
-        console.log(`[Shield] commitment type: ${typeof commitment}, value:`, commitment);
+        const { waitForCommitmentInIndexer } = await import('../../lib/indexerClient');
+        const leaf = await waitForCommitmentInIndexer('shield', commitmentHex);
         
-        if (!commitmentHex || typeof commitmentHex !== 'string') {
-          const errMsg = `Commitment hash is invalid: type=${typeof commitmentHex}, value=${commitmentHex}`;
-          console.error(`❌ ${errMsg}`);
-          throw new Error(errMsg);
+        if (leaf) {
+          indexedLeaf = leaf;
+          console.log(`✅ Commitment indexed at index ${leaf.index} (source: ${leaf.source})`);
+        } else {
+          console.warn('⚠️  Commitment not indexed yet - it will show up once the indexer catches up.');
+          console.warn(`   Check: ${FRONTEND_URL}/debug-indexer (commitment ${commitmentHex})`);
         }
-        
-        const { addCommitmentToIndexer } = await import('../../lib/indexerClient');
-        console.log(`[Shield] 📤 Calling addCommitmentToIndexer('shield', '${commitmentHex.slice(0, 16)}...')`);
-        console.log(`[Shield] API URL: ${API_BASE_URL}/indexer/shield/commit`);
-        
-        const result = await addCommitmentToIndexer('shield', commitmentHex);
-        
-        console.log(`✅ SUCCESS! Commitment added to indexer`);
-        console.log(`   Index: ${result.index}`);
-        console.log(`   Root: ${result.root.slice(0, 16)}...`);
-        console.log('═══════════════════════════════════════════════');
-        console.log('');
       } catch (indexerErr) {
-        console.log('');
-        console.log('❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌');
-        console.error('❌ FAILED TO ADD COMMITMENT TO INDEXER!');
-        console.error('❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌');
-        console.error('[Shield] Error:', indexerErr);
-        console.error('[Shield] Error details:', {
-          name: (indexerErr as Error).name,
-          message: (indexerErr as Error).message,
-          stack: (indexerErr as Error).stack,
-        });
-        console.error('');
-        console.error('⚠️  WARNING: Shield succeeded but commitment was NOT added to indexer!');
-        console.error('⚠️  You will NOT be able to unshield this note until the commitment is added!');
-        console.error('');
-        console.error('🔧 MANUAL FIX:');
-        console.error(`   1. Go to: ${FRONTEND_URL}/debug-indexer`);
-        console.error(`   2. Paste this commitment: ${commitmentHex}`);
-        console.error(`   3. Click "Add to Indexer" button`);
-        console.error('');
-        console.error('❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌❌');
-        console.log('');
+        console.error('[Shield] Failed to check the indexer:', indexerErr);
         // Don't fail the whole operation if indexer fails
       }
       
@@ -196,6 +161,8 @@ export default function ShieldPage() {
           timestamp: Date.now(),
           txSignature: signature,
           spent: false,
+          leafIndex: indexedLeaf?.index,
+          leafEpoch: indexedLeaf?.epoch,
         });
       } catch (syncError) {
         // Supabase sync failed - this is CRITICAL
@@ -16,8 +16,8 @@ import { Note, ProcessingStep, TransferInput } from '../../lib/types';
 import { useWalletData } from '../context/WalletDataContext';
 import styles from '../components/TransactionLayout.module.css';
 import Navigation from '../components/Navigation';
+import { PROGRAM_ID } from '../../lib/constants';
 
-const PROGRAM_ID = new PublicKey('Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz');
 const TRANSFER_DISCRIMINATOR = Buffer.from([131, 57, 253, 234, 98, 101, 37, 157]);
 
 export default function TransferPage() {
@@ -169,7 +169,11 @@ export default function TransferPage() {
       setStatus('Fetching Merkle proof from indexer...');
       let merkleProof;
       try {
-        merkleProof = await getMerkleProof(selectedNote.commitment, 'shield');
+        merkleProof = await getMerkleProof(selectedNote.commitment, 'shield', {
+          preferPublishedRoot: true,
+          leafIndex: selectedNote.leafIndex,
+          epoch: selectedNote.leafEpoch,
+        });
       } catch (proofErr) {
         const proofError = proofErr as Error;
         if (proofError.message.includes('No commitments found')) {
@@ -303,28 +307,21 @@ export default function TransferPage() {
       const newCommitmentHex = newCommitment.toString(16).padStart(64, '0');
       const transferAmountSOL = (Number(transferAmountLamports) / 1e9).toFixed(4);
       
-      // Add new commitment to indexer (transfer tree)
-      setStatus('Adding commitment to indexer...');
+      // Wait for the chain listener to index the new commitment
+      // (transfer outputs live in the shield tree)
+      setStatus('Waiting for the indexer to pick up the new commitment...');
+      let newLeaf: { index: number; epoch: number } | null = null;
       try {
-        // Debug: Log the actual values
-        console.log(`[Transfer] newCommitmentHex type: ${typeof newCommitmentHex}, value:`, newCommitmentHex);
-        console.log(`[Transfer] newCommitment type: ${typeof newCommitment}, value:`, newCommitment);
-        
-        if (!newCommitmentHex || typeof newCommitmentHex !== 'string') {
-          throw new Error(`New commitment hash is invalid: type=${typeof newCommitmentHex}, value=${newCommitmentHex}`);
+        const { waitForCommitmentInIndexer } = await import('../../lib/indexerClient');
+        const leaf = await waitForCommitmentInIndexer('shield', newCommitmentHex);
+        if (leaf) {
+          newLeaf = leaf;
+          console.log(`[Transfer] New commitment indexed at index ${leaf.index}`);
+        } else {
+          console.warn('[Transfer] New commitment not indexed yet - it will show up once the indexer catches up');
         }
-        
-        const { addCommitmentToIndexer } = await import('../../lib/indexerClient');
-        console.log(`[Transfer] About to add commitment: ${newCommitmentHex.slice(0, 16)}...`);
-        const result = await addCommitmentToIndexer('transfer', newCommitmentHex);
-        console.log(`[Transfer] Commitment added to indexer successfully at index ${result.index}`);
       } catch (indexerErr) {
-        console.error('[Transfer] Failed to add commitment to indexer:', indexerErr);
-        console.error('[Transfer] Error details:', {
-          name: (indexerErr as Error).name,
-          message: (indexerErr as Error).message,
-          stack: (indexerErr as Error).stack,
-        });
+        console.error('[Transfer] Failed to check the indexer:', indexerErr);
         // Don't fail the whole operation if indexer fails
       }
       
@@ -337,6 +334,8 @@ export default function TransferPage() {
         timestamp: Date.now(),
         txSignature: signature,
         spent: false,
+        leafIndex: newLeaf?.index,
+        leafEpoch: newLeaf?.epoch,
       });
       
       // If there's change left over, create a change note for yourself
@@ -9,7 +9,10 @@ import {
   SendTransactionError,
 } from '@solana/web3.js';
 import { useState, useEffect } from 'react';
-import { getIndexerSyncStatus } from '../../lib/indexerClient';
+import {
+  getIndexerSyncStatus,
+  subscribeToIndexerEvents,
+} from '../../lib/indexerClient';
 import {
   deriveSecretKey,
   generateNoteId,
@@ -18,12 +21,11 @@ import {
 } from '../../lib/privacyUtils';
 import { generateProof, decodeProof } from '../../lib/proofService';
 import { Note, ProcessingStep, UnshieldInput } from '../../lib/types';
-import { FRONTEND_URL, API_BASE_URL } from '../../lib/constants';
+import { FRONTEND_URL, API_BASE_URL, INDEXER_PATH, PROGRAM_ID } from '../../lib/constants';
 import { useWalletData } from '../context/WalletDataContext';
 import styles from '../components/TransactionLayout.module.css';
 import Navigation from '../components/Navigation';
 
-const PROGRAM_ID = new PublicKey('Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz');
 const UNSHIELD_DISCRIMINATOR = Buffer.from([136, 159, 238, 158, 125, 27, 217, 224]);
 const toLittleEndianBytes = (value: bigint, byteLength: number): Buffer => {
   if (value < 0n) {
@@ -153,7 +155,11 @@ export default function UnshieldPage() {
       
       let merkleProof;
       try {
-        merkleProof = await getMerkleProof(selectedNote.commitment, 'shield');
+        merkleProof = await getMerkleProof(selectedNote.commitment, 'shield', {
+          preferPublishedRoot: true,
+          leafIndex: selectedNote.leafIndex,
+          epoch: selectedNote.leafEpoch,
+        });
         console.log('✅ Got Merkle proof:');
         console.log(`   Root: ${merkleProof.rootHex}`);
         console.log(`   Path length: ${merkleProof.path.length}`);
@@ -183,7 +189,7 @@ export default function UnshieldPage() {
             `1. Click "Load Status" - check shield tree count\n` +
             `2. Click "Load Notes" - find your commitment\n` +
             `3. Paste commitment in input field\n` +
-            `4. Click "Add to Indexer"\n` +
+            `4. Enter an admin API key and click "Add to Indexer"\n` +
             `5. Click "Get Merkle Proof" to verify it works`
           );
         }
@@ -194,8 +200,9 @@ export default function UnshieldPage() {
             `Merkle proof has empty path! This means:\n` +
             `1. The commitment was not added to the indexer\n` +
             `2. The indexer tree is empty\n` +
-            `3. You need to manually add the commitment\n\n` +
-            `Try: curl -X POST ${API_BASE_URL}/indexer/shield/commit \\\n` +
+            `3. An admin needs to sync the commitment manually\n\n` +
+            `Try: curl -X POST ${API_BASE_URL}${INDEXER_PATH}/shield/sync \\\n` +
+            `  -H "Authorization: Bearer <ADMIN_API_KEY>" \\\n` +
             `  -H "Content-Type: application/json" \\\n` +
             `  -d '{"commitment":"${selectedNote.commitment}"}'`
           );
@@ -214,62 +221,120 @@ export default function UnshieldPage() {
             'Your note is not in the Merkle tree yet. This can happen if:\n' +
             '1. The note was just created (wait a few seconds)\n' +
             '2. The indexer was restarted (notes are stored locally but tree needs rebuilding)\n' +
-            '3. You need to manually add the commitment to the indexer\n\n' +
+            '3. An admin needs to sync the commitment to the indexer\n\n' +
             `Commitment: ${selectedNote.commitment.slice(0, 16)}...\n\n` +
             `Try running:\n` +
-            `curl -X POST ${API_BASE_URL}/indexer/shield/commit \\\n` +
+            `curl -X POST ${API_BASE_URL}${INDEXER_PATH}/shield/sync \\\n` +
+            `  -H "Authorization: Bearer <ADMIN_API_KEY>" \\\n` +
             `  -H "Content-Type: application/json" \\\n` +
             `  -d '{"commitment":"${selectedNote.commitment}"}'`
           );
         }
         throw proofErr; // Re-throw other errors
       }
-      const { rootHex, path, pathPositions } = merkleProof;
+      let { rootHex, path, pathPositions } = merkleProof;
 
-      const waitForRootOnChain = async (hex: string) => {
+      // Resolves with a fresh proof when a newer root was published in place
+      // of ours (the indexer only publishes the newest root of a burst)
+      const waitForRootOnChain = async (hex: string): Promise<typeof merkleProof | null> => {
         const normalized = hex.replace(/^0x/, '').toLowerCase();
-        const maxAttempts = 12;
-        for (let attempt = 0; attempt < maxAttempts; attempt++) {
-          const syncStatus = await getIndexerSyncStatus().catch(() => null);
-          const statusEntry = syncStatus?.rootStatus.find(
-            (entry) => entry.root === normalized,
-          );
+        const timeoutMs = 60_000;
+        const deadline = Date.now() + timeoutMs;
+
+        // Root events wake the loop up right away; while the stream is open
+        // the status is only re-polled as a fallback
+        let streamOpen = false;
+        let publishedAt: number | null = null;
+        let newerRootPublished = false;
+        let wakeUp = () => {};
+        const unsubscribe = subscribeToIndexerEvents({
+          onOpen: () => {
+            streamOpen = true;
+          },
+          onError: () => {
+            streamOpen = false;
+          },
+          root_published: (event) => {
+            if (event.root === normalized) {
+              publishedAt = event.at;
+            } else {
+              newerRootPublished = true;
+            }
+            wakeUp();
+          },
+          root_failed: (event) => {
+            if (event.root === normalized) wakeUp();
+          },
+        });
+
+        try {
+          for (let attempt = 0; Date.now() < deadline; attempt++) {
+            if (publishedAt !== null) {
+              setStatus(
+                `✅ Merkle root published on-chain (${new Date(publishedAt).toLocaleTimeString()}). Continuing unshield...`,
+              );
+              return null;
+            }
 
-          if (statusEntry?.status === 'published') {
-            const seenAt = new Date(statusEntry.updatedAt).toLocaleTimeString();
-            setStatus(
-              `✅ Merkle root published on-chain (${seenAt}). Continuing unshield...`,
+            const syncStatus = await getIndexerSyncStatus().catch(() => null);
+            const statusEntry = syncStatus?.rootStatus.find(
+              (entry) => entry.root === normalized,
             );
-            return;
-          }
 
-          const latestShieldRoot = syncStatus?.indexerStatus.latestRoots.shield;
-          const parts = [
-            `⏳ Merkle root pending on-chain (attempt ${attempt + 1}/${maxAttempts})`,
-            `\n\n📝 What's happening:`,
-            `• Your note has been added to the Merkle tree ✓`,
-            `• Waiting for the root to be published on-chain...`,
-            `• This happens automatically every ~30 seconds`,
-          ];
-          
-          if (statusEntry) {
-            parts.push(`\n📊 Root Status: ${statusEntry.status}`);
-            if (statusEntry.signature) {
-              parts.push(`   Transaction: ${statusEntry.signature.slice(0, 16)}...`);
+            if (statusEntry?.status === 'published') {
+              const seenAt = new Date(statusEntry.updatedAt).toLocaleTimeString();
+              setStatus(
+                `✅ Merkle root published on-chain (${seenAt}). Continuing unshield...`,
+              );
+              return null;
             }
-            if (statusEntry.error) {
-              parts.push(`   ⚠️ Last error: ${statusEntry.error}`);
+
+            if (newerRootPublished || statusEntry?.status === 'superseded') {
+              const refreshed = await getMerkleProof(selectedNote.commitment, 'shield', {
+                preferPublishedRoot: true,
+                leafIndex: selectedNote.leafIndex,
+                epoch: selectedNote.leafEpoch,
+              }).catch(() => null);
+              if (refreshed?.rootPublished) {
+                setStatus('✅ A newer Merkle root covering your note is on-chain. Continuing unshield...');
+                return refreshed;
+              }
+              newerRootPublished = false;
+            }
+
+            const latestShieldRoot = syncStatus?.indexerStatus.latestRoots.shield;
+            const parts = [
+              `⏳ Merkle root pending on-chain (check ${attempt + 1}, ${Math.ceil((deadline - Date.now()) / 1000)}s left)`,
+              `\n\n📝 What's happening:`,
+              `• Your note has been added to the Merkle tree ✓`,
+              `• Waiting for the root to be published on-chain...`,
+              `• The indexer publishes the newest root a few seconds after new commitments`,
+            ];
+          
+            if (statusEntry) {
+              parts.push(`\n📊 Root Status: ${statusEntry.status}`);
+              if (statusEntry.signature) {
+                parts.push(`   Transaction: ${statusEntry.signature.slice(0, 16)}...`);
+              }
+              if (statusEntry.error) {
+                parts.push(`   ⚠️ Last error: ${statusEntry.error}`);
+              }
+            } else if (latestShieldRoot?.root) {
+              parts.push(`\n🌳 Latest root: ${latestShieldRoot.root.slice(0, 16)}...`);
+              parts.push(`   Updated: ${new Date(latestShieldRoot.updatedAt).toLocaleTimeString()}`);
             }
-          } else if (latestShieldRoot?.root) {
-            parts.push(`\n🌳 Latest root: ${latestShieldRoot.root.slice(0, 16)}...`);
-            parts.push(`   Updated: ${new Date(latestShieldRoot.updatedAt).toLocaleTimeString()}`);
-          }
           
-          parts.push(`\n💡 Tip: You can cancel and try again later. Your note is safely stored.`);
+            parts.push(`\n💡 Tip: You can cancel and try again later. Your note is safely stored.`);
           
-          setStatus(parts.join(' '));
+            setStatus(parts.join(' '));
 
-          await new Promise((resolve) => setTimeout(resolve, 5000));
+            await new Promise<void>((resolve) => {
+              wakeUp = resolve;
+              setTimeout(resolve, streamOpen ? 15000 : 5000);
+            });
+          }
+        } finally {
+          unsubscribe();
         }
 
         throw new Error(
@@ -280,7 +345,12 @@ export default function UnshieldPage() {
         );
       };
 
-      await waitForRootOnChain(rootHex);
+      if (!merkleProof.rootPublished) {
+        const refreshed = await waitForRootOnChain(rootHex);
+        if (refreshed) {
+          ({ rootHex, path, pathPositions } = refreshed);
+        }
+      }
       
       // Parse recipient address and split into limbs
       let recipientPubkey: PublicKey;
@@ -18,11 +18,17 @@ import {
   UI_CONFIG,
 } from './constants';
 import type { AutoSyncConfig, SyncResult } from '@noirwire/types';
+import {
+  subscribeToIndexerEvents,
+  type IndexerEventMap,
+} from './indexerClient';
 
 export class AutoViewingKeySync {
   private config: AutoSyncConfig;
   private syncInterval: NodeJS.Timeout | null = null;
   private isSyncing = false;
+  private closeEvents: (() => void) | null = null;
+  private eventsConnected = false;
 
   constructor(config: AutoSyncConfig) {
     this.config = config;
@@ -37,8 +43,23 @@ export class AutoViewingKeySync {
     // Initial sync
     this.syncOnce().catch(this.handleError);
 
+    // New commitments are pushed by the indexer; the periodic scan only
+    // runs while the event stream is down
+    this.closeEvents = subscribeToIndexerEvents({
+      onOpen: () => {
+        this.eventsConnected = true;
+      },
+      onError: () => {
+        this.eventsConnected = false;
+      },
+      commitment_added: (event) => {
+        this.handleCommitmentAdded(event).catch(this.handleError);
+      },
+    });
+
     // Periodic sync
     this.syncInterval = setInterval(() => {
+      if (this.eventsConnected) return;
       this.syncOnce().catch(this.handleError);
     }, SYNC_CONFIG.INTERVAL_MS);
 
@@ -51,6 +72,10 @@ export class AutoViewingKeySync {
    * Stop automatic synchronization
    */
   stop(): void {
+    this.closeEvents?.();
+    this.closeEvents = null;
+    this.eventsConnected = false;
+
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
@@ -153,6 +178,28 @@ export class AutoViewingKeySync {
     }
   }
 
+  /**
+   * Check a commitment pushed by the indexer against this wallet's notes
+   */
+  private async handleCommitmentAdded(
+    event: IndexerEventMap['commitment_added'],
+  ): Promise<void> {
+    if (event.tree !== 'shield') return;
+
+    const note = await this.tryDecryptCommitment(
+      event.commitment,
+      event.blockTime ?? Math.floor(event.at / 1000),
+      event.signature ?? '',
+    );
+
+    if (note) {
+      console.log(
+        `✅ Found note: ${parseFloat(note.amount).toFixed(UI_CONFIG.NOTE_DISPLAY_DECIMALS)} SOL`,
+      );
+      this.notifyUpdate();
+    }
+  }
+
   /**
    * Parse commitment from program log
    */
@@ -6,13 +6,15 @@
 import { PublicKey } from '@solana/web3.js';
 
 // Network Configuration
-export const SOLANA_NETWORK = 'devnet';
+export const SOLANA_NETWORK =
+  process.env.NEXT_PUBLIC_SOLANA_NETWORK || 'devnet';
 export const SOLANA_RPC_URL =
   process.env.NEXT_PUBLIC_SOLANA_RPC || 'https://api.devnet.solana.com';
 
 // Program Configuration
 export const PROGRAM_ID = new PublicKey(
-  'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz',
+  process.env.NEXT_PUBLIC_PROGRAM_ID ||
+    'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz',
 );
 export const PROGRAM_ADDRESS = PROGRAM_ID; // Alias for convenience
 
@@ -26,6 +28,19 @@ export const API_CONFIG = {
 
 export const API_BASE_URL = API_CONFIG.BASE_URL;
 export const PROOF_ENDPOINT = `${API_CONFIG.BASE_URL}/proof/generate`;
+export const PROOF_JOBS_ENDPOINT = `${API_CONFIG.BASE_URL}/proof/jobs`;
+
+// Proof jobs are polled instead of holding one request open past TIMEOUT
+export const PROOF_JOB_CONFIG = {
+  POLL_INTERVAL: 1000, // 1 second
+  MAX_WAIT: 5 * 60 * 1000, // 5 minutes
+} as const;
+
+// Indexer pool of PROGRAM_ID - unset uses the API's default pool (/indexer)
+export const INDEXER_POOL = process.env.NEXT_PUBLIC_INDEXER_POOL || null;
+export const INDEXER_PATH = INDEXER_POOL
+  ? `/pools/${INDEXER_POOL}/indexer`
+  : '/indexer';
 
 // Frontend Configuration
 export const FRONTEND_URL =
@@ -50,15 +65,8 @@ export const CIRCUITS = {
   UNSHIELD: 'unshield',
 } as const;
 
-// Merkle Tree Configuration
-export const MERKLE_TREE_DEPTH = 20;
-export const MAX_NOTES = 2 ** MERKLE_TREE_DEPTH;
-
-// Demo/Placeholder Values (TODO: Replace with real indexer)
-export const DEMO_MERKLE_ROOT =
-  '21663839004416932945382355908790599225266501822907911457504978515578255421292';
-export const DEMO_MERKLE_PATH = Array(MERKLE_TREE_DEPTH).fill('0');
-export const DEMO_MERKLE_POSITIONS = Array(MERKLE_TREE_DEPTH).fill('0');
+// Merkle tree parameters (depth, arity, zero leaf) are served by the
+// indexer - see getIndexerTreeConfig in indexerClient.ts
 
 // LocalStorage Keys
 export const STORAGE_KEYS = {
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { INDEXER_PATH } from './constants';
 
 /**
  * Indexer Client
@@ -6,44 +7,232 @@ import axios from 'axios';
  *
  * Makes HTTP requests to:
  * - GET /indexer/status
+ * - GET /indexer/config
  * - POST /indexer/:circuit/proof
+ * - POST /indexer/:circuit/proofs
+ * - GET /indexer/:circuit/buckets/:bucket
+ * - GET /indexer/:circuit/commitments
+ * - GET /indexer/:circuit/commitments/:commitment
+ * - GET /indexer/:circuit/leaves/:index
+ * - GET /indexer/events (server-sent events)
  * - GET /indexer/:circuit/root
+ * - GET /indexer/:circuit/roots
+ * - GET /indexer/nullifiers/:nullifier
+ * - POST /indexer/nullifiers/check
+ * - GET /pools
+ *
+ * Indexer routes go to the pool set by NEXT_PUBLIC_INDEXER_POOL
+ * (/pools/:pool/indexer/...), or to the API's default pool.
  */
 
 export interface MerkleProof {
   root: string;
   path: string[];
   pathPositions: string[];
+  leafIndex: number;
+  leafCount: number;
+  epoch: number;
+}
+
+export interface BatchProofItem {
+  commitment: string;
+  path?: string[];
+  pathPositions?: string[];
+  leafIndex?: number;
+  error?: {
+    errorCode: string;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+export interface MerkleProofBatch {
+  root: string;
+  leafCount: number;
+  epoch: number;
+  found: number;
+  proofs: BatchProofItem[];
+}
+
+/**
+ * Aligned subtree of leaves (GET /indexer/:circuit/buckets/:bucket) with the
+ * siblings above it: a client computes its own path from it, so the indexer
+ * does not learn which commitment is being spent
+ */
+export interface MerkleBucket {
+  root: string;
+  leafCount: number;
+  epoch: number;
+  bucket: number;
+  height: number;
+  fromIndex: number; // index of the bucket's first leaf
+  leaves: string[]; // hex; positions past the tree size are zero leaves
+  path: string[]; // hex siblings from the bucket root up
+  pathPositions: string[];
+}
+
+/**
+ * Historical root (or tree size) to prove against instead of the current root.
+ * `epoch` selects a sealed tree epoch; it is inferred from the root or the
+ * commitment when omitted.
+ */
+export interface ProofTarget {
+  root?: string;
+  leafCount?: number;
+  epoch?: number;
 }
 
 type CircuitType = 'shield' | 'transfer' | 'unshield';
 
+/**
+ * Merkle tree parameters of the indexer's pool (GET /indexer/config)
+ * A proof path holds depth * (arity - 1) siblings, hex encoded.
+ */
+export interface IndexerTreeConfig {
+  depth: number;
+  arity: number;
+  hash: 'poseidon';
+  zeroLeaf: string; // decimal
+  capacity: number;
+  pathLength: number;
+  zeroValues: string[]; // hex, zeroValues[level] = root of an empty subtree
+  emptyRoot: string;
+  bucketHeight: number; // height of the subtrees served as buckets
+  bucketSize: number; // leaves per bucket
+  trees: Record<CircuitType, 'shield' | 'unshield'>;
+}
+
 export interface CircuitCommitment {
-  index: number;
+  epoch: number;
+  index: number; // index within the epoch
   commitmentDecimal: string;
   commitmentHex: string;
   preview: string;
+  source: 'chain' | 'api' | 'sync';
+  signature: string | null;
+  slot: number | null;
+  blockTime: number | null;
+  finality: 'processed' | 'confirmed' | 'finalized';
+  createdAt: number;
 }
 
 export interface CircuitCommitmentsResponse {
   circuit: CircuitType;
+  epoch: number;
   count: number;
+  fromIndex: number;
+  limit: number;
+  nextIndex: number | null;
   commitments: CircuitCommitment[];
 }
 
+export type RootPublicationStatus =
+  | 'pending'
+  | 'published'
+  | 'failed'
+  | 'superseded'
+  | 'evicted'
+  | 'orphaned';
+
+export interface RootHistoryEntry {
+  root: string;
+  leafCount: number;
+  createdAt: number;
+  status: RootPublicationStatus;
+  onChain: boolean;
+  onChainAge: number | null;
+  signature?: string;
+  error?: string;
+}
+
+export interface RootHistory {
+  circuit: CircuitType;
+  onChain: {
+    available: boolean;
+    size: number;
+    capacity: number;
+    cursor: number;
+    error?: string;
+  };
+  total: number;
+  roots: RootHistoryEntry[];
+}
+
+export interface NullifierStatus {
+  nullifier: string;
+  spent: boolean;
+  circuit?: 'transfer' | 'unshield';
+  signature?: string;
+  slot?: number;
+  finality?: 'processed' | 'confirmed' | 'finalized';
+  spentAt?: number;
+}
+
+export interface IndexerAuditSummary {
+  status: 'consistent' | 'divergent' | 'unavailable';
+  checkedAt: number;
+  issues: string[];
+}
+
+export interface TreeStatus {
+  count: number;
+  unfinalized: number;
+  epoch: number;
+  sealedEpochs: number;
+  capacity: number;
+}
+
+/**
+ * A pool served by the indexer, as listed by GET /pools
+ */
+export interface IndexerPoolSummary {
+  key: string;
+  programId: string;
+  network: string;
+  default: boolean;
+  rpcConfigured: boolean;
+  publishing: boolean;
+  initialized: boolean;
+  listening: boolean;
+  tree: Omit<
+    IndexerTreeConfig,
+    'capacity' | 'pathLength' | 'zeroValues' | 'emptyRoot' | 'trees'
+  >;
+  trees: Record<string, { count: number; epoch: number }>;
+}
+
 export interface SyncStatus {
+  pool: string;
   isListening: boolean;
   rpcConfigured: boolean;
   programId: string | null;
   solanaNetwork: string;
   indexerStatus: {
     initialized: boolean;
-    trees: Record<string, { count: number }>;
+    trees: Record<string, TreeStatus>;
     latestRoots: Record<string, { root: string; updatedAt: number } | null>;
+    audit: IndexerAuditSummary | null;
+  };
+  publicationQueue: {
+    depth: number;
+    queued: string | null;
+    publishing: string | null;
+    nextAttemptAt: number | null;
+    published: number;
+    superseded: number;
+    failed: number;
+    lastPublishedAt: number | null;
+    lastError: { root: string; error: string; at: number } | null;
   };
   rootStatus: Array<{
     root: string;
-    status: 'pending' | 'published' | 'failed';
+    status:
+      | 'queued'
+      | 'publishing'
+      | 'published'
+      | 'failed'
+      | 'superseded'
+      | 'orphaned';
     signature?: string;
     error?: string;
     updatedAt: number;
@@ -90,6 +279,7 @@ const callIndexer = async <T>(
   method: 'GET' | 'POST',
   endpoint: string,
   data?: unknown,
+  headers: Record<string, string> = {},
 ): Promise<T> => {
   const baseUrl = getIndexerBaseUrl();
   const url = `${baseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
@@ -108,7 +298,7 @@ const callIndexer = async <T>(
         url,
         method,
         data,
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...headers },
         timeout: 10_000,
       });
 
@@ -159,6 +349,7 @@ const callIndexer = async <T>(
  *
  * @param circuit - Circuit type: 'shield' | 'transfer' | 'unshield'
  * @param commitment - The commitment hash to get proof for
+ * @param target - Optional historical root or leaf count to prove against
  * @returns Merkle proof with root, path, and pathPositions
  *
  * @throws Error if commitment not found or indexer error
@@ -166,6 +357,7 @@ const callIndexer = async <T>(
 export async function getMerkleProofFromIndexer(
   circuit: CircuitType,
   commitment: string,
+  target: ProofTarget = {},
 ): Promise<MerkleProof> {
   console.log(
     `[Indexer Client] Querying proof for ${circuit}: ${commitment.slice(0, 16)}...`,
@@ -174,8 +366,8 @@ export async function getMerkleProofFromIndexer(
   try {
     const proof = await callIndexer<MerkleProof>(
       'POST',
-      `/indexer/${circuit}/proof`,
-      { commitment },
+      `${INDEXER_PATH}/${circuit}/proof`,
+      { commitment, ...target },
     );
 
     console.log(
@@ -190,6 +382,70 @@ export async function getMerkleProofFromIndexer(
   }
 }
 
+/**
+ * Get a bucket of leaves and the siblings above it
+ *
+ * @param circuit - Circuit type: 'shield' | 'transfer' | 'unshield'
+ * @param bucket - Bucket number: leaf index / bucketSize (see tree config)
+ * @param target - Optional historical root or leaf count, and the epoch
+ */
+export async function getMerkleBucketFromIndexer(
+  circuit: CircuitType,
+  bucket: number,
+  target: ProofTarget = {},
+): Promise<MerkleBucket> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(target)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const query = params.toString() ? `?${params}` : '';
+
+  try {
+    return await callIndexer<MerkleBucket>(
+      'GET',
+      `${INDEXER_PATH}/${circuit}/buckets/${bucket}${query}`,
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[Indexer Client] Failed to get bucket: ${errorMsg}`);
+    throw error;
+  }
+}
+
+/**
+ * Get Merkle proofs for several commitments against one consistent root
+ *
+ * Unknown or malformed commitments come back with a per-item `error`
+ * instead of failing the whole request.
+ *
+ * @param circuit - Circuit type: 'shield' | 'transfer' | 'unshield'
+ * @param commitments - Commitment hashes to get proofs for (max 256)
+ * @param target - Optional historical root or leaf count to prove against
+ */
+export async function getMerkleProofsFromIndexer(
+  circuit: CircuitType,
+  commitments: string[],
+  target: ProofTarget = {},
+): Promise<MerkleProofBatch> {
+  try {
+    const batch = await callIndexer<MerkleProofBatch>(
+      'POST',
+      `${INDEXER_PATH}/${circuit}/proofs`,
+      { commitments, ...target },
+    );
+
+    console.log(
+      `[Indexer Client] Got ${batch.found}/${commitments.length} proofs: root=${batch.root.slice(0, 16)}...`,
+    );
+
+    return batch;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[Indexer Client] Failed to get proofs: ${errorMsg}`);
+    throw error;
+  }
+}
+
 /**
  * Get Merkle root for a circuit
  *
@@ -204,7 +460,7 @@ export async function getMerkleRootFromIndexer(
   try {
     const { root } = await callIndexer<{ root: string }>(
       'GET',
-      `/indexer/${circuit}/root`,
+      `${INDEXER_PATH}/${circuit}/root`,
     );
 
     console.log(
@@ -220,16 +476,51 @@ export async function getMerkleRootFromIndexer(
 }
 
 /**
- * Add a commitment to the indexer
+ * Get the root history of a circuit (newest first) with the on-chain status
+ * of each root. Roots with status 'published' are accepted by the program.
+ *
+ * @param limit - Number of most recent roots (default 100)
+ */
+export async function getRootHistoryFromIndexer(
+  circuit: CircuitType,
+  limit?: number,
+): Promise<RootHistory> {
+  try {
+    const query = limit ? `?limit=${limit}` : '';
+    return await callIndexer<RootHistory>(
+      'GET',
+      `${INDEXER_PATH}/${circuit}/roots${query}`,
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[Indexer Client] Failed to get root history: ${errorMsg}`);
+    throw error;
+  }
+}
+
+/**
+ * Add a commitment to the indexer (admin route, for recovery/debugging)
+ *
+ * Shield and transfer outputs are indexed by the chain listener; use
+ * `waitForCommitmentInIndexer` to wait for them instead.
  *
  * @param circuit - Circuit type: 'shield' | 'transfer' | 'unshield'
  * @param commitment - The commitment hash to add (hex string)
- * @returns Success response with new root
+ * @param apiKey - Admin API key with the `indexer:commit` scope
+ * @returns Success response with new root (`duplicate` when the commitment
+ *          was already indexed; the existing leaf is returned)
  */
 export async function addCommitmentToIndexer(
   circuit: CircuitType,
   commitment: string,
-): Promise<{ success: boolean; root: string; index: number }> {
+  apiKey: string,
+): Promise<{
+  success: boolean;
+  root: string;
+  index: number;
+  epoch: number;
+  duplicate: boolean;
+}> {
   // Validate commitment is provided
   if (!commitment || typeof commitment !== 'string') {
     throw new Error(`Invalid commitment: ${commitment}`);
@@ -244,7 +535,14 @@ export async function addCommitmentToIndexer(
       success: boolean;
       root: string;
       index: number;
-    }>('POST', `/indexer/${circuit}/commit`, { commitment });
+      epoch: number;
+      duplicate: boolean;
+    }>(
+      'POST',
+      `${INDEXER_PATH}/${circuit}/commit`,
+      { commitment },
+      { Authorization: `Bearer ${apiKey}` },
+    );
 
     // Validate response has expected fields
     if (!result || typeof result.index !== 'number' || !result.root) {
@@ -254,7 +552,7 @@ export async function addCommitmentToIndexer(
     }
 
     console.log(
-      `[Indexer Client] Commitment added: index=${result.index}, root=${result.root.slice(0, 16)}...`,
+      `[Indexer Client] Commitment ${result.duplicate ? 'already indexed' : 'added'}: index=${result.index}, epoch=${result.epoch}, root=${result.root.slice(0, 16)}...`,
     );
 
     return result;
@@ -265,6 +563,62 @@ export async function addCommitmentToIndexer(
   }
 }
 
+/**
+ * Wait until the chain listener has indexed a commitment
+ *
+ * A matching `commitment_added` event wakes the wait up right away; the leaf
+ * is also looked up every 5s in case the event stream is unavailable.
+ *
+ * @returns The indexed leaf, or null if it did not show up within `timeoutMs`
+ */
+export async function waitForCommitmentInIndexer(
+  circuit: CircuitType,
+  commitment: string,
+  timeoutMs = 60_000,
+): Promise<CircuitCommitment | null> {
+  const normalized = commitment
+    .replace(/^0x/i, '')
+    .toLowerCase()
+    .padStart(64, '0');
+  const deadline = Date.now() + timeoutMs;
+
+  let wakeUp = () => {};
+  const unsubscribe = subscribeToIndexerEvents({
+    onOpen: () => wakeUp(),
+    commitment_added: (event) => {
+      if (event.tree === circuit && event.commitment === normalized) wakeUp();
+    },
+  });
+
+  try {
+    while (Date.now() < deadline) {
+      const leaf = await callIndexer<CircuitCommitment>(
+        'GET',
+        `${INDEXER_PATH}/${circuit}/commitments/${normalized}`,
+      ).catch(() => null);
+      if (leaf) return leaf;
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(
+          resolve,
+          Math.min(5_000, Math.max(0, deadline - Date.now())),
+        );
+        wakeUp = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+
+    console.warn(
+      `[Indexer Client] Commitment ${normalized.slice(0, 16)}... not indexed after ${timeoutMs}ms`,
+    );
+    return null;
+  } finally {
+    unsubscribe();
+  }
+}
+
 /**
  * Get indexer status
  *
@@ -272,15 +626,15 @@ export async function addCommitmentToIndexer(
  */
 export async function getIndexerStatus(): Promise<{
   initialized: boolean;
-  trees: Record<string, { count: number }>;
+  trees: Record<string, TreeStatus>;
 }> {
   console.log(`[Indexer Client] Checking indexer status`);
 
   try {
     const status = await callIndexer<{
       initialized: boolean;
-      trees: Record<string, { count: number }>;
-    }>('GET', '/indexer/status');
+      trees: Record<string, TreeStatus>;
+    }>('GET', `${INDEXER_PATH}/status`);
 
     console.log(
       `[Indexer Client] Status: initialized=${status.initialized}, trees=${JSON.stringify(status.trees)}`,
@@ -294,18 +648,115 @@ export async function getIndexerStatus(): Promise<{
   }
 }
 
+export interface IndexerEventMap {
+  commitment_added: {
+    tree: string;
+    epoch: number;
+    index: number;
+    commitment: string;
+    root: string;
+    source: 'chain' | 'api' | 'sync';
+    signature: string | null;
+    slot: number | null;
+    blockTime: number | null;
+    at: number;
+  };
+  root_computed: {
+    tree: string;
+    epoch: number;
+    root: string;
+    leafCount: number;
+    at: number;
+  };
+  epoch_started: {
+    tree: string;
+    epoch: number;
+    sealedRoot: string;
+    sealedLeafCount: number;
+    at: number;
+  };
+  root_published: { root: string; signature: string | null; at: number };
+  root_failed: { root: string; error: string; at: number };
+}
+
+export type IndexerEventHandlers = {
+  [K in keyof IndexerEventMap]?: (event: IndexerEventMap[K]) => void;
+} & {
+  onOpen?: () => void;
+  onError?: () => void;
+};
+
+/**
+ * Subscribe to the indexer's server-sent events
+ *
+ * The browser reconnects on its own after a dropped connection; events sent
+ * in between are lost, so callers should re-check state in `onOpen`.
+ *
+ * @returns Function that closes the stream (no-op outside the browser)
+ */
+export function subscribeToIndexerEvents(
+  handlers: IndexerEventHandlers,
+): () => void {
+  if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+    return () => undefined;
+  }
+
+  const source = new EventSource(
+    `${getIndexerBaseUrl()}${INDEXER_PATH}/events`,
+  );
+  const eventTypes = [
+    'commitment_added',
+    'root_computed',
+    'epoch_started',
+    'root_published',
+    'root_failed',
+  ] as const;
+
+  for (const type of eventTypes) {
+    const handler = handlers[type] as ((event: unknown) => void) | undefined;
+    if (!handler) continue;
+    source.addEventListener(type, (message) => {
+      try {
+        handler(JSON.parse((message as MessageEvent<string>).data));
+      } catch (error) {
+        console.error(`[Indexer Client] Bad ${type} event:`, error);
+      }
+    });
+  }
+
+  source.onopen = () => handlers.onOpen?.();
+  source.onerror = () => handlers.onError?.();
+
+  return () => source.close();
+}
+
 /**
- * Fetch the indexed commitments for a circuit (debug endpoint).
+ * Fetch one page of the indexed commitments for a circuit (debug endpoint).
+ * Pass the returned `nextIndex` as `fromIndex` to get the next page.
+ * Pages cover the current tree epoch unless `epoch` is given.
  */
 export async function getCircuitCommitmentsFromIndexer(
   circuit: CircuitType,
+  page: { fromIndex?: number; limit?: number; epoch?: number } = {},
 ): Promise<CircuitCommitmentsResponse> {
   console.log(`[Indexer Client] Fetching commitments for ${circuit}`);
 
+  const params = new URLSearchParams();
+  if (page.epoch !== undefined) {
+    params.set('epoch', String(page.epoch));
+  }
+  if (page.fromIndex !== undefined) {
+    params.set('fromIndex', String(page.fromIndex));
+  }
+  if (page.limit !== undefined) {
+    params.set('limit', String(page.limit));
+  }
+  const query = params.toString() ? `?${params.toString()}` : '';
+
   try {
     return await callIndexer<CircuitCommitmentsResponse>(
       'GET',
-      `/indexer/${circuit}/commitments`,
+      `${INDEXER_PATH}/${circuit}/commitments${query}`,
     );
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
@@ -314,9 +765,69 @@ export async function getCircuitCommitmentsFromIndexer(
   }
 }
 
+/**
+ * Look up the leaf (index and provenance) holding a commitment
+ */
+export async function getLeafByCommitmentFromIndexer(
+  circuit: CircuitType,
+  commitment: string,
+): Promise<CircuitCommitment> {
+  try {
+    return await callIndexer<CircuitCommitment>(
+      'GET',
+      `${INDEXER_PATH}/${circuit}/commitments/${encodeURIComponent(commitment)}`,
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[Indexer Client] Failed to look up commitment: ${errorMsg}`);
+    throw error;
+  }
+}
+
+/**
+ * Look up the leaf at a tree index
+ */
+export async function getLeafByIndexFromIndexer(
+  circuit: CircuitType,
+  index: number,
+): Promise<CircuitCommitment> {
+  try {
+    return await callIndexer<CircuitCommitment>(
+      'GET',
+      `${INDEXER_PATH}/${circuit}/leaves/${index}`,
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[Indexer Client] Failed to look up leaf: ${errorMsg}`);
+    throw error;
+  }
+}
+
+// Tree parameters are fixed for the lifetime of the indexer
+let treeConfigRequest: Promise<IndexerTreeConfig> | null = null;
+
+/**
+ * Tree parameters of the indexer's pool (fetched once, then cached)
+ */
+export async function getIndexerTreeConfig(): Promise<IndexerTreeConfig> {
+  treeConfigRequest ??= callIndexer<{ pool: string; tree: IndexerTreeConfig }>(
+    'GET',
+    `${INDEXER_PATH}/config`,
+  ).then(({ tree }) => tree);
+
+  try {
+    return await treeConfigRequest;
+  } catch (error) {
+    treeConfigRequest = null;
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[Indexer Client] Failed to get tree config: ${errorMsg}`);
+    throw error;
+  }
+}
+
 export async function getIndexerSyncStatus(): Promise<SyncStatus> {
   try {
-    return await callIndexer<SyncStatus>('GET', '/indexer/sync-status');
+    return await callIndexer<SyncStatus>('GET', `${INDEXER_PATH}/sync-status`);
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     console.error(`[Indexer Client] Failed to get sync status: ${errorMsg}`);
@@ -324,6 +835,67 @@ export async function getIndexerSyncStatus(): Promise<SyncStatus> {
   }
 }
 
+/**
+ * List the pools the indexer serves (not scoped to INDEXER_PATH)
+ */
+export async function getIndexerPools(): Promise<{
+  default: string;
+  pools: IndexerPoolSummary[];
+}> {
+  try {
+    return await callIndexer<{ default: string; pools: IndexerPoolSummary[] }>(
+      'GET',
+      '/pools',
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[Indexer Client] Failed to list pools: ${errorMsg}`);
+    throw error;
+  }
+}
+
+/**
+ * Check whether a note's nullifier was revealed on-chain (note spent)
+ *
+ * @param nullifier - Nullifier as hex (with or without 0x) or decimal string
+ */
+export async function getNullifierStatus(
+  nullifier: string,
+): Promise<NullifierStatus> {
+  try {
+    return await callIndexer<NullifierStatus>(
+      'GET',
+      `${INDEXER_PATH}/nullifiers/${nullifier}`,
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[Indexer Client] Failed to check nullifier: ${errorMsg}`);
+    throw error;
+  }
+}
+
+/**
+ * Check the spent state of several nullifiers at once (max 1000)
+ * Results are returned in request order.
+ */
+export async function checkNullifiers(
+  nullifiers: string[],
+): Promise<NullifierStatus[]> {
+  console.log(`[Indexer Client] Checking ${nullifiers.length} nullifiers`);
+
+  try {
+    const { results } = await callIndexer<{
+      results: NullifierStatus[];
+      spentCount: number;
+    }>('POST', `${INDEXER_PATH}/nullifiers/check`, { nullifiers });
+    return results;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[Indexer Client] Failed to check nullifiers: ${errorMsg}`);
+    throw error;
+  }
+}
+
 /**
  * Produce a diagnostic snapshot of the indexer state for debugging failures.
  */
@@ -344,7 +916,9 @@ export async function logIndexerDiagnostics(
     if (circuitCount === 0) {
       console.warn(`[Indexer Diagnostics] ${circuit} tree is empty (count=0).`);
     } else {
-      const commitments = await getCircuitCommitmentsFromIndexer(circuit);
+      const commitments = await getCircuitCommitmentsFromIndexer(circuit, {
+        limit: 10,
+      });
       console.info(
         `[Indexer Diagnostics] ${circuit} commitments (first 10):`,
         commitments.commitments.slice(0, 10),
@@ -2,8 +2,13 @@
 
 import { poseidonHash } from './crypto';
 import {
+  getIndexerTreeConfig,
+  getMerkleBucketFromIndexer,
   getMerkleProofFromIndexer,
+  getRootHistoryFromIndexer,
   logIndexerDiagnostics,
+  type IndexerTreeConfig,
+  type MerkleBucket,
   type MerkleProof,
 } from './indexerClient';
 
@@ -63,27 +68,67 @@ export async function computeNullifier(
  * Queries the indexer service for Merkle proofs of commitments
  * The indexer maintains Merkle trees for shield/transfer/unshield circuits
  *
+ * When the note's leaf index is known, only the bucket of leaves around it is
+ * downloaded and the path is computed here, so the indexer does not learn
+ * which commitment is about to be spent. Otherwise the indexer is asked for
+ * the path of the commitment itself.
+ *
  * @param commitment - The commitment hash to get proof for
  * @param circuit - Circuit type: 'shield' | 'transfer' | 'unshield' (default: 'unshield')
+ * @param options.preferPublishedRoot - Prove against the newest root that is
+ *   already published on-chain, falling back to the current root when the
+ *   note is newer than that root
+ * @param options.leafIndex - Index of the commitment in the tree, if known
+ * @param options.epoch - Tree epoch holding the commitment, if known
  * @returns Merkle proof with root, path, and pathPositions
  */
 export async function getMerkleProof(
   commitment: string,
   circuit: 'shield' | 'transfer' | 'unshield' = 'unshield',
+  options: {
+    preferPublishedRoot?: boolean;
+    leafIndex?: number;
+    epoch?: number;
+  } = {},
 ): Promise<{
   root: Buffer;
   rootHex: string;
   path: string[];
   pathPositions: string[];
+  rootPublished: boolean;
 }> {
   console.log(
     `[getMerkleProof] Querying indexer for ${circuit}: ${commitment.slice(0, 16)}...`,
   );
 
+  let proof: MerkleProof | null = null;
+  let rootPublished = false;
+
+  if (options.leafIndex !== undefined) {
+    const local = await getLocalMerkleProof(
+      circuit,
+      commitment,
+      options.leafIndex,
+      options.epoch,
+      options.preferPublishedRoot ?? false,
+    );
+    if (local) {
+      ({ proof, rootPublished } = local);
+    } else {
+      console.warn(
+        `[getMerkleProof] Falling back to a ${circuit} proof request, which reveals the commitment to the indexer`,
+      );
+    }
+  }
+
+  if (!proof && options.preferPublishedRoot) {
+    proof = await getProofAgainstPublishedRoot(circuit, commitment);
+    rootPublished = proof !== null;
+  }
+
   // Query the backend indexer service
-  let proof: MerkleProof;
   try {
-    proof = await getMerkleProofFromIndexer(circuit, commitment);
+    proof ??= await getMerkleProofFromIndexer(circuit, commitment);
   } catch (error) {
     console.error(
       `[getMerkleProof] Failed to fetch proof for ${circuit}:`,
@@ -104,14 +149,171 @@ export async function getMerkleProof(
     `[getMerkleProof] Got proof: root=${proof.root.slice(0, 16)}..., path_length=${proof.path.length}`,
   );
 
+  const treeConfig = await getIndexerTreeConfig();
+  if (proof.path.length !== treeConfig.pathLength) {
+    throw new Error(
+      `Merkle proof has ${proof.path.length} siblings but the indexer tree (depth ${treeConfig.depth}, arity ${treeConfig.arity}) needs ${treeConfig.pathLength}`,
+    );
+  }
+
   return {
     root: rootBuffer,
     rootHex: proof.root,
     path: normalizedPath,
     pathPositions: proof.pathPositions,
+    rootPublished,
+  };
+}
+
+/**
+ * Proof computed from the bucket holding the leaf, against the newest
+ * published root when asked for and the note is old enough, else the current
+ * root. Null when the bucket does not hold the commitment at that index.
+ */
+async function getLocalMerkleProof(
+  circuit: 'shield' | 'transfer' | 'unshield',
+  commitment: string,
+  leafIndex: number,
+  epoch: number | undefined,
+  preferPublishedRoot: boolean,
+): Promise<{ proof: MerkleProof; rootPublished: boolean } | null> {
+  try {
+    const treeConfig = await getIndexerTreeConfig();
+    const bucketNumber = Math.floor(leafIndex / treeConfig.bucketSize);
+
+    let bucket: MerkleBucket | null = null;
+    if (preferPublishedRoot) {
+      const history = await getRootHistoryFromIndexer(circuit);
+      const published = history.roots.find((entry) => entry.onChain);
+      if (published && leafIndex < published.leafCount) {
+        bucket = await getMerkleBucketFromIndexer(circuit, bucketNumber, {
+          root: published.root,
+          epoch,
+        });
+      }
+    }
+    const rootPublished = bucket !== null;
+    bucket ??= await getMerkleBucketFromIndexer(circuit, bucketNumber, {
+      epoch,
+    });
+
+    const proof = await computeProofFromBucket(
+      bucket,
+      commitment,
+      leafIndex,
+      treeConfig,
+    );
+    console.log(
+      `[getMerkleProof] Computed ${circuit} path from bucket ${bucket.bucket} (${bucket.leaves.length} leaves)`,
+    );
+    return { proof, rootPublished };
+  } catch (error) {
+    console.warn(
+      `[getMerkleProof] Could not compute the ${circuit} path locally:`,
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * Hash the bucket up to its root, collecting the siblings of the leaf, then
+ * continue with the siblings above the bucket and check the tree root
+ */
+async function computeProofFromBucket(
+  bucket: MerkleBucket,
+  commitment: string,
+  leafIndex: number,
+  treeConfig: IndexerTreeConfig,
+): Promise<MerkleProof> {
+  const { arity, zeroValues } = treeConfig;
+  const toField = (value: string) =>
+    BigInt(value.startsWith('0x') ? value : `0x${value}`);
+  const toHex = (value: bigint) => value.toString(16).padStart(64, '0');
+
+  let index = leafIndex - bucket.fromIndex;
+  const leaf = bucket.leaves[index];
+  if (leaf === undefined || toField(leaf) !== toField(commitment)) {
+    throw new Error(
+      `Leaf ${leafIndex} of epoch ${bucket.epoch} is not commitment ${commitment.slice(0, 16)}...`,
+    );
+  }
+
+  // Missing children are empty subtrees of the level's height
+  let nodes = bucket.leaves.map(toField);
+  const path: string[] = [];
+  const pathPositions: string[] = [];
+  for (let level = 0; level < bucket.height; level++) {
+    const zero = toField(zeroValues[level]!);
+    const first = index - (index % arity);
+    for (let child = first; child < first + arity; child++) {
+      if (child !== index) path.push(toHex(nodes[child] ?? zero));
+    }
+    pathPositions.push(String(index % arity));
+
+    const parents: bigint[] = [];
+    for (let start = 0; start < nodes.length; start += arity) {
+      const children = Array.from(
+        { length: arity },
+        (_, offset) => nodes[start + offset] ?? zero,
+      );
+      parents.push(await poseidonHash(children));
+    }
+    nodes = parents;
+    index = Math.floor(index / arity);
+  }
+
+  let node = nodes[0]!;
+  for (const [level, position] of bucket.pathPositions.entries()) {
+    const siblings = bucket.path
+      .slice(level * (arity - 1), (level + 1) * (arity - 1))
+      .map(toField);
+    siblings.splice(Number(position), 0, node);
+    node = await poseidonHash(siblings);
+  }
+  if (toHex(node) !== bucket.root) {
+    throw new Error(
+      `Bucket ${bucket.bucket} does not hash to root ${bucket.root.slice(0, 16)}...`,
+    );
+  }
+
+  return {
+    root: bucket.root,
+    path: [...path, ...bucket.path],
+    pathPositions: [...pathPositions, ...bucket.pathPositions],
+    leafIndex,
+    leafCount: bucket.leafCount,
+    epoch: bucket.epoch,
   };
 }
 
+/**
+ * Proof against the newest root the indexer has seen in the on-chain roots
+ * buffer, or null when there is none or the note is newer than that root
+ */
+async function getProofAgainstPublishedRoot(
+  circuit: 'shield' | 'transfer' | 'unshield',
+  commitment: string,
+): Promise<MerkleProof | null> {
+  try {
+    const history = await getRootHistoryFromIndexer(circuit);
+    const published = history.roots.find((entry) => entry.onChain);
+    if (!published) {
+      return null;
+    }
+
+    return await getMerkleProofFromIndexer(circuit, commitment, {
+      root: published.root,
+    });
+  } catch (error) {
+    console.warn(
+      `[getMerkleProof] No proof against a published ${circuit} root, using the current root:`,
+      error,
+    );
+    return null;
+  }
+}
+
 /**
  * Split a Solana address (32 bytes) into two 128-bit limbs for circuit input
  */
@@ -3,8 +3,8 @@
  * Professional async API communication with Zod validation
  */
 
-import { post } from './httpClient';
-import { PROOF_ENDPOINT } from './constants';
+import { ApiError, get, post } from './httpClient';
+import { PROOF_JOBS_ENDPOINT, PROOF_JOB_CONFIG } from './constants';
 import {
   ProofResponseSchema,
   type ProofResponse,
@@ -15,15 +15,59 @@ import {
 
 type ProofInput = ShieldInput | TransferInput | UnshieldInput;
 
+/**
+ * Proof job as returned by POST /proof/jobs and GET /proof/jobs/:id
+ */
+interface ProofJob {
+  id: string;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  position: number | null;
+  result: unknown;
+  error: {
+    statusCode: number;
+    errorCode: string;
+    message: string;
+    userMessage?: string;
+    details?: Record<string, string | number | boolean>;
+  } | null;
+}
+
 /**
  * Generate zero-knowledge proof via API with validation
+ * Queues a proof job and polls it, so slow proofs don't hit request timeouts
  */
 export async function generateProof(
   circuit: 'shield' | 'transfer' | 'unshield',
   input: ProofInput,
 ): Promise<ProofResponse> {
-  const response = await post<unknown>(PROOF_ENDPOINT, { circuit, input });
-  return ProofResponseSchema.parse(response);
+  let job = await post<ProofJob>(PROOF_JOBS_ENDPOINT, { circuit, input });
+  const deadline = Date.now() + PROOF_JOB_CONFIG.MAX_WAIT;
+
+  while (job.status === 'queued' || job.status === 'running') {
+    if (Date.now() > deadline) {
+      throw new ApiError(
+        `Proof job ${job.id} did not finish in time`,
+        undefined,
+        'PROOF_JOB_TIMEOUT',
+        'Proof generation is taking too long. Please try again.',
+      );
+    }
+    await new Promise((resolve) =>
+      setTimeout(resolve, PROOF_JOB_CONFIG.POLL_INTERVAL),
+    );
+    job = await get<ProofJob>(`${PROOF_JOBS_ENDPOINT}/${job.id}`);
+  }
+
+  if (job.status === 'failed') {
+    throw new ApiError(
+      job.error?.message || 'Proof generation failed',
+      job.error?.statusCode,
+      job.error?.errorCode,
+      job.error?.userMessage,
+      job.error?.details,
+    );
+  }
+  return ProofResponseSchema.parse(job.result);
 }
 
 /**
@@ -3,10 +3,7 @@
 
 import { Connection, PublicKey } from '@solana/web3.js';
 import { computeCommitment } from './crypto';
-
-const PROGRAM_ID = new PublicKey(
-  'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz',
-);
+import { PROGRAM_ID } from './constants';
 
 // Event discriminators for parsing logs
 const NEW_COMMITMENT_EVENT_DISCRIMINATOR = '4b55cb15';
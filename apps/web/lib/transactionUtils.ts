@@ -6,6 +6,9 @@ import {
   TransactionInstruction,
 } from '@solana/web3.js';
 import type { SignerWalletAdapter } from '@solana/wallet-adapter-base';
+import { PROGRAM_ID } from './constants';
+
+export { PROGRAM_ID };
 
 /**
  * Build, sign, and send a Solana transaction
@@ -125,10 +128,6 @@ export const executeTransaction = async (
  * Derive Program Derived Addresses
  * Centralized PDA derivation for consistency
  */
-export const PROGRAM_ID = new PublicKey(
-  'Hza5rjYmJnoYsjsgsuxLkyxLoWVo6RCUZxCB3x17v8qz',
-);
-
 export const derivePDAs = (programId: PublicKey = PROGRAM_ID) => {
   const [configPda] = PublicKey.findProgramAddressSync(
     [Buffer.from('config')],
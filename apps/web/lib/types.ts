@@ -38,6 +38,12 @@ export interface Note {
 
   /** Unique identifier for nullifier generation */
   noteId?: string;
+
+  /** Index of the commitment in the indexer's tree (once indexed) */
+  leafIndex?: number;
+
+  /** Tree epoch holding the commitment (once indexed) */
+  leafEpoch?: number;
 }
 
 /**
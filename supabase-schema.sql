@@ -623,6 +623,186 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- ============================================================================
+-- INDEXER STATE TABLES
+-- ============================================================================
+-- Durable storage for the API's Merkle tree indexer. The API appends every
+-- leaf and every computed root here and replays them on startup, so a
+-- restart restores the exact same tree and root.
+
+-- Leaves: one row per commitment, in insertion order
+CREATE TABLE IF NOT EXISTS indexer_leaves (
+  pool TEXT NOT NULL DEFAULT 'default',
+  tree TEXT NOT NULL,
+  epoch INTEGER NOT NULL DEFAULT 0,
+  leaf_index INTEGER NOT NULL,
+  commitment TEXT NOT NULL,
+  slot BIGINT,
+  signature TEXT,
+  block_time BIGINT,
+  source TEXT NOT NULL DEFAULT 'api' CHECK (source IN ('chain', 'api', 'sync')),
+  finality TEXT NOT NULL DEFAULT 'finalized' CHECK (finality IN ('processed', 'confirmed', 'finalized')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (pool, tree, epoch, leaf_index),
+  UNIQUE (pool, tree, commitment)
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_leaves_pending
+ON indexer_leaves(pool, tree, signature) WHERE finality <> 'finalized';
+
+-- Roots: history of roots computed by the indexer
+CREATE TABLE IF NOT EXISTS indexer_roots (
+  id BIGSERIAL PRIMARY KEY,
+  pool TEXT NOT NULL DEFAULT 'default',
+  tree TEXT NOT NULL,
+  epoch INTEGER NOT NULL DEFAULT 0,
+  root TEXT NOT NULL,
+  leaf_count INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (pool, tree, epoch, leaf_count)
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_roots_tree
+ON indexer_roots(pool, tree, epoch, leaf_count);
+
+-- Nullifiers: spent set revealed by transfer/unshield instructions
+CREATE TABLE IF NOT EXISTS indexer_nullifiers (
+  pool TEXT NOT NULL DEFAULT 'default',
+  nullifier TEXT NOT NULL,
+  circuit TEXT NOT NULL CHECK (circuit IN ('transfer', 'unshield')),
+  signature TEXT NOT NULL,
+  slot BIGINT NOT NULL,
+  finality TEXT NOT NULL DEFAULT 'confirmed' CHECK (finality IN ('processed', 'confirmed', 'finalized')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (pool, nullifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_nullifiers_signature
+ON indexer_nullifiers(pool, signature);
+
+-- Sync checkpoint: last program transaction applied from chain history
+CREATE TABLE IF NOT EXISTS indexer_sync_state (
+  pool TEXT NOT NULL DEFAULT 'default',
+  program_id TEXT NOT NULL,
+  last_slot BIGINT NOT NULL,
+  last_signature TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (pool, program_id)
+);
+
+-- On-chain root publication queue: survives restarts so queued roots are retried
+CREATE TABLE IF NOT EXISTS indexer_root_publications (
+  pool TEXT NOT NULL DEFAULT 'default',
+  root TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'publishing', 'published', 'failed', 'superseded', 'orphaned')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  signature TEXT,
+  error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (pool, root)
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_root_publications_updated
+ON indexer_root_publications(pool, updated_at DESC);
+
+-- Snapshot import staging: the API uploads a snapshot's rows here in pages,
+-- then apply_indexer_snapshot swaps them in; a failed upload leaves the
+-- indexer tables untouched
+CREATE TABLE IF NOT EXISTS indexer_snapshot_staging (
+  import_id TEXT NOT NULL,
+  pool TEXT NOT NULL,
+  target TEXT NOT NULL CHECK (target IN ('indexer_leaves', 'indexer_roots', 'indexer_nullifiers', 'indexer_root_publications')),
+  page INTEGER NOT NULL,
+  rows JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (import_id, target, page)
+);
+
+-- Replace a pool's indexer state with a staged import in one transaction
+CREATE OR REPLACE FUNCTION apply_indexer_snapshot(
+  p_import_id TEXT,
+  p_pool TEXT,
+  p_program_id TEXT,
+  p_checkpoint JSONB DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM indexer_roots WHERE pool = p_pool;
+  DELETE FROM indexer_leaves WHERE pool = p_pool;
+  DELETE FROM indexer_nullifiers WHERE pool = p_pool;
+  DELETE FROM indexer_root_publications WHERE pool = p_pool;
+  DELETE FROM indexer_sync_state WHERE pool = p_pool AND program_id = p_program_id;
+
+  INSERT INTO indexer_leaves (pool, tree, epoch, leaf_index, commitment, slot, signature, block_time, source, finality, created_at)
+  SELECT p_pool, r.tree, r.epoch, r.leaf_index, r.commitment, r.slot, r.signature, r.block_time, r.source, r.finality, r.created_at
+  FROM indexer_snapshot_staging s
+  CROSS JOIN LATERAL jsonb_populate_recordset(NULL::indexer_leaves, s.rows) r
+  WHERE s.import_id = p_import_id AND s.pool = p_pool AND s.target = 'indexer_leaves';
+
+  INSERT INTO indexer_roots (pool, tree, epoch, root, leaf_count, created_at)
+  SELECT p_pool, r.tree, r.epoch, r.root, r.leaf_count, r.created_at
+  FROM indexer_snapshot_staging s
+  CROSS JOIN LATERAL jsonb_populate_recordset(NULL::indexer_roots, s.rows) r
+  WHERE s.import_id = p_import_id AND s.pool = p_pool AND s.target = 'indexer_roots';
+
+  INSERT INTO indexer_nullifiers (pool, nullifier, circuit, signature, slot, finality, created_at)
+  SELECT p_pool, r.nullifier, r.circuit, r.signature, r.slot, r.finality, r.created_at
+  FROM indexer_snapshot_staging s
+  CROSS JOIN LATERAL jsonb_populate_recordset(NULL::indexer_nullifiers, s.rows) r
+  WHERE s.import_id = p_import_id AND s.pool = p_pool AND s.target = 'indexer_nullifiers';
+
+  INSERT INTO indexer_root_publications (pool, root, status, attempts, signature, error, next_attempt_at, created_at, updated_at)
+  SELECT p_pool, r.root, r.status, r.attempts, r.signature, r.error, r.next_attempt_at, r.created_at, r.updated_at
+  FROM indexer_snapshot_staging s
+  CROSS JOIN LATERAL jsonb_populate_recordset(NULL::indexer_root_publications, s.rows) r
+  WHERE s.import_id = p_import_id AND s.pool = p_pool AND s.target = 'indexer_root_publications';
+
+  IF p_checkpoint IS NOT NULL THEN
+    INSERT INTO indexer_sync_state (pool, program_id, last_slot, last_signature, updated_at)
+    VALUES (
+      p_pool,
+      p_program_id,
+      (p_checkpoint->>'last_slot')::BIGINT,
+      p_checkpoint->>'last_signature',
+      (p_checkpoint->>'updated_at')::TIMESTAMP WITH TIME ZONE
+    );
+  END IF;
+
+  DELETE FROM indexer_snapshot_staging WHERE import_id = p_import_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE indexer_leaves IS 'Merkle tree leaves (commitments) maintained by the API indexer';
+COMMENT ON COLUMN indexer_leaves.pool IS 'Key of the pool (program deployment) the tree belongs to - every indexer table is partitioned by it';
+COMMENT ON COLUMN indexer_leaves.epoch IS 'Tree epoch - a new epoch starts with an empty tree once the previous one is full';
+COMMENT ON COLUMN indexer_leaves.leaf_index IS 'Index of the leaf within its epoch';
+COMMENT ON COLUMN indexer_leaves.commitment IS 'Commitment as a decimal field element string (unique per tree across epochs)';
+COMMENT ON COLUMN indexer_leaves.slot IS 'Slot of the transaction that emitted the commitment (NULL when added through the API)';
+COMMENT ON COLUMN indexer_leaves.block_time IS 'Unix block time of the transaction (NULL when unknown or added through the API)';
+COMMENT ON COLUMN indexer_leaves.source IS 'How the leaf was inserted: chain (program events), api (POST commit) or sync (manual sync)';
+COMMENT ON COLUMN indexer_leaves.finality IS 'Confirmation level reached by the transaction - non-finalized leaves can be rolled back';
+COMMENT ON TABLE indexer_roots IS 'Root history of the API indexer trees';
+COMMENT ON COLUMN indexer_roots.root IS 'Root as 64-char hex string';
+COMMENT ON COLUMN indexer_roots.leaf_count IS 'Tree size the root was computed for';
+COMMENT ON TABLE indexer_nullifiers IS 'Nullifiers revealed on-chain - a note is spent once its nullifier is here';
+COMMENT ON COLUMN indexer_nullifiers.nullifier IS 'Nullifier as 64-char hex string';
+COMMENT ON TABLE indexer_sync_state IS 'Backfill checkpoint per pool and program - where the next chain scan resumes';
+COMMENT ON TABLE indexer_root_publications IS 'Queue of roots to publish to the on-chain roots buffer, with retry state';
+COMMENT ON COLUMN indexer_root_publications.status IS 'queued, publishing, published, failed, superseded (a newer root was sent instead) or orphaned';
+COMMENT ON COLUMN indexer_root_publications.next_attempt_at IS 'Earliest time of the next attempt while queued (retry backoff)';
+COMMENT ON TABLE indexer_snapshot_staging IS 'Rows of a snapshot import until apply_indexer_snapshot swaps them into the indexer tables';
+COMMENT ON COLUMN indexer_snapshot_staging.rows IS 'One page of rows bound for the target table';
+
+-- Only the API (service role key) touches these tables - no public policies
+ALTER TABLE indexer_leaves ENABLE ROW LEVEL SECURITY;
+ALTER TABLE indexer_roots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE indexer_nullifiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE indexer_sync_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE indexer_root_publications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE indexer_snapshot_staging ENABLE ROW LEVEL SECURITY;
+
 -- ============================================================================
 -- End of Schema
 -- ============================================================================